@@ -0,0 +1,159 @@
+// app/api/applications/[applicationId]/messages/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Message from '@/lib/models/message';
+import {
+  formatMessage,
+  getMessageThread,
+  markThreadRead,
+  notifyNewMessage,
+  sanitizeMessageBody,
+  type ThreadParticipant,
+} from '@/lib/messages';
+import mongoose from 'mongoose';
+
+const MAX_THREAD_MESSAGES = 200;
+
+// Verifies the auth cookie and returns the current user, or an error response
+function authenticateParticipant(req: NextRequest): { user: ThreadParticipant } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  if (decoded.role !== 'job-seeker' && decoded.role !== 'employer') {
+    return { error: NextResponse.json({ message: 'Access denied.' }, { status: 403 }) };
+  }
+
+  return { user: { id: new mongoose.Types.ObjectId(decoded.userId.toString()), role: decoded.role } };
+}
+
+// GET - The application's message thread, oldest first (the latest 200 messages)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const auth = authenticateParticipant(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    const access = await getMessageThread(params.applicationId, auth.user);
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+    const { thread } = access;
+
+    const messages = await Message.find({ applicationId: thread.applicationId })
+      .sort({ createdAt: -1 })
+      .limit(MAX_THREAD_MESSAGES)
+      .lean<any[]>();
+
+    const unreadCount = messages.filter((message) => message.senderRole !== auth.user.role && !message.readAt).length;
+
+    return NextResponse.json(
+      {
+        thread: {
+          applicationId: thread.applicationId.toString(),
+          jobTitle: thread.jobTitle,
+          company: thread.company,
+          applicantName: thread.applicantName,
+        },
+        messages: messages.reverse().map((message) => formatMessage(message, auth.user.role)),
+        unreadCount,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error fetching messages:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching messages.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Send a message in the application's thread. Body: { body }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const auth = authenticateParticipant(req);
+    if ('error' in auth) return auth.error;
+
+    const data = await req.json();
+    const { body, error } = sanitizeMessageBody(data.body);
+    if (!body) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const access = await getMessageThread(params.applicationId, auth.user, 'manage_applicants');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+    const { thread } = access;
+
+    const message = await Message.create({
+      applicationId: thread.applicationId,
+      senderId: auth.user.id,
+      senderRole: auth.user.role,
+      body,
+    });
+
+    console.log('💬 Message sent:', {
+      applicationId: thread.applicationId.toString(),
+      senderRole: auth.user.role,
+      length: body.length,
+    });
+
+    await notifyNewMessage(thread, auth.user.role, body);
+
+    return NextResponse.json({ message: formatMessage(message, auth.user.role) }, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error sending message:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while sending message.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Mark the other party's messages in the thread as read
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const auth = authenticateParticipant(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    const access = await getMessageThread(params.applicationId, auth.user);
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    const updated = await markThreadRead(access.thread, auth.user);
+
+    return NextResponse.json({ message: 'Messages marked as read.', updated, unreadCount: 0 }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error marking messages as read:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while updating messages.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
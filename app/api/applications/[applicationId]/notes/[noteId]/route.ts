@@ -0,0 +1,70 @@
+// app/api/applications/[applicationId]/notes/[noteId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import ApplicationNote from '@/lib/models/application-note';
+import { getEmployerApplication } from '@/lib/scorecards';
+import { requireOrganizationPermission } from '@/lib/organizations';
+import mongoose from 'mongoose';
+
+// DELETE - Delete one of your own notes about an applicant
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { applicationId: string; noteId: string } }
+) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    if (decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied. Employer access only.' }, { status: 403 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.applicationId) || !mongoose.Types.ObjectId.isValid(params.noteId)) {
+      return NextResponse.json({ message: 'Invalid note ID.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const employerId = new mongoose.Types.ObjectId(decoded.userId.toString());
+    const member = await requireOrganizationPermission(employerId, 'manage_applicants');
+    if ('error' in member) {
+      return NextResponse.json({ message: member.error }, { status: member.status });
+    }
+
+    const access = await getEmployerApplication(params.applicationId, member.membership);
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    // Only the author can delete a note
+    const result = await ApplicationNote.deleteOne({
+      _id: params.noteId,
+      applicationId: access.application._id,
+      authorId: employerId,
+    });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ message: 'Note not found.' }, { status: 404 });
+    }
+
+    console.log('🗑️ Note deleted:', { applicationId: params.applicationId, noteId: params.noteId });
+
+    return NextResponse.json({ message: 'Note deleted.' }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error deleting note:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while deleting note.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
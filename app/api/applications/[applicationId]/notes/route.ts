@@ -0,0 +1,113 @@
+// app/api/applications/[applicationId]/notes/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import ApplicationNote, { MAX_NOTE_LENGTH } from '@/lib/models/application-note';
+import { formatNote, getEmployerApplication, getReviewerName } from '@/lib/scorecards';
+import { requireOrganizationPermission } from '@/lib/organizations';
+import mongoose from 'mongoose';
+
+// Verifies the auth cookie and returns the employer's id, or an error response
+function authenticateEmployer(req: NextRequest): { employerId: mongoose.Types.ObjectId } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  // Notes are private to the employer; job seekers never see them
+  if (decoded.role !== 'employer') {
+    return { error: NextResponse.json({ message: 'Access denied. Employer access only.' }, { status: 403 }) };
+  }
+
+  return { employerId: new mongoose.Types.ObjectId(decoded.userId.toString()) };
+}
+
+// GET - Private notes about this applicant, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const auth = authenticateEmployer(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    const member = await requireOrganizationPermission(auth.employerId, 'view');
+    if ('error' in member) {
+      return NextResponse.json({ message: member.error }, { status: member.status });
+    }
+
+    const access = await getEmployerApplication(params.applicationId, member.membership);
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    const notes = await ApplicationNote.find({ applicationId: access.application._id }).sort({ createdAt: -1 }).lean<any[]>();
+
+    return NextResponse.json({ notes: notes.map((note) => formatNote(note, auth.employerId)) }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error fetching notes:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching notes.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a private note about this applicant. Body: { body }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const auth = authenticateEmployer(req);
+    if ('error' in auth) return auth.error;
+
+    const data = await req.json();
+    const body = typeof data.body === 'string' ? data.body.trim() : '';
+    if (!body) {
+      return NextResponse.json({ message: 'Note cannot be empty.' }, { status: 400 });
+    }
+    if (body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json({ message: `Notes can be at most ${MAX_NOTE_LENGTH} characters.` }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const member = await requireOrganizationPermission(auth.employerId, 'manage_applicants');
+    if ('error' in member) {
+      return NextResponse.json({ message: member.error }, { status: member.status });
+    }
+
+    const access = await getEmployerApplication(params.applicationId, member.membership);
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    const note = await ApplicationNote.create({
+      applicationId: access.application._id,
+      jobId: access.job._id,
+      authorId: auth.employerId,
+      authorName: await getReviewerName(auth.employerId, access.job.company),
+      body,
+    });
+
+    console.log('📝 Note added:', { applicationId: params.applicationId, noteId: note._id.toString() });
+
+    return NextResponse.json({ note: formatNote(note, auth.employerId) }, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error adding note:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while adding note.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -6,9 +6,17 @@ import dbConnect from '@/lib/mongodb';
 import Application from '@/lib/models/application';
 import Job from '@/lib/models/job';
 import JobSeeker from '@/lib/models/jobseeker';
+import Employer from '@/lib/models/employer';
+import { buildApplicationEvents, formatApplicationHistory } from '@/lib/application-history';
+import { getNextStatuses, getReopenStatus, isApplicationStatus, validateStatusTransition } from '@/lib/application-status';
+import { createNotification, emailApplicationStatusChange } from '@/lib/notifications';
+import { cancelActiveInterview } from '@/lib/interviews';
+import { getEmployerDisplayName, jobBelongsToOrganization, requireOrganizationPermission } from '@/lib/organizations';
 import mongoose from 'mongoose';
 
-// PATCH - Update application status or rating
+// PATCH - Update application status or rating. Every change is recorded in the application's history.
+// Status changes must follow the pipeline rules in lib/application-status.ts; send { reopen: true }
+// to bring a rejected candidate back to the stage they were rejected from.
 export async function PATCH(
   req: NextRequest,
   { params }: { params: { applicationId: string } }
@@ -31,7 +39,7 @@ export async function PATCH(
     }
 
     const data = await req.json();
-    const { status, rating } = data;
+    const { status, rating, reopen } = data;
 
     await dbConnect();
 
@@ -40,47 +48,79 @@ export async function PATCH(
       ? new mongoose.Types.ObjectId(decoded.userId) 
       : decoded.userId;
 
+    const access = await requireOrganizationPermission(employerIdObjectId, 'manage_applicants');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
     // Find application and verify job ownership
     const application = await Application.findById(applicationIdObjectId);
     if (!application) {
       return NextResponse.json({ message: 'Application not found.' }, { status: 404 });
     }
 
-    // Verify the employer owns the job
+    // Verify the job belongs to the employer's organization
     const job = await Job.findById(application.jobId);
     if (!job) {
       return NextResponse.json({ message: 'Job not found.' }, { status: 404 });
     }
 
-    if (job.employerId.toString() !== employerIdObjectId.toString()) {
-      return NextResponse.json({ message: 'Access denied. You can only update applications for your own jobs.' }, { status: 403 });
+    if (!jobBelongsToOrganization(job, access.membership)) {
+      return NextResponse.json({ message: 'Access denied. You can only update applications for jobs in your organization.' }, { status: 403 });
     }
 
     // Update application
     const updateFields: any = {};
-    if (status && ['Pending', 'Reviewed', 'Shortlisted', 'Interviewed', 'Selected', 'Rejected'].includes(status)) {
+    if (reopen) {
+      if (application.status !== 'Rejected') {
+        return NextResponse.json({ message: 'Only rejected applications can be reopened.' }, { status: 400 });
+      }
+      updateFields.status = getReopenStatus(application.history || []);
+    } else if (status !== undefined) {
+      if (!isApplicationStatus(status)) {
+        return NextResponse.json({ message: `Invalid status "${status}".` }, { status: 400 });
+      }
+      const transitionError = validateStatusTransition(application.status, status);
+      if (transitionError) {
+        return NextResponse.json(
+          { message: transitionError, allowedStatuses: getNextStatuses(application.status) },
+          { status: 400 }
+        );
+      }
       updateFields.status = status;
     }
     if (rating !== undefined && rating >= 0 && rating <= 5) {
       updateFields.rating = rating;
     }
 
-    const updatedApplication = await Application.findByIdAndUpdate(
-      applicationIdObjectId,
-      { $set: updateFields },
+    // Record who changed what, named as the team member who made the change
+    const employer = await Employer.findById(employerIdObjectId).select('firstName lastName name').lean<any>();
+    const events = buildApplicationEvents(application, { ...updateFields, reopen: Boolean(reopen) }, {
+      id: employerIdObjectId,
+      role: 'employer',
+      name: getEmployerDisplayName(employer, job.company),
+    });
+
+    // The transition was checked against the status read above; don't apply it if that has changed since
+    const updatedApplication = await Application.findOneAndUpdate(
+      { _id: applicationIdObjectId, status: application.status },
+      {
+        $set: updateFields,
+        ...(events.length > 0 ? { $push: { history: { $each: events } } } : {}),
+      },
       { new: true }
     );
 
     if (!updatedApplication) {
-      return NextResponse.json({ message: 'Failed to update application.' }, { status: 500 });
+      return NextResponse.json({ message: 'This application was updated by someone else. Please refresh and try again.' }, { status: 409 });
     }
 
     // Also update the status/rating in jobseeker's appliedJobs array
     const jobSeekerIdObjectId = updatedApplication.jobSeekerId;
     const updateAppliedJobs: any = {};
     
-    if (status && ['Pending', 'Reviewed', 'Shortlisted', 'Interviewed', 'Selected', 'Rejected'].includes(status)) {
-      updateAppliedJobs['appliedJobs.$.status'] = status;
+    if (updateFields.status) {
+      updateAppliedJobs['appliedJobs.$.status'] = updateFields.status;
     }
     if (rating !== undefined && rating >= 0 && rating <= 5) {
       updateAppliedJobs['appliedJobs.$.rating'] = rating;
@@ -96,6 +136,30 @@ export async function PATCH(
       );
     }
 
+    // Notify the applicant when their application moves to a new status
+    if (updateFields.status && updateFields.status !== application.status) {
+      await createNotification({
+        recipientId: jobSeekerIdObjectId,
+        recipientRole: 'job-seeker',
+        type: 'application_status_changed',
+        title: 'Application update',
+        message: `Your application for ${job.title} at ${job.company} is now ${updateFields.status}.`,
+        link: '/job-seeker/applications',
+        jobId: job._id,
+        applicationId: updatedApplication._id,
+      });
+      await emailApplicationStatusChange(jobSeekerIdObjectId, {
+        jobTitle: job.title,
+        company: job.company,
+        status: updateFields.status,
+      });
+    }
+
+    // Rejecting a candidate or moving them back before the interview stage calls off their interview
+    if (updateFields.status && ['Reviewed', 'Shortlisted', 'Rejected'].includes(updateFields.status)) {
+      await cancelActiveInterview(applicationIdObjectId, 'employer', '');
+    }
+
     const formattedApplication = {
       id: updatedApplication._id.toString(),
       jobId: updatedApplication.jobId.toString(),
@@ -107,6 +171,7 @@ export async function PATCH(
       resume: updatedApplication.resume || undefined,
       coverLetter: updatedApplication.coverLetter || undefined,
       rating: updatedApplication.rating,
+      history: formatApplicationHistory(updatedApplication, 'employer'),
     };
 
     return NextResponse.json(formattedApplication, { status: 200 });
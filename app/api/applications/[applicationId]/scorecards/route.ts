@@ -0,0 +1,133 @@
+// app/api/applications/[applicationId]/scorecards/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Scorecard from '@/lib/models/scorecard';
+import { resolveEvaluationCriteria, sanitizeScorecard, summarizeScorecards } from '@/lib/evaluation';
+import { formatScorecard, getEmployerApplication, getReviewerName } from '@/lib/scorecards';
+import { requireOrganizationPermission } from '@/lib/organizations';
+import mongoose from 'mongoose';
+
+// Verifies the auth cookie and returns the employer's id, or an error response
+function authenticateEmployer(req: NextRequest): { employerId: mongoose.Types.ObjectId } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  // Scorecards are the employer's private evaluation; job seekers never see them
+  if (decoded.role !== 'employer') {
+    return { error: NextResponse.json({ message: 'Access denied. Employer access only.' }, { status: 403 }) };
+  }
+
+  return { employerId: new mongoose.Types.ObjectId(decoded.userId.toString()) };
+}
+
+// GET - The job's criteria, every reviewer's scorecard for this applicant and the aggregate scores
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const auth = authenticateEmployer(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    const member = await requireOrganizationPermission(auth.employerId, 'view');
+    if ('error' in member) {
+      return NextResponse.json({ message: member.error }, { status: member.status });
+    }
+
+    const access = await getEmployerApplication(params.applicationId, member.membership);
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    const criteria = resolveEvaluationCriteria(access.job.evaluationCriteria);
+    const scorecards = await Scorecard.find({ applicationId: access.application._id }).sort({ updatedAt: -1 }).lean<any[]>();
+
+    return NextResponse.json(
+      {
+        criteria,
+        scorecards: scorecards.map((scorecard) => formatScorecard(scorecard, auth.employerId)),
+        summary: summarizeScorecards(scorecards, criteria),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error fetching scorecards:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching scorecards.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Save the current reviewer's scorecard for this applicant.
+// Body: { ratings: [{ criterion, score (1-5), comment? }], comment? } - every criterion must be scored
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { applicationId: string } }
+) {
+  try {
+    const auth = authenticateEmployer(req);
+    if ('error' in auth) return auth.error;
+
+    const data = await req.json();
+
+    await dbConnect();
+
+    const member = await requireOrganizationPermission(auth.employerId, 'manage_applicants');
+    if ('error' in member) {
+      return NextResponse.json({ message: member.error }, { status: member.status });
+    }
+
+    const access = await getEmployerApplication(params.applicationId, member.membership);
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    const criteria = resolveEvaluationCriteria(access.job.evaluationCriteria);
+    const { ratings, comment, error } = sanitizeScorecard(data, criteria);
+    if (!ratings) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    const reviewerName = await getReviewerName(auth.employerId, access.job.company);
+    await Scorecard.findOneAndUpdate(
+      { applicationId: access.application._id, reviewerId: auth.employerId },
+      {
+        $set: { ratings, comment, reviewerName },
+        $setOnInsert: { jobId: access.job._id },
+      },
+      { upsert: true, new: true }
+    );
+
+    console.log('📋 Scorecard saved:', { applicationId: params.applicationId, reviewerId: auth.employerId.toString() });
+
+    const scorecards = await Scorecard.find({ applicationId: access.application._id }).sort({ updatedAt: -1 }).lean<any[]>();
+
+    return NextResponse.json(
+      {
+        criteria,
+        scorecards: scorecards.map((scorecard) => formatScorecard(scorecard, auth.employerId)),
+        summary: summarizeScorecards(scorecards, criteria),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error saving scorecard:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while saving scorecard.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
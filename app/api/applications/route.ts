@@ -6,9 +6,22 @@ import dbConnect from '@/lib/mongodb';
 import Application from '@/lib/models/application';
 import Job from '@/lib/models/job';
 import JobSeeker from '@/lib/models/jobseeker';
+import StoredFile from '@/lib/models/stored-file';
+import { closeExpiredJobs } from '@/lib/job-lifecycle';
+import { createNotifications, emailNewApplicant } from '@/lib/notifications';
+import { computeJobMatch } from '@/lib/job-match';
+import { formatParsedResume, resumeDownloadUrl } from '@/lib/resume-files';
+import { appliedEvent, formatApplicationHistory } from '@/lib/application-history';
+import { getLatestInterviews } from '@/lib/interviews';
+import { countUnreadMessages } from '@/lib/messages';
+import { getApplicantEvaluations } from '@/lib/scorecards';
+import { getJobTeamRecipients, jobBelongsToOrganization, requireOrganizationPermission } from '@/lib/organizations';
+import { formatScreeningAnswers, sanitizeScreeningAnswers } from '@/lib/screening';
 import mongoose from 'mongoose';
 
-// POST - Apply to a job
+// POST - Apply to a job. screeningAnswers maps the job's screening question keys to answers (a file
+// question's answer is the id of a file uploaded with purpose=screening_answer). An answer that fails a
+// knockout question rejects the application straight away.
 export async function POST(req: NextRequest) {
   try {
     const token = req.cookies.get('auth_token')?.value;
@@ -28,13 +41,13 @@ export async function POST(req: NextRequest) {
     }
 
     const data = await req.json();
-    const { jobId, coverLetter, resume } = data;
+    const { jobId, coverLetter, resume, resumeFileId, resumeId, screeningAnswers } = data;
 
     console.log('📥 Received application request:', {
       jobId,
       jobIdType: typeof jobId,
       hasCoverLetter: !!coverLetter,
-      hasResume: !!resume,
+      hasResume: !!(resume || resumeFileId || resumeId),
     });
 
     if (!jobId) {
@@ -83,7 +96,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Verify job exists and is active
-    const job = await Job.findById(jobIdObjectId).lean();
+    const job = await Job.findById(jobIdObjectId).lean<any>();
     if (!job) {
       return NextResponse.json({ message: 'Job not found.' }, { status: 404 });
     }
@@ -97,12 +110,82 @@ export async function POST(req: NextRequest) {
       const deadlineDate = new Date(job.deadline);
       const now = new Date();
       if (now > deadlineDate) {
-        // Auto-close the job
-        await Job.findByIdAndUpdate(jobIdObjectId, { status: 'Closed' });
+        // Auto-close the job (and any other expired jobs), notifying their employers
+        await closeExpiredJobs();
         return NextResponse.json({ message: 'Application deadline has passed.' }, { status: 400 });
       }
     }
 
+    // Resolve the resume reference. Files are uploaded through POST /api/files first and
+    // only their id is stored here; inline base64 resumes are no longer accepted.
+    // The chosen resume is snapshotted so later library edits don't change what the employer received.
+    let resumeReference = '';
+    let resumeFileObjectId: mongoose.Types.ObjectId | null = null;
+    let resumeSnapshot: { resumeId: mongoose.Types.ObjectId | null; name: string; fileName: string } | undefined;
+    let parsedResume: unknown;
+    if (resumeId) {
+      // A resume picked from the job seeker's library
+      if (typeof resumeId !== 'string' || !mongoose.Types.ObjectId.isValid(resumeId)) {
+        return NextResponse.json({ message: 'Invalid resume ID.' }, { status: 400 });
+      }
+      const owner = await JobSeeker.findOne(
+        { _id: jobSeekerIdObjectId, 'resumes._id': new mongoose.Types.ObjectId(resumeId) },
+        { 'resumes.$': 1 }
+      ).lean<{ resumes: any[] }>();
+      const libraryResume = owner?.resumes?.[0];
+      if (!libraryResume) {
+        return NextResponse.json({ message: 'Resume not found in your library.' }, { status: 400 });
+      }
+      resumeFileObjectId = libraryResume.fileId;
+      resumeReference = resumeDownloadUrl(libraryResume.fileId.toString());
+      resumeSnapshot = { resumeId: libraryResume._id, name: libraryResume.name, fileName: libraryResume.fileName };
+      parsedResume = libraryResume.parsed;
+    } else if (resumeFileId) {
+      if (typeof resumeFileId !== 'string' || !mongoose.Types.ObjectId.isValid(resumeFileId)) {
+        return NextResponse.json({ message: 'Invalid resume file ID.' }, { status: 400 });
+      }
+      const resumeFile = await StoredFile.findOne({
+        _id: new mongoose.Types.ObjectId(resumeFileId),
+        ownerId: jobSeekerIdObjectId,
+        purpose: 'resume',
+      }).select('_id originalName parsed').lean<{ _id: mongoose.Types.ObjectId; originalName: string; parsed?: unknown }>();
+      if (!resumeFile) {
+        return NextResponse.json({ message: 'Resume file not found. Please upload it again.' }, { status: 400 });
+      }
+      resumeFileObjectId = resumeFile._id;
+      resumeReference = resumeDownloadUrl(resumeFile._id.toString());
+      resumeSnapshot = { resumeId: null, name: resumeFile.originalName, fileName: resumeFile.originalName };
+      parsedResume = resumeFile.parsed;
+    } else if (typeof resume === 'string' && resume.trim()) {
+      // A link to a resume hosted elsewhere is still allowed
+      if (!/^https?:\/\//i.test(resume.trim())) {
+        return NextResponse.json({ message: 'Please upload your resume as a PDF, DOC or DOCX file.' }, { status: 400 });
+      }
+      resumeReference = resume.trim();
+    }
+
+    // Answers to the job's screening questions, with files checked to be the applicant's own uploads
+    const { answers, error: screeningError } = sanitizeScreeningAnswers(screeningAnswers, job.screeningQuestions || []);
+    if (!answers) {
+      return NextResponse.json({ message: screeningError }, { status: 400 });
+    }
+    const fileAnswerIds = answers.filter((answer) => answer.fileId).map((answer) => new mongoose.Types.ObjectId(answer.fileId));
+    const answerFiles = fileAnswerIds.length > 0
+      ? await StoredFile.find({ _id: { $in: fileAnswerIds }, ownerId: jobSeekerIdObjectId, purpose: 'screening_answer' })
+          .select('_id originalName')
+          .lean<{ _id: mongoose.Types.ObjectId; originalName: string }[]>()
+      : [];
+    const answerFileNames = new Map(answerFiles.map((file) => [file._id.toString(), file.originalName]));
+    if (answerFiles.length !== new Set(fileAnswerIds.map((id) => id.toString())).size) {
+      return NextResponse.json({ message: 'An uploaded file was not found. Please upload it again.' }, { status: 400 });
+    }
+    const storedAnswers = answers.map((answer) => ({
+      ...answer,
+      fileId: answer.fileId ? new mongoose.Types.ObjectId(answer.fileId) : undefined,
+      fileName: answer.fileId ? answerFileNames.get(answer.fileId) : undefined,
+    }));
+    const knockedOut = answers.some((answer) => answer.knockedOut);
+
     // Check if already applied (both in Application collection and jobseeker's appliedJobs)
     const existingApplication = await Application.findOne({
       jobId: jobIdObjectId,
@@ -135,16 +218,35 @@ export async function POST(req: NextRequest) {
     }
 
     // Create application
+    const applicantName = `${jobSeeker.firstName} ${jobSeeker.lastName}`.trim();
+    const appliedDate = new Date();
+    const history = [appliedEvent({ id: jobSeekerIdObjectId, role: 'job-seeker', name: applicantName }, appliedDate)];
+    if (knockedOut) {
+      history.push({
+        type: 'status_changed',
+        fromStatus: 'Pending',
+        toStatus: 'Rejected',
+        actorRole: 'system',
+        actorName: 'Screening questions',
+        createdAt: appliedDate,
+      });
+    }
+    const status = knockedOut ? 'Rejected' as const : 'Pending' as const;
     const applicationData = {
       jobId: jobIdObjectId,
       jobSeekerId: jobSeekerIdObjectId,
-      applicantName: `${jobSeeker.firstName} ${jobSeeker.lastName}`.trim(),
+      applicantName,
       applicantEmail: (jobSeeker.email || '').trim() || `${jobSeeker.username}@email.com`, // Fallback if no email
-      status: 'Pending' as const,
+      status,
       coverLetter: (coverLetter || '').trim(),
-      resume: (resume || '').trim(),
+      resume: resumeReference,
+      resumeFileId: resumeFileObjectId,
+      resumeSnapshot,
+      parsedResume,
+      screeningAnswers: storedAnswers,
       rating: 0,
-      appliedDate: new Date(),
+      history,
+      appliedDate,
     };
 
     console.log('📝 Creating application with data:', {
@@ -154,6 +256,8 @@ export async function POST(req: NextRequest) {
       applicantEmail: applicationData.applicantEmail,
       hasCoverLetter: !!applicationData.coverLetter,
       hasResume: !!applicationData.resume,
+      screeningAnswers: storedAnswers.length,
+      knockedOut,
     });
 
     const application = await Application.create(applicationData);
@@ -172,10 +276,11 @@ export async function POST(req: NextRequest) {
       jobTitle: job.title,
       company: job.company,
       location: job.location,
-      status: 'Pending' as const,
+      status,
       appliedDate: new Date(),
       coverLetter: (coverLetter || '').trim(),
-      resume: (resume || '').trim(),
+      resume: resumeReference,
+      resumeFileId: resumeFileObjectId,
       rating: 0,
     };
 
@@ -249,6 +354,31 @@ export async function POST(req: NextRequest) {
       // but log the error so we can debug
     }
 
+    // Let everyone on the team who manages applicants know about the new applicant
+    const recipientIds = await getJobTeamRecipients(job, 'manage_applicants');
+    await createNotifications(
+      recipientIds.map((recipientId) => ({
+        recipientId,
+        recipientRole: 'employer' as const,
+        type: 'application_received' as const,
+        title: 'New application',
+        message: knockedOut
+          ? `${application.applicantName} applied to ${job.title} and was rejected by a knockout question.`
+          : `${application.applicantName} applied to ${job.title}.`,
+        link: '/employer',
+        jobId: jobIdObjectId,
+        applicationId: application._id,
+      }))
+    );
+    await Promise.all(
+      recipientIds.map((recipientId) =>
+        emailNewApplicant(recipientId, {
+          jobTitle: job.title,
+          applicantName: application.applicantName,
+        })
+      )
+    );
+
     console.log('✅ Successfully created application:', {
       applicationId: application._id.toString(),
       jobId: jobId,
@@ -269,8 +399,10 @@ export async function POST(req: NextRequest) {
       status: application.status,
       appliedDate: application.appliedDate ? new Date(application.appliedDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
       resume: application.resume || undefined,
+      resumeName: application.resumeSnapshot?.name || undefined,
       coverLetter: application.coverLetter || undefined,
       rating: application.rating,
+      history: formatApplicationHistory(application, 'job-seeker'),
     };
 
     return NextResponse.json(formattedApplication, { status: 201 });
@@ -304,7 +436,7 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// GET - Get applications for a job (employer only)
+// GET - Get applications for a job (employer only). Each applicant carries a match score against the job.
 export async function GET(req: NextRequest) {
   try {
     const token = req.cookies.get('auth_token')?.value;
@@ -318,6 +450,11 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
     }
 
+    // Only employers list a job's applicants; job seekers see their own applications elsewhere
+    if (decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied. Only employers can view applicants.' }, { status: 403 });
+    }
+
     const { searchParams } = new URL(req.url);
     const jobId = searchParams.get('jobId');
 
@@ -335,15 +472,18 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ message: 'Job not found.' }, { status: 404 });
     }
 
-    // If employer, verify ownership
-    if (decoded.role === 'employer') {
-      const employerIdObjectId = typeof decoded.userId === 'string' 
-        ? new mongoose.Types.ObjectId(decoded.userId) 
-        : decoded.userId;
+    // Verify the job belongs to the employer's organization
+    const employerIdObjectId = typeof decoded.userId === 'string' 
+      ? new mongoose.Types.ObjectId(decoded.userId) 
+      : decoded.userId;
 
-      if (job.employerId.toString() !== employerIdObjectId.toString()) {
-        return NextResponse.json({ message: 'Access denied. You can only view applications for your own jobs.' }, { status: 403 });
-      }
+    const access = await requireOrganizationPermission(employerIdObjectId, 'view');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    if (!jobBelongsToOrganization(job, access.membership)) {
+      return NextResponse.json({ message: 'Access denied. You can only view applications for jobs in your organization.' }, { status: 403 });
     }
 
     // Get all applications for this job (employer view)
@@ -353,6 +493,14 @@ export async function GET(req: NextRequest) {
 
     console.log(`📋 Found ${applications.length} applications for job ${jobId}`);
 
+    const applicationIds = applications.map((app: any) => app._id);
+    const [interviews, unreadMessages, evaluations] = await Promise.all([
+      getLatestInterviews(applicationIds),
+      countUnreadMessages(applicationIds, 'employer'),
+      // Scorecards and notes are private to the employer
+      getApplicantEvaluations(job, applicationIds),
+    ]);
+
     // Fetch job seeker details for each applicant (skills, bio, salary expectations)
     const formattedApplications = await Promise.all(
       applications.map(async (app: any) => {
@@ -369,8 +517,8 @@ export async function GET(req: NextRequest) {
           // Fetch job seeker profile details
           const jobSeekerId = app.jobSeekerId.toString();
           const jobSeeker = await JobSeeker.findById(jobSeekerId)
-            .select('skills bio salaryExpectation title location photo')
-            .lean();
+            .select('skills bio salaryExpectation title location photo availability')
+            .lean<any>();
 
           if (jobSeeker) {
             applicantDetails = {
@@ -380,6 +528,7 @@ export async function GET(req: NextRequest) {
               title: jobSeeker.title || '',
               location: jobSeeker.location || '',
               photo: jobSeeker.photo || '',
+              match: computeJobMatch(jobSeeker, job),
             };
           }
         } catch (error) {
@@ -396,8 +545,15 @@ export async function GET(req: NextRequest) {
           status: app.status || 'Pending',
           appliedDate: app.appliedDate ? new Date(app.appliedDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
           resume: app.resume || undefined,
+          resumeName: app.resumeSnapshot?.name || undefined,
+          parsedResume: formatParsedResume(app.parsedResume) || undefined,
           coverLetter: app.coverLetter || undefined,
+          screeningAnswers: formatScreeningAnswers(app.screeningAnswers, resumeDownloadUrl),
           rating: app.rating || 0,
+          history: formatApplicationHistory(app, 'employer'),
+          interview: interviews.get(app._id.toString()) || null,
+          unreadMessages: unreadMessages.get(app._id.toString()) || 0,
+          evaluation: evaluations.get(app._id.toString()) || undefined,
           // Add applicant profile details
           skills: applicantDetails.skills,
           bio: applicantDetails.bio,
@@ -405,6 +561,7 @@ export async function GET(req: NextRequest) {
           title: applicantDetails.title,
           location: applicantDetails.location,
           photo: applicantDetails.photo,
+          match: applicantDetails.match,
         };
       })
     );
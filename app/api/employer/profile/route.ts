@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
+import Organization from '@/lib/models/organization';
 
 // Retry function for database operations
 async function retryOperation<T>(
@@ -247,6 +248,11 @@ export async function PATCH(req: NextRequest) {
       photo: updatedEmployerObj.photo || '',
     };
 
+    // The owner's company name is also their organization's name
+    if (employerData.name) {
+      await Organization.updateOne({ ownerId: userIdObjectId }, { $set: { name: employerData.name } });
+    }
+
     console.log('✅ Successfully updated employer profile:', {
       _id: updatedEmployerObj._id,
       name: employerData.name,
@@ -0,0 +1,100 @@
+// app/api/files/[fileId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import StoredFile from '@/lib/models/stored-file';
+import Application from '@/lib/models/application';
+import Job from '@/lib/models/job';
+import { getFileStorage } from '@/lib/file-storage';
+import { getEmployerMembership } from '@/lib/organizations';
+import mongoose from 'mongoose';
+
+/**
+ * Decides whether a user may download a stored file. Job seekers may download
+ * their own uploads; employers may download resumes and screening answer files
+ * attached to applications for their organization's jobs.
+ */
+async function canDownload(file: any, userId: string, role: string): Promise<boolean> {
+  if (role === 'job-seeker') {
+    return file.ownerRole === 'job-seeker' && file.ownerId.toString() === userId;
+  }
+
+  if (role === 'employer' && (file.purpose === 'resume' || file.purpose === 'screening_answer')) {
+    const attachedTo = file.purpose === 'resume' ? { resumeFileId: file._id } : { 'screeningAnswers.fileId': file._id };
+    const jobIds = await Application.find(attachedTo).distinct('jobId');
+    if (jobIds.length === 0) return false;
+    const membership = await getEmployerMembership(new mongoose.Types.ObjectId(userId));
+    if (!membership) return false;
+    const ownedJob = await Job.exists({ _id: { $in: jobIds }, organizationId: membership.organizationId });
+    return !!ownedJob;
+  }
+
+  return false;
+}
+
+// GET - Download a stored file (resumes and screening answer files), authorized per viewer role
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.fileId)) {
+      return NextResponse.json({ message: 'File not found.' }, { status: 404 });
+    }
+
+    await dbConnect();
+
+    const file = await StoredFile.findById(params.fileId).lean<any>();
+    if (!file) {
+      return NextResponse.json({ message: 'File not found.' }, { status: 404 });
+    }
+
+    if (!(await canDownload(file, decoded.userId.toString(), decoded.role))) {
+      return NextResponse.json({ message: 'Access denied. You do not have access to this file.' }, { status: 403 });
+    }
+
+    const storage = getFileStorage();
+    if (storage.driver !== file.driver) {
+      console.error('❌ File stored with a different storage driver:', { fileId: params.fileId, driver: file.driver });
+      return NextResponse.json({ message: 'File is not available.' }, { status: 404 });
+    }
+
+    const data = await storage.get(file.storageKey);
+    if (!data) {
+      return NextResponse.json({ message: 'File not found.' }, { status: 404 });
+    }
+
+    // PDFs open in the browser; Word documents download
+    const disposition = file.contentType === 'application/pdf' ? 'inline' : 'attachment';
+    const asciiName = file.originalName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+
+    return new NextResponse(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.originalName)}`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error('❌ Error downloading file:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while downloading file.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
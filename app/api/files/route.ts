@@ -0,0 +1,114 @@
+// app/api/files/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import StoredFile from '@/lib/models/stored-file';
+import { getFileStorage } from '@/lib/file-storage';
+import {
+  RESUME_MAX_BYTES,
+  buildResumeStorageKey,
+  formatParsedResume,
+  parseResumeUpload,
+  resumeDownloadUrl,
+  validateResumeFile,
+} from '@/lib/resume-files';
+
+// POST - Upload a resume. Multipart form data with a "file" field (PDF, DOC or DOCX, max 5MB).
+// Returns the stored file's id, which is then passed to POST /api/applications as resumeFileId,
+// along with the skills, work history, education and contact details parsed from it (null for DOC files
+// and PDFs without a text layer).
+// With purpose=screening_answer the file answers a screening question instead: it is not parsed, and its
+// id is sent as that question's answer in POST /api/applications.
+export async function POST(req: NextRequest) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    // Only job seekers upload resumes
+    if (decoded.role !== 'job-seeker') {
+      return NextResponse.json({ message: 'Access denied. Only job seekers can upload resumes.' }, { status: 403 });
+    }
+
+    // Reject oversized uploads before reading the body
+    const contentLength = Number(req.headers.get('content-length') || 0);
+    if (contentLength > RESUME_MAX_BYTES + 64 * 1024) {
+      return NextResponse.json({ message: 'Resume must be 5MB or smaller.' }, { status: 413 });
+    }
+
+    const formData = await req.formData().catch(() => null);
+    const file = formData?.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ message: 'A file is required.' }, { status: 400 });
+    }
+
+    const purpose = formData?.get('purpose') === 'screening_answer' ? 'screening_answer' : 'resume';
+    const label = purpose === 'resume' ? 'Resume' : 'File';
+
+    if (file.size > RESUME_MAX_BYTES) {
+      return NextResponse.json({ message: `${label} must be 5MB or smaller.` }, { status: 413 });
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const { contentType, error } = validateResumeFile(file.name, data, label);
+    if (error || !contentType) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    const parsed = purpose === 'resume' ? parseResumeUpload(data, contentType) : undefined;
+
+    await dbConnect();
+
+    const ownerId = decoded.userId.toString();
+    const storage = getFileStorage();
+    const storageKey = buildResumeStorageKey(ownerId, file.name, purpose === 'resume' ? 'resumes' : 'screening');
+    await storage.put(storageKey, data, contentType);
+
+    const storedFile = await StoredFile.create({
+      ownerId,
+      ownerRole: 'job-seeker',
+      purpose,
+      driver: storage.driver,
+      storageKey,
+      originalName: file.name,
+      contentType,
+      size: data.length,
+      parsed,
+    });
+
+    console.log('📎 Stored file upload:', {
+      fileId: storedFile._id.toString(),
+      ownerId,
+      purpose,
+      driver: storage.driver,
+      size: data.length,
+      parsed: Boolean(parsed),
+    });
+
+    return NextResponse.json(
+      {
+        id: storedFile._id.toString(),
+        name: storedFile.originalName,
+        size: storedFile.size,
+        contentType: storedFile.contentType,
+        url: resumeDownloadUrl(storedFile._id.toString()),
+        parsed: formatParsedResume(storedFile.parsed),
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error uploading file:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while uploading file.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+// app/api/interviews/[interviewId]/ics/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import { buildInterviewIcs, findInterviewForUser, loadInterviewContext } from '@/lib/interviews';
+import mongoose from 'mongoose';
+
+// GET - Download a scheduled interview as a calendar file ("Add to calendar"), for either party
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { interviewId: string } }
+) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    if (decoded.role !== 'job-seeker' && decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied.' }, { status: 403 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.interviewId)) {
+      return NextResponse.json({ message: 'Invalid interview ID.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const found = await findInterviewForUser(
+      params.interviewId,
+      { id: new mongoose.Types.ObjectId(decoded.userId.toString()), role: decoded.role },
+      'view'
+    );
+    if ('error' in found) {
+      return NextResponse.json({ message: found.error }, { status: found.status });
+    }
+    const { interview } = found;
+
+    if (interview.status !== 'scheduled') {
+      return NextResponse.json({ message: 'Only confirmed interviews can be added to a calendar.' }, { status: 400 });
+    }
+
+    const context = await loadInterviewContext(interview);
+    const content = buildInterviewIcs(interview, context, 'REQUEST');
+
+    return new NextResponse(content, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8; method=REQUEST',
+        'Content-Disposition': 'attachment; filename="interview.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('❌ Error exporting interview:', error);
+    return NextResponse.json(
+      {
+        message: 'Internal server error while exporting interview.',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,206 @@
+// app/api/interviews/[interviewId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Interview from '@/lib/models/interview';
+import {
+  ACTIVE_INTERVIEW_STATUSES,
+  buildInterviewIcs,
+  cancelInterview,
+  findInterviewForUser,
+  formatInterview,
+  loadInterviewContext,
+  notifyInterviewUpdate,
+  sanitizeInterviewDetails,
+} from '@/lib/interviews';
+import mongoose from 'mongoose';
+
+// Verifies the auth cookie and returns the current user, or an error response
+function authenticate(
+  req: NextRequest
+): { user: { id: mongoose.Types.ObjectId; role: 'job-seeker' | 'employer' } } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  if (decoded.role !== 'job-seeker' && decoded.role !== 'employer') {
+    return { error: NextResponse.json({ message: 'Access denied.' }, { status: 403 }) };
+  }
+
+  return { user: { id: new mongoose.Types.ObjectId(decoded.userId.toString()), role: decoded.role } };
+}
+
+const CONFLICT_MESSAGE = 'This interview was updated by someone else. Please refresh and try again.';
+
+// PATCH - Act on an interview. Body: { action, ... }
+//   confirm            (candidate) { slot } - one of the proposed slots; both sides get the calendar invite
+//   request_reschedule (candidate) { note? } - none of the times work; releases a confirmed slot
+//   reschedule         (employer)  { format, location, interviewers?, durationMinutes?, notes?, proposedSlots } - new slots/details
+//   cancel             (either)    { reason? }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { interviewId: string } }
+) {
+  try {
+    const auth = authenticate(req);
+    if ('error' in auth) return auth.error;
+
+    if (!mongoose.Types.ObjectId.isValid(params.interviewId)) {
+      return NextResponse.json({ message: 'Invalid interview ID.' }, { status: 400 });
+    }
+
+    const data = await req.json();
+    const { action } = data;
+
+    await dbConnect();
+
+    const found = await findInterviewForUser(params.interviewId, auth.user, 'manage_applicants');
+    if ('error' in found) {
+      return NextResponse.json({ message: found.error }, { status: found.status });
+    }
+    const { interview } = found;
+
+    if (!ACTIVE_INTERVIEW_STATUSES.includes(interview.status)) {
+      return NextResponse.json({ message: 'This interview has been cancelled.' }, { status: 400 });
+    }
+
+    const note = typeof data.note === 'string' ? data.note.trim().slice(0, 1000) : '';
+    const wasScheduled = interview.status === 'scheduled';
+    const previousStart = interview.scheduledAt;
+
+    if (action === 'cancel') {
+      const reason = typeof data.reason === 'string' ? data.reason.trim().slice(0, 1000) : '';
+      const cancelled = await cancelInterview(interview, auth.user.role, reason);
+      if (!cancelled) {
+        return NextResponse.json({ message: CONFLICT_MESSAGE }, { status: 409 });
+      }
+      return NextResponse.json({ interview: formatInterview(cancelled) }, { status: 200 });
+    }
+
+    if (action === 'confirm') {
+      if (auth.user.role !== 'job-seeker') {
+        return NextResponse.json({ message: 'Only the candidate can confirm an interview time.' }, { status: 403 });
+      }
+      if (interview.status !== 'proposed') {
+        return NextResponse.json({ message: 'There are no proposed times to confirm.' }, { status: 400 });
+      }
+
+      const slot = new Date(data.slot);
+      const proposed = interview.proposedSlots.some((proposedSlot: Date) => new Date(proposedSlot).getTime() === slot.getTime());
+      if (Number.isNaN(slot.getTime()) || !proposed) {
+        return NextResponse.json({ message: 'Pick one of the proposed times.' }, { status: 400 });
+      }
+      if (slot.getTime() <= Date.now()) {
+        return NextResponse.json({ message: 'That time has already passed. Ask the employer for new times.' }, { status: 400 });
+      }
+
+      const confirmed = await Interview.findOneAndUpdate(
+        { _id: interview._id, status: 'proposed' },
+        { $set: { status: 'scheduled', scheduledAt: slot, rescheduleNote: '' }, $inc: { calendarSequence: 1 } },
+        { new: true }
+      );
+      if (!confirmed) {
+        return NextResponse.json({ message: CONFLICT_MESSAGE }, { status: 409 });
+      }
+
+      const context = await loadInterviewContext(confirmed);
+      await notifyInterviewUpdate(confirmed, 'scheduled', context, {
+        notify: ['employer'],
+        email: ['employer', 'job-seeker'],
+        ics: { method: 'REQUEST', content: buildInterviewIcs(confirmed, context, 'REQUEST')! },
+      });
+
+      console.log('🗓️ Interview confirmed:', { interviewId: confirmed._id.toString(), scheduledAt: slot.toISOString() });
+      return NextResponse.json({ interview: formatInterview(confirmed) }, { status: 200 });
+    }
+
+    if (action === 'request_reschedule') {
+      if (auth.user.role !== 'job-seeker') {
+        return NextResponse.json({ message: 'Employers reschedule by proposing new times.' }, { status: 403 });
+      }
+      if (interview.status === 'reschedule_requested') {
+        return NextResponse.json({ message: 'You already asked for new times.' }, { status: 400 });
+      }
+
+      const requested = await Interview.findOneAndUpdate(
+        { _id: interview._id, status: interview.status },
+        {
+          $set: { status: 'reschedule_requested', rescheduleNote: note, scheduledAt: null },
+          $inc: { calendarSequence: 1 },
+        },
+        { new: true }
+      );
+      if (!requested) {
+        return NextResponse.json({ message: CONFLICT_MESSAGE }, { status: 409 });
+      }
+
+      // A confirmed time is released, so it comes off both calendars
+      const context = await loadInterviewContext(requested);
+      await notifyInterviewUpdate(requested, 'reschedule_requested', context, {
+        notify: ['employer'],
+        email: wasScheduled ? ['employer', 'job-seeker'] : ['employer'],
+        ics: wasScheduled ? { method: 'CANCEL', content: buildInterviewIcs(requested, context, 'CANCEL', previousStart)! } : null,
+        note: note || undefined,
+      });
+
+      console.log('🗓️ Interview reschedule requested:', { interviewId: requested._id.toString() });
+      return NextResponse.json({ interview: formatInterview(requested) }, { status: 200 });
+    }
+
+    if (action === 'reschedule') {
+      if (auth.user.role !== 'employer') {
+        return NextResponse.json({ message: 'Ask the employer for new times instead.' }, { status: 403 });
+      }
+
+      const { details, error } = sanitizeInterviewDetails(data);
+      if (!details) {
+        return NextResponse.json({ message: error }, { status: 400 });
+      }
+
+      const rescheduled = await Interview.findOneAndUpdate(
+        { _id: interview._id, status: interview.status },
+        {
+          $set: { ...details, status: 'proposed', scheduledAt: null, rescheduleNote: '' },
+          $inc: { calendarSequence: 1 },
+        },
+        { new: true }
+      );
+      if (!rescheduled) {
+        return NextResponse.json({ message: CONFLICT_MESSAGE }, { status: 409 });
+      }
+
+      // The old time comes off both calendars; the new one is added once the candidate confirms
+      const context = await loadInterviewContext(rescheduled);
+      await notifyInterviewUpdate(rescheduled, 'rescheduled', context, {
+        notify: ['job-seeker'],
+        email: wasScheduled ? ['job-seeker', 'employer'] : ['job-seeker'],
+        ics: wasScheduled ? { method: 'CANCEL', content: buildInterviewIcs(rescheduled, context, 'CANCEL', previousStart)! } : null,
+      });
+
+      console.log('🗓️ Interview rescheduled:', { interviewId: rescheduled._id.toString(), slots: details.proposedSlots.length });
+      return NextResponse.json({ interview: formatInterview(rescheduled) }, { status: 200 });
+    }
+
+    return NextResponse.json(
+      { message: 'Action must be one of: confirm, request_reschedule, reschedule, cancel.' },
+      { status: 400 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error updating interview:', error);
+    return NextResponse.json(
+      {
+        message: 'Internal server error while updating interview.',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,205 @@
+// app/api/interviews/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Application from '@/lib/models/application';
+import Interview from '@/lib/models/interview';
+import Job from '@/lib/models/job';
+import JobSeeker from '@/lib/models/jobseeker';
+import Employer from '@/lib/models/employer';
+import { buildApplicationEvents } from '@/lib/application-history';
+import {
+  ACTIVE_INTERVIEW_STATUSES,
+  formatInterview,
+  loadInterviewContext,
+  newCalendarUid,
+  notifyInterviewUpdate,
+  sanitizeInterviewDetails,
+} from '@/lib/interviews';
+import { getEmployerDisplayName, jobBelongsToOrganization, requireOrganizationPermission } from '@/lib/organizations';
+import mongoose from 'mongoose';
+
+// Applications in these statuses can be invited to an interview
+const SCHEDULABLE_STATUSES = ['Shortlisted', 'Interviewed'];
+
+// Verifies the auth cookie and returns the current user, or an error response
+function authenticate(
+  req: NextRequest
+): { user: { id: mongoose.Types.ObjectId; role: 'job-seeker' | 'employer' } } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  if (decoded.role !== 'job-seeker' && decoded.role !== 'employer') {
+    return { error: NextResponse.json({ message: 'Access denied.' }, { status: 403 }) };
+  }
+
+  return { user: { id: new mongoose.Types.ObjectId(decoded.userId.toString()), role: decoded.role } };
+}
+
+// GET - List the current user's interviews (for employers, their organization's), newest first.
+// Optional ?applicationId= narrows it to one application.
+export async function GET(req: NextRequest) {
+  try {
+    const auth = authenticate(req);
+    if ('error' in auth) return auth.error;
+
+    const applicationId = req.nextUrl.searchParams.get('applicationId');
+    if (applicationId && !mongoose.Types.ObjectId.isValid(applicationId)) {
+      return NextResponse.json({ message: 'Invalid application ID.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    let filter: Record<string, unknown> = { jobSeekerId: auth.user.id };
+    if (auth.user.role === 'employer') {
+      const access = await requireOrganizationPermission(auth.user.id, 'view');
+      if ('error' in access) {
+        return NextResponse.json({ message: access.error }, { status: access.status });
+      }
+      const jobIds = await Job.find({ organizationId: access.membership.organizationId }).distinct('_id');
+      filter = { jobId: { $in: jobIds } };
+    }
+    if (applicationId) {
+      filter.applicationId = new mongoose.Types.ObjectId(applicationId);
+    }
+
+    const interviews = await Interview.find(filter).sort({ createdAt: -1 }).limit(100).lean<any[]>();
+
+    return NextResponse.json({ interviews: interviews.map(formatInterview) }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error fetching interviews:', error);
+    return NextResponse.json(
+      {
+        message: 'Internal server error while fetching interviews.',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Invite a shortlisted candidate to an interview by proposing time slots.
+// Body: { applicationId, format (phone | video | onsite), location, interviewers?, durationMinutes?, notes?, proposedSlots }
+// A shortlisted application moves to Interviewed; the candidate picks a slot to confirm.
+export async function POST(req: NextRequest) {
+  try {
+    const auth = authenticate(req);
+    if ('error' in auth) return auth.error;
+
+    if (auth.user.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied. Only employers can schedule interviews.' }, { status: 403 });
+    }
+
+    const data = await req.json();
+    const { applicationId } = data;
+
+    if (typeof applicationId !== 'string' || !mongoose.Types.ObjectId.isValid(applicationId)) {
+      return NextResponse.json({ message: 'A valid application ID is required.' }, { status: 400 });
+    }
+
+    const { details, error } = sanitizeInterviewDetails(data);
+    if (!details) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const access = await requireOrganizationPermission(auth.user.id, 'manage_applicants');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    const application = await Application.findById(applicationId);
+    if (!application) {
+      return NextResponse.json({ message: 'Application not found.' }, { status: 404 });
+    }
+
+    const job = await Job.findById(application.jobId);
+    if (!job || !jobBelongsToOrganization(job, access.membership)) {
+      return NextResponse.json({ message: 'Access denied. You can only schedule interviews for jobs in your organization.' }, { status: 403 });
+    }
+
+    if (!SCHEDULABLE_STATUSES.includes(application.status)) {
+      return NextResponse.json(
+        { message: `Only shortlisted candidates can be invited to an interview. This application is ${application.status}.` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await Interview.findOne({ applicationId: application._id, status: { $in: ACTIVE_INTERVIEW_STATUSES } })
+      .select('_id')
+      .lean<any>();
+    if (existing) {
+      return NextResponse.json(
+        { message: 'This candidate already has an interview. Reschedule or cancel it instead.', interviewId: existing._id.toString() },
+        { status: 409 }
+      );
+    }
+
+    // Inviting a shortlisted candidate starts the interview stage
+    let applicationStatus = application.status;
+    if (application.status === 'Shortlisted') {
+      const employer = await Employer.findById(auth.user.id).select('firstName lastName name').lean<any>();
+      const events = buildApplicationEvents(application, { status: 'Interviewed' }, {
+        id: auth.user.id,
+        role: 'employer',
+        name: getEmployerDisplayName(employer, job.company),
+      });
+
+      const updated = await Application.findOneAndUpdate(
+        { _id: application._id, status: 'Shortlisted' },
+        { $set: { status: 'Interviewed' }, $push: { history: { $each: events } } },
+        { new: true }
+      );
+      if (!updated) {
+        return NextResponse.json({ message: 'This application was updated by someone else. Please refresh and try again.' }, { status: 409 });
+      }
+
+      await JobSeeker.updateOne(
+        { _id: application.jobSeekerId, 'appliedJobs.applicationId': application._id },
+        { $set: { 'appliedJobs.$.status': 'Interviewed' } }
+      );
+      applicationStatus = 'Interviewed';
+    }
+
+    const interview = await Interview.create({
+      applicationId: application._id,
+      jobId: job._id,
+      employerId: auth.user.id,
+      jobSeekerId: application.jobSeekerId,
+      ...details,
+      status: 'proposed',
+      calendarUid: newCalendarUid(),
+    });
+
+    console.log('🗓️ Interview proposed:', {
+      interviewId: interview._id.toString(),
+      applicationId,
+      slots: details.proposedSlots.length,
+    });
+
+    // The invitation replaces the usual "moved to Interviewed" status email
+    const context = await loadInterviewContext(interview);
+    await notifyInterviewUpdate(interview, 'proposed', context, { notify: ['job-seeker'] });
+
+    return NextResponse.json({ interview: formatInterview(interview), applicationStatus }, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error scheduling interview:', error);
+    return NextResponse.json(
+      {
+        message: 'Internal server error while scheduling interview.',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
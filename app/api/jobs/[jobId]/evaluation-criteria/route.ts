@@ -0,0 +1,114 @@
+// app/api/jobs/[jobId]/evaluation-criteria/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Job from '@/lib/models/job';
+import { resolveEvaluationCriteria, sanitizeEvaluationCriteria } from '@/lib/evaluation';
+import { jobBelongsToOrganization, requireOrganizationPermission } from '@/lib/organizations';
+import type { OrganizationPermission } from '@/lib/organization-roles';
+import mongoose from 'mongoose';
+
+// Verifies the auth cookie and returns the employer's id, or an error response
+function authenticateEmployer(req: NextRequest): { employerId: mongoose.Types.ObjectId } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  if (decoded.role !== 'employer') {
+    return { error: NextResponse.json({ message: 'Access denied. Employer access only.' }, { status: 403 }) };
+  }
+
+  return { employerId: new mongoose.Types.ObjectId(decoded.userId.toString()) };
+}
+
+// Loads the job if it belongs to the employer's organization and their role allows the action
+async function findOwnedJob(jobId: string, employerId: mongoose.Types.ObjectId, permission: OrganizationPermission) {
+  if (!mongoose.Types.ObjectId.isValid(jobId)) {
+    return { error: NextResponse.json({ message: 'Invalid job ID.' }, { status: 400 }) };
+  }
+  const access = await requireOrganizationPermission(employerId, permission);
+  if ('error' in access) {
+    return { error: NextResponse.json({ message: access.error }, { status: access.status }) };
+  }
+  const job = await Job.findById(jobId).select('organizationId evaluationCriteria').lean<any>();
+  if (!job) {
+    return { error: NextResponse.json({ message: 'Job not found.' }, { status: 404 }) };
+  }
+  if (!jobBelongsToOrganization(job, access.membership)) {
+    return { error: NextResponse.json({ message: 'Access denied. You can only manage jobs in your organization.' }, { status: 403 }) };
+  }
+  return { job };
+}
+
+// GET - The criteria applicants for this job are scored on
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const auth = authenticateEmployer(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    const result = await findOwnedJob(params.jobId, auth.employerId, 'view');
+    if ('error' in result) return result.error;
+
+    const stored = result.job.evaluationCriteria;
+    return NextResponse.json(
+      { criteria: resolveEvaluationCriteria(stored), isDefault: !stored || stored.length === 0 },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error fetching evaluation criteria:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching evaluation criteria.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Replace the job's criteria. Body: { criteria: [{ key?, name, description? }] }
+// Existing criteria are identified by key, so renaming one keeps the scores given for it.
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const auth = authenticateEmployer(req);
+    if ('error' in auth) return auth.error;
+
+    const data = await req.json();
+
+    await dbConnect();
+
+    const result = await findOwnedJob(params.jobId, auth.employerId, 'manage_jobs');
+    if ('error' in result) return result.error;
+    const { job } = result;
+
+    const { criteria, error } = sanitizeEvaluationCriteria(data.criteria, resolveEvaluationCriteria(job.evaluationCriteria));
+    if (!criteria) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    await Job.updateOne({ _id: job._id }, { $set: { evaluationCriteria: criteria } });
+
+    console.log('📋 Evaluation criteria updated:', { jobId: params.jobId, criteria: criteria.map((criterion) => criterion.key) });
+
+    return NextResponse.json({ criteria, isDefault: false }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error updating evaluation criteria:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while updating evaluation criteria.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
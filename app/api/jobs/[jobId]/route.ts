@@ -1,13 +1,50 @@
 // app/api/jobs/[jobId]/route.ts
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import dbConnect from '@/lib/mongodb';
 import Job from '@/lib/models/job';
 import Application from '@/lib/models/application';
 import JobSeeker from '@/lib/models/jobseeker';
+import { formatSalaryRange, normalizeSalaryRange, parseSalaryText } from '@/lib/salary';
+import { alertSavedSearchesForJobs } from '@/lib/saved-search-alerts';
+import { deleteApplicationData } from '@/lib/application-data';
+import { getEmployerMembership, jobBelongsToOrganization, requireOrganizationPermission } from '@/lib/organizations';
+import { sanitizeScreeningQuestions, toPublicScreeningQuestions } from '@/lib/screening';
 import mongoose from 'mongoose';
 
+// Transform a job document to match the frontend Job interface format
+function formatJob(job: any) {
+  return {
+    id: job._id.toString(),
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    salary: job.salary || '',
+    salaryRange: job.salaryRange || null,
+    type: job.type,
+    remote: job.remote || false,
+    description: job.description,
+    requirements: job.requirements || [],
+    postedDate: job.postedDate ? new Date(job.postedDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+    deadline: job.deadline || undefined,
+    applicants: job.applicants || 0,
+    status: job.status || 'Active',
+    employerId: job.employerId ? job.employerId.toString() : '',
+    category: job.category || '',
+    experience: job.experience || '',
+    benefits: job.benefits || [],
+    companySize: job.companySize || '',
+    industry: job.industry || '',
+    publishAt: job.publishAt ? new Date(job.publishAt).toISOString() : null,
+    screeningQuestions: toPublicScreeningQuestions(job.screeningQuestions), // What applicants answer; knockout rules stay private
+  };
+}
+
+function toTrimmedList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((item) => String(item).trim()).filter(Boolean) : [];
+}
+
 // GET - Get a single job by ID
 export async function GET(
   req: NextRequest,
@@ -17,34 +54,26 @@ export async function GET(
     await dbConnect();
 
     const jobIdObjectId = new mongoose.Types.ObjectId(params.jobId);
-    const job = await Job.findById(jobIdObjectId).lean();
+    const job = await Job.findById(jobIdObjectId).lean<any>();
 
     if (!job) {
       return NextResponse.json({ message: 'Job not found.' }, { status: 404 });
     }
 
+    // Drafts are only visible to members of the organization that owns them (for previewing)
+    if (job.status === 'Draft') {
+      const token = req.cookies.get('auth_token')?.value;
+      const decoded = token ? verifyToken(token) : null;
+      const membership = decoded?.role === 'employer'
+        ? await getEmployerMembership(new mongoose.Types.ObjectId(decoded.userId.toString()))
+        : null;
+      if (!membership || !jobBelongsToOrganization(job, membership)) {
+        return NextResponse.json({ message: 'Job not found.' }, { status: 404 });
+      }
+    }
+
     // Transform to match frontend format
-    const formattedJob = {
-      id: job._id.toString(),
-      title: job.title,
-      company: job.company,
-      location: job.location,
-      salary: job.salary || '',
-      type: job.type,
-      remote: job.remote || false,
-      description: job.description,
-      requirements: job.requirements || [],
-      postedDate: job.postedDate ? new Date(job.postedDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-      deadline: job.deadline || undefined,
-      applicants: job.applicants || 0,
-      status: job.status || 'Active',
-      employerId: job.employerId ? job.employerId.toString() : '',
-      category: job.category || '',
-      experience: job.experience || '',
-      benefits: job.benefits || [],
-      companySize: job.companySize || '',
-      industry: job.industry || '',
-    };
+    const formattedJob = formatJob(job);
 
     return NextResponse.json(formattedJob, { status: 200 });
   } catch (error: any) {
@@ -56,6 +85,245 @@ export async function GET(
   }
 }
 
+// PATCH - Edit a job (only by members of its organization who can manage jobs)
+// Accepts any subset of: title, company, location, salaryRange (or legacy salary string), type, remote,
+// description, requirements, deadline, status, publishAt, category, experience, benefits, screeningQuestions.
+// status Draft -> Active publishes now; Active -> Draft unpublishes; publishAt schedules a draft.
+// Title, company and location changes are copied to the job seekers' appliedJobs and savedJobs entries.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    // Verify user is an employer
+    if (decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied. Only employers can edit jobs.' }, { status: 403 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.jobId)) {
+      return NextResponse.json({ message: 'Invalid job ID.' }, { status: 400 });
+    }
+
+    const data = await req.json();
+    console.log('📝 Received job update request:', {
+      jobId: params.jobId,
+      userId: decoded.userId,
+      fields: Object.keys(data || {}),
+    });
+
+    await dbConnect();
+
+    const access = await requireOrganizationPermission(new mongoose.Types.ObjectId(decoded.userId.toString()), 'manage_jobs');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    const job = await Job.findById(params.jobId);
+    if (!job) {
+      return NextResponse.json({ message: 'Job not found.' }, { status: 404 });
+    }
+
+    // Verify the job belongs to the employer's organization
+    if (!jobBelongsToOrganization(job, access.membership)) {
+      return NextResponse.json({ message: 'Access denied. You can only edit jobs in your organization.' }, { status: 403 });
+    }
+
+    const updates: Record<string, any> = {};
+
+    // Required text fields cannot be cleared (location and description are checked on publish below)
+    for (const field of ['title', 'company', 'type'] as const) {
+      if (data[field] !== undefined) {
+        const value = String(data[field]).trim();
+        if (!value) {
+          return NextResponse.json({ message: `Job ${field} cannot be empty.` }, { status: 400 });
+        }
+        updates[field] = value;
+      }
+    }
+
+    for (const field of ['location', 'description', 'category', 'experience'] as const) {
+      if (data[field] !== undefined) {
+        updates[field] = String(data[field]).trim();
+      }
+    }
+
+    if (data.remote !== undefined) {
+      updates.remote = Boolean(data.remote);
+    }
+
+    if (data.requirements !== undefined) {
+      updates.requirements = toTrimmedList(data.requirements);
+    }
+
+    if (data.benefits !== undefined) {
+      updates.benefits = toTrimmedList(data.benefits);
+    }
+
+    // Questions keep their keys, so answers already sent stay attached to them
+    if (data.screeningQuestions !== undefined) {
+      const { questions, error } = sanitizeScreeningQuestions(data.screeningQuestions ?? [], job.screeningQuestions || []);
+      if (error) {
+        return NextResponse.json({ message: error }, { status: 400 });
+      }
+      updates.screeningQuestions = questions;
+    }
+
+    if (data.salaryRange !== undefined) {
+      const { range, error } = normalizeSalaryRange(data.salaryRange);
+      if (error) {
+        return NextResponse.json({ message: error }, { status: 400 });
+      }
+      updates.salaryRange = range ?? undefined;
+      updates.salary = formatSalaryRange(range);
+    } else if (data.salary !== undefined) {
+      const range = parseSalaryText(data.salary);
+      updates.salaryRange = range ?? undefined;
+      updates.salary = formatSalaryRange(range) || String(data.salary).trim();
+    }
+
+    if (data.deadline !== undefined) {
+      const deadline = data.deadline ? String(data.deadline).trim() : '';
+      if (deadline && isNaN(new Date(deadline).getTime())) {
+        return NextResponse.json({ message: 'Invalid deadline date.' }, { status: 400 });
+      }
+      updates.deadline = deadline || undefined;
+    }
+
+    if (data.status !== undefined) {
+      if (!['Active', 'Closed', 'Draft'].includes(data.status)) {
+        return NextResponse.json({ message: 'Invalid job status.' }, { status: 400 });
+      }
+      updates.status = data.status;
+    }
+
+    // Publishing a draft makes it visible now; unpublishing turns it back into a draft
+    const nextStatus = updates.status ?? job.status;
+    const publishing = job.status === 'Draft' && nextStatus === 'Active';
+    if (publishing) {
+      updates.postedDate = new Date();
+      updates.publishAt = null;
+    }
+
+    // Scheduling: publishAt only applies to drafts (null clears the schedule)
+    if (data.publishAt !== undefined) {
+      if (data.publishAt === null || data.publishAt === '') {
+        updates.publishAt = null;
+      } else {
+        const publishAt = new Date(data.publishAt);
+        if (isNaN(publishAt.getTime())) {
+          return NextResponse.json({ message: 'Invalid publish date.' }, { status: 400 });
+        }
+        if (nextStatus !== 'Draft') {
+          return NextResponse.json({ message: 'Only draft jobs can be scheduled for publishing.' }, { status: 400 });
+        }
+        if (publishAt <= new Date()) {
+          return NextResponse.json({ message: 'The publish date must be in the future.' }, { status: 400 });
+        }
+        updates.publishAt = publishAt;
+      }
+    } else if (nextStatus !== 'Draft') {
+      updates.publishAt = null;
+    }
+
+    // Published jobs need a complete posting
+    if (nextStatus !== 'Draft') {
+      const nextDescription = updates.description ?? job.description;
+      const nextLocation = updates.location ?? job.location;
+      if (!nextDescription || !nextLocation) {
+        return NextResponse.json(
+          { message: 'Location and description are required to publish a job.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // A job cannot be (re)opened with a deadline that has already passed
+    const nextDeadline = 'deadline' in updates ? updates.deadline : job.deadline;
+    if (nextStatus === 'Active' && nextDeadline) {
+      const today = new Date().toISOString().split('T')[0];
+      if (String(nextDeadline).split('T')[0] < today) {
+        return NextResponse.json(
+          { message: 'The application deadline has passed. Set a future deadline to keep this job open.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const previous = { title: job.title, company: job.company, location: job.location };
+
+    job.set(updates);
+    if ('salaryRange' in updates && !updates.salaryRange) {
+      job.set('salaryRange', undefined);
+    }
+    if ('deadline' in updates && !updates.deadline) {
+      job.set('deadline', undefined);
+    }
+    await job.save();
+
+    // Keep the denormalized job details on job seekers' applied jobs in sync
+    const appliedJobUpdates: Record<string, string> = {};
+    if (job.title !== previous.title) appliedJobUpdates['appliedJobs.$[entry].jobTitle'] = job.title;
+    if (job.company !== previous.company) appliedJobUpdates['appliedJobs.$[entry].company'] = job.company;
+    if (job.location !== previous.location) appliedJobUpdates['appliedJobs.$[entry].location'] = job.location;
+
+    let jobSeekersUpdated = 0;
+    if (Object.keys(appliedJobUpdates).length > 0) {
+      const result = await JobSeeker.updateMany(
+        { 'appliedJobs.jobId': job._id },
+        { $set: appliedJobUpdates },
+        { arrayFilters: [{ 'entry.jobId': job._id }] }
+      );
+      jobSeekersUpdated = result.modifiedCount;
+    }
+
+    // Saved jobs keep a copy of the title and company too
+    const savedJobUpdates: Record<string, string> = {};
+    if (job.title !== previous.title) savedJobUpdates['savedJobs.$[entry].jobTitle'] = job.title;
+    if (job.company !== previous.company) savedJobUpdates['savedJobs.$[entry].company'] = job.company;
+    if (Object.keys(savedJobUpdates).length > 0) {
+      await JobSeeker.updateMany(
+        { 'savedJobs.jobId': job._id },
+        { $set: savedJobUpdates },
+        { arrayFilters: [{ 'entry.jobId': job._id }] }
+      );
+    }
+
+    console.log('✅ Successfully updated job:', {
+      jobId: params.jobId,
+      fields: Object.keys(updates),
+      status: job.status,
+      jobSeekersUpdated,
+    });
+
+    // A draft going live counts as a new posting for saved search alerts, sent after the response
+    if (publishing) {
+      after(() => alertSavedSearchesForJobs([job._id]));
+    }
+
+    return NextResponse.json(formatJob(job), { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error updating job:', error);
+    return NextResponse.json(
+      { 
+        message: 'Internal server error while updating job.',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE - Delete a job (only by the employer who posted it)
 export async function DELETE(
   req: NextRequest,
@@ -85,15 +353,20 @@ export async function DELETE(
       ? new mongoose.Types.ObjectId(decoded.userId) 
       : decoded.userId;
 
+    const access = await requireOrganizationPermission(employerIdObjectId, 'manage_jobs');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
     // Find the job and verify ownership
     const job = await Job.findById(jobIdObjectId);
     if (!job) {
       return NextResponse.json({ message: 'Job not found.' }, { status: 404 });
     }
 
-    // Verify the employer owns this job
-    if (job.employerId.toString() !== employerIdObjectId.toString()) {
-      return NextResponse.json({ message: 'Access denied. You can only delete your own jobs.' }, { status: 403 });
+    // Verify the job belongs to the employer's organization
+    if (!jobBelongsToOrganization(job, access.membership)) {
+      return NextResponse.json({ message: 'Access denied. You can only delete jobs in your organization.' }, { status: 403 });
     }
 
     // Get all applications for this job before deleting
@@ -131,6 +404,10 @@ export async function DELETE(
       }
     }
 
+    // Interviews, message threads, notifications, scorecards and notes go with the applications.
+    // Candidates are told about cancelled interviews, which needs the job, so this runs first
+    const interviewsCancelled = await deleteApplicationData(applicationIds, { by: 'employer', reason: 'The job was removed.' });
+
     // Delete all applications for this job from applications collection
     const deleteApplicationsResult = await Application.deleteMany({ jobId: jobIdObjectId });
     console.log('✅ Deleted applications from applications collection:', {
@@ -144,6 +421,7 @@ export async function DELETE(
       jobId: params.jobId,
       employerId: decoded.userId,
       applicationsDeleted: deleteApplicationsResult.deletedCount,
+      interviewsCancelled,
       jobSeekersUpdated: jobSeekerIds.length,
     });
 
@@ -5,9 +5,11 @@ import { verifyToken } from '@/lib/auth';
 import dbConnect from '@/lib/mongodb';
 import Job from '@/lib/models/job';
 import Application from '@/lib/models/application';
+import { syncJobStatuses } from '@/lib/job-lifecycle';
+import { requireOrganizationPermission } from '@/lib/organizations';
 import mongoose from 'mongoose';
 
-// GET - Fetch all jobs posted by the authenticated employer
+// GET - Fetch all jobs of the authenticated employer's organization, including drafts and scheduled jobs
 export async function GET(req: NextRequest) {
   try {
     const token = req.cookies.get('auth_token')?.value;
@@ -32,8 +34,16 @@ export async function GET(req: NextRequest) {
       ? new mongoose.Types.ObjectId(decoded.userId) 
       : decoded.userId;
 
-    // Fetch all jobs by this employer, sorted by postedDate (newest first)
-    const jobs = await Job.find({ employerId: employerIdObjectId })
+    const access = await requireOrganizationPermission(employerIdObjectId, 'view');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    // Publish due scheduled drafts and close jobs past their deadline so statuses are current
+    await syncJobStatuses();
+
+    // Fetch all of the organization's jobs, sorted by postedDate (newest first)
+    const jobs = await Job.find({ organizationId: access.membership.organizationId })
       .sort({ postedDate: -1 })
       .lean();
 
@@ -42,18 +52,6 @@ export async function GET(req: NextRequest) {
       jobs.map(async (job: any) => {
         const applicantCount = await Application.countDocuments({ jobId: job._id });
         const pendingCount = await Application.countDocuments({ jobId: job._id, status: 'Pending' });
-        
-        // Check if deadline has passed and job is still Active
-        let status = job.status;
-        if (status === 'Active' && job.deadline) {
-          const deadlineDate = new Date(job.deadline);
-          const now = new Date();
-          if (now > deadlineDate) {
-            status = 'Closed';
-            // Update job status in database (async, don't wait)
-            Job.findByIdAndUpdate(job._id, { status: 'Closed' }).catch(console.error);
-          }
-        }
 
         return {
           id: job._id.toString(),
@@ -61,6 +59,7 @@ export async function GET(req: NextRequest) {
           company: job.company,
           location: job.location,
           salary: job.salary || '',
+          salaryRange: job.salaryRange || null,
           type: job.type,
           remote: job.remote || false,
           description: job.description,
@@ -69,13 +68,15 @@ export async function GET(req: NextRequest) {
           deadline: job.deadline || undefined,
           applicants: applicantCount, // Real count from applications
           pendingApplications: pendingCount,
-          status: status,
+          status: job.status,
           employerId: job.employerId ? job.employerId.toString() : '',
           category: job.category || '',
           experience: job.experience || '',
           benefits: job.benefits || [],
           companySize: job.companySize || '',
           industry: job.industry || '',
+          publishAt: job.publishAt ? new Date(job.publishAt).toISOString() : null,
+          screeningQuestions: job.screeningQuestions || [], // With knockout rules; job seekers only get toPublicScreeningQuestions
         };
       })
     );
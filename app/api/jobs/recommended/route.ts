@@ -0,0 +1,88 @@
+// app/api/jobs/recommended/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import { syncJobStatuses } from '@/lib/job-lifecycle';
+import { recommendJobs } from '@/lib/job-recommendations';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// Verifies the auth cookie and returns the job seeker's id, or an error response
+function authenticateJobSeeker(req: NextRequest): { userId: string } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  // Verify user is a job seeker
+  if (decoded.role !== 'job-seeker') {
+    return { error: NextResponse.json({ message: 'Access denied. Job seeker access only.' }, { status: 403 }) };
+  }
+
+  return { userId: decoded.userId.toString() };
+}
+
+// GET - Open jobs recommended for the signed-in job seeker, best first
+// Query params: limit (default 20, max 50).
+// Ranked by profile skills, title, location, and similarity to saved jobs and past applications.
+// Jobs already applied to are left out; saved ones stay and rank higher. Each job carries a recommendation with its reasons.
+export async function GET(req: NextRequest) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    // Publish scheduled drafts and auto-close jobs with expired deadlines
+    await syncJobStatuses();
+
+    const limitParam = parseInt(new URL(req.url).searchParams.get('limit') || '', 10);
+    const limit = Math.min(Math.max(limitParam || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const recommendations = await recommendJobs(auth.userId, limit);
+
+    // Transform to match the frontend Job interface format
+    const formattedJobs = recommendations.map(({ job, match, score, reasons }) => ({
+      id: job._id.toString(),
+      title: job.title,
+      company: job.company,
+      location: job.location,
+      salary: job.salary || '',
+      salaryRange: job.salaryRange || null,
+      type: job.type,
+      remote: job.remote || false,
+      description: job.description,
+      requirements: job.requirements || [],
+      postedDate: job.postedDate ? new Date(job.postedDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+      deadline: job.deadline || undefined,
+      applicants: job.applicants || 0,
+      status: job.status || 'Active',
+      employerId: job.employerId ? job.employerId.toString() : '',
+      category: job.category || '',
+      experience: job.experience || '',
+      benefits: job.benefits || [],
+      companySize: job.companySize || '',
+      industry: job.industry || '',
+      match,
+      recommendation: { score, reasons },
+    }));
+
+    console.log(`✨ ${formattedJobs.length} recommended jobs for job seeker ${auth.userId}`);
+
+    return NextResponse.json({ jobs: formattedJobs }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error fetching recommended jobs:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching recommended jobs.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,44 +1,53 @@
 // app/api/jobs/route.ts
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import dbConnect from '@/lib/mongodb';
 import Job from '@/lib/models/job';
 import Employer from '@/lib/models/employer';
+import JobSeeker from '@/lib/models/jobseeker';
+import { applySalaryExpectation, parseJobListQuery, runJobListQuery } from '@/lib/job-query';
+import { formatSalaryRange, normalizeSalaryRange, parseSalaryExpectation, parseSalaryText } from '@/lib/salary';
+import { ensureSalariesMigrated } from '@/lib/salary-migration';
+import { syncJobStatuses } from '@/lib/job-lifecycle';
+import { computeJobMatch, type MatchCandidate } from '@/lib/job-match';
+import { alertSavedSearchesForJobs } from '@/lib/saved-search-alerts';
+import { requireOrganizationPermission } from '@/lib/organizations';
+import { sanitizeScreeningQuestions } from '@/lib/screening';
 import mongoose from 'mongoose';
 
-// GET - Fetch all active jobs (for job seekers)
+// GET - Fetch active jobs with search, filters, sorting and pagination (for job seekers)
+// Query params: search, type*, location*, remote, experience*, category*, salaryMin, salaryMax (yearly),
+// currency, matchSalaryExpectation, sort (relevance | newest | oldest | salary_high | salary_low),
+// page, limit. (* = may be repeated)
+// matchSalaryExpectation=true keeps only jobs whose salary range overlaps the signed-in job seeker's expectation.
+// Text searches are ranked by relevance by default and each job carries a searchMatch with highlights.
+// For a signed-in job seeker each job also carries a match: their profile's fit score with the reasons behind it.
 export async function GET(req: NextRequest) {
   try {
     await dbConnect();
 
-    // Auto-close jobs with expired deadlines
-    const now = new Date();
-    await Job.updateMany(
-      { 
-        status: 'Active',
-        deadline: { $exists: true, $ne: null, $ne: '' },
-        $expr: {
-          $lt: [{ $dateFromString: { dateString: "$deadline" } }, now]
-        }
-      },
-      { status: 'Closed' }
-    ).catch(() => {
-      // Fallback: simpler date comparison if $dateFromString fails
-      const todayStr = now.toISOString().split('T')[0];
-      return Job.updateMany(
-        { 
-          status: 'Active',
-          deadline: { $exists: true, $ne: null, $ne: '', $lt: todayStr }
-        },
-        { status: 'Closed' }
-      );
-    });
+    // Publish scheduled drafts and auto-close jobs with expired deadlines
+    await syncJobStatuses();
+    await ensureSalariesMigrated();
+
+    const query = parseJobListQuery(new URL(req.url).searchParams);
+
+    // Job seekers get match scores, and may filter by their salary expectation
+    const token = req.cookies.get('auth_token')?.value;
+    const decoded = token ? verifyToken(token) : null;
+    const jobSeeker = decoded?.role === 'job-seeker'
+      ? await JobSeeker.findById(decoded.userId).select('skills location salaryExpectation availability').lean<MatchCandidate>()
+      : null;
 
-    // Fetch only active jobs, sorted by postedDate (newest first)
-    const jobs = await Job.find({ status: 'Active' })
-      .sort({ postedDate: -1 })
-      .lean();
+    if (query.matchSalaryExpectation && jobSeeker) {
+      const expectation = parseSalaryExpectation(jobSeeker.salaryExpectation);
+      if (expectation) {
+        applySalaryExpectation(query, expectation);
+      }
+    }
+    const { jobs, total, searchMatches } = await runJobListQuery(query);
+    const totalPages = Math.max(1, Math.ceil(total / query.limit));
 
     // Transform to match the frontend Job interface format
     const formattedJobs = jobs.map((job: any) => ({
@@ -47,6 +56,7 @@ export async function GET(req: NextRequest) {
       company: job.company,
       location: job.location,
       salary: job.salary || '',
+      salaryRange: job.salaryRange || null,
       type: job.type,
       remote: job.remote || false,
       description: job.description,
@@ -61,9 +71,20 @@ export async function GET(req: NextRequest) {
       benefits: job.benefits || [],
       companySize: job.companySize || '',
       industry: job.industry || '',
+      searchMatch: searchMatches.get(job._id.toString()),
+      match: jobSeeker ? computeJobMatch(jobSeeker, job) : undefined,
     }));
 
-    return NextResponse.json(formattedJobs, { status: 200 });
+    return NextResponse.json({
+      jobs: formattedJobs,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages,
+        hasNextPage: query.page < totalPages,
+      },
+    }, { status: 200 });
   } catch (error: any) {
     console.error('Error fetching jobs:', error);
     return NextResponse.json(
@@ -73,7 +94,7 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST - Create a new job (for employers)
+// POST - Create a new job (for employers). screeningQuestions (optional) are validated by lib/screening.ts.
 export async function POST(req: NextRequest) {
   try {
     const token = req.cookies.get('auth_token')?.value;
@@ -100,41 +121,88 @@ export async function POST(req: NextRequest) {
 
     await dbConnect();
 
-    // Fetch employer details to get company name
     const employerIdObjectId = typeof decoded.userId === 'string' 
       ? new mongoose.Types.ObjectId(decoded.userId) 
       : decoded.userId;
 
-    const employer = await Employer.findById(employerIdObjectId);
+    // Jobs are posted for the member's organization, under the owner's company profile
+    const access = await requireOrganizationPermission(employerIdObjectId, 'manage_jobs');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+    const { membership } = access;
+
+    // Fetch the company account for the company name and details
+    const employer = await Employer.findById(membership.ownerId);
     if (!employer) {
       return NextResponse.json({ message: 'Employer profile not found.' }, { status: 404 });
     }
 
+    // New jobs are published immediately unless saved as a draft or scheduled for later
+    if (data.status !== undefined && !['Active', 'Draft'].includes(data.status)) {
+      return NextResponse.json({ message: 'New jobs can only be saved as Active or Draft.' }, { status: 400 });
+    }
+    let status: 'Active' | 'Draft' = data.status || 'Active';
+    let publishAt: Date | null = null;
+    if (data.publishAt) {
+      publishAt = new Date(data.publishAt);
+      if (isNaN(publishAt.getTime())) {
+        return NextResponse.json({ message: 'Invalid publish date.' }, { status: 400 });
+      }
+      if (publishAt > new Date()) {
+        status = 'Draft';
+      } else {
+        // A schedule in the past means "publish now"
+        status = 'Active';
+        publishAt = null;
+      }
+    }
+
+    // Structured salary; older clients that only send a display string are parsed
+    const { range: salaryRange, error: salaryError } = normalizeSalaryRange(data.salaryRange);
+    if (salaryError) {
+      return NextResponse.json({ message: salaryError }, { status: 400 });
+    }
+    const resolvedSalaryRange = salaryRange ?? parseSalaryText(data.salary);
+
+    const { questions: screeningQuestions, error: screeningError } = sanitizeScreeningQuestions(data.screeningQuestions ?? [], []);
+    if (screeningError) {
+      return NextResponse.json({ message: screeningError }, { status: 400 });
+    }
+
     // Build job document
     const jobData: any = {
-      employerId: employerIdObjectId,
+      employerId: membership.ownerId,
+      organizationId: membership.organizationId,
+      postedBy: employerIdObjectId,
       title: data.title?.trim() || '',
       company: data.company?.trim() || employer.name || 'Company Name',
       location: data.location?.trim() || '',
-      salary: data.salary?.trim() || '',
+      salary: formatSalaryRange(resolvedSalaryRange) || data.salary?.trim() || '',
+      salaryRange: resolvedSalaryRange ?? undefined,
       type: data.type?.trim() || 'Full-time',
       remote: data.remote || false,
       description: data.description?.trim() || '',
       requirements: Array.isArray(data.requirements) ? data.requirements.map((r: string) => String(r).trim()).filter(Boolean) : [],
       deadline: data.deadline?.trim() || undefined,
-      status: data.status || 'Active',
+      status,
+      publishAt,
       category: data.category?.trim() || data.type || '',
       experience: data.experience?.trim() || '',
       benefits: Array.isArray(data.benefits) ? data.benefits.map((b: string) => String(b).trim()).filter(Boolean) : [],
       companySize: data.companySize?.trim() || employer.size || '',
       industry: data.industry?.trim() || employer.industry || '',
+      screeningQuestions,
       applicants: 0,
       postedDate: new Date(),
     };
 
-    // Validate required fields
-    if (!jobData.title || !jobData.description) {
-      return NextResponse.json({ message: 'Title and description are required.' }, { status: 400 });
+    // Validate required fields (drafts only need a title)
+    if (!jobData.title) {
+      return NextResponse.json({ message: 'Title is required.' }, { status: 400 });
+    }
+    if (status === 'Active' && !jobData.description) {
+      return NextResponse.json({ message: 'Description is required to publish a job.' }, { status: 400 });
     }
 
     // Create the job
@@ -144,8 +212,16 @@ export async function POST(req: NextRequest) {
       _id: newJob._id,
       title: newJob.title,
       company: newJob.company,
+      status: newJob.status,
+      publishAt: newJob.publishAt,
     });
 
+    // Notify job seekers whose saved searches match once the response is sent
+    // (scheduled jobs alert when they go live)
+    if (newJob.status === 'Active') {
+      after(() => alertSavedSearchesForJobs([newJob._id]));
+    }
+
     // Transform to match frontend format
     const formattedJob = {
       id: newJob._id.toString(),
@@ -153,6 +229,7 @@ export async function POST(req: NextRequest) {
       company: newJob.company,
       location: newJob.location,
       salary: newJob.salary || '',
+      salaryRange: newJob.salaryRange || null,
       type: newJob.type,
       remote: newJob.remote || false,
       description: newJob.description,
@@ -167,6 +244,8 @@ export async function POST(req: NextRequest) {
       benefits: newJob.benefits || [],
       companySize: newJob.companySize || '',
       industry: newJob.industry || '',
+      publishAt: newJob.publishAt ? new Date(newJob.publishAt).toISOString() : null,
+      screeningQuestions: newJob.screeningQuestions || [],
     };
 
     return NextResponse.json(formattedJob, { status: 201 });
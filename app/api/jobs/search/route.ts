@@ -0,0 +1,57 @@
+// app/api/jobs/search/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { parseJobListQuery, runJobListQuery } from '@/lib/job-query';
+import { buildSnippet } from '@/lib/job-search';
+
+const MAX_SUGGESTIONS = 10;
+
+// GET - Ranked search suggestions with highlighted matches (used by the search bar)
+// Query params: q (search text), limit (default 5), plus any GET /api/jobs filter.
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const q = (searchParams.get('q') || '').trim();
+
+    if (!q) {
+      return NextResponse.json({ results: [], total: 0 }, { status: 200 });
+    }
+
+    await dbConnect();
+
+    const params = new URLSearchParams(searchParams);
+    params.set('search', q);
+    params.set('sort', 'relevance');
+    params.set('page', '1');
+    params.set('limit', String(Math.min(parseInt(searchParams.get('limit') || '5', 10) || 5, MAX_SUGGESTIONS)));
+
+    const query = parseJobListQuery(params);
+    const { jobs, total, searchMatches } = await runJobListQuery(query);
+
+    const results = jobs.map((job: any) => {
+      const match = searchMatches.get(job._id.toString());
+      return {
+        id: job._id.toString(),
+        title: job.title,
+        company: job.company,
+        location: job.location,
+        score: match?.score || 0,
+        matchedTerms: match?.matchedTerms || [],
+        highlights: {
+          title: match?.highlights.title || [],
+          company: match?.highlights.company || [],
+        },
+        snippet: buildSnippet(job.description || '', match?.highlights.description),
+      };
+    });
+
+    return NextResponse.json({ results, total }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error searching jobs:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while searching jobs.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import dbConnect from '@/lib/mongodb';
 import Application from '@/lib/models/application';
 import Job from '@/lib/models/job';
 import JobSeeker from '@/lib/models/jobseeker';
+import { deleteApplicationData } from '@/lib/application-data';
 import mongoose from 'mongoose';
 
 // DELETE - Remove an application from "My Applications" collection
@@ -208,6 +209,12 @@ export async function DELETE(
       );
     }
     
+    // An interview in progress is cancelled, so the employer is told and its invite is withdrawn
+    const interviewsCancelled = await deleteApplicationData([applicationIdObjectId], {
+      by: 'job-seeker',
+      reason: 'The candidate withdrew their application.',
+    });
+
     // Delete from applications collection AFTER removing from appliedJobs
     await Application.findByIdAndDelete(applicationIdObjectId);
     
@@ -222,6 +229,7 @@ export async function DELETE(
       jobSeekerId: decoded.userId,
       jobId: jobIdObjectId.toString(),
       removedFromJobSeekerAppliedJobs: removedFromAppliedJobs,
+      interviewsCancelled,
     });
 
     return NextResponse.json({ 
@@ -5,6 +5,9 @@ import { verifyToken } from '@/lib/auth';
 import dbConnect from '@/lib/mongodb';
 import Application from '@/lib/models/application';
 import JobSeeker from '@/lib/models/jobseeker';
+import { formatApplicationHistory } from '@/lib/application-history';
+import { getLatestInterviews } from '@/lib/interviews';
+import { countUnreadMessages } from '@/lib/messages';
 import mongoose from 'mongoose';
 
 // GET - Get all applications for the authenticated job seeker from their appliedJobs array
@@ -113,10 +116,18 @@ export async function GET(req: NextRequest) {
         statusMap.set(app._id.toString(), {
           status: app.status || 'Pending',
           rating: app.rating || 0,
+          resumeName: app.resumeSnapshot?.name || '',
+          history: formatApplicationHistory(app, 'job-seeker'),
         });
       });
     }
 
+    const applicationObjectIds = applicationIds.map((id: string) => new mongoose.Types.ObjectId(id));
+    const [interviews, unreadMessages] = await Promise.all([
+      getLatestInterviews(applicationObjectIds),
+      countUnreadMessages(applicationObjectIds, 'job-seeker'),
+    ]);
+
     // Format applied jobs with job details from jobseeker's appliedJobs array
     // ONLY return applications that are in the appliedJobs array (database entries)
     const formattedApplications = validAppliedJobs.map((appliedJob: any) => {
@@ -137,8 +148,13 @@ export async function GET(req: NextRequest) {
           ? new Date(appliedJob.appliedDate).toISOString().split('T')[0] 
           : new Date().toISOString().split('T')[0],
         resume: appliedJob.resume || undefined,
+        resumeName: applicationStatus?.resumeName || undefined,
         coverLetter: appliedJob.coverLetter || undefined,
         rating: applicationStatus?.rating || appliedJob.rating || 0,
+        // Applications missing from the collection only have their applied date to show
+        history: applicationStatus?.history || formatApplicationHistory({ appliedDate: appliedJob.appliedDate }, 'job-seeker'),
+        interview: interviews.get(appliedJob.applicationId.toString()) || null,
+        unreadMessages: unreadMessages.get(appliedJob.applicationId.toString()) || 0,
       };
     }).sort((a: any, b: any) => {
       // Sort by appliedDate descending (most recent first)
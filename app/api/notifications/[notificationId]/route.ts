@@ -0,0 +1,66 @@
+// app/api/notifications/[notificationId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Notification from '@/lib/models/notification';
+import { formatNotification } from '@/lib/notifications';
+import mongoose from 'mongoose';
+
+// PATCH - Mark a single notification as read (or unread). Body: { read?: boolean } (defaults to true)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { notificationId: string } }
+) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    if (decoded.role !== 'job-seeker' && decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied.' }, { status: 403 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.notificationId)) {
+      return NextResponse.json({ message: 'Invalid notification ID.' }, { status: 400 });
+    }
+
+    const data = await req.json().catch(() => ({}));
+    const read = data.read === undefined ? true : data.read;
+    if (typeof read !== 'boolean') {
+      return NextResponse.json({ message: 'read must be a boolean.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    // Scope the update to the current user so one user cannot touch another's notifications
+    const notification = await Notification.findOneAndUpdate(
+      {
+        _id: new mongoose.Types.ObjectId(params.notificationId),
+        recipientId: new mongoose.Types.ObjectId(decoded.userId.toString()),
+        recipientRole: decoded.role,
+      },
+      read ? { $set: { read: true, readAt: new Date() } } : { $set: { read: false }, $unset: { readAt: 1 } },
+      { new: true }
+    ).lean<any>();
+
+    if (!notification) {
+      return NextResponse.json({ message: 'Notification not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json(formatNotification(notification), { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error updating notification:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while updating notification.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+// app/api/notifications/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Notification from '@/lib/models/notification';
+import { formatNotification } from '@/lib/notifications';
+import mongoose from 'mongoose';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Verifies the auth cookie and returns the recipient filter for the current user, or an error response
+function authenticateRecipient(
+  req: NextRequest
+): { recipient: { recipientId: mongoose.Types.ObjectId; recipientRole: string } } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  if (decoded.role !== 'job-seeker' && decoded.role !== 'employer') {
+    return { error: NextResponse.json({ message: 'Access denied.' }, { status: 403 }) };
+  }
+
+  return {
+    recipient: {
+      recipientId: new mongoose.Types.ObjectId(decoded.userId.toString()),
+      recipientRole: decoded.role,
+    },
+  };
+}
+
+// GET - List the current user's notifications, newest first, with the unread count
+// Query params: limit (default 20, max 100), unread=true to only return unread notifications
+export async function GET(req: NextRequest) {
+  try {
+    const auth = authenticateRecipient(req);
+    if ('error' in auth) return auth.error;
+
+    const searchParams = new URL(req.url).searchParams;
+    const requestedLimit = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0 ? Math.min(requestedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+    const unreadOnly = searchParams.get('unread') === 'true';
+
+    await dbConnect();
+
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find(unreadOnly ? { ...auth.recipient, read: false } : auth.recipient)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean<any[]>(),
+      Notification.countDocuments({ ...auth.recipient, read: false }),
+    ]);
+
+    return NextResponse.json(
+      { notifications: notifications.map(formatNotification), unreadCount },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching notifications.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Mark all of the current user's notifications as read
+export async function PATCH(req: NextRequest) {
+  try {
+    const auth = authenticateRecipient(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    const result = await Notification.updateMany(
+      { ...auth.recipient, read: false },
+      { $set: { read: true, readAt: new Date() } }
+    );
+
+    console.log('🔔 Marked all notifications as read:', {
+      recipientId: auth.recipient.recipientId.toString(),
+      updated: result.modifiedCount,
+    });
+
+    return NextResponse.json(
+      { message: 'All notifications marked as read.', updated: result.modifiedCount, unreadCount: 0 },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error marking notifications as read:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while updating notifications.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+// app/api/organization/invitations/[invitationId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import OrganizationInvitation from '@/lib/models/organization-invitation';
+import { requireOrganizationPermission } from '@/lib/organizations';
+import mongoose from 'mongoose';
+
+// DELETE - Revoke a pending invitation; its link stops working
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { invitationId: string } }
+) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    if (decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied. Employer access only.' }, { status: 403 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.invitationId)) {
+      return NextResponse.json({ message: 'Invalid invitation ID.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const access = await requireOrganizationPermission(new mongoose.Types.ObjectId(decoded.userId.toString()), 'manage_team');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+
+    const result = await OrganizationInvitation.deleteOne({
+      _id: params.invitationId,
+      organizationId: access.membership.organizationId,
+    });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ message: 'Invitation not found.' }, { status: 404 });
+    }
+
+    console.log('🗑️ Organization invitation revoked:', { invitationId: params.invitationId });
+
+    return NextResponse.json({ message: 'Invitation revoked.' }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error revoking invitation:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while revoking invitation.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
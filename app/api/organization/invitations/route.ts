@@ -0,0 +1,76 @@
+// app/api/organization/invitations/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import { inviteToOrganization, requireOrganizationPermission } from '@/lib/organizations';
+import { ORGANIZATION_ROLE_LABELS, getAssignableRoles, isOrganizationRole } from '@/lib/organization-roles';
+import mongoose from 'mongoose';
+
+// POST - Invite someone to the organization by email. Body: { email, role }
+// Owners can invite admins, recruiters and hiring managers; admins can invite recruiters and hiring managers.
+export async function POST(req: NextRequest) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    if (decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied. Employer access only.' }, { status: 403 });
+    }
+
+    const data = await req.json();
+    const email = typeof data.email === 'string' ? data.email.trim().toLowerCase() : '';
+    if (!email || !email.includes('@')) {
+      return NextResponse.json({ message: 'Valid email address is required.' }, { status: 400 });
+    }
+    const { role } = data;
+    if (!isOrganizationRole(role)) {
+      return NextResponse.json({ message: `Invalid role "${role}".` }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const access = await requireOrganizationPermission(new mongoose.Types.ObjectId(decoded.userId.toString()), 'manage_team');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+    const { membership } = access;
+
+    if (!getAssignableRoles(membership.role).includes(role)) {
+      return NextResponse.json(
+        { message: `Access denied. Your role cannot invite people as ${ORGANIZATION_ROLE_LABELS[role]}.` },
+        { status: 403 }
+      );
+    }
+
+    const result = await inviteToOrganization(membership, email, role);
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    console.log('✉️ Organization invitation sent:', {
+      organizationId: membership.organizationId.toString(),
+      email,
+      role,
+    });
+
+    return NextResponse.json(
+      { message: `Invitation sent to ${email}.`, invitationId: result.invitation._id.toString() },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error sending invitation:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while sending invitation.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+// app/api/organization/join/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import { acceptInvitation, findInvitation } from '@/lib/organizations';
+import mongoose from 'mongoose';
+
+// GET - What an invitation link is for (?token=), so the join page can describe it before signing in
+export async function GET(req: NextRequest) {
+  try {
+    const token = req.nextUrl.searchParams.get('token') || '';
+
+    await dbConnect();
+
+    const found = await findInvitation(token);
+    if (!found) {
+      return NextResponse.json({ message: 'This invitation is invalid or has expired. Ask for a new one.' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        organizationName: found.organizationName,
+        email: found.invitation.email,
+        role: found.invitation.role,
+        invitedByName: found.invitation.invitedByName || '',
+        expiresAt: new Date(found.invitation.expiresAt).toISOString(),
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error fetching invitation:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching invitation.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Accept an invitation as the signed-in employer. Body: { token }
+export async function POST(req: NextRequest) {
+  try {
+    const authToken = req.cookies.get('auth_token')?.value;
+
+    if (!authToken) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(authToken);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    if (decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Sign in with an employer account to join an organization.' }, { status: 403 });
+    }
+
+    const { token } = await req.json();
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json({ message: 'Invitation token is required.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const result = await acceptInvitation(token, new mongoose.Types.ObjectId(decoded.userId.toString()));
+    if ('error' in result) {
+      return NextResponse.json({ message: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      {
+        message: `You joined ${result.membership.organizationName || 'the organization'}.`,
+        role: result.membership.role,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error accepting invitation:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while accepting invitation.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+// app/api/organization/members/[memberId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Organization from '@/lib/models/organization';
+import { getEmployerMembership, type EmployerMembership } from '@/lib/organizations';
+import {
+  ORGANIZATION_ROLE_LABELS,
+  canManageMember,
+  getAssignableRoles,
+  hasOrganizationPermission,
+  isOrganizationRole,
+} from '@/lib/organization-roles';
+import mongoose from 'mongoose';
+
+const CONFLICT_MESSAGE = 'This member was updated by someone else. Please refresh and try again.';
+
+// Verifies the auth cookie and returns the employer's membership, or an error response
+async function authenticateMember(req: NextRequest): Promise<{ membership: EmployerMembership } | { error: NextResponse }> {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  if (decoded.role !== 'employer') {
+    return { error: NextResponse.json({ message: 'Access denied. Employer access only.' }, { status: 403 }) };
+  }
+
+  await dbConnect();
+
+  const membership = await getEmployerMembership(new mongoose.Types.ObjectId(decoded.userId.toString()));
+  if (!membership) {
+    return { error: NextResponse.json({ message: 'Employer profile not found.' }, { status: 404 }) };
+  }
+  return { membership };
+}
+
+// Loads the member's current role in the organization
+async function findMemberRole(organizationId: mongoose.Types.ObjectId, memberId: mongoose.Types.ObjectId) {
+  const organization = await Organization.findOne({ _id: organizationId, 'members.employerId': memberId })
+    .select({ members: { $elemMatch: { employerId: memberId } } })
+    .lean<any>();
+  return organization?.members?.[0]?.role as string | undefined;
+}
+
+// PATCH - Change a member's role. Body: { role }
+// Owners manage admins, recruiters and hiring managers; admins manage recruiters and hiring managers.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { memberId: string } }
+) {
+  try {
+    const auth = await authenticateMember(req);
+    if ('error' in auth) return auth.error;
+    const { membership } = auth;
+
+    if (!mongoose.Types.ObjectId.isValid(params.memberId)) {
+      return NextResponse.json({ message: 'Invalid member ID.' }, { status: 400 });
+    }
+
+    const { role } = await req.json();
+    if (!isOrganizationRole(role)) {
+      return NextResponse.json({ message: `Invalid role "${role}".` }, { status: 400 });
+    }
+
+    if (!hasOrganizationPermission(membership.role, 'manage_team')) {
+      return NextResponse.json({ message: 'Access denied. Only owners and admins can manage the team.' }, { status: 403 });
+    }
+
+    const memberId = new mongoose.Types.ObjectId(params.memberId);
+    if (memberId.equals(membership.employerId)) {
+      return NextResponse.json({ message: 'You cannot change your own role.' }, { status: 400 });
+    }
+
+    const currentRole = await findMemberRole(membership.organizationId, memberId);
+    if (!isOrganizationRole(currentRole)) {
+      return NextResponse.json({ message: 'Member not found.' }, { status: 404 });
+    }
+
+    if (!canManageMember(membership.role, currentRole) || !getAssignableRoles(membership.role).includes(role)) {
+      return NextResponse.json(
+        { message: `Access denied. Your role cannot change ${ORGANIZATION_ROLE_LABELS[currentRole]} members to ${ORGANIZATION_ROLE_LABELS[role]}.` },
+        { status: 403 }
+      );
+    }
+
+    // Only apply the change if the member's role hasn't changed since it was checked
+    const result = await Organization.updateOne(
+      { _id: membership.organizationId, members: { $elemMatch: { employerId: memberId, role: currentRole } } },
+      { $set: { 'members.$.role': role } }
+    );
+    if (result.matchedCount === 0) {
+      return NextResponse.json({ message: CONFLICT_MESSAGE }, { status: 409 });
+    }
+
+    console.log('👥 Member role changed:', {
+      organizationId: membership.organizationId.toString(),
+      memberId: params.memberId,
+      from: currentRole,
+      to: role,
+    });
+
+    return NextResponse.json({ message: 'Role updated.', role }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error changing member role:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while changing member role.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a member from the organization, or leave it (your own id). The owner cannot leave.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { memberId: string } }
+) {
+  try {
+    const auth = await authenticateMember(req);
+    if ('error' in auth) return auth.error;
+    const { membership } = auth;
+
+    if (!mongoose.Types.ObjectId.isValid(params.memberId)) {
+      return NextResponse.json({ message: 'Invalid member ID.' }, { status: 400 });
+    }
+
+    const memberId = new mongoose.Types.ObjectId(params.memberId);
+    const leaving = memberId.equals(membership.employerId);
+
+    const currentRole = await findMemberRole(membership.organizationId, memberId);
+    if (!isOrganizationRole(currentRole)) {
+      return NextResponse.json({ message: 'Member not found.' }, { status: 404 });
+    }
+
+    if (currentRole === 'owner') {
+      return NextResponse.json(
+        { message: leaving ? 'The owner cannot leave the organization.' : 'The owner cannot be removed.' },
+        { status: 400 }
+      );
+    }
+    if (!leaving && !canManageMember(membership.role, currentRole)) {
+      return NextResponse.json(
+        { message: `Access denied. Your role cannot remove ${ORGANIZATION_ROLE_LABELS[currentRole]} members.` },
+        { status: 403 }
+      );
+    }
+
+    const result = await Organization.updateOne(
+      { _id: membership.organizationId, members: { $elemMatch: { employerId: memberId, role: currentRole } } },
+      { $pull: { members: { employerId: memberId } } }
+    );
+    if (result.modifiedCount === 0) {
+      return NextResponse.json({ message: CONFLICT_MESSAGE }, { status: 409 });
+    }
+
+    console.log(leaving ? '👋 Member left organization:' : '👥 Member removed:', {
+      organizationId: membership.organizationId.toString(),
+      memberId: params.memberId,
+    });
+
+    return NextResponse.json({ message: leaving ? 'You left the organization.' : 'Member removed.' }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error removing member:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while removing member.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// app/api/organization/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import { getOrganizationTeam, requireOrganizationPermission } from '@/lib/organizations';
+import { hasOrganizationPermission } from '@/lib/organization-roles';
+import mongoose from 'mongoose';
+
+// GET - The signed-in employer's organization: its members, your role and (for owners and admins) pending invitations
+export async function GET(req: NextRequest) {
+  try {
+    const token = req.cookies.get('auth_token')?.value;
+
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 });
+    }
+
+    const decoded = verifyToken(token);
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 });
+    }
+
+    if (decoded.role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied. Employer access only.' }, { status: 403 });
+    }
+
+    await dbConnect();
+
+    const employerId = new mongoose.Types.ObjectId(decoded.userId.toString());
+    const access = await requireOrganizationPermission(employerId, 'view');
+    if ('error' in access) {
+      return NextResponse.json({ message: access.error }, { status: access.status });
+    }
+    const { membership } = access;
+
+    const team = await getOrganizationTeam(membership.organizationId, employerId);
+    if (!team) {
+      return NextResponse.json({ message: 'Organization not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        organization: {
+          ...team,
+          invitations: hasOrganizationPermission(membership.role, 'manage_team') ? team.invitations : [],
+        },
+        role: membership.role,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error fetching organization:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching organization.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
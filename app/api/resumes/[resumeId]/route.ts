@@ -0,0 +1,141 @@
+// app/api/resumes/[resumeId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import JobSeeker from '@/lib/models/jobseeker';
+import StoredFile from '@/lib/models/stored-file';
+import {
+  MAX_RESUME_NAME_LENGTH,
+  formatLibraryResume,
+  normalizeDefaultResume,
+  releaseResumeFile,
+} from '@/lib/resume-library';
+import mongoose from 'mongoose';
+
+// Verifies the auth cookie and loads the job seeker and the requested library entry
+async function loadResume(req: NextRequest, resumeId: string) {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  if (decoded.role !== 'job-seeker') {
+    return { error: NextResponse.json({ message: 'Access denied. Job seeker access only.' }, { status: 403 }) };
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(resumeId)) {
+    return { error: NextResponse.json({ message: 'Resume not found.' }, { status: 404 }) };
+  }
+
+  await dbConnect();
+
+  const jobSeeker = await JobSeeker.findById(decoded.userId);
+  const resume = jobSeeker?.resumes.id(resumeId);
+  if (!jobSeeker || !resume) {
+    return { error: NextResponse.json({ message: 'Resume not found.' }, { status: 404 }) };
+  }
+
+  return { userId: decoded.userId.toString(), jobSeeker, resume };
+}
+
+// PATCH - Rename a resume, make it the default, or replace its file with a new upload.
+// Body: { name?, isDefault?: true, fileId? }. Applications already sent keep the old file and its parsed data.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { resumeId: string } }
+) {
+  try {
+    const loaded = await loadResume(req, params.resumeId);
+    if ('error' in loaded) return loaded.error;
+    const { userId, jobSeeker, resume } = loaded;
+
+    const { name, isDefault, fileId } = await req.json();
+    let replacedFileId: mongoose.Types.ObjectId | null = null;
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ message: 'Resume name cannot be empty.' }, { status: 400 });
+      }
+      resume.name = name.trim().slice(0, MAX_RESUME_NAME_LENGTH);
+    }
+
+    if (fileId !== undefined) {
+      if (!mongoose.Types.ObjectId.isValid(fileId)) {
+        return NextResponse.json({ message: 'A valid file ID is required.' }, { status: 400 });
+      }
+      const file = await StoredFile.findOne({ _id: fileId, ownerId: userId, purpose: 'resume' }).lean<any>();
+      if (!file) {
+        return NextResponse.json({ message: 'Resume file not found. Please upload it again.' }, { status: 400 });
+      }
+      if (file._id.toString() !== resume.fileId.toString()) {
+        replacedFileId = resume.fileId;
+        resume.fileId = file._id;
+        resume.fileName = file.originalName;
+        resume.contentType = file.contentType;
+        resume.size = file.size;
+        resume.uploadedAt = new Date();
+        resume.parsed = file.parsed;
+      }
+    }
+
+    if (isDefault !== undefined && isDefault !== true) {
+      return NextResponse.json(
+        { message: 'To change the default, mark another resume as the default.' },
+        { status: 400 }
+      );
+    }
+
+    normalizeDefaultResume(jobSeeker, isDefault === true ? resume._id.toString() : undefined);
+    await jobSeeker.save();
+
+    if (replacedFileId) {
+      await releaseResumeFile(replacedFileId);
+    }
+
+    console.log('📄 Updated resume in library:', { jobSeekerId: userId, resumeId: params.resumeId });
+
+    return NextResponse.json({ resume: formatLibraryResume(resume) }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error updating resume:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while updating resume.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a resume from the library. If it was the default, the next one becomes the default.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { resumeId: string } }
+) {
+  try {
+    const loaded = await loadResume(req, params.resumeId);
+    if ('error' in loaded) return loaded.error;
+    const { userId, jobSeeker, resume } = loaded;
+
+    const fileId = resume.fileId;
+    resume.deleteOne();
+    normalizeDefaultResume(jobSeeker);
+    await jobSeeker.save();
+
+    await releaseResumeFile(fileId);
+
+    console.log('🗑️ Removed resume from library:', { jobSeekerId: userId, resumeId: params.resumeId });
+
+    return NextResponse.json({ message: 'Resume deleted.' }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error deleting resume:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while deleting resume.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
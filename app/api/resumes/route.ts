@@ -0,0 +1,129 @@
+// app/api/resumes/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import JobSeeker from '@/lib/models/jobseeker';
+import StoredFile from '@/lib/models/stored-file';
+import {
+  MAX_LIBRARY_RESUMES,
+  MAX_RESUME_NAME_LENGTH,
+  formatLibraryResume,
+  normalizeDefaultResume,
+} from '@/lib/resume-library';
+import mongoose from 'mongoose';
+
+// Verifies the auth cookie and returns the job seeker's id, or an error response
+function authenticateJobSeeker(req: NextRequest): { userId: string } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  // Verify user is a job seeker
+  if (decoded.role !== 'job-seeker') {
+    return { error: NextResponse.json({ message: 'Access denied. Job seeker access only.' }, { status: 403 }) };
+  }
+
+  return { userId: decoded.userId.toString() };
+}
+
+// GET - List the job seeker's resume library, default first
+export async function GET(req: NextRequest) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    const jobSeeker = await JobSeeker.findById(auth.userId).select('resumes').lean<{ resumes?: any[] }>();
+    if (!jobSeeker) {
+      return NextResponse.json({ message: 'Job seeker profile not found.' }, { status: 404 });
+    }
+
+    const resumes = [...(jobSeeker.resumes || [])]
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())
+      .map(formatLibraryResume);
+
+    return NextResponse.json({ resumes }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error fetching resumes:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching resumes.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add an uploaded file (see POST /api/files) to the library.
+// Body: { fileId, name, isDefault? }. The first resume becomes the default.
+export async function POST(req: NextRequest) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    const { fileId, name, isDefault } = await req.json();
+    if (!fileId || !mongoose.Types.ObjectId.isValid(fileId)) {
+      return NextResponse.json({ message: 'A valid file ID is required.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const file = await StoredFile.findOne({ _id: fileId, ownerId: auth.userId, purpose: 'resume' }).lean<any>();
+    if (!file) {
+      return NextResponse.json({ message: 'Resume file not found. Please upload it again.' }, { status: 400 });
+    }
+
+    const resumeName = (typeof name === 'string' && name.trim() ? name.trim() : file.originalName).slice(0, MAX_RESUME_NAME_LENGTH);
+
+    const jobSeeker = await JobSeeker.findById(auth.userId);
+    if (!jobSeeker) {
+      return NextResponse.json({ message: 'Job seeker profile not found.' }, { status: 404 });
+    }
+
+    if (jobSeeker.resumes.length >= MAX_LIBRARY_RESUMES) {
+      return NextResponse.json(
+        { message: `You can keep up to ${MAX_LIBRARY_RESUMES} resumes. Delete one to add another.` },
+        { status: 400 }
+      );
+    }
+
+    if (jobSeeker.resumes.some((resume: any) => resume.fileId.toString() === file._id.toString())) {
+      return NextResponse.json({ message: 'This file is already in your resume library.' }, { status: 409 });
+    }
+
+    jobSeeker.resumes.push({
+      name: resumeName,
+      fileId: file._id,
+      fileName: file.originalName,
+      contentType: file.contentType,
+      size: file.size,
+      isDefault: false,
+      uploadedAt: new Date(),
+      parsed: file.parsed,
+    });
+    const added = jobSeeker.resumes[jobSeeker.resumes.length - 1];
+    normalizeDefaultResume(jobSeeker, isDefault === true ? added._id.toString() : undefined);
+    await jobSeeker.save();
+
+    console.log('📄 Added resume to library:', {
+      jobSeekerId: auth.userId,
+      resumeId: added._id.toString(),
+      isDefault: added.isDefault,
+    });
+
+    return NextResponse.json({ resume: formatLibraryResume(added) }, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error adding resume:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while adding resume.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
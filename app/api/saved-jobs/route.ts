@@ -0,0 +1,177 @@
+// app/api/saved-jobs/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import Job from '@/lib/models/job';
+import JobSeeker from '@/lib/models/jobseeker';
+import { syncJobStatuses } from '@/lib/job-lifecycle';
+import mongoose from 'mongoose';
+
+// Verifies the auth cookie and returns the job seeker's id, or an error response
+function authenticateJobSeeker(req: NextRequest): { userId: string } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  // Verify user is a job seeker
+  if (decoded.role !== 'job-seeker') {
+    return { error: NextResponse.json({ message: 'Access denied. Job seeker access only.' }, { status: 403 }) };
+  }
+
+  return { userId: decoded.userId.toString() };
+}
+
+// Transform a job document to match the frontend Job interface format
+function formatJob(job: any) {
+  return {
+    id: job._id.toString(),
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    salary: job.salary || '',
+    salaryRange: job.salaryRange || null,
+    type: job.type,
+    remote: job.remote || false,
+    description: job.description,
+    requirements: job.requirements || [],
+    postedDate: job.postedDate ? new Date(job.postedDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+    deadline: job.deadline || undefined,
+    applicants: job.applicants || 0,
+    status: job.status || 'Active',
+    employerId: job.employerId ? job.employerId.toString() : '',
+    category: job.category || '',
+    experience: job.experience || '',
+    benefits: job.benefits || [],
+    companySize: job.companySize || '',
+    industry: job.industry || '',
+  };
+}
+
+// GET - List the job seeker's saved jobs, newest first, with each job's current availability
+// availability: "Active" (open), "Closed" (deadline passed or closed by the employer),
+// "Unavailable" (unpublished or deleted - job is null in that case)
+export async function GET(req: NextRequest) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    // Publish scheduled drafts and auto-close jobs with expired deadlines
+    await syncJobStatuses();
+
+    const jobSeeker = await JobSeeker.findById(auth.userId).select('savedJobs').lean<{ savedJobs?: any[] }>();
+    if (!jobSeeker) {
+      return NextResponse.json({ message: 'Job seeker profile not found.' }, { status: 404 });
+    }
+
+    const savedEntries = [...(jobSeeker.savedJobs || [])].sort(
+      (a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime()
+    );
+
+    const jobs = await Job.find({ _id: { $in: savedEntries.map((entry) => entry.jobId) } }).lean<any[]>();
+    const jobsById = new Map(jobs.map((job) => [job._id.toString(), job]));
+
+    const savedJobs = savedEntries.map((entry) => {
+      const job = jobsById.get(entry.jobId.toString());
+      const isVisible = job && job.status !== 'Draft';
+      return {
+        jobId: entry.jobId.toString(),
+        jobTitle: job?.title || entry.jobTitle,
+        company: job?.company || entry.company,
+        savedAt: new Date(entry.savedAt).toISOString(),
+        availability: !isVisible ? 'Unavailable' : job.status === 'Active' ? 'Active' : 'Closed',
+        job: isVisible ? formatJob(job) : null,
+      };
+    });
+
+    return NextResponse.json({ savedJobs }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error fetching saved jobs:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching saved jobs.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save a job. Body: { jobId }. Saving an already saved job is a no-op.
+export async function POST(req: NextRequest) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    const { jobId } = await req.json();
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return NextResponse.json({ message: 'A valid job ID is required.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const job = await Job.findById(jobId).select('title company status').lean<any>();
+    if (!job || job.status === 'Draft') {
+      return NextResponse.json({ message: 'Job not found.' }, { status: 404 });
+    }
+
+    const savedAt = new Date();
+    const result = await JobSeeker.updateOne(
+      { _id: auth.userId, 'savedJobs.jobId': { $ne: job._id } },
+      { $push: { savedJobs: { jobId: job._id, jobTitle: job.title, company: job.company, savedAt } } }
+    );
+
+    console.log('🔖 Saved job:', {
+      jobSeekerId: auth.userId,
+      jobId,
+      alreadySaved: result.modifiedCount === 0,
+    });
+
+    return NextResponse.json(
+      { message: 'Job saved.', jobId: job._id.toString(), savedAt: savedAt.toISOString() },
+      { status: result.modifiedCount > 0 ? 201 : 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error saving job:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while saving job.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a saved job. Query param: jobId
+export async function DELETE(req: NextRequest) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    const jobId = new URL(req.url).searchParams.get('jobId');
+    if (!jobId || !mongoose.Types.ObjectId.isValid(jobId)) {
+      return NextResponse.json({ message: 'A valid job ID is required.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    await JobSeeker.updateOne(
+      { _id: auth.userId },
+      { $pull: { savedJobs: { jobId: new mongoose.Types.ObjectId(jobId) } } }
+    );
+
+    console.log('🗑️ Removed saved job:', { jobSeekerId: auth.userId, jobId });
+
+    return NextResponse.json({ message: 'Job removed from saved jobs.' }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error removing saved job:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while removing saved job.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
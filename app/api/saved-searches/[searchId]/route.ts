@@ -0,0 +1,132 @@
+// app/api/saved-searches/[searchId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import SavedSearch from '@/lib/models/saved-search';
+import {
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  formatSavedSearch,
+  isAlertFrequency,
+  sanitizeSavedSearchFilters,
+} from '@/lib/saved-searches';
+import mongoose from 'mongoose';
+
+// Verifies the auth cookie and returns the job seeker's id, or an error response
+function authenticateJobSeeker(req: NextRequest): { userId: string } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  // Verify user is a job seeker
+  if (decoded.role !== 'job-seeker') {
+    return { error: NextResponse.json({ message: 'Access denied. Job seeker access only.' }, { status: 403 }) };
+  }
+
+  return { userId: decoded.userId.toString() };
+}
+
+// PATCH - Rename a saved search, change its alerts, or replace its filters.
+// Body: { name?, alertFrequency?, filters? }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { searchId: string } }
+) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    if (!mongoose.Types.ObjectId.isValid(params.searchId)) {
+      return NextResponse.json({ message: 'Saved search not found.' }, { status: 404 });
+    }
+
+    const { name, alertFrequency, filters: filtersInput } = await req.json();
+    const updates: Record<string, any> = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ message: 'Saved search name cannot be empty.' }, { status: 400 });
+      }
+      updates.name = name.trim().slice(0, MAX_SAVED_SEARCH_NAME_LENGTH);
+    }
+
+    if (alertFrequency !== undefined) {
+      if (!isAlertFrequency(alertFrequency)) {
+        return NextResponse.json({ message: 'Alerts must be instant, daily, weekly or off.' }, { status: 400 });
+      }
+      // Start the new schedule from now, without jobs queued under the old one
+      updates.alertFrequency = alertFrequency;
+      updates.pendingJobIds = [];
+      updates.lastAlertedAt = new Date();
+    }
+
+    if (filtersInput !== undefined) {
+      const { filters, error } = sanitizeSavedSearchFilters(filtersInput);
+      if (error) {
+        return NextResponse.json({ message: error }, { status: 400 });
+      }
+      updates.filters = filters;
+      updates.pendingJobIds = [];
+    }
+
+    await dbConnect();
+
+    const savedSearch = await SavedSearch.findOneAndUpdate(
+      { _id: params.searchId, jobSeekerId: auth.userId },
+      { $set: updates },
+      { new: true }
+    ).lean<any>();
+    if (!savedSearch) {
+      return NextResponse.json({ message: 'Saved search not found.' }, { status: 404 });
+    }
+
+    console.log('🔎 Saved search updated:', { savedSearchId: params.searchId, fields: Object.keys(updates) });
+
+    return NextResponse.json({ savedSearch: formatSavedSearch(savedSearch) }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error updating saved search:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while updating saved search.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a saved search and its alerts
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { searchId: string } }
+) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    if (!mongoose.Types.ObjectId.isValid(params.searchId)) {
+      return NextResponse.json({ message: 'Saved search not found.' }, { status: 404 });
+    }
+
+    await dbConnect();
+
+    const result = await SavedSearch.deleteOne({ _id: params.searchId, jobSeekerId: auth.userId });
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ message: 'Saved search not found.' }, { status: 404 });
+    }
+
+    console.log('🗑️ Saved search deleted:', { jobSeekerId: auth.userId, savedSearchId: params.searchId });
+
+    return NextResponse.json({ message: 'Saved search deleted.' }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error deleting saved search:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while deleting saved search.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
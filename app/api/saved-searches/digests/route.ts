@@ -0,0 +1,28 @@
+// app/api/saved-searches/digests/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { sendDueSavedSearchDigests } from '@/lib/saved-search-alerts';
+
+// GET - Send the daily and weekly saved search digests that are due. Meant for a scheduler
+// (e.g. a cron job every 15 minutes) and authorized with "Authorization: Bearer <CRON_SECRET>".
+export async function GET(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ message: 'Unauthorized.' }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    const sent = await sendDueSavedSearchDigests();
+
+    return NextResponse.json({ sent }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Error running saved search digests:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while sending digests.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
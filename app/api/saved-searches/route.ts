@@ -0,0 +1,109 @@
+// app/api/saved-searches/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
+import SavedSearch from '@/lib/models/saved-search';
+import {
+  MAX_SAVED_SEARCHES,
+  MAX_SAVED_SEARCH_NAME_LENGTH,
+  formatSavedSearch,
+  isAlertFrequency,
+  sanitizeSavedSearchFilters,
+} from '@/lib/saved-searches';
+import { generateSecureToken } from '@/lib/token-utils';
+
+// Verifies the auth cookie and returns the job seeker's id, or an error response
+function authenticateJobSeeker(req: NextRequest): { userId: string } | { error: NextResponse } {
+  const token = req.cookies.get('auth_token')?.value;
+
+  if (!token) {
+    return { error: NextResponse.json({ message: 'Authentication required.' }, { status: 401 }) };
+  }
+
+  const decoded = verifyToken(token);
+  if (!decoded) {
+    return { error: NextResponse.json({ message: 'Invalid or expired token.' }, { status: 401 }) };
+  }
+
+  // Verify user is a job seeker
+  if (decoded.role !== 'job-seeker') {
+    return { error: NextResponse.json({ message: 'Access denied. Job seeker access only.' }, { status: 403 }) };
+  }
+
+  return { userId: decoded.userId.toString() };
+}
+
+// GET - List the job seeker's saved searches, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    await dbConnect();
+
+    const savedSearches = await SavedSearch.find({ jobSeekerId: auth.userId }).sort({ createdAt: -1 }).lean<any[]>();
+
+    return NextResponse.json({ savedSearches: savedSearches.map(formatSavedSearch) }, { status: 200 });
+  } catch (error: any) {
+    console.error('Error fetching saved searches:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while fetching saved searches.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save the current search text and filters under a name.
+// Body: { name, filters, alertFrequency? (instant | daily | weekly | off, default daily) }
+export async function POST(req: NextRequest) {
+  try {
+    const auth = authenticateJobSeeker(req);
+    if ('error' in auth) return auth.error;
+
+    const { name, filters: filtersInput, alertFrequency = 'daily' } = await req.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ message: 'Give your search a name.' }, { status: 400 });
+    }
+    if (!isAlertFrequency(alertFrequency)) {
+      return NextResponse.json({ message: 'Alerts must be instant, daily, weekly or off.' }, { status: 400 });
+    }
+    const { filters, error } = sanitizeSavedSearchFilters(filtersInput);
+    if (error) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const count = await SavedSearch.countDocuments({ jobSeekerId: auth.userId });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { message: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.` },
+        { status: 400 }
+      );
+    }
+
+    const savedSearch = await SavedSearch.create({
+      jobSeekerId: auth.userId,
+      name: name.trim().slice(0, MAX_SAVED_SEARCH_NAME_LENGTH),
+      filters,
+      alertFrequency,
+      lastAlertedAt: new Date(), // The first digest covers jobs posted from now on
+      unsubscribeToken: generateSecureToken(),
+    });
+
+    console.log('🔎 Saved search created:', {
+      jobSeekerId: auth.userId,
+      savedSearchId: savedSearch._id.toString(),
+      alertFrequency,
+    });
+
+    return NextResponse.json({ savedSearch: formatSavedSearch(savedSearch) }, { status: 201 });
+  } catch (error: any) {
+    console.error('❌ Error saving search:', error);
+    return NextResponse.json(
+      { message: 'Internal server error while saving search.', error: error.message },
+      { status: 500 }
+    );
+  }
+}
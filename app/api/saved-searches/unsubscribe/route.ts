@@ -0,0 +1,40 @@
+// app/api/saved-searches/unsubscribe/route.ts
+
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import SavedSearch from '@/lib/models/saved-search';
+
+// GET - Turn off alerts for one saved search from the link in an alert email (no sign-in needed).
+// Query params: token (the search's unsubscribe token). The search itself is kept.
+export async function GET(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    if (!token) {
+      return NextResponse.json({ message: 'Unsubscribe token is required.' }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const savedSearch = await SavedSearch.findOneAndUpdate(
+      { unsubscribeToken: token },
+      { $set: { alertFrequency: 'off', pendingJobIds: [] } },
+      { new: true }
+    ).lean<any>();
+    if (!savedSearch) {
+      return NextResponse.json({ message: 'This unsubscribe link is invalid or the search was deleted.' }, { status: 404 });
+    }
+
+    console.log('🔕 Saved search alerts turned off by unsubscribe link:', { savedSearchId: savedSearch._id.toString() });
+
+    return NextResponse.json(
+      { message: `You will no longer get alerts for "${savedSearch.name}".`, searchName: savedSearch.name },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Error unsubscribing from saved search alerts:', error);
+    return NextResponse.json(
+      { message: 'An error occurred while unsubscribing. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
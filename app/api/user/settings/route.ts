@@ -3,15 +3,53 @@ import dbConnect from '@/lib/mongodb'
 import JobSeeker from '@/lib/models/jobseeker'
 import Employer from '@/lib/models/employer'
 import { verifyToken, verifyPassword, hashPassword, createToken } from '@/lib/auth'
+import { EMAIL_EVENTS, EmailRole, resolveEmailPreferences, sanitizeEmailPreferences } from '@/lib/email-preferences'
+
+// GET - Current user's email preferences and the events they can opt in or out of
+export async function GET(req: NextRequest) {
+  await dbConnect()
+
+  try {
+    const token = req.cookies.get('auth_token')?.value
+    if (!token) {
+      return NextResponse.json({ message: 'Authentication required.' }, { status: 401 })
+    }
+
+    const decoded = verifyToken(token)
+    if (!decoded) {
+      return NextResponse.json({ message: 'Invalid or expired session.' }, { status: 401 })
+    }
+
+    const { userId } = decoded
+    const role: EmailRole = decoded.role
+    if (role !== 'job-seeker' && role !== 'employer') {
+      return NextResponse.json({ message: 'Access denied.' }, { status: 403 })
+    }
+
+    const Model = role === 'job-seeker' ? JobSeeker : Employer
+    const user = await Model.findById(userId).select('emailPreferences').lean<{ emailPreferences?: Record<string, boolean> }>()
+    if (!user) {
+      return NextResponse.json({ message: 'User not found.' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      emailPreferences: resolveEmailPreferences(role, user.emailPreferences),
+      emailEvents: EMAIL_EVENTS[role],
+    })
+  } catch (error) {
+    console.error('Error fetching settings:', error)
+    return NextResponse.json({ message: 'Unable to load settings right now.' }, { status: 500 })
+  }
+}
 
 export async function PATCH(req: NextRequest) {
   await dbConnect()
 
   try {
     const body = await req.json()
-    const { username, currentPassword, newPassword, confirmPassword } = body || {}
+    const { username, currentPassword, newPassword, confirmPassword, emailPreferences } = body || {}
 
-    if (!username && !newPassword) {
+    if (!username && !newPassword && emailPreferences === undefined) {
       return NextResponse.json({ message: 'No updates provided.' }, { status: 400 })
     }
 
@@ -83,11 +121,29 @@ export async function PATCH(req: NextRequest) {
       updates.passwordHash = await hashPassword(newPassword)
     }
 
+    if (emailPreferences !== undefined) {
+      const { updates: preferenceUpdates, error } = sanitizeEmailPreferences(role, emailPreferences)
+      if (error) {
+        return NextResponse.json({ message: error }, { status: 400 })
+      }
+
+      if (Object.keys(preferenceUpdates).length > 0) {
+        updates.emailPreferences = {
+          ...resolveEmailPreferences(role, user.emailPreferences),
+          ...preferenceUpdates,
+        }
+      }
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ message: 'No changes detected.' }, { status: 400 })
     }
 
     Object.assign(user, updates)
+    if (updates.emailPreferences) {
+      // emailPreferences is a mixed-type field, so Mongoose needs to be told it changed
+      user.markModified('emailPreferences')
+    }
     await user.save()
 
     const response = NextResponse.json({
@@ -97,6 +153,7 @@ export async function PATCH(req: NextRequest) {
         username: user.username,
         role: user.role,
       },
+      emailPreferences: resolveEmailPreferences(role, user.emailPreferences),
     })
 
     if (usernameChanged) {
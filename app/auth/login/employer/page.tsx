@@ -54,8 +54,14 @@ export default function EmployerLogin() {
       // 3️⃣ Handle successful login
       if (response.ok) {
         const userRole = result.user?.role
+        // Pages that send employers here to sign in (e.g. an invitation link) pass ?next= to come back to
+        const next = new URLSearchParams(window.location.search).get("next")
         const redirectTo =
-          userRole === "job-seeker" ? "/job-seeker" : "/employer"
+          userRole === "job-seeker"
+            ? "/job-seeker"
+            : next && next.startsWith("/") && !next.startsWith("//")
+              ? next
+              : "/employer"
 
         // ✅ Use full page reload to ensure cookies are set properly
         window.location.href = redirectTo
@@ -0,0 +1,267 @@
+// app/companies/[employerId]/page.tsx - Public company page: the employer's profile, open roles and hiring stats
+
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import {
+  Briefcase,
+  Building,
+  Calendar,
+  Clock,
+  DollarSign,
+  ExternalLink,
+  Globe,
+  Linkedin,
+  MapPin,
+  MessageSquare,
+  Users,
+} from "lucide-react"
+import { MainNav } from "@/components/navigation/main-nav"
+import { companyPagePath, formatResponseTime, getPublicCompany } from "@/lib/public-companies"
+import { getSiteUrl, jobPagePath } from "@/lib/public-jobs"
+import { formatSalaryRange } from "@/lib/salary"
+
+// Open roles and stats change with every posting and application
+export const dynamic = "force-dynamic"
+
+interface CompanyPageProps {
+  params: Promise<{ employerId: string }>
+}
+
+function formatDate(value: string | Date | undefined) {
+  if (!value) return ""
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return String(value)
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric", timeZone: "UTC" })
+}
+
+export async function generateMetadata({ params }: CompanyPageProps): Promise<Metadata> {
+  const { employerId } = await params
+  const publicCompany = await getPublicCompany(employerId)
+  if (!publicCompany) {
+    return { title: "Company not found - TopGrab", robots: { index: false } }
+  }
+
+  const { company, stats } = publicCompany
+  const roles = `${stats.openRoles} open ${stats.openRoles === 1 ? "role" : "roles"}`
+  const about = (company.description || company.mission).replace(/\s+/g, " ").trim()
+  const text = `${company.name}${company.industry ? ` (${company.industry})` : ""} is hiring: ${roles} on TopGrab.${about ? ` ${about}` : ""}`
+  const description = text.length > 160 ? `${text.slice(0, 159).trimEnd()}…` : text
+  const url = `${getSiteUrl()}${companyPagePath(company.id)}`
+  const title = `Jobs at ${company.name}`
+  // Base64 photos are too large to embed in metadata
+  const image = company.photo && /^https?:\/\//i.test(company.photo) ? company.photo : undefined
+
+  return {
+    title: `${title} - TopGrab`,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: "website",
+      siteName: "TopGrab",
+      url,
+      title,
+      description,
+      ...(image ? { images: [{ url: image, alt: company.name }] } : {}),
+    },
+    twitter: {
+      card: "summary",
+      title,
+      description,
+    },
+  }
+}
+
+export default async function CompanyPage({ params }: CompanyPageProps) {
+  const { employerId } = await params
+  const publicCompany = await getPublicCompany(employerId)
+  if (!publicCompany) notFound()
+
+  const { company, openJobs, stats } = publicCompany
+  const details = [
+    { icon: Building, value: company.industry },
+    { icon: MapPin, value: company.location },
+    { icon: Users, value: company.size ? `${company.size} employees` : "" },
+    { icon: Calendar, value: company.founded ? `Founded ${company.founded}` : "" },
+  ].filter((detail) => detail.value)
+  const hiringStats = [
+    { icon: Briefcase, label: "Open roles", value: String(stats.openRoles) },
+    {
+      icon: Clock,
+      label: "Typical response time",
+      value: stats.typicalResponseHours !== null ? formatResponseTime(stats.typicalResponseHours) : "Not enough data",
+    },
+    {
+      icon: MessageSquare,
+      label: "Applications answered",
+      value: stats.responseRate !== null ? `${stats.responseRate}%` : "Not enough data",
+    },
+    { icon: Calendar, label: "Roles posted", value: String(stats.rolesPosted) },
+  ]
+
+  return (
+    <div className="min-h-screen bg-background">
+      <MainNav />
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col sm:flex-row gap-6 sm:items-center">
+              <Avatar className="w-20 h-20">
+                {company.photo && <AvatarImage src={company.photo} alt={company.name} className="object-cover" />}
+                <AvatarFallback className="bg-primary/10 text-primary text-2xl">
+                  {company.name.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 space-y-2">
+                <h1 className="text-3xl font-bold">{company.name}</h1>
+                {details.length > 0 && (
+                  <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                    {details.map(({ icon: Icon, value }) => (
+                      <div key={value} className="flex items-center gap-1">
+                        <Icon className="h-4 w-4" />
+                        <span>{value}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-4 text-sm">
+                  {company.website && (
+                    <a
+                      href={company.website}
+                      target="_blank"
+                      rel="noopener noreferrer nofollow"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <Globe className="h-4 w-4" />
+                      Website
+                    </a>
+                  )}
+                  {company.linkedin && (
+                    <a
+                      href={company.linkedin}
+                      target="_blank"
+                      rel="noopener noreferrer nofollow"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <Linkedin className="h-4 w-4" />
+                      LinkedIn
+                    </a>
+                  )}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {hiringStats.map(({ icon: Icon, label, value }) => (
+            <Card key={label}>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </div>
+                <p className="text-xl font-semibold">{value}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-4">
+            <h2 className="text-xl font-semibold">
+              Open roles {openJobs.length > 0 && <span className="text-muted-foreground">({openJobs.length})</span>}
+            </h2>
+            {openJobs.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  {company.name} has no open roles right now.
+                </CardContent>
+              </Card>
+            ) : (
+              openJobs.map((job) => {
+                const salary = formatSalaryRange(job.salaryRange) || job.salary
+                return (
+                  <Link key={String(job._id)} href={jobPagePath(String(job._id))} className="block group">
+                    <Card className="transition-colors group-hover:border-primary/40">
+                      <CardContent className="pt-6 space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <h3 className="font-semibold text-lg group-hover:text-primary">{job.title}</h3>
+                          <ExternalLink className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-1" />
+                        </div>
+                        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                          <div className="flex items-center gap-1">
+                            <MapPin className="h-4 w-4" />
+                            <span>{job.location}</span>
+                            {job.remote && (
+                              <Badge variant="secondary" className="ml-1 text-xs">
+                                Remote
+                              </Badge>
+                            )}
+                          </div>
+                          {salary && (
+                            <div className="flex items-center gap-1">
+                              <DollarSign className="h-4 w-4" />
+                              <span>{salary}</span>
+                            </div>
+                          )}
+                          <div className="flex items-center gap-1">
+                            <Clock className="h-4 w-4" />
+                            <span>{job.type}</span>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <Calendar className="h-4 w-4" />
+                            <span>Posted {formatDate(job.postedDate)}</span>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </Link>
+                )
+              })
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {(company.description || company.mission) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>About {company.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {company.description && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{company.description}</p>
+                  )}
+                  {company.mission && (
+                    <div>
+                      <h3 className="text-sm font-semibold mb-1">Mission</h3>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{company.mission}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+            {company.specialties.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Specialties</CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  {company.specialties.map((specialty) => (
+                    <Badge key={specialty} variant="outline">
+                      {specialty}
+                    </Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
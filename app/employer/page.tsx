@@ -3,41 +3,23 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Building, Plus, FileText, Users } from "lucide-react"
+import { Building, Plus, FileText, Users, UserCog } from "lucide-react"
 import { MainNav } from "@/components/navigation/main-nav"
 import { BreadcrumbNav } from "@/components/navigation/breadcrumb-nav"
 import { EmployerProfileCard } from "@/components/employer-profile-card"
 import { PostJobForm } from "@/components/post-job-form"
 import { MyJobsTab } from "@/components/my-jobs-tab"
+import { TeamTab } from "@/components/team-tab"
 import { useJobs } from "@/lib/job-context"
-
-// Mock notifications
-const mockNotifications = [
-  {
-    id: 1,
-    message: "New application for Senior Frontend Developer",
-    time: "2 hours ago",
-    unread: true,
-  },
-  {
-    id: 2,
-    message: "Application withdrawn for Product Designer",
-    time: "1 day ago",
-    unread: true,
-  },
-  {
-    id: 3,
-    message: "Job posting approved: Backend Engineer",
-    time: "2 days ago",
-    unread: false,
-  },
-]
+import { formatRelativeTime } from "@/lib/utils"
+import { hasOrganizationPermission, type OrganizationRole } from "@/lib/organization-roles"
 
 export default function EmployerDashboard() {
   const { refreshJobs } = useJobs()
   const [employerJobs, setEmployerJobs] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
-  const unreadCount = mockNotifications.filter((n) => n.unread).length
+  const [recentActivity, setRecentActivity] = useState<any[]>([])
+  const [organizationRole, setOrganizationRole] = useState<OrganizationRole | null>(null)
 
   const breadcrumbItems = [{ label: "Dashboard", current: true }]
 
@@ -104,6 +86,53 @@ export default function EmployerDashboard() {
     return () => clearInterval(interval)
   }, [])
 
+  // Fetch recent activity (the latest notifications)
+  useEffect(() => {
+    const fetchRecentActivity = async () => {
+      try {
+        const response = await fetch('/api/notifications?limit=3', {
+          credentials: 'include',
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setRecentActivity(data.notifications || [])
+        }
+      } catch (error) {
+        console.error('Error fetching recent activity:', error)
+      }
+    }
+
+    fetchRecentActivity()
+
+    const interval = setInterval(fetchRecentActivity, 60000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Fetch the employer's role in their organization (hiring managers get a read-only dashboard)
+  useEffect(() => {
+    const fetchOrganizationRole = async () => {
+      try {
+        const response = await fetch('/api/organization', {
+          credentials: 'include',
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setOrganizationRole(data.role)
+        }
+      } catch (error) {
+        console.error('Error fetching organization role:', error)
+      }
+    }
+
+    fetchOrganizationRole()
+  }, [])
+
+  // Until the role is known the dashboard shows everything; the API enforces permissions either way
+  const canManageJobs = organizationRole === null || hasOrganizationPermission(organizationRole, 'manage_jobs')
+  const canManageApplicants = organizationRole === null || hasOrganizationPermission(organizationRole, 'manage_applicants')
+
   // Calculate stats from employer jobs
   const stats = {
     activeJobs: employerJobs.filter((job) => job.status === 'Active').length,
@@ -146,7 +175,7 @@ export default function EmployerDashboard() {
   return (
     <div className="min-h-screen bg-background">
       {/* Navigation */}
-      <MainNav currentPage="dashboard" notifications={unreadCount} userType="employer" />
+      <MainNav currentPage="dashboard" userType="employer" />
 
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Breadcrumb - Hide Home button when logged in */}
@@ -161,19 +190,25 @@ export default function EmployerDashboard() {
           {/* Main Content */}
           <div className="flex-1">
             <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className={`grid w-full ${canManageJobs ? "grid-cols-4" : "grid-cols-3"}`}>
                 <TabsTrigger value="overview" className="flex items-center gap-2">
                   <Building className="h-4 w-4" />
                   Overview
                 </TabsTrigger>
-                <TabsTrigger value="post-job" className="flex items-center gap-2">
-                  <Plus className="h-4 w-4" />
-                  Post Job
-                </TabsTrigger>
+                {canManageJobs && (
+                  <TabsTrigger value="post-job" className="flex items-center gap-2">
+                    <Plus className="h-4 w-4" />
+                    Post Job
+                  </TabsTrigger>
+                )}
                 <TabsTrigger value="my-jobs" className="flex items-center gap-2">
                   <FileText className="h-4 w-4 text-muted-foreground" />
                   My Jobs ({loading ? '...' : employerJobs.length})
                 </TabsTrigger>
+                <TabsTrigger value="team" className="flex items-center gap-2">
+                  <UserCog className="h-4 w-4" />
+                  Team
+                </TabsTrigger>
               </TabsList>
 
               {/* Overview Tab */}
@@ -218,12 +253,15 @@ export default function EmployerDashboard() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      {mockNotifications.slice(0, 3).map((notification) => (
+                      {recentActivity.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No recent activity yet.</p>
+                      )}
+                      {recentActivity.map((notification) => (
                         <div key={notification.id} className="flex items-start space-x-4">
-                          <div className="w-2 h-2 bg-primary rounded-full mt-2"></div>
+                          <div className={`w-2 h-2 rounded-full mt-2 ${notification.read ? "bg-muted-foreground/40" : "bg-primary"}`}></div>
                           <div className="flex-1">
                             <p className="font-manrope text-sm">{notification.message}</p>
-                            <p className="text-xs text-muted-foreground">{notification.time}</p>
+                            <p className="text-xs text-muted-foreground">{formatRelativeTime(notification.createdAt)}</p>
                           </div>
                         </div>
                       ))}
@@ -233,13 +271,20 @@ export default function EmployerDashboard() {
               </TabsContent>
 
               {/* Post Job Tab */}
-              <TabsContent value="post-job">
-                <PostJobForm />
-              </TabsContent>
+              {canManageJobs && (
+                <TabsContent value="post-job">
+                  <PostJobForm />
+                </TabsContent>
+              )}
 
               {/* My Jobs Tab */}
               <TabsContent value="my-jobs">
-                <MyJobsTab onRefresh={handleRefresh} />
+                <MyJobsTab onRefresh={handleRefresh} readOnly={!canManageApplicants} />
+              </TabsContent>
+
+              {/* Team Tab */}
+              <TabsContent value="team">
+                <TeamTab role={organizationRole} onChanged={() => window.location.reload()} />
               </TabsContent>
             </Tabs>
           </div>
@@ -2,13 +2,18 @@
 
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { MainNav } from "@/components/navigation/main-nav"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { FileText, MapPin, Calendar, Building2, CheckCircle2, Clock, XCircle, UserCheck, MessageSquare, Star } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { ApplicationProgress } from "@/components/application-timeline"
+import { CandidateInterviewPanel } from "@/components/interview-scheduler"
+import { MessagesButton, MessageThreadDialog } from "@/components/message-thread"
+import type { ApplicationHistoryEntry } from "@/lib/application-history"
+import type { FormattedInterview } from "@/lib/interviews"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,6 +38,9 @@ interface MyApplication {
   resume?: string
   coverLetter?: string
   rating: number
+  history?: ApplicationHistoryEntry[]
+  interview?: FormattedInterview | null
+  unreadMessages?: number
 }
 
 export default function MyApplicationsPage() {
@@ -41,6 +49,8 @@ export default function MyApplicationsPage() {
   const [loading, setLoading] = useState(true)
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState<string | null>(null) // Track which dialog is open
+  const [messagesFor, setMessagesFor] = useState<MyApplication | null>(null)
+  const messagesLinkHandledRef = useRef(false)
 
   const fetchApplications = async () => {
     try {
@@ -109,6 +119,17 @@ export default function MyApplicationsPage() {
     return () => clearInterval(interval)
   }, [deletingId])
 
+  // Message notifications link here with ?messages=<applicationId>; open that thread once it has loaded
+  useEffect(() => {
+    if (messagesLinkHandledRef.current || applications.length === 0) return
+    messagesLinkHandledRef.current = true
+    const applicationId = new URLSearchParams(window.location.search).get("messages")
+    const application = applications.find((app) => app.id === applicationId)
+    if (application) {
+      setMessagesFor(application)
+    }
+  }, [applications])
+
   const handleDeleteApplication = async (applicationId: string, jobId: string) => {
     // Add a visible alert first to confirm the function is called
     console.log('🔴 DELETE BUTTON CLICKED!', {
@@ -258,7 +279,7 @@ export default function MyApplicationsPage() {
   if (loading && applications.length === 0) {
     return (
       <div className="min-h-screen bg-background">
-        <MainNav currentPage="applications" notifications={0} userType="job-seeker" />
+        <MainNav currentPage="applications" userType="job-seeker" />
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="flex items-center justify-center h-64">
             <div className="text-center">
@@ -273,7 +294,7 @@ export default function MyApplicationsPage() {
 
   return (
     <div className="min-h-screen bg-background">
-      <MainNav currentPage="applications" notifications={0} userType="job-seeker" />
+      <MainNav currentPage="applications" userType="job-seeker" />
       
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mb-8">
@@ -332,9 +353,18 @@ export default function MyApplicationsPage() {
                     </div>
                   </div>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-6">
+                  <ApplicationProgress status={application.status} history={application.history || []} />
+                  {application.interview && (
+                    <CandidateInterviewPanel
+                      company={application.company}
+                      interview={application.interview}
+                      onChanged={fetchApplications}
+                    />
+                  )}
                   <div className="flex items-center justify-between">
                     <div className="flex gap-2">
+                      <MessagesButton unreadCount={application.unreadMessages} onClick={() => setMessagesFor(application)} />
                       {application.resume && (
                         <Button
                           variant="outline"
@@ -449,6 +479,16 @@ export default function MyApplicationsPage() {
           </div>
         )}
       </div>
+
+      <MessageThreadDialog
+        applicationId={messagesFor?.id || null}
+        title={`Messages with ${messagesFor?.company || ""}`}
+        description={messagesFor ? `About your application for ${messagesFor.jobTitle}` : undefined}
+        onClose={() => setMessagesFor(null)}
+        onRead={(applicationId) =>
+          setApplications((prev) => prev.map((app) => (app.id === applicationId ? { ...app, unreadMessages: 0 } : app)))
+        }
+      />
     </div>
   )
 }
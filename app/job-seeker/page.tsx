@@ -1,11 +1,12 @@
 "use client"
 
-import { useState } from "react"
+import { Suspense, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { ChevronLeft, ChevronRight, BookmarkIcon, FileText, Trash2 } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronLeft, ChevronRight, BookmarkIcon, FileText, Trash2, Sparkles, Loader2, Link2 } from "lucide-react"
 import { MainNav } from "@/components/navigation/main-nav"
 import { BreadcrumbNav } from "@/components/navigation/breadcrumb-nav"
 import { JobCard } from "@/components/job-card"
@@ -14,27 +15,63 @@ import { JobDetailsModal } from "@/components/job-details-modal"
 import { ApplicationModal } from "@/components/application-modal"
 import { ProfileCard } from "@/components/profile-card"
 import { EnhancedSearch } from "@/components/enhanced-search"
-import { useJobs } from "@/lib/job-context"
+import { SavedSearches } from "@/components/saved-searches"
+import { JobSearchUrlSync } from "@/components/job-search-url-sync"
+import { useJobs, buildJobSearchUrlQuery, type JobSortOption } from "@/lib/job-context"
+import { useToast } from "@/hooks/use-toast"
 
 export default function JobSeekerDashboard() {
-  const { getFilteredJobs, savedJobs, toggleSaveJob, applications, removeApplication } = useJobs()
+  const {
+    getFilteredJobs,
+    filters,
+    page,
+    savedJobs,
+    savedJobList,
+    toggleSaveJob,
+    applications,
+    removeApplication,
+    pagination,
+    sort,
+    updateSort,
+    setPage,
+    recommendedJobs,
+    recommendationsLoading,
+    fetchRecommendedJobs,
+  } = useJobs()
   const [showFilters, setShowFilters] = useState(false)
   const [selectedJob, setSelectedJob] = useState<any>(null)
   const [showApplicationModal, setShowApplicationModal] = useState(false)
-  const [currentPage, setCurrentPage] = useState(1)
-  const jobsPerPage = 6
+  const { toast } = useToast()
 
+  // The API returns only the current page of filtered jobs
   const filteredJobs = getFilteredJobs()
-  const totalPages = Math.ceil(filteredJobs.length / jobsPerPage)
-  const startIndex = (currentPage - 1) * jobsPerPage
-  const currentJobs = filteredJobs.slice(startIndex, startIndex + jobsPerPage)
+  const currentJobs = filteredJobs
+  const currentPage = pagination.page
+  const totalPages = pagination.totalPages
 
   const breadcrumbItems = [{ label: "Jobs", current: true }]
 
+  // Copies the canonical link to the current search, filters, sort order and page
+  const copySearchLink = async () => {
+    const query = buildJobSearchUrlQuery(filters, sort, page)
+    const url = `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ""}`
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: "Link copied", description: "Anyone with the link sees this search." })
+    } catch {
+      toast({ title: "Couldn't copy the link", description: url, variant: "destructive" })
+    }
+  }
+
   return (
     <div className="min-h-screen bg-background">
       {/* Navigation */}
-      <MainNav currentPage="jobs" notifications={3} userType="job-seeker" />
+      <MainNav currentPage="jobs" userType="job-seeker" />
+
+      {/* Mirrors the search in the URL (useSearchParams needs a Suspense boundary) */}
+      <Suspense fallback={null}>
+        <JobSearchUrlSync />
+      </Suspense>
 
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Breadcrumb - Hide Home button when logged in */}
@@ -48,11 +85,22 @@ export default function JobSeekerDashboard() {
 
           {/* Main Content */}
           <div className="flex-1">
-            <Tabs defaultValue="jobs" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+            <Tabs
+              defaultValue="jobs"
+              className="w-full"
+              onValueChange={(value) => {
+                // Recommendations depend on saves and applications, so reload them each time the tab opens
+                if (value === "for-you") fetchRecommendedJobs()
+              }}
+            >
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="jobs" className="flex items-center gap-2">
                   Browse Jobs
                 </TabsTrigger>
+                <TabsTrigger value="for-you" className="flex items-center gap-2">
+                  <Sparkles className="h-4 w-4" />
+                  For you
+                </TabsTrigger>
                 <TabsTrigger value="saved" className="flex items-center gap-2">
                   <BookmarkIcon className="h-4 w-4" />
                   Saved Jobs ({savedJobs.length})
@@ -68,6 +116,32 @@ export default function JobSeekerDashboard() {
                 {/* Enhanced Search */}
                 <EnhancedSearch onOpenFilters={() => setShowFilters(true)} />
 
+                {/* Result Count & Sort */}
+                <div className="flex justify-between items-center">
+                  <p className="text-sm text-muted-foreground">
+                    {pagination.total} {pagination.total === 1 ? "job" : "jobs"} found
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={copySearchLink}>
+                      <Link2 className="h-4 w-4 mr-2" />
+                      Copy link
+                    </Button>
+                    <SavedSearches />
+                    <Select value={sort} onValueChange={(value) => updateSort(value as JobSortOption)}>
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="relevance">Best match</SelectItem>
+                        <SelectItem value="newest">Newest first</SelectItem>
+                        <SelectItem value="oldest">Oldest first</SelectItem>
+                        <SelectItem value="salary_high">Salary: high to low</SelectItem>
+                        <SelectItem value="salary_low">Salary: low to high</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
                 {/* Job Listings */}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   {currentJobs.map((job) => (
@@ -87,7 +161,7 @@ export default function JobSeekerDashboard() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
+                      onClick={() => setPage(Math.max(currentPage - 1, 1))}
                       disabled={currentPage === 1}
                     >
                       <ChevronLeft className="h-4 w-4" />
@@ -98,7 +172,7 @@ export default function JobSeekerDashboard() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setCurrentPage((prev) => Math.min(prev + 1, totalPages))}
+                      onClick={() => setPage(Math.min(currentPage + 1, totalPages))}
                       disabled={currentPage === totalPages}
                     >
                       <ChevronRight className="h-4 w-4" />
@@ -107,20 +181,73 @@ export default function JobSeekerDashboard() {
                 )}
               </TabsContent>
 
+              {/* Recommended Jobs Tab */}
+              <TabsContent value="for-you" className="space-y-6">
+                {recommendationsLoading && recommendedJobs.length === 0 ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                  </div>
+                ) : recommendedJobs.length > 0 ? (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      Picked from your skills, title, location and the jobs you've saved or applied to
+                    </p>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      {recommendedJobs.map((job) => (
+                        <JobCard
+                          key={job.id}
+                          job={job}
+                          isSaved={savedJobs.includes(job.id)}
+                          onSave={() => toggleSaveJob(job.id)}
+                          onViewDetails={() => setSelectedJob(job)}
+                        />
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-center py-12">
+                    <Sparkles className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">No recommendations yet</h3>
+                    <p className="text-muted-foreground">
+                      Add skills and a title to your profile, or save a few jobs, to get personalized suggestions.
+                    </p>
+                  </div>
+                )}
+              </TabsContent>
+
               {/* Saved Jobs Tab */}
               <TabsContent value="saved" className="space-y-6">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                  {filteredJobs
-                    .filter((job) => savedJobs.includes(job.id))
-                    .map((job) => (
+                  {savedJobList.map((saved) =>
+                    saved.job ? (
                       <JobCard
-                        key={job.id}
-                        job={job}
+                        key={saved.jobId}
+                        job={saved.job}
                         isSaved={true}
-                        onSave={() => toggleSaveJob(job.id)}
-                        onViewDetails={() => setSelectedJob(job)}
+                        onSave={() => toggleSaveJob(saved.jobId)}
+                        onViewDetails={() => setSelectedJob(saved.job)}
                       />
-                    ))}
+                    ) : (
+                      // The employer unpublished or deleted this job
+                      <Card key={saved.jobId} className="border-2 border-dashed">
+                        <CardContent className="p-6 flex justify-between items-start">
+                          <div>
+                            <h3 className="font-semibold text-lg mb-1 text-muted-foreground">{saved.jobTitle}</h3>
+                            <p className="text-muted-foreground mb-2">{saved.company}</p>
+                            <Badge variant="outline">No longer available</Badge>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => toggleSaveJob(saved.jobId)}
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </CardContent>
+                      </Card>
+                    )
+                  )}
                 </div>
                 {savedJobs.length === 0 && (
                   <div className="text-center py-12">
@@ -140,10 +267,10 @@ export default function JobSeekerDashboard() {
                         <div className="flex justify-between items-start">
                           <div className="flex-1">
                             <h3 className="font-semibold text-lg mb-1">
-                              {filteredJobs.find((job) => job.id === application.jobId)?.title || "Job Title"}
+                              {application.jobTitle || filteredJobs.find((job) => job.id === application.jobId)?.title || "Job Title"}
                             </h3>
                             <p className="text-muted-foreground mb-2">
-                              {filteredJobs.find((job) => job.id === application.jobId)?.company || "Company"}
+                              {application.company || filteredJobs.find((job) => job.id === application.jobId)?.company || "Company"}
                             </p>
                             <p className="text-sm text-muted-foreground">Applied on {application.appliedDate}</p>
                           </div>
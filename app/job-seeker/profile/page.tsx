@@ -18,6 +18,8 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { MainNav } from '@/components/navigation/main-nav';
+import { ResumeLibrary } from '@/components/resume-library';
+import type { ParsedResumeDetails } from '@/lib/resume-upload';
 
 interface UserProfile {
     _id: string;
@@ -226,6 +228,38 @@ export default function JobSeekerProfilePage() {
         throw lastError;
     };
 
+    // Merges skills and the summary parsed from a resume into the profile form; nothing is saved until the user clicks Save
+    const handlePrefillFromResume = (parsed: ParsedResumeDetails) => {
+        const existingSkills = new Set(editedData.skills.map((skill) => skill.toLowerCase()));
+        const addedSkills = parsed.skills.filter((skill) => !existingSkills.has(skill.toLowerCase()));
+        const fillBio = !editedData.bio.trim() && Boolean(parsed.summary);
+
+        if (addedSkills.length === 0 && !fillBio) {
+            toast({
+                title: "Nothing to add",
+                description: "Your profile already includes the skills and summary from this resume.",
+            });
+            return;
+        }
+
+        setEditedData({
+            ...editedData,
+            skills: [...editedData.skills, ...addedSkills],
+            bio: fillBio ? parsed.summary : editedData.bio,
+        });
+        setIsEditing(true);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+
+        const changes = [
+            addedSkills.length > 0 ? `${addedSkills.length} skill${addedSkills.length === 1 ? '' : 's'}` : '',
+            fillBio ? 'your professional summary' : '',
+        ].filter(Boolean);
+        toast({
+            title: "Profile filled from resume",
+            description: `Added ${changes.join(' and ')}. Review the changes and click Save.`,
+        });
+    };
+
     const handleSave = async () => {
         setIsSaving(true);
         try {
@@ -846,6 +880,9 @@ export default function JobSeekerProfilePage() {
                                     </CardContent>
                                 </Card>
                             </div>
+
+                            {/* Resume Library */}
+                            <ResumeLibrary onUseForProfile={handlePrefillFromResume} />
                     </div>
                 </div>
             </div>
@@ -0,0 +1,228 @@
+// app/jobs/[jobId]/page.tsx - Public, server-rendered job page with SEO metadata and JobPosting structured data
+
+import type { Metadata } from "next"
+import Link from "next/link"
+import { cookies } from "next/headers"
+import { notFound } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircle, Building, Calendar, Clock, DollarSign, ExternalLink, MapPin } from "lucide-react"
+import { MainNav } from "@/components/navigation/main-nav"
+import {
+  buildJobPostingJsonLd,
+  describeJob,
+  getPublicJob,
+  getSiteUrl,
+  jobPagePath,
+  serializeJsonLd,
+} from "@/lib/public-jobs"
+import { companyPagePath } from "@/lib/public-companies"
+import { formatSalaryRange } from "@/lib/salary"
+
+// Job status and deadlines change, so the page is always rendered from the database
+export const dynamic = "force-dynamic"
+
+interface JobPageProps {
+  params: Promise<{ jobId: string }>
+}
+
+function formatDate(value: string | Date | undefined) {
+  if (!value) return ""
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return String(value)
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" })
+}
+
+export async function generateMetadata({ params }: JobPageProps): Promise<Metadata> {
+  const { jobId } = await params
+  const publicJob = await getPublicJob(jobId)
+  if (!publicJob) {
+    return { title: "Job not found - TopGrab", robots: { index: false } }
+  }
+
+  const { job, employer, isOpen } = publicJob
+  const title = `${job.title} at ${employer?.name || job.company}`
+  const description = describeJob(job)
+  const url = `${getSiteUrl()}${jobPagePath(jobId)}`
+
+  return {
+    title: `${title} - TopGrab`,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: "website",
+      siteName: "TopGrab",
+      url,
+      title,
+      description,
+      ...(employer?.photo ? { images: [{ url: employer.photo, alt: employer.name }] } : {}),
+    },
+    twitter: {
+      card: "summary",
+      title,
+      description,
+    },
+    // Closed jobs stay reachable for old links but drop out of search results
+    ...(isOpen ? {} : { robots: { index: false, follow: true } }),
+  }
+}
+
+export default async function PublicJobPage({ params }: JobPageProps) {
+  const { jobId } = await params
+  const publicJob = await getPublicJob(jobId)
+  if (!publicJob) notFound()
+
+  const { job, employer, isOpen } = publicJob
+  const companyName = employer?.name || job.company
+  const salary = formatSalaryRange(job.salaryRange) || job.salary
+  const isSignedIn = Boolean((await cookies()).get("auth_token")?.value)
+  // Applying happens from the dashboard, which opens with this job's title as the search
+  const applyHref = isSignedIn
+    ? `/job-seeker?q=${encodeURIComponent(job.title)}`
+    : "/auth/login/job-seeker"
+
+  return (
+    <div className="min-h-screen bg-background">
+      {isOpen && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildJobPostingJsonLd(publicJob)) }}
+        />
+      )}
+      <MainNav />
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        {!isOpen && (
+          <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            This job is no longer accepting applications.
+          </div>
+        )}
+
+        <Card>
+          <CardHeader className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+              <div className="space-y-2">
+                <h1 className="text-3xl font-bold">{job.title}</h1>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Building className="h-4 w-4" />
+                  <Link href={companyPagePath(String(job.employerId))} className="font-medium hover:text-primary hover:underline">
+                    {companyName}
+                  </Link>
+                </div>
+              </div>
+              {isOpen && (
+                <Button asChild size="lg">
+                  <Link href={applyHref}>{isSignedIn ? "Apply on TopGrab" : "Sign in to apply"}</Link>
+                </Button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+              <div className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                <span>{job.location}</span>
+                {job.remote && (
+                  <Badge variant="secondary" className="ml-1 text-xs">
+                    Remote
+                  </Badge>
+                )}
+              </div>
+              {salary && (
+                <div className="flex items-center gap-1">
+                  <DollarSign className="h-4 w-4" />
+                  <span>{salary}</span>
+                </div>
+              )}
+              <div className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                <span>{job.type}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                <span>Posted {formatDate(job.postedDate)}</span>
+              </div>
+              {job.deadline && isOpen && (
+                <div className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4" />
+                  <span>Apply by {formatDate(job.deadline)}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {[job.category, job.experience, job.industry].filter(Boolean).map((tag) => (
+                <Badge key={tag} variant="outline">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            <section>
+              <h2 className="text-lg font-semibold mb-2">About the role</h2>
+              <p className="text-muted-foreground whitespace-pre-wrap">{job.description}</p>
+            </section>
+
+            {job.requirements?.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold mb-2">Requirements</h2>
+                <div className="flex flex-wrap gap-2">
+                  {job.requirements.map((requirement) => (
+                    <Badge key={requirement} variant="outline">
+                      {requirement}
+                    </Badge>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {job.benefits?.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold mb-2">Benefits</h2>
+                <ul className="list-disc list-inside text-muted-foreground space-y-1">
+                  {job.benefits.map((benefit) => (
+                    <li key={benefit}>{benefit}</li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </CardContent>
+        </Card>
+
+        {employer && (employer.description || employer.website) && (
+          <Card>
+            <CardHeader>
+              <CardTitle>About {companyName}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {employer.description && (
+                <p className="text-muted-foreground whitespace-pre-wrap">{employer.description}</p>
+              )}
+              <Link
+                href={companyPagePath(String(job.employerId))}
+                className="inline-flex items-center gap-1 text-sm text-primary hover:underline mr-4"
+              >
+                <Building className="h-4 w-4" />
+                See all jobs at {companyName}
+              </Link>
+              {employer.website && (
+                <a
+                  href={employer.website}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                  {employer.website}
+                </a>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  )
+}
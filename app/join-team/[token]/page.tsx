@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { CheckCircle2, Loader2, Users, XCircle } from "lucide-react"
+import { ORGANIZATION_ROLE_LABELS, ORGANIZATION_ROLE_DESCRIPTIONS, type OrganizationRole } from "@/lib/organization-roles"
+
+interface InvitationPreview {
+  organizationName: string
+  email: string
+  role: OrganizationRole
+  invitedByName: string
+}
+
+export default function JoinTeamPage() {
+  const params = useParams()
+  const token = params.token as string
+  const [status, setStatus] = useState<"loading" | "ready" | "signed-out" | "joined" | "error">("loading")
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null)
+  const [message, setMessage] = useState("")
+  const [accepting, setAccepting] = useState(false)
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const response = await fetch(`/api/organization/join?token=${encodeURIComponent(token)}`)
+        const data = await response.json()
+
+        if (response.ok) {
+          setInvitation(data)
+          setStatus("ready")
+        } else {
+          setStatus("error")
+          setMessage(data.message || "This invitation is invalid or has expired.")
+        }
+      } catch (error) {
+        console.error("Error fetching invitation:", error)
+        setStatus("error")
+        setMessage("An error occurred while loading the invitation. Please try again.")
+      }
+    }
+
+    fetchInvitation()
+  }, [token])
+
+  const handleAccept = async () => {
+    setAccepting(true)
+    try {
+      const response = await fetch("/api/organization/join", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setStatus("joined")
+        setMessage(data.message || "You joined the organization.")
+      } else if (response.status === 401) {
+        setStatus("signed-out")
+      } else {
+        setStatus("error")
+        setMessage(data.message || "Could not accept the invitation.")
+      }
+    } catch (error) {
+      console.error("Error accepting invitation:", error)
+      setStatus("error")
+      setMessage("An error occurred while accepting the invitation. Please try again.")
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-950/20 dark:to-teal-950/20 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Team Invitation</CardTitle>
+          <CardDescription>
+            {invitation ? `Join ${invitation.organizationName || "the organization"} on TopGrab` : "Join your team on TopGrab"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === "loading" && (
+            <div className="flex flex-col items-center justify-center py-8">
+              <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
+              <p className="text-muted-foreground">Loading invitation...</p>
+            </div>
+          )}
+
+          {(status === "ready" || status === "signed-out") && invitation && (
+            <div className="flex flex-col items-center justify-center py-4 space-y-4">
+              <Users className="h-14 w-14 text-primary" />
+              <p className="text-center">
+                {invitation.invitedByName || "Your team"} invited{" "}
+                <span className="font-medium">{invitation.email}</span> to join{" "}
+                <span className="font-medium">{invitation.organizationName || "their organization"}</span> as{" "}
+                <span className="font-medium">{ORGANIZATION_ROLE_LABELS[invitation.role]}</span>.
+              </p>
+              <p className="text-sm text-muted-foreground text-center">{ORGANIZATION_ROLE_DESCRIPTIONS[invitation.role]}</p>
+
+              {status === "ready" ? (
+                <Button onClick={handleAccept} disabled={accepting} className="w-full">
+                  {accepting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Accept Invitation
+                </Button>
+              ) : (
+                <div className="w-full space-y-3">
+                  <p className="text-sm text-center">
+                    Sign in with the employer account for {invitation.email} to accept. New to TopGrab? Create an account with
+                    that address, verify it, then open this link again.
+                  </p>
+                  <div className="flex gap-3">
+                    <Button asChild className="flex-1">
+                      <Link href={`/auth/login/employer?next=${encodeURIComponent(`/join-team/${token}`)}`}>Sign In</Link>
+                    </Button>
+                    <Button asChild variant="outline" className="flex-1">
+                      <Link href="/auth/register/employer">Create Account</Link>
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {status === "joined" && (
+            <div className="flex flex-col items-center justify-center py-8 space-y-4">
+              <CheckCircle2 className="h-16 w-16 text-green-500" />
+              <p className="text-center text-lg font-medium">{message}</p>
+              <Button asChild>
+                <Link href="/employer">Go to Dashboard</Link>
+              </Button>
+            </div>
+          )}
+
+          {status === "error" && (
+            <div className="flex flex-col items-center justify-center py-8 space-y-4">
+              <XCircle className="h-16 w-16 text-red-500" />
+              <p className="text-center text-lg font-medium">{message}</p>
+              <div className="flex gap-4 mt-4">
+                <Button asChild>
+                  <Link href="/employer">Employer Dashboard</Link>
+                </Button>
+                <Button asChild variant="outline">
+                  <Link href="/">Go Home</Link>
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
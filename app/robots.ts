@@ -0,0 +1,15 @@
+// app/robots.ts - Lets crawlers index the public pages and points them to the sitemap
+
+import type { MetadataRoute } from 'next';
+import { getSiteUrl } from '@/lib/public-jobs';
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: ['/', '/jobs/', '/companies/'],
+      disallow: ['/api/', '/settings', '/job-seeker/', '/employer/', '/saved-searches/'],
+    },
+    sitemap: `${getSiteUrl()}/sitemap.xml`,
+  };
+}
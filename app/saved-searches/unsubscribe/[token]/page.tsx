@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { BellOff, XCircle, Loader2 } from 'lucide-react'
+import Link from 'next/link'
+
+export default function UnsubscribeSavedSearchPage() {
+  const params = useParams()
+  const token = params.token as string
+  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('error')
+      setMessage('Invalid unsubscribe link.')
+      return
+    }
+
+    const unsubscribe = async () => {
+      try {
+        const response = await fetch(`/api/saved-searches/unsubscribe?token=${encodeURIComponent(token)}`, {
+          method: 'GET',
+        })
+
+        const data = await response.json()
+
+        if (response.ok) {
+          setStatus('success')
+          setMessage(data.message || 'You have been unsubscribed from these alerts.')
+        } else {
+          setStatus('error')
+          setMessage(data.message || 'Could not unsubscribe. Please try again.')
+        }
+      } catch (error) {
+        console.error('Unsubscribe error:', error)
+        setStatus('error')
+        setMessage('An error occurred while unsubscribing. Please try again.')
+      }
+    }
+
+    unsubscribe()
+  }, [token])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-950/20 dark:to-teal-950/20 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Job Alerts</CardTitle>
+          <CardDescription>
+            {status === 'loading' && 'Updating your alerts...'}
+            {status === 'success' && 'Unsubscribed'}
+            {status === 'error' && 'Unsubscribe failed'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {status === 'loading' && (
+            <div className="flex flex-col items-center justify-center py-8">
+              <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
+              <p className="text-muted-foreground">Please wait...</p>
+            </div>
+          )}
+
+          {status === 'success' && (
+            <div className="flex flex-col items-center justify-center py-8 space-y-4">
+              <BellOff className="h-16 w-16 text-muted-foreground" />
+              <p className="text-center text-lg font-medium">{message}</p>
+              <p className="text-center text-sm text-muted-foreground">
+                The search is still saved. You can turn alerts back on from your dashboard.
+              </p>
+              <Button asChild>
+                <Link href="/job-seeker">Go to Dashboard</Link>
+              </Button>
+            </div>
+          )}
+
+          {status === 'error' && (
+            <div className="flex flex-col items-center justify-center py-8 space-y-4">
+              <XCircle className="h-16 w-16 text-red-500" />
+              <p className="text-center text-lg font-medium">{message}</p>
+              <Button asChild variant="outline">
+                <Link href="/">Go Home</Link>
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
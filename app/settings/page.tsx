@@ -7,14 +7,21 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
 import { useToast } from '@/hooks/use-toast'
-import { Loader2, Shield, UserCog } from 'lucide-react'
+import { Bell, Loader2, Shield, UserCog } from 'lucide-react'
 
 interface UserProfile {
   username: string
   role: 'job-seeker' | 'employer'
 }
 
+interface EmailEvent {
+  key: string
+  label: string
+  description: string
+}
+
 export default function SettingsPage() {
   const router = useRouter()
   const { toast } = useToast()
@@ -24,6 +31,9 @@ export default function SettingsPage() {
   const [savingPassword, setSavingPassword] = useState(false)
 
   const [profile, setProfile] = useState<UserProfile | null>(null)
+  const [emailEvents, setEmailEvents] = useState<EmailEvent[]>([])
+  const [emailPreferences, setEmailPreferences] = useState<Record<string, boolean>>({})
+  const [savingPreference, setSavingPreference] = useState<string | null>(null)
 
   const [usernameForm, setUsernameForm] = useState({
     username: '',
@@ -57,7 +67,25 @@ export default function SettingsPage() {
       }
     }
 
+    async function loadEmailPreferences() {
+      try {
+        const response = await fetch('/api/user/settings', {
+          method: 'GET',
+          credentials: 'include',
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setEmailEvents(data.emailEvents || [])
+          setEmailPreferences(data.emailPreferences || {})
+        }
+      } catch (error) {
+        console.error('Failed to load email preferences:', error)
+      }
+    }
+
     loadProfile()
+    loadEmailPreferences()
   }, [router])
 
   const safeParseJson = async (response: Response) => {
@@ -115,6 +143,39 @@ export default function SettingsPage() {
     }
   }
 
+  const handlePreferenceChange = async (key: string, enabled: boolean) => {
+    const previous = emailPreferences
+    setEmailPreferences((prev) => ({ ...prev, [key]: enabled }))
+    setSavingPreference(key)
+
+    try {
+      const response = await fetch('/api/user/settings', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ emailPreferences: { [key]: enabled } }),
+      })
+
+      const result = await safeParseJson(response)
+
+      if (response.ok) {
+        setEmailPreferences(result.emailPreferences || { ...previous, [key]: enabled })
+      } else {
+        console.error('Email preference update failed:', result)
+        setEmailPreferences(previous)
+        toast({ title: 'Update failed', description: result.message || 'Could not update email preferences.', variant: 'destructive' })
+      }
+    } catch (error) {
+      console.error('Email preference update failed:', error)
+      setEmailPreferences(previous)
+      toast({ title: 'Unexpected error', description: 'Please try again later.', variant: 'destructive' })
+    } finally {
+      setSavingPreference(null)
+    }
+  }
+
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -179,7 +240,7 @@ export default function SettingsPage() {
         <div>
           <h1 className="text-3xl font-geist mb-2">Account Settings</h1>
           <p className="text-muted-foreground max-w-2xl">
-            Manage your account information, update your username, and change your password securely.
+            Manage your account information, update your username, change your password securely, and choose which emails you receive.
           </p>
         </div>
 
@@ -286,6 +347,44 @@ export default function SettingsPage() {
             </form>
           </CardContent>
         </Card>
+
+        {emailEvents.length > 0 && (
+          <>
+            <Separator />
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Bell className="h-5 w-5 text-primary" />
+                  <div>
+                    <CardTitle>Email Notifications</CardTitle>
+                    <CardDescription>
+                      {profile?.role === 'employer'
+                        ? 'Choose which hiring updates are sent to your company email.'
+                        : 'Choose which application updates are emailed to you.'}
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {emailEvents.map((event) => (
+                  <div key={event.key} className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor={`email-${event.key}`}>{event.label}</Label>
+                      <p className="text-sm text-muted-foreground">{event.description}</p>
+                    </div>
+                    <Switch
+                      id={`email-${event.key}`}
+                      checked={emailPreferences[event.key] ?? true}
+                      disabled={savingPreference === event.key}
+                      onCheckedChange={(checked) => handlePreferenceChange(event.key, checked)}
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </>
+        )}
       </main>
     </div>
   )
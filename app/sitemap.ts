@@ -0,0 +1,38 @@
+// app/sitemap.ts - Sitemap of the home page, every open job's public page and the companies hiring
+
+import type { MetadataRoute } from 'next';
+import { getSiteUrl, jobPagePath, listSitemapJobs } from '@/lib/public-jobs';
+import { companyPagePath, listSitemapCompanies } from '@/lib/public-companies';
+
+// Built per request from the database, never at build time
+export const dynamic = 'force-dynamic';
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const siteUrl = getSiteUrl();
+
+  let jobs: Awaited<ReturnType<typeof listSitemapJobs>> = [];
+  let companies: Awaited<ReturnType<typeof listSitemapCompanies>> = [];
+  try {
+    jobs = await listSitemapJobs();
+    companies = await listSitemapCompanies();
+  } catch (error: any) {
+    // A database outage still serves the static pages
+    console.error('❌ Error listing jobs and companies for the sitemap:', error.message);
+  }
+
+  return [
+    { url: siteUrl, changeFrequency: 'daily', priority: 1 },
+    ...jobs.map((job) => ({
+      url: `${siteUrl}${jobPagePath(job.id)}`,
+      lastModified: job.lastModified,
+      changeFrequency: 'daily' as const,
+      priority: 0.8,
+    })),
+    ...companies.map((company) => ({
+      url: `${siteUrl}${companyPagePath(company.id)}`,
+      lastModified: company.lastModified,
+      changeFrequency: 'daily' as const,
+      priority: 0.6,
+    })),
+  ];
+}
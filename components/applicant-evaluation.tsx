@@ -0,0 +1,519 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ChevronDown, ChevronUp, ClipboardCheck, Lock, Plus, StickyNote, Trash2, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  MAX_EVALUATION_CRITERIA,
+  MAX_SCORE,
+  MIN_SCORE,
+  type EvaluationCriterion,
+  type ScorecardSummary,
+} from "@/lib/evaluation"
+import type { ApplicantEvaluation, FormattedNote, FormattedScorecard } from "@/lib/scorecards"
+
+const SCORE_OPTIONS = Array.from({ length: MAX_SCORE - MIN_SCORE + 1 }, (_, index) => MIN_SCORE + index)
+
+function scoreClass(score: number) {
+  if (score >= 4) return "bg-green-600 hover:bg-green-600 text-white"
+  if (score >= 3) return "bg-amber-500 hover:bg-amber-500 text-white"
+  return "bg-red-500 hover:bg-red-500 text-white"
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+interface ScorecardBadgeProps {
+  evaluation?: ApplicantEvaluation
+  className?: string
+}
+
+// Average scorecard score with a hover breakdown per criterion; nothing until someone has scored the applicant
+export function ScorecardBadge({ evaluation, className = "" }: ScorecardBadgeProps) {
+  const summary = evaluation?.scorecard
+  if (!summary || summary.average === null) return null
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <Badge className={`${scoreClass(summary.average)} gap-1 cursor-default ${className}`} onClick={(e) => e.stopPropagation()}>
+          <ClipboardCheck className="h-3 w-3" />
+          {summary.average.toFixed(1)}/{MAX_SCORE}
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-64 space-y-2" onClick={(e) => e.stopPropagation()}>
+        <p className="text-sm font-semibold">
+          Average of {summary.scorecardCount} scorecard{summary.scorecardCount !== 1 ? "s" : ""}
+        </p>
+        <SummaryRows summary={summary} />
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
+
+function SummaryRows({ summary }: { summary: ScorecardSummary }) {
+  return (
+    <ul className="space-y-1">
+      {summary.criteria.map((criterion) => (
+        <li key={criterion.key} className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{criterion.name}</span>
+          <span className="font-medium">{criterion.average === null ? "—" : criterion.average.toFixed(1)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface EvaluationCriteriaDialogProps {
+  jobId: string | null // The job to edit; null closes the dialog
+  jobTitle?: string
+  onClose: () => void
+  onSaved?: () => void
+}
+
+// Employer editor for the criteria a job's applicants are scored on
+export function EvaluationCriteriaDialog({ jobId, jobTitle, onClose, onSaved }: EvaluationCriteriaDialogProps) {
+  const { toast } = useToast()
+  const [criteria, setCriteria] = useState<EvaluationCriterion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!jobId) return
+    let cancelled = false
+
+    async function fetchCriteria() {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/jobs/${jobId}/evaluation-criteria`, { credentials: "include", cache: "no-store" })
+        const data = await response.json()
+        if (cancelled) return
+        if (response.ok) {
+          setCriteria(data.criteria || [])
+        } else {
+          toast({ title: "Error", description: data.message || "Failed to load criteria.", variant: "destructive" })
+        }
+      } catch (error) {
+        console.error("Error fetching evaluation criteria:", error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchCriteria()
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jobId])
+
+  const updateCriterion = (index: number, field: "name" | "description", value: string) => {
+    setCriteria((prev) => prev.map((criterion, i) => (i === index ? { ...criterion, [field]: value } : criterion)))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/jobs/${jobId}/evaluation-criteria`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ criteria }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        toast({ title: "Success", description: "Scorecard criteria saved." })
+        onSaved?.()
+        onClose()
+      } else {
+        toast({ title: "Error", description: data.message || "Failed to save criteria.", variant: "destructive" })
+      }
+    } catch (error) {
+      console.error("Error saving evaluation criteria:", error)
+      toast({ title: "Error", description: "Failed to save criteria. Please try again.", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={jobId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scorecard criteria</DialogTitle>
+          <DialogDescription>
+            What reviewers score {jobTitle ? `${jobTitle} applicants` : "applicants"} on, from {MIN_SCORE} to {MAX_SCORE}. Renaming a
+            criterion keeps the scores already given for it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Loading criteria...</p>
+        ) : (
+          <div className="space-y-3">
+            {criteria.map((criterion, index) => (
+              <div key={criterion.key || `new-${index}`} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={criterion.name}
+                    onChange={(e) => updateCriterion(index, "name", e.target.value)}
+                    placeholder="e.g. Problem solving"
+                    maxLength={60}
+                  />
+                  {criteria.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove criterion"
+                      onClick={() => setCriteria((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <Input
+                  value={criterion.description}
+                  onChange={(e) => updateCriterion(index, "description", e.target.value)}
+                  placeholder="What to look for (optional)"
+                  maxLength={200}
+                />
+              </div>
+            ))}
+            {criteria.length < MAX_EVALUATION_CRITERIA && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCriteria((prev) => [...prev, { key: "", name: "", description: "" }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add criterion
+              </Button>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading || criteria.some((criterion) => !criterion.name.trim())}>
+            {saving ? "Saving..." : "Save criteria"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ScorecardData {
+  criteria: EvaluationCriterion[]
+  scorecards: FormattedScorecard[]
+  summary: ScorecardSummary
+}
+
+interface ApplicantEvaluationPanelProps {
+  applicationId: string
+  evaluation?: ApplicantEvaluation
+  onChanged?: () => void // Called after a scorecard or note is saved, to refresh the list's aggregate
+  readOnly?: boolean // Hides the scorecard form and note composer (hiring managers can only read)
+}
+
+// Employer-only scorecards and private notes for one applicant. Loaded when expanded.
+export function ApplicantEvaluationPanel({ applicationId, evaluation, onChanged, readOnly = false }: ApplicantEvaluationPanelProps) {
+  const { toast } = useToast()
+  const [expanded, setExpanded] = useState(false)
+  const [scorecardData, setScorecardData] = useState<ScorecardData | null>(null)
+  const [notes, setNotes] = useState<FormattedNote[]>([])
+  const [scores, setScores] = useState<Record<string, { score: number; comment: string }>>({})
+  const [overallComment, setOverallComment] = useState("")
+  const [noteDraft, setNoteDraft] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  // Starts the form from the reviewer's own scorecard, if they have one
+  const loadScorecards = (data: ScorecardData) => {
+    setScorecardData(data)
+    const mine = data.scorecards.find((scorecard) => scorecard.mine)
+    const initial: Record<string, { score: number; comment: string }> = {}
+    mine?.ratings.forEach((rating) => {
+      initial[rating.criterion] = { score: rating.score, comment: rating.comment }
+    })
+    setScores(initial)
+    setOverallComment(mine?.comment || "")
+  }
+
+  useEffect(() => {
+    if (!expanded) return
+    let cancelled = false
+
+    async function fetchEvaluation() {
+      try {
+        const [scorecardResponse, notesResponse] = await Promise.all([
+          fetch(`/api/applications/${applicationId}/scorecards`, { credentials: "include", cache: "no-store" }),
+          fetch(`/api/applications/${applicationId}/notes`, { credentials: "include", cache: "no-store" }),
+        ])
+        if (cancelled) return
+        if (scorecardResponse.ok) loadScorecards(await scorecardResponse.json())
+        if (notesResponse.ok) setNotes((await notesResponse.json()).notes || [])
+      } catch (error) {
+        console.error("Error fetching evaluation:", error)
+      }
+    }
+
+    fetchEvaluation()
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [expanded, applicationId])
+
+  const saveScorecard = async () => {
+    if (!scorecardData) return
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/applications/${applicationId}/scorecards`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          ratings: scorecardData.criteria.map((criterion) => ({
+            criterion: criterion.key,
+            score: scores[criterion.key]?.score,
+            comment: scores[criterion.key]?.comment || "",
+          })),
+          comment: overallComment,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        loadScorecards(data)
+        toast({ title: "Success", description: "Scorecard saved." })
+        onChanged?.()
+      } else {
+        toast({ title: "Error", description: data.message || "Failed to save scorecard.", variant: "destructive" })
+      }
+    } catch (error) {
+      console.error("Error saving scorecard:", error)
+      toast({ title: "Error", description: "Failed to save scorecard. Please try again.", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addNote = async () => {
+    if (!noteDraft.trim()) return
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/applications/${applicationId}/notes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ body: noteDraft }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setNotes((prev) => [data.note, ...prev])
+        setNoteDraft("")
+        onChanged?.()
+      } else {
+        toast({ title: "Error", description: data.message || "Failed to add note.", variant: "destructive" })
+      }
+    } catch (error) {
+      console.error("Error adding note:", error)
+      toast({ title: "Error", description: "Failed to add note. Please try again.", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteNote = async (noteId: string) => {
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/notes/${noteId}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (response.ok) {
+        setNotes((prev) => prev.filter((note) => note.id !== noteId))
+        onChanged?.()
+      } else {
+        const data = await response.json()
+        toast({ title: "Error", description: data.message || "Failed to delete note.", variant: "destructive" })
+      }
+    } catch (error) {
+      console.error("Error deleting note:", error)
+      toast({ title: "Error", description: "Failed to delete note. Please try again.", variant: "destructive" })
+    }
+  }
+
+  const scorecardCount = evaluation?.scorecard.scorecardCount ?? 0
+  const noteCount = evaluation?.noteCount ?? 0
+  const complete = scorecardData?.criteria.every((criterion) => scores[criterion.key]?.score) ?? false
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <ClipboardCheck className="h-4 w-4 text-primary" />
+          Evaluation
+          <span className="text-xs font-normal text-muted-foreground flex items-center gap-1">
+            <Lock className="h-3 w-3" />
+            Not visible to the candidate
+          </span>
+        </p>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setExpanded(!expanded)}>
+          {expanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+          {expanded ? "Hide" : `${scorecardCount} scorecard${scorecardCount !== 1 ? "s" : ""} · ${noteCount} note${noteCount !== 1 ? "s" : ""}`}
+        </Button>
+      </div>
+
+      {expanded && (
+        <Tabs defaultValue="scorecard">
+          <TabsList>
+            <TabsTrigger value="scorecard">Scorecards</TabsTrigger>
+            <TabsTrigger value="notes">Notes{notes.length > 0 ? ` (${notes.length})` : ""}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="scorecard" className="space-y-4">
+            {!scorecardData ? (
+              <p className="text-sm text-muted-foreground">Loading scorecards...</p>
+            ) : (
+              <>
+                {scorecardData.summary.average !== null && (
+                  <div className="rounded-md bg-muted/50 p-3">
+                    <p className="text-sm font-medium mb-2">
+                      Team average: {scorecardData.summary.average.toFixed(1)}/{MAX_SCORE}
+                    </p>
+                    <SummaryRows summary={scorecardData.summary} />
+                  </div>
+                )}
+
+                {!readOnly && (
+                  <div className="space-y-3">
+                    <p className="text-sm font-medium">Your scorecard</p>
+                    {scorecardData.criteria.map((criterion) => (
+                      <div key={criterion.key} className="space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <div>
+                            <Label className="text-sm">{criterion.name}</Label>
+                            {criterion.description && <p className="text-xs text-muted-foreground">{criterion.description}</p>}
+                          </div>
+                          <div className="flex gap-1">
+                            {SCORE_OPTIONS.map((score) => (
+                              <Button
+                                key={score}
+                                variant={scores[criterion.key]?.score === score ? "default" : "outline"}
+                                size="sm"
+                                className="h-7 w-7 p-0"
+                                onClick={() =>
+                                  setScores((prev) => ({ ...prev, [criterion.key]: { comment: prev[criterion.key]?.comment || "", score } }))
+                                }
+                              >
+                                {score}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                        <Input
+                          value={scores[criterion.key]?.comment || ""}
+                          onChange={(e) =>
+                            setScores((prev) => ({ ...prev, [criterion.key]: { score: prev[criterion.key]?.score || 0, comment: e.target.value } }))
+                          }
+                          placeholder="Comment (optional)"
+                          className="h-8 text-sm"
+                        />
+                      </div>
+                    ))}
+                    <Textarea
+                      value={overallComment}
+                      onChange={(e) => setOverallComment(e.target.value)}
+                      placeholder="Overall impression (optional)"
+                      rows={2}
+                    />
+                    <Button size="sm" onClick={saveScorecard} disabled={saving || !complete}>
+                      {saving ? "Saving..." : "Save scorecard"}
+                    </Button>
+                  </div>
+                )}
+
+                {scorecardData.scorecards.filter((scorecard) => readOnly || !scorecard.mine).map((scorecard) => (
+                  <div key={scorecard.id} className="rounded-md border p-3 space-y-1">
+                    <p className="text-sm font-medium">
+                      {scorecard.reviewerName}
+                      <span className="text-xs font-normal text-muted-foreground"> · {formatDateTime(scorecard.updatedAt)}</span>
+                    </p>
+                    <ul className="space-y-0.5">
+                      {scorecard.ratings.map((rating) => {
+                        const criterion = scorecardData.criteria.find((item) => item.key === rating.criterion)
+                        if (!criterion) return null
+                        return (
+                          <li key={rating.criterion} className="text-sm">
+                            <span className="text-muted-foreground">{criterion.name}:</span> {rating.score}/{MAX_SCORE}
+                            {rating.comment && <span className="text-muted-foreground"> — {rating.comment}</span>}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                    {scorecard.comment && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{scorecard.comment}</p>}
+                  </div>
+                ))}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="notes" className="space-y-3">
+            {!readOnly && (
+              <div className="space-y-2">
+                <Textarea
+                  value={noteDraft}
+                  onChange={(e) => setNoteDraft(e.target.value)}
+                  placeholder="Add a private note for your team..."
+                  rows={2}
+                  maxLength={5000}
+                />
+                <Button size="sm" onClick={addNote} disabled={saving || !noteDraft.trim()}>
+                  <StickyNote className="h-4 w-4 mr-1" />
+                  Add note
+                </Button>
+              </div>
+            )}
+            {notes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No notes yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {notes.map((note) => (
+                  <li key={note.id} className="rounded-md border p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-xs text-muted-foreground">
+                        {note.authorName} · {formatDateTime(note.createdAt)}
+                      </p>
+                      {note.mine && !readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          aria-label="Delete note"
+                          onClick={() => deleteNote(note.id)}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap break-words">{note.body}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  )
+}
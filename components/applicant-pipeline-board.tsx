@@ -0,0 +1,139 @@
+"use client"
+
+import { useState } from "react"
+import type React from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ScorecardBadge } from "@/components/applicant-evaluation"
+import { Calendar, GripVertical, RotateCcw, Star } from "lucide-react"
+import {
+  APPLICATION_STATUSES,
+  validateStatusTransition,
+  type ApplicationStatus,
+} from "@/lib/application-status"
+import type { ApplicantEvaluation } from "@/lib/scorecards"
+
+export interface PipelineApplicant {
+  id: string | number
+  applicantName: string
+  status: string
+  rating: number
+  appliedDate: string
+  evaluation?: ApplicantEvaluation
+}
+
+interface ApplicantPipelineBoardProps {
+  applicants: PipelineApplicant[]
+  onMove: (applicationId: string | number, status: ApplicationStatus) => void
+  onReopen: (applicationId: string | number) => void
+  getStatusColor: (status: string) => string
+  readOnly?: boolean // Cards can't be moved or reopened
+}
+
+// Applicants for one job as a board with a column per status. Cards can be dragged to
+// any column the pipeline allows; rejected candidates come back only through Reopen.
+export function ApplicantPipelineBoard({ applicants, onMove, onReopen, getStatusColor, readOnly = false }: ApplicantPipelineBoardProps) {
+  const [dragged, setDragged] = useState<PipelineApplicant | null>(null)
+  const [overColumn, setOverColumn] = useState<ApplicationStatus | null>(null)
+
+  const canDrop = (status: ApplicationStatus) =>
+    dragged !== null && dragged.status !== status && validateStatusTransition(dragged.status as ApplicationStatus, status) === null
+
+  const handleDragStart = (e: React.DragEvent, applicant: PipelineApplicant) => {
+    e.dataTransfer.effectAllowed = "move"
+    e.dataTransfer.setData("text/plain", String(applicant.id))
+    setDragged(applicant)
+  }
+
+  const handleDragEnd = () => {
+    setDragged(null)
+    setOverColumn(null)
+  }
+
+  const handleDrop = (e: React.DragEvent, status: ApplicationStatus) => {
+    e.preventDefault()
+    if (dragged && canDrop(status)) {
+      onMove(dragged.id, status)
+    }
+    handleDragEnd()
+  }
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {APPLICATION_STATUSES.map((status) => {
+        const column = applicants.filter((applicant) => applicant.status === status)
+        const droppable = canDrop(status)
+
+        return (
+          <div
+            key={status}
+            className={`flex-shrink-0 w-56 rounded-lg border bg-muted/40 flex flex-col transition-colors ${
+              droppable ? "border-dashed border-primary/50" : ""
+            } ${droppable && overColumn === status ? "bg-primary/10" : ""} ${dragged && !droppable && dragged.status !== status ? "opacity-50" : ""}`}
+            onDragOver={(e) => {
+              // Only columns the card may move to accept the drop
+              if (!droppable) return
+              e.preventDefault()
+              e.dataTransfer.dropEffect = "move"
+              setOverColumn(status)
+            }}
+            onDragLeave={() => setOverColumn((current) => (current === status ? null : current))}
+            onDrop={(e) => handleDrop(e, status)}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b">
+              <div className="flex items-center gap-2">
+                <span className={`h-2 w-2 rounded-full ${getStatusColor(status)}`} />
+                <span className="text-sm font-semibold">{status}</span>
+              </div>
+              <Badge variant="secondary" className="text-xs">
+                {column.length}
+              </Badge>
+            </div>
+
+            <div className="p-2 space-y-2 min-h-[120px] max-h-[55vh] overflow-y-auto">
+              {column.map((applicant) => {
+                const rejected = applicant.status === "Rejected"
+                const movable = !rejected && !readOnly
+                return (
+                  <div
+                    key={String(applicant.id)}
+                    draggable={movable}
+                    onDragStart={(e) => handleDragStart(e, applicant)}
+                    onDragEnd={handleDragEnd}
+                    className={`rounded-md border bg-background p-2 shadow-sm space-y-1 ${
+                      movable ? "cursor-grab active:cursor-grabbing" : ""
+                    } ${dragged?.id === applicant.id ? "opacity-50" : ""}`}
+                  >
+                    <div className="flex items-start gap-1">
+                      {movable && <GripVertical className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />}
+                      <p className="text-sm font-medium leading-snug break-words">{applicant.applicantName}</p>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        {new Date(applicant.appliedDate).toLocaleDateString()}
+                      </span>
+                      {applicant.rating > 0 && (
+                        <span className="flex items-center gap-0.5">
+                          <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                          {applicant.rating}
+                        </span>
+                      )}
+                    </div>
+                    <ScorecardBadge evaluation={applicant.evaluation} className="text-xs" />
+                    {rejected && !readOnly && (
+                      <Button variant="ghost" size="sm" className="h-7 w-full text-xs" onClick={() => onReopen(applicant.id)}>
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Reopen
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
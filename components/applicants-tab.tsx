@@ -5,9 +5,15 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { Star, MapPin, Briefcase, Mail, ExternalLink, AlertCircle } from "lucide-react"
+import { Star, MapPin, Briefcase, Mail, ExternalLink, AlertCircle, RotateCcw } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ParsedResumeSummary } from "@/components/parsed-resume-summary"
+import { MatchScoreBadge } from "@/components/match-score-badge"
+import { MessagesButton, MessageThreadDialog } from "@/components/message-thread"
+import type { ParsedResumeDetails } from "@/lib/resume-upload"
+import type { JobMatch } from "@/lib/job-match"
+import { getNextStatuses, type ApplicationStatus } from "@/lib/application-status"
 
 interface Applicant {
   id: string | number
@@ -18,9 +24,14 @@ interface Applicant {
   rating: number
   appliedDate: string
   resume?: string
+  parsedResume?: ParsedResumeDetails
   coverLetter?: string
+  match?: JobMatch
+  unreadMessages?: number
 }
 
+type ApplicantSort = "newest" | "match" | "rating"
+
 interface ApplicantsTabProps {
   selectedJob: any
 }
@@ -29,6 +40,8 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
   const { toast } = useToast()
   const [applicants, setApplicants] = useState<Applicant[]>([])
   const [loading, setLoading] = useState(false)
+  const [sortBy, setSortBy] = useState<ApplicantSort>("newest")
+  const [messagesFor, setMessagesFor] = useState<Applicant | null>(null)
 
   // Fetch applications when job is selected
   useEffect(() => {
@@ -71,7 +84,8 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
     }
   }
 
-  const updateStatus = async (applicationId: string | number, newStatus: string) => {
+  // Moves an application to a new status, or reopens a rejected one ({ reopen: true })
+  const updateStatus = async (applicationId: string | number, change: { status: ApplicationStatus } | { reopen: true }) => {
     try {
       const response = await fetch(`/api/applications/${applicationId}`, {
         method: 'PATCH',
@@ -79,17 +93,18 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
           'Content-Type': 'application/json',
         },
         credentials: 'include',
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify(change),
       })
 
       if (response.ok) {
-        // Update local state
+        // Update local state; a reopened application's status is decided by the server
+        const updated = await response.json()
         setApplicants((prev) =>
-          prev.map((app) => (app.id === applicationId ? { ...app, status: newStatus } : app))
+          prev.map((app) => (app.id === applicationId ? { ...app, status: updated.status } : app))
         )
         toast({
           title: "Success",
-          description: "Application status updated.",
+          description: "reopen" in change ? `Application reopened as ${updated.status}.` : "Application status updated.",
         })
       } else {
         const data = await response.json()
@@ -165,6 +180,13 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
     }
   }
 
+  // The API returns newest first; the other orders are applied here
+  const sortedApplicants = [...applicants].sort((a, b) => {
+    if (sortBy === "match") return (b.match?.score ?? -1) - (a.match?.score ?? -1)
+    if (sortBy === "rating") return b.rating - a.rating
+    return 0
+  })
+
   if (!selectedJob) {
     return (
       <div className="text-center py-12">
@@ -193,7 +215,21 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
           <h2 className="font-geist text-2xl font-semibold">Applicants for {selectedJob.title}</h2>
           <p className="text-muted-foreground">{applicants.length} total applicant{applicants.length !== 1 ? 's' : ''}</p>
         </div>
-        <Badge variant="outline">{selectedJob.status}</Badge>
+        <div className="flex items-center gap-3">
+          {applicants.length > 1 && (
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as ApplicantSort)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">Newest first</SelectItem>
+                <SelectItem value="match">Best match</SelectItem>
+                <SelectItem value="rating">Highest rated</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Badge variant="outline">{selectedJob.status}</Badge>
+        </div>
       </div>
 
       {applicants.length === 0 ? (
@@ -206,7 +242,7 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
         </Card>
       ) : (
         <div className="grid grid-cols-1 gap-6">
-          {applicants.map((applicant) => {
+          {sortedApplicants.map((applicant) => {
             const applicantIdStr = String(applicant.id)
             const initials = applicant.applicantName
               .split(" ")
@@ -225,7 +261,10 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
                       </Avatar>
                       <div className="flex-1">
                         <div className="flex items-center justify-between mb-2">
-                          <h3 className="font-geist text-lg font-semibold">{applicant.applicantName}</h3>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-geist text-lg font-semibold">{applicant.applicantName}</h3>
+                            {applicant.match && <MatchScoreBadge match={applicant.match} />}
+                          </div>
                           <Badge className={`${getStatusColor(applicant.status)} text-white`}>
                             {applicant.status}
                           </Badge>
@@ -264,6 +303,12 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
                           </div>
                         </div>
 
+                        {applicant.parsedResume && (
+                          <div className="mb-4">
+                            <ParsedResumeSummary parsed={applicant.parsedResume} />
+                          </div>
+                        )}
+
                         {/* Rating */}
                         <div className="flex items-center gap-2 mb-4">
                           <span className="text-sm font-medium">Rating:</span>
@@ -283,26 +328,34 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
                         </div>
 
                         {/* Status Update */}
-                        <div className="flex items-center gap-4">
+                        <div className="flex items-center justify-between gap-4">
                           <div className="flex items-center gap-2">
                             <span className="text-sm font-medium">Status:</span>
-                            <Select
-                              value={applicant.status}
-                              onValueChange={(value) => updateStatus(applicant.id, value)}
-                            >
-                              <SelectTrigger className="w-40">
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="Pending">Pending</SelectItem>
-                                <SelectItem value="Reviewed">Reviewed</SelectItem>
-                                <SelectItem value="Shortlisted">Shortlisted</SelectItem>
-                                <SelectItem value="Interviewed">Interviewed</SelectItem>
-                                <SelectItem value="Selected">Selected</SelectItem>
-                                <SelectItem value="Rejected">Rejected</SelectItem>
-                              </SelectContent>
-                            </Select>
+                            {applicant.status === "Rejected" ? (
+                              <Button variant="outline" size="sm" onClick={() => updateStatus(applicant.id, { reopen: true })}>
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                                Reopen application
+                              </Button>
+                            ) : (
+                              <Select
+                                value={applicant.status}
+                                onValueChange={(value) => updateStatus(applicant.id, { status: value as ApplicationStatus })}
+                              >
+                                <SelectTrigger className="w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {/* Only the current status and the moves the pipeline allows from it */}
+                                  {[applicant.status as ApplicationStatus, ...getNextStatuses(applicant.status as ApplicationStatus)].map((status) => (
+                                    <SelectItem key={status} value={status}>
+                                      {status}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
                           </div>
+                          <MessagesButton unreadCount={applicant.unreadMessages} onClick={() => setMessagesFor(applicant)} />
                         </div>
                       </div>
                     </div>
@@ -313,6 +366,16 @@ export function ApplicantsTab({ selectedJob }: ApplicantsTabProps) {
           })}
         </div>
       )}
+
+      <MessageThreadDialog
+        applicationId={messagesFor ? String(messagesFor.id) : null}
+        title={`Messages with ${messagesFor?.applicantName || ""}`}
+        description={`About ${selectedJob.title}`}
+        onClose={() => setMessagesFor(null)}
+        onRead={(applicationId) =>
+          setApplicants((prev) => prev.map((app) => (String(app.id) === applicationId ? { ...app, unreadMessages: 0 } : app)))
+        }
+      />
     </div>
   )
 }
@@ -2,17 +2,29 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
-import { X, Upload, FileText, User, Mail, CheckCircle } from "lucide-react"
+import { X, Upload, FileText, User, Mail, CheckCircle, ListChecks } from "lucide-react"
 import { useJobs, type Job } from "@/lib/job-context"
 import { useToast } from "@/hooks/use-toast"
+import {
+  RESUME_ACCEPT,
+  type LibraryResume,
+  addResumeToLibrary,
+  checkResumeFile,
+  fetchResumeLibrary,
+  formatFileSize,
+  uploadResumeFile,
+} from "@/lib/resume-upload"
+import type { PublicScreeningQuestion } from "@/lib/screening"
+import { ScreeningQuestionFields } from "@/components/screening-questions"
 
 interface ApplicationModalProps {
   job: Job | null
@@ -29,6 +41,45 @@ export function ApplicationModal({ job, isOpen, onClose }: ApplicationModalProps
   })
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isSuccess, setIsSuccess] = useState(false)
+  const [libraryResumes, setLibraryResumes] = useState<LibraryResume[]>([])
+  // A library resume id, "upload" for a new file, or "none"
+  const [resumeChoice, setResumeChoice] = useState<string>("upload")
+  const [saveToLibrary, setSaveToLibrary] = useState(true)
+  const [screeningQuestions, setScreeningQuestions] = useState<PublicScreeningQuestion[]>([])
+  const [screeningAnswers, setScreeningAnswers] = useState<Record<string, string>>({})
+  const [screeningFiles, setScreeningFiles] = useState<Record<string, File | null>>({})
+
+  // Load the resume library when the modal opens and preselect the default resume
+  useEffect(() => {
+    if (!isOpen) return
+
+    fetchResumeLibrary()
+      .then((resumes) => {
+        setLibraryResumes(resumes)
+        const defaultResume = resumes.find((resume) => resume.isDefault) || resumes[0]
+        setResumeChoice(defaultResume ? defaultResume.id : "upload")
+      })
+      .catch((error) => {
+        console.error("Failed to load resume library:", error)
+        setLibraryResumes([])
+        setResumeChoice("upload")
+      })
+  }, [isOpen])
+
+  // Load the job's screening questions; job lists don't carry them
+  useEffect(() => {
+    if (!isOpen || !job) return
+
+    setScreeningAnswers({})
+    setScreeningFiles({})
+    fetch(`/api/jobs/${job.id}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setScreeningQuestions(data?.screeningQuestions || []))
+      .catch((error) => {
+        console.error("Failed to load screening questions:", error)
+        setScreeningQuestions([])
+      })
+  }, [isOpen, job?.id])
 
   if (!isOpen || !job) return null
 
@@ -39,8 +90,53 @@ export function ApplicationModal({ job, isOpen, onClose }: ApplicationModalProps
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
+      // The server enforces the same limits; checking here avoids a wasted upload
+      const problem = checkResumeFile(file)
+      if (problem) {
+        toast({ title: "Invalid file", description: problem, variant: "destructive" })
+        e.target.value = ""
+        return
+      }
       setFormData((prev) => ({ ...prev, resume: file }))
+      setResumeChoice("upload")
+    }
+  }
+
+  const handleScreeningFile = (questionKey: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null
+    const problem = file ? checkResumeFile(file, "The file") : null
+    if (problem) {
+      toast({ title: "Invalid file", description: problem, variant: "destructive" })
+      e.target.value = ""
+      return
     }
+    setScreeningFiles((prev) => ({ ...prev, [questionKey]: file }))
+  }
+
+  // Uploads files answering screening questions; the application sends their ids as the answers
+  const resolveScreeningAnswers = async (): Promise<Record<string, string>> => {
+    const answers = { ...screeningAnswers }
+    for (const question of screeningQuestions) {
+      const file = screeningFiles[question.key]
+      if (question.type === "file" && file) {
+        answers[question.key] = await uploadResumeFile(file, "screening_answer")
+      }
+    }
+    return answers
+  }
+
+  // Resolves the chosen resume into the reference sent with the application
+  const resolveResume = async (): Promise<{ resumeId?: string; resumeFileId?: string }> => {
+    if (resumeChoice === "none") return {}
+    if (resumeChoice !== "upload") return { resumeId: resumeChoice }
+    if (!formData.resume) return {}
+
+    // Upload the resume first; the application only stores a reference to it
+    if (saveToLibrary) {
+      const saved = await addResumeToLibrary(formData.resume, formData.resume.name.replace(/\.[^.]+$/, ""))
+      return { resumeId: saved.id }
+    }
+    return { resumeFileId: await uploadResumeFile(formData.resume) }
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -48,16 +144,8 @@ export function ApplicationModal({ job, isOpen, onClose }: ApplicationModalProps
     setIsSubmitting(true)
 
     try {
-      // Convert resume file to base64 if provided
-      let resumeBase64 = ''
-      if (formData.resume) {
-        const reader = new FileReader()
-        resumeBase64 = await new Promise<string>((resolve, reject) => {
-          reader.onload = () => resolve(reader.result as string)
-          reader.onerror = reject
-          reader.readAsDataURL(formData.resume!)
-        })
-      }
+      const resumeReference = await resolveResume()
+      const answers = await resolveScreeningAnswers()
 
       // Convert job.id to string (handles both number and string IDs)
       const jobId = String(job.id)
@@ -72,7 +160,8 @@ export function ApplicationModal({ job, isOpen, onClose }: ApplicationModalProps
         body: JSON.stringify({
           jobId: jobId,
           coverLetter: formData.coverLetter,
-          resume: resumeBase64,
+          ...resumeReference,
+          screeningAnswers: answers,
         }),
       })
 
@@ -109,6 +198,8 @@ export function ApplicationModal({ job, isOpen, onClose }: ApplicationModalProps
           coverLetter: "",
           resume: null,
         })
+        setScreeningAnswers({})
+        setScreeningFiles({})
         onClose()
       }, 2000)
     } catch (error: any) {
@@ -231,24 +322,118 @@ export function ApplicationModal({ job, isOpen, onClose }: ApplicationModalProps
                   <FileText className="h-4 w-4" />
                   Resume
                 </h3>
-                <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors duration-200">
-                  <input
-                    type="file"
-                    accept=".pdf,.doc,.docx"
-                    onChange={handleFileUpload}
-                    className="hidden"
-                    id="resume-upload"
+                {libraryResumes.length > 0 && (
+                  <div className="space-y-2">
+                    {libraryResumes.map((resume) => (
+                      <label
+                        key={resume.id}
+                        className={`flex items-center gap-3 rounded-lg border p-3 cursor-pointer transition-colors duration-200 ${
+                          resumeChoice === resume.id ? "border-primary bg-primary/5" : "hover:border-primary/50"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="resume-choice"
+                          value={resume.id}
+                          checked={resumeChoice === resume.id}
+                          onChange={() => setResumeChoice(resume.id)}
+                          disabled={isSubmitting}
+                          className="accent-primary"
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium truncate">{resume.name}</span>
+                            {resume.isDefault && <Badge variant="secondary">Default</Badge>}
+                          </div>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {resume.fileName} · {formatFileSize(resume.size)}
+                          </p>
+                        </div>
+                      </label>
+                    ))}
+                    <label
+                      className={`flex items-center gap-3 rounded-lg border p-3 cursor-pointer transition-colors duration-200 ${
+                        resumeChoice === "upload" ? "border-primary bg-primary/5" : "hover:border-primary/50"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="resume-choice"
+                        value="upload"
+                        checked={resumeChoice === "upload"}
+                        onChange={() => setResumeChoice("upload")}
+                        disabled={isSubmitting}
+                        className="accent-primary"
+                      />
+                      <span className="text-sm">Upload a different resume</span>
+                    </label>
+                    <label className="flex items-center gap-3 px-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="resume-choice"
+                        value="none"
+                        checked={resumeChoice === "none"}
+                        onChange={() => setResumeChoice("none")}
+                        disabled={isSubmitting}
+                        className="accent-primary"
+                      />
+                      <span className="text-sm text-muted-foreground">Apply without a resume</span>
+                    </label>
+                  </div>
+                )}
+                {resumeChoice === "upload" && (
+                  <>
+                    <div className="border-2 border-dashed border-border rounded-lg p-6 text-center hover:border-primary/50 transition-colors duration-200">
+                      <input
+                        type="file"
+                        accept={RESUME_ACCEPT}
+                        onChange={handleFileUpload}
+                        className="hidden"
+                        id="resume-upload"
+                        disabled={isSubmitting}
+                      />
+                      <label htmlFor="resume-upload" className="cursor-pointer">
+                        <Upload className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                        <p className="text-sm text-muted-foreground mb-1">
+                          {formData.resume ? formData.resume.name : "Click to upload your resume"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">PDF, DOC, or DOCX (max 5MB)</p>
+                      </label>
+                    </div>
+                    {formData.resume && (
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="save-to-library"
+                          checked={saveToLibrary}
+                          onCheckedChange={(checked) => setSaveToLibrary(checked as boolean)}
+                          disabled={isSubmitting}
+                        />
+                        <Label htmlFor="save-to-library" className="text-sm font-normal cursor-pointer">
+                          Save to my resumes for future applications
+                        </Label>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {/* Screening Questions */}
+              {screeningQuestions.length > 0 && (
+                <div className="space-y-4 animate-in fade-in slide-in-from-left-2 duration-300 delay-300">
+                  <h3 className="font-semibold flex items-center gap-2">
+                    <ListChecks className="h-4 w-4" />
+                    Screening Questions
+                  </h3>
+                  <ScreeningQuestionFields
+                    questions={screeningQuestions}
+                    answers={screeningAnswers}
+                    files={screeningFiles}
+                    onAnswerChange={(questionKey, answer) => setScreeningAnswers((prev) => ({ ...prev, [questionKey]: answer }))}
+                    onFileChange={handleScreeningFile}
                     disabled={isSubmitting}
                   />
-                  <label htmlFor="resume-upload" className="cursor-pointer">
-                    <Upload className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
-                    <p className="text-sm text-muted-foreground mb-1">
-                      {formData.resume ? formData.resume.name : "Click to upload your resume"}
-                    </p>
-                    <p className="text-xs text-muted-foreground">PDF, DOC, or DOCX (max 5MB)</p>
-                  </label>
                 </div>
-              </div>
+              )}
 
               {/* Cover Letter */}
               <div className="space-y-4 animate-in fade-in slide-in-from-left-2 duration-300 delay-300">
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ChevronDown, ChevronUp, History, Star, XCircle } from "lucide-react"
+import type { ApplicationHistoryEntry } from "@/lib/application-history"
+
+// The stages an application moves through; Rejected can end it at any of them
+const PROGRESS_STAGES = [
+  { status: "Pending", label: "Applied" },
+  { status: "Reviewed", label: "Reviewed" },
+  { status: "Shortlisted", label: "Shortlisted" },
+  { status: "Interviewed", label: "Interviewed" },
+  { status: "Selected", label: "Selected" },
+]
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+// When the application last entered each status
+function reachedDates(history: ApplicationHistoryEntry[]) {
+  const dates = new Map<string, string>()
+  history.forEach((entry) => {
+    if (entry.toStatus) dates.set(entry.toStatus, entry.date)
+  })
+  return dates
+}
+
+interface ApplicationProgressProps {
+  status: string
+  history: ApplicationHistoryEntry[]
+}
+
+// Job seeker view: how far the application has come, with the date each stage was reached
+export function ApplicationProgress({ status, history }: ApplicationProgressProps) {
+  const dates = reachedDates(history)
+  const rejected = status === "Rejected"
+  // A rejected application stops at the stage it was in when it was rejected
+  const lastRejection = [...history].reverse().find((entry) => entry.toStatus === "Rejected")
+  const stoppedAt = rejected ? lastRejection?.fromStatus || "Pending" : status
+  const currentIndex = Math.max(0, PROGRESS_STAGES.findIndex((stage) => stage.status === stoppedAt))
+  const stages = rejected ? PROGRESS_STAGES.slice(0, currentIndex + 1) : PROGRESS_STAGES
+
+  return (
+    <ol className="flex items-start w-full">
+      {stages.map((stage, index) => {
+        const done = index <= currentIndex
+        return (
+          <li key={stage.status} className="flex-1 flex flex-col items-center text-center relative">
+            {index > 0 && (
+              <span
+                className={`absolute top-2 right-1/2 w-full h-0.5 -z-0 ${done ? "bg-primary" : "bg-muted"}`}
+                aria-hidden="true"
+              />
+            )}
+            <span
+              className={`relative z-10 h-4 w-4 rounded-full border-2 ${
+                done ? "bg-primary border-primary" : "bg-background border-muted"
+              } ${index === currentIndex && !rejected ? "ring-4 ring-primary/20" : ""}`}
+            />
+            <span className={`mt-2 text-xs font-medium ${done ? "text-foreground" : "text-muted-foreground"}`}>
+              {stage.label}
+            </span>
+            {done && dates.get(stage.status) && (
+              <span className="text-xs text-muted-foreground">{formatDate(dates.get(stage.status)!)}</span>
+            )}
+          </li>
+        )
+      })}
+      {rejected && (
+        <li className="flex-1 flex flex-col items-center text-center relative">
+          <span className="absolute top-2 right-1/2 w-full h-0.5 bg-red-500" aria-hidden="true" />
+          <XCircle className="relative z-10 h-4 w-4 text-red-500 bg-background rounded-full" />
+          <span className="mt-2 text-xs font-medium text-red-600 dark:text-red-400">Not selected</span>
+          {lastRejection && <span className="text-xs text-muted-foreground">{formatDate(lastRejection.date)}</span>}
+        </li>
+      )}
+    </ol>
+  )
+}
+
+function describeEntry(entry: ApplicationHistoryEntry) {
+  switch (entry.type) {
+    case "applied":
+      return "Applied"
+    case "status_changed":
+      return `Moved from ${entry.fromStatus} to ${entry.toStatus}`
+    case "reopened":
+      return `Reopened as ${entry.toStatus}`
+    case "rating_changed":
+      return entry.toRating ? `Rated ${entry.toRating}/5${entry.fromRating ? ` (was ${entry.fromRating}/5)` : ""}` : "Rating cleared"
+  }
+}
+
+interface ApplicationHistoryListProps {
+  history: ApplicationHistoryEntry[]
+}
+
+// Employer view: every status and rating change, newest first, with who made it
+export function ApplicationHistoryList({ history }: ApplicationHistoryListProps) {
+  const [expanded, setExpanded] = useState(false)
+  if (history.length === 0) return null
+
+  const entries = [...history].reverse()
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <History className="h-4 w-4 text-primary" />
+          History
+        </p>
+        {entries.length > 1 && (
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            {expanded ? "Less" : `All ${entries.length} events`}
+          </Button>
+        )}
+      </div>
+      <ul className="space-y-1.5">
+        {(expanded ? entries : entries.slice(0, 1)).map((entry, index) => (
+          <li key={`${entry.date}-${index}`} className="flex items-start gap-2 text-sm">
+            {entry.type === "rating_changed" ? (
+              <Star className="h-3.5 w-3.5 mt-0.5 text-yellow-500 flex-shrink-0" />
+            ) : (
+              <span className="h-2 w-2 mt-1.5 rounded-full bg-primary flex-shrink-0" />
+            )}
+            <span>
+              {describeEntry(entry)}
+              {entry.actorName && <span className="text-muted-foreground"> by {entry.actorName}</span>}
+              <span className="text-muted-foreground"> · {formatDateTime(entry.date)}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -1,23 +1,73 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
 import { Search, Filter, X, MapPin, Briefcase, DollarSign } from "lucide-react"
+import { HighlightedText } from "@/components/highlighted-text"
 import { useJobs } from "@/lib/job-context"
+import type { HighlightRange } from "@/lib/job-search"
 
 interface EnhancedSearchProps {
   onOpenFilters: () => void
 }
 
+// Shape of a result from GET /api/jobs/search
+interface SearchSuggestion {
+  id: string
+  title: string
+  company: string
+  location: string
+  score: number
+  matchedTerms: string[]
+  highlights: { title: HighlightRange[]; company: HighlightRange[] }
+  snippet: { text: string; ranges: HighlightRange[] }
+}
+
 export function EnhancedSearch({ onOpenFilters }: EnhancedSearchProps) {
-  const { filters, updateFilters, getFilteredJobs } = useJobs()
+  const { filters, updateFilters } = useJobs()
   const [searchQuery, setSearchQuery] = useState(filters.search)
-  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
   const [showSuggestions, setShowSuggestions] = useState(false)
 
+  // Follow search text set from elsewhere, e.g. when a saved search is applied
+  useEffect(() => {
+    setSearchQuery(filters.search)
+  }, [filters.search])
+
+  // Fetch ranked suggestions (with typo tolerance and synonyms) as the user types
+  useEffect(() => {
+    if (searchQuery.trim().length <= 2) {
+      setSuggestions([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/jobs/search?q=${encodeURIComponent(searchQuery)}&limit=5`, {
+          credentials: 'include',
+          signal: controller.signal,
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setSuggestions(data.results || [])
+        }
+      } catch (error: any) {
+        if (error?.name !== 'AbortError') {
+          console.error('Error fetching search suggestions:', error)
+        }
+      }
+    }, 200)
+
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [searchQuery])
+
   const popularSearches = [
     "Frontend Developer",
     "React",
@@ -35,24 +85,7 @@ export function EnhancedSearch({ onOpenFilters }: EnhancedSearchProps) {
     setSearchQuery(query)
     updateFilters({ search: query })
 
-    if (query.length > 2) {
-      // Generate suggestions based on job titles, companies, and skills
-      const allJobs = getFilteredJobs()
-      const titleSuggestions = allJobs
-        .filter((job) => job.title.toLowerCase().includes(query.toLowerCase()))
-        .map((job) => job.title)
-        .slice(0, 3)
-
-      const companySuggestions = allJobs
-        .filter((job) => job.company.toLowerCase().includes(query.toLowerCase()))
-        .map((job) => job.company)
-        .slice(0, 2)
-
-      setSuggestions([...new Set([...titleSuggestions, ...companySuggestions])])
-      setShowSuggestions(true)
-    } else {
-      setShowSuggestions(false)
-    }
+    setShowSuggestions(query.length > 2)
   }
 
   const clearSearch = () => {
@@ -67,7 +100,8 @@ export function EnhancedSearch({ onOpenFilters }: EnhancedSearchProps) {
     filters.experience.length +
     filters.categories.length +
     (filters.remote ? 1 : 0) +
-    (filters.salaryMin > 0 ? 1 : 0)
+    (filters.salaryMin > 0 ? 1 : 0) +
+    (filters.matchSalaryExpectation ? 1 : 0)
 
   return (
     <div className="space-y-4">
@@ -114,17 +148,30 @@ export function EnhancedSearch({ onOpenFilters }: EnhancedSearchProps) {
             <CardContent className="p-2">
               {suggestions.map((suggestion, index) => (
                 <Button
-                  key={index}
+                  key={suggestion.id}
                   variant="ghost"
                   className="w-full justify-start text-left h-auto p-3 hover:bg-accent transition-all duration-200 animate-in fade-in slide-in-from-left-2"
                   style={{ animationDelay: `${index * 50}ms` }}
                   onClick={() => {
-                    handleSearch(suggestion)
+                    handleSearch(suggestion.title)
                     setShowSuggestions(false)
                   }}
                 >
-                  <Search className="h-4 w-4 mr-3 text-muted-foreground" />
-                  <span className="font-manrope">{suggestion}</span>
+                  <Search className="h-4 w-4 mr-3 text-muted-foreground flex-shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <div className="font-manrope truncate">
+                      <HighlightedText text={suggestion.title} ranges={suggestion.highlights.title} />
+                      <span className="text-muted-foreground">
+                        {" • "}
+                        <HighlightedText text={suggestion.company} ranges={suggestion.highlights.company} />
+                      </span>
+                    </div>
+                    {suggestion.snippet.ranges.length > 0 && (
+                      <p className="text-xs text-muted-foreground truncate mt-1">
+                        <HighlightedText text={suggestion.snippet.text} ranges={suggestion.snippet.ranges} />
+                      </p>
+                    )}
+                  </div>
                 </Button>
               ))}
             </CardContent>
@@ -215,6 +262,18 @@ export function EnhancedSearch({ onOpenFilters }: EnhancedSearchProps) {
               />
             </Badge>
           )}
+          {filters.matchSalaryExpectation && (
+            <Badge
+              variant="outline"
+              className="flex items-center gap-1 animate-in fade-in slide-in-from-left-2 hover:bg-destructive/10 hover:text-destructive transition-all duration-200"
+            >
+              <DollarSign className="h-3 w-3" />Matches my expectation
+              <X
+                className="h-3 w-3 cursor-pointer hover:scale-125 transition-transform duration-200"
+                onClick={() => updateFilters({ matchSalaryExpectation: false })}
+              />
+            </Badge>
+          )}
         </div>
       )}
     </div>
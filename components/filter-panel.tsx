@@ -20,6 +20,7 @@ export function FilterPanel({ isOpen, onClose }: FilterPanelProps) {
   const [selectedJobTypes, setSelectedJobTypes] = useState<string[]>(filters.jobTypes || [])
   const [selectedLocations, setSelectedLocations] = useState<string[]>(filters.locations || [])
   const [isRemote, setIsRemote] = useState<boolean>(filters.remote || false)
+  const [matchExpectation, setMatchExpectation] = useState<boolean>(filters.matchSalaryExpectation || false)
 
   useEffect(() => {
     if (isOpen) {
@@ -27,6 +28,7 @@ export function FilterPanel({ isOpen, onClose }: FilterPanelProps) {
       setSelectedJobTypes(filters.jobTypes || [])
       setSelectedLocations(filters.locations || [])
       setIsRemote(filters.remote || false)
+      setMatchExpectation(filters.matchSalaryExpectation || false)
     }
   }, [isOpen, filters])
 
@@ -57,6 +59,7 @@ export function FilterPanel({ isOpen, onClose }: FilterPanelProps) {
       locations: selectedLocations,
       remote: isRemote,
       salaryMin,
+      matchSalaryExpectation: matchExpectation,
     })
     onClose()
   }
@@ -66,11 +69,13 @@ export function FilterPanel({ isOpen, onClose }: FilterPanelProps) {
     setSelectedLocations([])
     setIsRemote(false)
     setSalaryMin(0)
+    setMatchExpectation(false)
     updateFilters({
       jobTypes: [],
       locations: [],
       remote: false,
       salaryMin: 0,
+      matchSalaryExpectation: false,
     })
   }
 
@@ -178,6 +183,23 @@ export function FilterPanel({ isOpen, onClose }: FilterPanelProps) {
                 <div className="text-center text-sm text-muted-foreground bg-muted/50 rounded-lg p-2 transition-all duration-200">
                   ${salaryMin.toLocaleString()}+ per year
                 </div>
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="matchSalaryExpectation"
+                    checked={matchExpectation}
+                    onCheckedChange={(checked) => setMatchExpectation(checked as boolean)}
+                    className="transition-all duration-200"
+                  />
+                  <Label
+                    htmlFor="matchSalaryExpectation"
+                    className="font-manrope cursor-pointer hover:text-primary transition-colors duration-200"
+                  >
+                    Matches my salary expectation
+                  </Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Uses the salary expectation from your profile. Hourly and monthly pay is compared as yearly.
+                </p>
               </div>
             </div>
 
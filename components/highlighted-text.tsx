@@ -0,0 +1,30 @@
+"use client"
+
+import { splitHighlights, type HighlightRange } from "@/lib/job-search"
+
+interface HighlightedTextProps {
+  text: string
+  ranges?: HighlightRange[]
+  className?: string
+}
+
+// Renders text with search matches wrapped in <mark>
+export function HighlightedText({ text, ranges, className }: HighlightedTextProps) {
+  if (!ranges || ranges.length === 0) {
+    return <span className={className}>{text}</span>
+  }
+
+  return (
+    <span className={className}>
+      {splitHighlights(text, ranges).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-primary/15 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,531 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CalendarClock, CalendarPlus, MapPin, Phone, Plus, Users, Video, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import type { FormattedInterview } from "@/lib/interviews"
+
+const MAX_SLOTS = 5
+
+const FORMAT_OPTIONS = [
+  { value: "video", label: "Video call", locationLabel: "Meeting link", placeholder: "https://meet.example.com/abc" },
+  { value: "phone", label: "Phone call", locationLabel: "Phone number", placeholder: "+1 555 0100" },
+  { value: "onsite", label: "On-site", locationLabel: "Address", placeholder: "Street, city" },
+] as const
+
+const DURATION_OPTIONS = [30, 45, 60, 90, 120]
+
+const STATUS_LABELS: Record<FormattedInterview["status"], string> = {
+  proposed: "Awaiting candidate",
+  scheduled: "Confirmed",
+  reschedule_requested: "New times requested",
+  cancelled: "Cancelled",
+}
+
+function formatSlot(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { weekday: "short", dateStyle: "medium", timeStyle: "short" })
+}
+
+// <input type="datetime-local"> works in local time without a timezone: "2026-10-19T15:00"
+function toLocalInputValue(iso: string) {
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function FormatIcon({ format }: { format: FormattedInterview["format"] }) {
+  if (format === "phone") return <Phone className="h-4 w-4 text-primary" />
+  if (format === "onsite") return <MapPin className="h-4 w-4 text-primary" />
+  return <Video className="h-4 w-4 text-primary" />
+}
+
+// Sends an action to the interview API and reports the result
+function useInterviewRequest(onChanged: () => void) {
+  const { toast } = useToast()
+  const [submitting, setSubmitting] = useState(false)
+
+  const send = async (url: string, method: "POST" | "PATCH", body: object, successMessage: string) => {
+    setSubmitting(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast({ title: "Error", description: data.message || "Failed to update the interview.", variant: "destructive" })
+        return false
+      }
+      toast({ title: "Success", description: successMessage })
+      onChanged()
+      return true
+    } catch (error) {
+      console.error("Error updating interview:", error)
+      toast({ title: "Error", description: "Failed to update the interview. Please try again.", variant: "destructive" })
+      return false
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return { send, submitting }
+}
+
+// Format, where, who and any notes for the candidate
+function InterviewDetails({ interview }: { interview: FormattedInterview }) {
+  const format = FORMAT_OPTIONS.find((option) => option.value === interview.format)
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="flex items-center gap-2">
+        <FormatIcon format={interview.format} />
+        {format?.label} · {interview.durationMinutes} min
+      </p>
+      {interview.location && (
+        <p className="text-muted-foreground break-all">
+          {format?.locationLabel}:{" "}
+          {/^https?:\/\//i.test(interview.location) ? (
+            <a href={interview.location} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+              {interview.location}
+            </a>
+          ) : (
+            interview.location
+          )}
+        </p>
+      )}
+      {interview.interviewers.length > 0 && (
+        <p className="flex items-center gap-2 text-muted-foreground">
+          <Users className="h-4 w-4" />
+          {interview.interviewers.join(", ")}
+        </p>
+      )}
+      {interview.notes && <p className="text-muted-foreground whitespace-pre-wrap">{interview.notes}</p>}
+    </div>
+  )
+}
+
+interface InterviewProposalDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  applicationId: string
+  candidateName: string
+  interview?: FormattedInterview | null // When set, proposes new times for this interview
+  onChanged: () => void
+}
+
+// Employer form for inviting a candidate, or proposing new times for an existing interview
+function InterviewProposalDialog({ open, onOpenChange, applicationId, candidateName, interview, onChanged }: InterviewProposalDialogProps) {
+  const { send, submitting } = useInterviewRequest(onChanged)
+  const rescheduling = Boolean(interview)
+  const [format, setFormat] = useState<FormattedInterview["format"]>(interview?.format || "video")
+  const [location, setLocation] = useState(interview?.location || "")
+  const [interviewers, setInterviewers] = useState(interview?.interviewers.join(", ") || "")
+  const [durationMinutes, setDurationMinutes] = useState(String(interview?.durationMinutes || 45))
+  const [notes, setNotes] = useState(interview?.notes || "")
+  // Future slots of the interview being rescheduled are kept as a starting point
+  const [slots, setSlots] = useState<string[]>(() => {
+    const upcoming = (interview?.proposedSlots || []).filter((slot) => new Date(slot).getTime() > Date.now())
+    return upcoming.length > 0 ? upcoming.map(toLocalInputValue) : [""]
+  })
+
+  const formatOption = FORMAT_OPTIONS.find((option) => option.value === format)!
+  const minSlot = toLocalInputValue(new Date().toISOString())
+
+  const handleSubmit = async () => {
+    const body = {
+      format,
+      location,
+      interviewers: interviewers.split(",").map((name) => name.trim()).filter(Boolean),
+      durationMinutes: Number(durationMinutes),
+      notes,
+      proposedSlots: slots.filter(Boolean).map((slot) => new Date(slot).toISOString()),
+    }
+    const sent = interview
+      ? await send(`/api/interviews/${interview.id}`, "PATCH", { action: "reschedule", ...body }, `New times sent to ${candidateName}.`)
+      : await send("/api/interviews", "POST", { applicationId, ...body }, `Interview invitation sent to ${candidateName}.`)
+    if (sent) onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rescheduling ? "Propose new times" : "Schedule interview"}</DialogTitle>
+          <DialogDescription>
+            {candidateName} picks one of the times you propose. Both of you get a calendar invite once it&apos;s confirmed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as FormattedInterview["format"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMAT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Duration</Label>
+              <Select value={durationMinutes} onValueChange={setDurationMinutes}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATION_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="interview-location">{formatOption.locationLabel}</Label>
+            <Input
+              id="interview-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder={formatOption.placeholder}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="interview-interviewers">Interviewers</Label>
+            <Input
+              id="interview-interviewers"
+              value={interviewers}
+              onChange={(e) => setInterviewers(e.target.value)}
+              placeholder="Names, separated by commas"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Proposed times</Label>
+            {slots.map((slot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="datetime-local"
+                  value={slot}
+                  min={minSlot}
+                  onChange={(e) => setSlots((prev) => prev.map((value, i) => (i === index ? e.target.value : value)))}
+                />
+                {slots.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove time"
+                    onClick={() => setSlots((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {slots.length < MAX_SLOTS && (
+              <Button variant="outline" size="sm" onClick={() => setSlots((prev) => [...prev, ""])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add another time
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="interview-notes">Notes for the candidate</Label>
+            <Textarea
+              id="interview-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="What to prepare, who to ask for at reception..."
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !location.trim() || !slots.some(Boolean)}>
+            {submitting ? "Sending..." : rescheduling ? "Send new times" : "Send invitation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface CancelInterviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  interview: FormattedInterview
+  onChanged: () => void
+}
+
+function CancelInterviewDialog({ open, onOpenChange, interview, onChanged }: CancelInterviewDialogProps) {
+  const { send, submitting } = useInterviewRequest(onChanged)
+  const [reason, setReason] = useState("")
+
+  const handleCancel = async () => {
+    if (await send(`/api/interviews/${interview.id}`, "PATCH", { action: "cancel", reason }, "Interview cancelled.")) {
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel interview?</DialogTitle>
+          <DialogDescription>
+            The other side is told by email{interview.status === "scheduled" ? " and the event is removed from both calendars" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason (optional)" rows={3} />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Keep interview
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={submitting}>
+            {submitting ? "Cancelling..." : "Cancel interview"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface EmployerInterviewPanelProps {
+  applicationId: string
+  applicationStatus: string
+  candidateName: string
+  interview?: FormattedInterview | null
+  onChanged: () => void
+  readOnly?: boolean // Shows the interview without scheduling controls
+}
+
+// Employer view of an applicant's interview: invite shortlisted candidates, then follow, reschedule or cancel
+export function EmployerInterviewPanel({
+  applicationId,
+  applicationStatus,
+  candidateName,
+  interview,
+  onChanged,
+  readOnly = false,
+}: EmployerInterviewPanelProps) {
+  const [proposalOpen, setProposalOpen] = useState(false)
+  const [cancelOpen, setCancelOpen] = useState(false)
+  const active = interview && interview.status !== "cancelled"
+  const canInvite = !readOnly && !active && (applicationStatus === "Shortlisted" || applicationStatus === "Interviewed")
+
+  if (!interview && !canInvite) return null
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          Interview
+          {interview && <Badge variant={interview.status === "cancelled" ? "outline" : "secondary"}>{STATUS_LABELS[interview.status]}</Badge>}
+        </p>
+        <div className="flex gap-2">
+          {canInvite && (
+            <Button size="sm" onClick={() => setProposalOpen(true)}>
+              {interview ? "Schedule again" : "Schedule interview"}
+            </Button>
+          )}
+          {active && !readOnly && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setProposalOpen(true)}>
+                {interview.status === "reschedule_requested" ? "Propose new times" : "Reschedule"}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCancelOpen(true)}>
+                Cancel
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {interview && active && (
+        <>
+          {interview.status === "scheduled" && interview.scheduledAt && (
+            <p className="text-sm font-medium">
+              {formatSlot(interview.scheduledAt)}
+              <a href={`/api/interviews/${interview.id}/ics`} className="ml-2 text-xs font-normal text-primary hover:underline">
+                Add to calendar
+              </a>
+            </p>
+          )}
+          {interview.status === "proposed" && (
+            <p className="text-sm text-muted-foreground">
+              Offered: {interview.proposedSlots.map(formatSlot).join(" · ")}
+            </p>
+          )}
+          {interview.status === "reschedule_requested" && (
+            <p className="text-sm text-muted-foreground">
+              {candidateName} asked for different times{interview.rescheduleNote ? `: "${interview.rescheduleNote}"` : "."}
+            </p>
+          )}
+          <InterviewDetails interview={interview} />
+        </>
+      )}
+      {interview?.status === "cancelled" && (
+        <p className="text-sm text-muted-foreground">
+          Cancelled by {interview.cancelledBy === "employer" ? "your team" : candidateName}
+          {interview.cancelReason ? `: "${interview.cancelReason}"` : "."}
+        </p>
+      )}
+
+      {proposalOpen && (
+        <InterviewProposalDialog
+          open={proposalOpen}
+          onOpenChange={setProposalOpen}
+          applicationId={applicationId}
+          candidateName={candidateName}
+          interview={active ? interview : null}
+          onChanged={onChanged}
+        />
+      )}
+      {interview && active && (
+        <CancelInterviewDialog open={cancelOpen} onOpenChange={setCancelOpen} interview={interview} onChanged={onChanged} />
+      )}
+    </div>
+  )
+}
+
+interface CandidateInterviewPanelProps {
+  company: string
+  interview: FormattedInterview
+  onChanged: () => void
+}
+
+// Job seeker view of an interview: pick a proposed time, add it to a calendar, ask for new times or cancel
+export function CandidateInterviewPanel({ company, interview, onChanged }: CandidateInterviewPanelProps) {
+  const { send, submitting } = useInterviewRequest(onChanged)
+  const [selectedSlot, setSelectedSlot] = useState("")
+  const [requestingTimes, setRequestingTimes] = useState(false)
+  const [note, setNote] = useState("")
+  const [cancelOpen, setCancelOpen] = useState(false)
+  const upcomingSlots = interview.proposedSlots.filter((slot) => new Date(slot).getTime() > Date.now())
+
+  const confirmSlot = () =>
+    send(`/api/interviews/${interview.id}`, "PATCH", { action: "confirm", slot: selectedSlot }, "Interview confirmed. A calendar invite is on its way.")
+
+  const requestNewTimes = async () => {
+    if (await send(`/api/interviews/${interview.id}`, "PATCH", { action: "request_reschedule", note }, `${company} has been asked for new times.`)) {
+      setRequestingTimes(false)
+      setNote("")
+    }
+  }
+
+  return (
+    <div className="rounded-md border border-primary/30 bg-primary/5 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          {interview.status === "proposed" ? "Pick an interview time" : "Interview"}
+        </p>
+        <Badge variant={interview.status === "cancelled" ? "outline" : "secondary"}>
+          {interview.status === "proposed" ? "Action needed" : STATUS_LABELS[interview.status]}
+        </Badge>
+      </div>
+
+      {interview.status === "proposed" && (
+        upcomingSlots.length > 0 ? (
+          <RadioGroup value={selectedSlot} onValueChange={setSelectedSlot} className="space-y-1">
+            {upcomingSlots.map((slot) => (
+              <div key={slot} className="flex items-center gap-2">
+                <RadioGroupItem value={slot} id={`slot-${interview.id}-${slot}`} />
+                <Label htmlFor={`slot-${interview.id}-${slot}`} className="font-normal cursor-pointer">
+                  {formatSlot(slot)}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        ) : (
+          <p className="text-sm text-muted-foreground">All proposed times have passed. Ask {company} for new ones.</p>
+        )
+      )}
+      {interview.status === "scheduled" && interview.scheduledAt && (
+        <p className="text-sm font-medium">{formatSlot(interview.scheduledAt)}</p>
+      )}
+      {interview.status === "reschedule_requested" && (
+        <p className="text-sm text-muted-foreground">You asked {company} for new times. You&apos;ll be notified when they propose some.</p>
+      )}
+      {interview.status === "cancelled" && (
+        <p className="text-sm text-muted-foreground">
+          {interview.cancelledBy === "job-seeker" ? "You cancelled this interview" : `${company} cancelled this interview`}
+          {interview.cancelReason ? `: "${interview.cancelReason}"` : "."}
+        </p>
+      )}
+
+      {interview.status !== "cancelled" && <InterviewDetails interview={interview} />}
+
+      {requestingTimes && (
+        <div className="space-y-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="When would suit you? (optional)"
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={requestNewTimes} disabled={submitting}>
+              Ask for new times
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setRequestingTimes(false)} disabled={submitting}>
+              Back
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!requestingTimes && (interview.status === "proposed" || interview.status === "scheduled") && (
+        <div className="flex flex-wrap gap-2">
+          {interview.status === "proposed" && upcomingSlots.length > 0 && (
+            <Button size="sm" onClick={confirmSlot} disabled={submitting || !selectedSlot}>
+              Confirm time
+            </Button>
+          )}
+          {interview.status === "scheduled" && (
+            <Button size="sm" variant="outline" asChild>
+              <a href={`/api/interviews/${interview.id}/ics`}>
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Add to calendar
+              </a>
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => setRequestingTimes(true)} disabled={submitting}>
+            {interview.status === "proposed" ? "None of these work" : "Request new time"}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setCancelOpen(true)} disabled={submitting}>
+            Cancel interview
+          </Button>
+        </div>
+      )}
+
+      {interview.status !== "cancelled" && (
+        <CancelInterviewDialog open={cancelOpen} onOpenChange={setCancelOpen} interview={interview} onChanged={onChanged} />
+      )}
+    </div>
+  )
+}
@@ -3,11 +3,16 @@
 import type React from "react"
 
 import { useState } from "react"
+import Link from "next/link"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Heart, MapPin, DollarSign, Clock, Building, Users, Check, Calendar } from "lucide-react"
-import { useJobs } from "@/lib/job-context"
+import { Heart, MapPin, DollarSign, Clock, Building, Users, Check, Calendar, Sparkles } from "lucide-react"
+import { HighlightedText } from "@/components/highlighted-text"
+import { MatchScoreBadge } from "@/components/match-score-badge"
+import { useJobs, type JobRecommendation } from "@/lib/job-context"
+import type { SearchMatch } from "@/lib/job-search"
+import type { JobMatch } from "@/lib/job-match"
 
 interface JobCardProps {
   job: {
@@ -22,6 +27,11 @@ interface JobCardProps {
     deadline?: string
     applicants: number
     requirements: string[]
+    status?: string
+    employerMongoId?: string
+    searchMatch?: SearchMatch
+    match?: JobMatch
+    recommendation?: JobRecommendation
   }
   isSaved: boolean
   onSave: () => void
@@ -33,6 +43,7 @@ export function JobCard({ job, isSaved, onSave, onViewDetails }: JobCardProps) {
   const [isApplying, setIsApplying] = useState(false)
   const { applyToJob, hasApplied } = useJobs()
   const isApplied = hasApplied(job.id)
+  const isClosed = job.status !== undefined && job.status !== "Active"
 
   const handleApply = async (e: React.MouseEvent) => {
     e.stopPropagation()
@@ -77,12 +88,23 @@ export function JobCard({ job, isSaved, onSave, onViewDetails }: JobCardProps) {
         <div className="flex justify-between items-start">
           <div className="flex-1">
             <CardTitle className="font-geist text-lg mb-2 group-hover:text-primary transition-colors duration-200">
-              {job.title}
+              <HighlightedText text={job.title} ranges={job.searchMatch?.highlights.title} />
             </CardTitle>
             <div className="flex items-center gap-2 text-muted-foreground mb-2 transform group-hover:translate-x-1 transition-transform duration-200">
               <Building className="h-4 w-4" />
-              <span className="font-manrope">{job.company}</span>
+              {job.employerMongoId ? (
+                <Link
+                  href={`/companies/${job.employerMongoId}`}
+                  className="hover:text-primary hover:underline"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <HighlightedText className="font-manrope" text={job.company} ranges={job.searchMatch?.highlights.company} />
+                </Link>
+              ) : (
+                <HighlightedText className="font-manrope" text={job.company} ranges={job.searchMatch?.highlights.company} />
+              )}
             </div>
+            {job.match && <MatchScoreBadge match={job.match} />}
           </div>
           <Button
             variant="ghost"
@@ -117,6 +139,11 @@ export function JobCard({ job, isSaved, onSave, onViewDetails }: JobCardProps) {
           <div className="flex items-center gap-2 text-sm text-muted-foreground transform group-hover:translate-x-1 transition-transform duration-200 delay-125">
             <Clock className="h-4 w-4" />
             <span>{job.postedDate}</span>
+            {isClosed && (
+              <Badge variant="destructive" className="text-xs">
+                Closed
+              </Badge>
+            )}
           </div>
           {job.deadline && (
             <div className="flex items-center gap-2 text-sm transform group-hover:translate-x-1 transition-transform duration-200 delay-150">
@@ -142,6 +169,17 @@ export function JobCard({ job, isSaved, onSave, onViewDetails }: JobCardProps) {
           </div>
         </div>
 
+        {job.recommendation && job.recommendation.reasons.length > 0 && (
+          <div className="rounded-md bg-primary/5 p-3 space-y-1">
+            {job.recommendation.reasons.slice(0, 3).map((reason) => (
+              <p key={reason} className="flex items-start gap-2 text-xs text-muted-foreground">
+                <Sparkles className="h-3.5 w-3.5 mt-0.5 text-primary flex-shrink-0" />
+                {reason}
+              </p>
+            ))}
+          </div>
+        )}
+
         <div>
           <div className="flex flex-wrap gap-1 mb-4">
             {job.requirements.slice(0, 3).map((skill, index) => (
@@ -150,10 +188,10 @@ export function JobCard({ job, isSaved, onSave, onViewDetails }: JobCardProps) {
                 variant="outline"
                 className={`text-xs transition-all duration-200 hover:bg-primary hover:text-primary-foreground ${
                   isHovered ? "animate-in fade-in slide-in-from-bottom-2" : ""
-                }`}
+                } ${job.match && !job.match.missingSkills.includes(skill) ? "border-green-600/50" : ""}`}
                 style={{ animationDelay: `${index * 50}ms` }}
               >
-                {skill}
+                <HighlightedText text={skill} ranges={job.searchMatch?.highlights[`requirements.${index}`]} />
               </Badge>
             ))}
             {job.requirements.length > 3 && (
@@ -183,7 +221,7 @@ export function JobCard({ job, isSaved, onSave, onViewDetails }: JobCardProps) {
           </Button>
           <Button
             onClick={handleApply}
-            disabled={isApplied || isApplying}
+            disabled={isApplied || isApplying || isClosed}
             className={`flex-1 hover:scale-105 transition-all duration-200 hover:shadow-lg ${
               isApplied ? "bg-green-600 hover:bg-green-600" : ""
             }`}
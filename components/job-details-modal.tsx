@@ -1,25 +1,30 @@
 "use client"
 
 import { useState } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { X, MapPin, DollarSign, Clock, Building, Users, Heart, Check, Calendar, AlertCircle } from "lucide-react"
+import { X, MapPin, DollarSign, Clock, Building, Users, Heart, Check, Calendar, AlertCircle, Eye, ExternalLink } from "lucide-react"
 import { useJobs } from "@/lib/job-context"
 
 interface JobDetailsModalProps {
   job: any
   isOpen: boolean
   onClose: () => void
+  preview?: boolean // Employer preview: shows the posting as job seekers will see it, without actions
 }
 
-export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps) {
+export function JobDetailsModal({ job, isOpen, onClose, preview = false }: JobDetailsModalProps) {
   const { applyToJob, hasApplied, toggleSaveJob, savedJobs } = useJobs()
   const [isApplying, setIsApplying] = useState(false)
 
   if (!isOpen || !job) return null
 
   const isApplied = hasApplied(job.id)
+  // Dashboard jobs carry their database ids separately; employer previews use them as the ids
+  const publicJobId = job.mongoId || (typeof job.id === "string" ? job.id : "")
+  const companyId = job.employerMongoId || (typeof job.employerId === "string" ? job.employerId : "")
   const isSaved = savedJobs.includes(job.id)
 
   const handleApply = async () => {
@@ -62,14 +67,41 @@ export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps)
             <CardTitle className="font-geist text-2xl mb-2">{job.title}</CardTitle>
             <div className="flex items-center gap-2 text-muted-foreground">
               <Building className="h-4 w-4" />
-              <span className="font-manrope">{job.company}</span>
+              {companyId ? (
+                <Link href={`/companies/${companyId}`} className="font-manrope hover:text-primary hover:underline">
+                  {job.company}
+                </Link>
+              ) : (
+                <span className="font-manrope">{job.company}</span>
+              )}
             </div>
           </div>
+          {publicJobId && job.status !== "Draft" && (
+            <Button variant="ghost" size="icon" asChild title="Open the public job page">
+              <a href={`/jobs/${publicJobId}`} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </Button>
+          )}
           <Button variant="ghost" size="icon" onClick={onClose}>
             <X className="h-4 w-4" />
           </Button>
         </CardHeader>
         <CardContent className="space-y-6">
+          {preview && (
+            <div className="bg-muted border rounded-lg p-4 flex items-start gap-3">
+              <Eye className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-semibold">Preview</p>
+                <p className="text-sm text-muted-foreground">
+                  {job.status === "Draft"
+                    ? "This draft is not visible to job seekers yet. This is how it will look once published."
+                    : "This is how job seekers see your posting."}
+                </p>
+              </div>
+            </div>
+          )}
+
           {isExpiringSoon && (
             <div className="bg-orange-50 dark:bg-orange-950/20 border border-orange-200 dark:border-orange-800 rounded-lg p-4 flex items-start gap-3">
               <AlertCircle className="h-5 w-5 text-orange-600 dark:text-orange-400 flex-shrink-0 mt-0.5" />
@@ -138,32 +170,34 @@ export function JobDetailsModal({ job, isOpen, onClose }: JobDetailsModalProps)
             <p className="font-manrope text-muted-foreground leading-relaxed">{job.description}</p>
           </div>
 
-          <div className="flex gap-3 pt-4">
-            <Button
-              className={`flex-1 ${isApplied ? "bg-green-600 hover:bg-green-600" : ""}`}
-              onClick={handleApply}
-              disabled={isApplied || isApplying}
-            >
-              {isApplying ? (
-                "Applying..."
-              ) : isApplied ? (
-                <>
-                  <Check className="h-4 w-4 mr-2" />
-                  Applied
-                </>
-              ) : (
-                "Apply Now"
-              )}
-            </Button>
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={() => toggleSaveJob(job.id)}
-              className={isSaved ? "text-red-500" : ""}
-            >
-              <Heart className={`h-4 w-4 ${isSaved ? "fill-current" : ""}`} />
-            </Button>
-          </div>
+          {!preview && (
+            <div className="flex gap-3 pt-4">
+              <Button
+                className={`flex-1 ${isApplied ? "bg-green-600 hover:bg-green-600" : ""}`}
+                onClick={handleApply}
+                disabled={isApplied || isApplying}
+              >
+                {isApplying ? (
+                  "Applying..."
+                ) : isApplied ? (
+                  <>
+                    <Check className="h-4 w-4 mr-2" />
+                    Applied
+                  </>
+                ) : (
+                  "Apply Now"
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => toggleSaveJob(job.id)}
+                className={isSaved ? "text-red-500" : ""}
+              >
+                <Heart className={`h-4 w-4 ${isSaved ? "fill-current" : ""}`} />
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
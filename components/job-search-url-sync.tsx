@@ -0,0 +1,55 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { useJobs, buildJobSearchUrlQuery, parseJobSearchUrlQuery } from "@/lib/job-context"
+
+// Search text changes settle before a history entry is added, so typing doesn't flood the back button
+const URL_UPDATE_DELAY = 400
+
+// Keeps the job search filters, sort order and page in the URL query string: links and
+// bookmarks open the same search, and back/forward restore earlier ones. Renders nothing.
+export function JobSearchUrlSync() {
+  const { filters, sort, page, restoreSearchState } = useJobs()
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  // Both sides are compared in canonical form, so equivalent queries never trigger an update
+  const urlState = parseJobSearchUrlQuery(new URLSearchParams(searchParams.toString()))
+  const urlQuery = buildJobSearchUrlQuery(urlState.filters, urlState.sort, urlState.page)
+  const stateQuery = buildJobSearchUrlQuery(filters, sort, page)
+  const pendingRestore = useRef<string | null>(null) // URL query being restored into state
+  const lastPushed = useRef<string | null>(null) // URL query this component navigated to
+
+  // URL -> state: on load and whenever the URL changes (back/forward, opened link)
+  useEffect(() => {
+    // Our own navigation arriving late must not undo edits made since it was pushed
+    if (urlQuery === lastPushed.current) {
+      lastPushed.current = null
+      return
+    }
+    if (urlQuery === stateQuery) return
+    pendingRestore.current = urlQuery
+    restoreSearchState(urlState)
+    // stateQuery is deliberately left out: state changes are handled below
+  }, [urlQuery])
+
+  // State -> URL: once the user changes the search, record it as a new history entry
+  useEffect(() => {
+    if (pendingRestore.current !== null) {
+      // Wait until the state restored from the URL has arrived
+      if (stateQuery === pendingRestore.current) pendingRestore.current = null
+      return
+    }
+    if (stateQuery === urlQuery) return
+
+    const timeoutId = setTimeout(() => {
+      lastPushed.current = stateQuery
+      router.push(stateQuery ? `${pathname}?${stateQuery}` : pathname, { scroll: false })
+    }, URL_UPDATE_DELAY)
+    return () => clearTimeout(timeoutId)
+  }, [stateQuery])
+
+  return null
+}
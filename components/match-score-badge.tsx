@@ -0,0 +1,89 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card"
+import { Check, X, MapPin, DollarSign, CalendarCheck, Target } from "lucide-react"
+import type { JobMatch } from "@/lib/job-match"
+
+interface MatchScoreBadgeProps {
+  match: JobMatch
+  className?: string
+}
+
+function scoreClass(score: number) {
+  if (score >= 75) return "bg-green-600 hover:bg-green-600 text-white"
+  if (score >= 50) return "bg-amber-500 hover:bg-amber-500 text-white"
+  return "bg-muted text-muted-foreground hover:bg-muted"
+}
+
+function fitClass(good: boolean, unknown: boolean) {
+  if (unknown) return "text-muted-foreground"
+  return good ? "text-green-600" : "text-red-500"
+}
+
+// Match score with a hover breakdown of the skills, location, salary and availability behind it
+export function MatchScoreBadge({ match, className = "" }: MatchScoreBadgeProps) {
+  const { matchedSkills, missingSkills, location, salary, availability } = match
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <Badge className={`${scoreClass(match.score)} gap-1 cursor-default ${className}`} onClick={(e) => e.stopPropagation()}>
+          <Target className="h-3 w-3" />
+          {match.score}% match
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <p className="text-sm font-semibold">Why {match.score}%?</p>
+
+        {(matchedSkills.length > 0 || missingSkills.length > 0) ? (
+          <div className="space-y-2">
+            {matchedSkills.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">Matched skills</p>
+                <div className="flex flex-wrap gap-1">
+                  {matchedSkills.map((skill) => (
+                    <Badge key={skill} variant="outline" className="text-xs border-green-600/40 text-green-700 dark:text-green-400">
+                      <Check className="h-3 w-3 mr-1" />
+                      {skill}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+            {missingSkills.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-1">Missing</p>
+                <div className="flex flex-wrap gap-1">
+                  {missingSkills.map((requirement) => (
+                    <Badge key={requirement} variant="outline" className="text-xs text-muted-foreground">
+                      <X className="h-3 w-3 mr-1" />
+                      {requirement}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">No requirements listed to compare skills against.</p>
+        )}
+
+        <div className="space-y-1 text-xs">
+          <p className={`flex items-center gap-2 ${fitClass(location.fit !== "different", location.fit === "unknown")}`}>
+            <MapPin className="h-3.5 w-3.5 flex-shrink-0" />
+            {location.label}
+          </p>
+          <p className={`flex items-center gap-2 ${fitClass(salary.fit !== "below", salary.fit === "unknown")}`}>
+            <DollarSign className="h-3.5 w-3.5 flex-shrink-0" />
+            {salary.label}
+          </p>
+          <p className={`flex items-center gap-2 ${fitClass(availability.fit === "available", availability.fit === "unknown")}`}>
+            <CalendarCheck className="h-3.5 w-3.5 flex-shrink-0" />
+            {availability.label}
+          </p>
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  )
+}
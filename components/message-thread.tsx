@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { MessageSquare, Send } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import type { FormattedMessage } from "@/lib/messages"
+
+const THREAD_POLL_INTERVAL = 5000
+
+function formatTime(iso: string) {
+  const date = new Date(iso)
+  const sameDay = date.toDateString() === new Date().toDateString()
+  return sameDay
+    ? date.toLocaleTimeString(undefined, { timeStyle: "short" })
+    : date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+interface MessagesButtonProps {
+  unreadCount?: number
+  onClick: () => void
+}
+
+// Opens an application's thread; shows how many messages are waiting
+export function MessagesButton({ unreadCount = 0, onClick }: MessagesButtonProps) {
+  return (
+    <Button variant="outline" size="sm" onClick={onClick} className="relative">
+      <MessageSquare className="h-4 w-4 mr-2" />
+      Messages
+      {unreadCount > 0 && (
+        <Badge className="ml-2 h-5 min-w-5 px-1.5 bg-red-500 text-white hover:bg-red-500">
+          {unreadCount > 9 ? "9+" : unreadCount}
+        </Badge>
+      )}
+    </Button>
+  )
+}
+
+interface MessageThreadDialogProps {
+  applicationId: string | null // The thread to show; null closes the dialog
+  title: string
+  description?: string
+  onClose: () => void
+  onRead?: (applicationId: string) => void // Called once the thread has been marked as read
+  readOnly?: boolean // Shows the conversation without the reply box
+}
+
+// An application's conversation between the candidate and the employer. Polls for new
+// messages while open and marks the other side's messages as read as they arrive.
+export function MessageThreadDialog({ applicationId, title, description, onClose, onRead, readOnly = false }: MessageThreadDialogProps) {
+  const { toast } = useToast()
+  const [messages, setMessages] = useState<FormattedMessage[]>([])
+  const [loading, setLoading] = useState(false)
+  const [draft, setDraft] = useState("")
+  const [sending, setSending] = useState(false)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!applicationId) {
+      setMessages([])
+      setDraft("")
+      return
+    }
+
+    let cancelled = false
+
+    async function markRead(id: string) {
+      try {
+        await fetch(`/api/applications/${id}/messages`, { method: "PATCH", credentials: "include" })
+        onRead?.(id)
+      } catch (error) {
+        console.error("Error marking messages as read:", error)
+      }
+    }
+
+    async function fetchMessages(silent: boolean) {
+      try {
+        if (!silent) setLoading(true)
+        const response = await fetch(`/api/applications/${applicationId}/messages`, {
+          credentials: "include",
+          cache: "no-store",
+        })
+        const data = await response.json()
+        if (cancelled) return
+        if (!response.ok) {
+          if (!silent) {
+            toast({ title: "Error", description: data.message || "Failed to load messages.", variant: "destructive" })
+          }
+          return
+        }
+        setMessages(data.messages || [])
+        if (data.unreadCount > 0) {
+          await markRead(applicationId!)
+        }
+      } catch (error) {
+        console.error("Error fetching messages:", error)
+      } finally {
+        if (!silent && !cancelled) setLoading(false)
+      }
+    }
+
+    fetchMessages(false)
+    const interval = setInterval(() => fetchMessages(true), THREAD_POLL_INTERVAL)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [applicationId])
+
+  // Keep the newest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" })
+  }, [messages.length])
+
+  const handleSend = async () => {
+    if (!applicationId || !draft.trim() || sending) return
+    try {
+      setSending(true)
+      const response = await fetch(`/api/applications/${applicationId}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ body: draft }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setMessages((prev) => [...prev, data.message])
+        setDraft("")
+      } else {
+        toast({ title: "Error", description: data.message || "Failed to send message.", variant: "destructive" })
+      }
+    } catch (error) {
+      console.error("Error sending message:", error)
+      toast({ title: "Error", description: "Failed to send message. Please try again.", variant: "destructive" })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault()
+      handleSend()
+    }
+  }
+
+  return (
+    <Dialog open={applicationId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg flex flex-col max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="flex-1 min-h-[240px] overflow-y-auto rounded-md border bg-muted/30 p-3 space-y-3">
+          {loading && messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading messages...</p>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No messages yet. Start the conversation.</p>
+          ) : (
+            messages.map((message) => (
+              <div key={message.id} className={`flex ${message.mine ? "justify-end" : "justify-start"}`}>
+                <div
+                  className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                    message.mine ? "bg-primary text-primary-foreground" : "bg-background border"
+                  }`}
+                >
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <p className={`mt-1 text-[11px] ${message.mine ? "text-primary-foreground/70" : "text-muted-foreground"}`}>
+                    {formatTime(message.createdAt)}
+                    {message.mine && message.read && " · Seen"}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {!readOnly && (
+          <div className="flex items-end gap-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Write a message..."
+              rows={2}
+              maxLength={5000}
+              className="resize-none"
+            />
+            <Button onClick={handleSend} disabled={sending || !draft.trim()} aria-label="Send message">
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,27 +4,48 @@ import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { MapPin, DollarSign, Clock, Users, Trash2, AlertCircle, Mail, Phone, Briefcase } from "lucide-react"
+import { MapPin, DollarSign, Clock, Users, Trash2, AlertCircle, Mail, Phone, Briefcase, Pencil, Eye, Send, EyeOff, CalendarClock, RotateCcw, List, Columns3, ClipboardCheck } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PostJobForm } from "@/components/post-job-form"
+import { JobDetailsModal } from "@/components/job-details-modal"
+import { ParsedResumeSummary } from "@/components/parsed-resume-summary"
+import { MatchScoreBadge } from "@/components/match-score-badge"
+import { ApplicationHistoryList } from "@/components/application-timeline"
+import { ApplicantPipelineBoard } from "@/components/applicant-pipeline-board"
+import { EmployerInterviewPanel } from "@/components/interview-scheduler"
+import { MessagesButton, MessageThreadDialog } from "@/components/message-thread"
+import { ApplicantEvaluationPanel, EvaluationCriteriaDialog, ScorecardBadge } from "@/components/applicant-evaluation"
+import { ScreeningAnswerFilterBar, ScreeningAnswersList } from "@/components/screening-questions"
+import type { ParsedResumeDetails } from "@/lib/resume-upload"
+import type { JobMatch } from "@/lib/job-match"
+import type { ApplicationHistoryEntry } from "@/lib/application-history"
+import type { FormattedInterview } from "@/lib/interviews"
+import type { ApplicantEvaluation } from "@/lib/scorecards"
+import { getNextStatuses, type ApplicationStatus } from "@/lib/application-status"
+import type { SalaryRange } from "@/lib/salary"
+import { matchesScreeningFilter, type FormattedScreeningAnswer, type ScreeningAnswerFilter, type ScreeningQuestion } from "@/lib/screening"
 
 interface Job {
   id: string | number
   title: string
   location: string
   salary: string
+  salaryRange?: SalaryRange | null
   type: string
   remote: boolean
   postedDate: string
   deadline?: string
   status: string
+  publishAt?: string | null
   applicants: number
   pendingApplications?: number
   description: string
   requirements: string[]
+  screeningQuestions?: ScreeningQuestion[]
 }
 
 interface Applicant {
@@ -37,6 +58,8 @@ interface Applicant {
   rating: number
   appliedDate: string
   resume?: string
+  resumeName?: string
+  parsedResume?: ParsedResumeDetails
   coverLetter?: string
   skills?: string[]
   bio?: string
@@ -44,14 +67,21 @@ interface Applicant {
   title?: string
   location?: string
   photo?: string
+  match?: JobMatch
+  history?: ApplicationHistoryEntry[]
+  interview?: FormattedInterview | null
+  unreadMessages?: number
+  evaluation?: ApplicantEvaluation
+  screeningAnswers?: FormattedScreeningAnswer[]
 }
 
 interface MyJobsTabProps {
   onViewApplicants?: (job: Job) => void
   onRefresh?: () => void
+  readOnly?: boolean // Hiring managers can review jobs and applicants but not change them
 }
 
-export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
+export function MyJobsTab({ onViewApplicants, onRefresh, readOnly = false }: MyJobsTabProps) {
   const { toast } = useToast()
   const [jobs, setJobs] = useState<Job[]>([])
   const [loading, setLoading] = useState(true)
@@ -61,9 +91,18 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
   const [applicants, setApplicants] = useState<Applicant[]>([])
   const [loadingApplicants, setLoadingApplicants] = useState(false)
   const [showApplicantsDialog, setShowApplicantsDialog] = useState(false)
+  const [editingJob, setEditingJob] = useState<Job | null>(null)
+  const [previewJob, setPreviewJob] = useState<Job | null>(null)
+  
+  const [applicantsView, setApplicantsView] = useState<"list" | "board">("list")
+  const [messagesFor, setMessagesFor] = useState<Applicant | null>(null)
+  const [editingCriteria, setEditingCriteria] = useState(false)
+  const [screeningFilter, setScreeningFilter] = useState<ScreeningAnswerFilter | null>(null)
   
   // Ref to store interval for applicants refresh
   const applicantsIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  // Applications with a status change in flight; background refreshes keep their optimistic status
+  const pendingStatusIdsRef = useRef<Set<string>>(new Set())
 
   // Fetch jobs from API
   const fetchJobs = async (silent: boolean = false) => {
@@ -226,8 +265,51 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
     }
   }
 
+  // Publishes a draft immediately (status "Active") or unpublishes a live job (status "Draft")
+  const changePublishState = async (job: Job, status: "Active" | "Draft") => {
+    try {
+      const response = await fetch(`/api/jobs/${job.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ status }),
+      })
+
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        toast({
+          title: "Error",
+          description: data.message || "Failed to update job.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: status === "Active"
+          ? "Job published and now visible to job seekers."
+          : "Job unpublished. It is saved as a draft.",
+      })
+      await fetchJobs(true)
+      if (onRefresh) {
+        onRefresh()
+      }
+    } catch (error) {
+      console.error('Error updating job status:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update job. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleViewApplicants = async (job: Job) => {
     setSelectedJob(job)
+    setScreeningFilter(null)
     setShowApplicantsDialog(true)
     // Fetch applicants immediately
     await fetchApplicants(job.id, false)
@@ -325,7 +407,9 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
               return data.map((app: Applicant) => {
                 const existing = prevApplicants.find(a => String(a.id) === String(app.id))
                 // Preserve existing phone number if available
-                return existing ? { ...existing, ...app, applicantPhone: existing.applicantPhone } : app
+                if (!existing) return app
+                const pendingStatus = pendingStatusIdsRef.current.has(String(app.id)) ? { status: existing.status } : {}
+                return { ...existing, ...app, applicantPhone: existing.applicantPhone, ...pendingStatus }
               })
             }
             
@@ -425,7 +509,19 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
     }
   }
 
-  const updateStatus = async (applicationId: string | number, newStatus: string) => {
+  // Moves an application to a new status, or reopens a rejected one ({ reopen: true })
+  // Status moves show immediately and are rolled back if the server refuses them
+  const updateStatus = async (applicationId: string | number, change: { status: ApplicationStatus } | { reopen: true }) => {
+    const previousStatus = applicants.find((app) => app.id === applicationId)?.status
+    const rollback = () => {
+      if (previousStatus === undefined) return
+      setApplicants((prev) => prev.map((app) => (app.id === applicationId ? { ...app, status: previousStatus } : app)))
+    }
+    if ("status" in change) {
+      setApplicants((prev) => prev.map((app) => (app.id === applicationId ? { ...app, status: change.status } : app)))
+    }
+    pendingStatusIdsRef.current.add(String(applicationId))
+
     try {
       const response = await fetch(`/api/applications/${applicationId}`, {
         method: 'PATCH',
@@ -433,26 +529,31 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
           'Content-Type': 'application/json',
         },
         credentials: 'include',
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify(change),
       })
 
       if (response.ok) {
         // Check if response is JSON before parsing (if needed)
         // For PATCH requests, we might not need to parse the response
         const contentType = response.headers.get('content-type')
+        let updated: { status?: string; history?: ApplicationHistoryEntry[] } = {}
         if (contentType && contentType.includes('application/json')) {
           try {
-            await response.json() // Consume response if JSON
+            updated = await response.json() // Includes the change just made
           } catch {
             // Ignore parsing errors for status updates
           }
         }
+        // A reopened application's status is decided by the server
+        const newStatus = updated.status || ("status" in change ? change.status : undefined)
         setApplicants((prev) =>
-          prev.map((app) => (app.id === applicationId ? { ...app, status: newStatus } : app))
+          prev.map((app) =>
+            app.id === applicationId ? { ...app, status: newStatus || app.status, history: updated.history || app.history } : app
+          )
         )
         toast({
           title: "Success",
-          description: "Application status updated.",
+          description: "reopen" in change ? `Application reopened as ${newStatus}.` : "Application status updated.",
         })
         // Refresh jobs to update counts
         await fetchJobs()
@@ -460,6 +561,7 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
           onRefresh()
         }
       } else {
+        rollback()
         const data = await response.json()
         toast({
           title: "Error",
@@ -468,17 +570,20 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
         })
       }
     } catch (error) {
+      rollback()
       console.error('Error updating status:', error)
       toast({
         title: "Error",
         description: "Failed to update status. Please try again.",
         variant: "destructive",
       })
+    } finally {
+      pendingStatusIdsRef.current.delete(String(applicationId))
     }
   }
 
   const handleReject = async (applicationId: string | number) => {
-    await updateStatus(applicationId, 'Rejected')
+    await updateStatus(applicationId, { status: 'Rejected' })
   }
 
   const getStatusColor = (status: string) => {
@@ -500,6 +605,11 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
     }
   }
 
+  // Applicants narrowed by the screening answer filter, for both the list and the board
+  const visibleApplicants = screeningFilter
+    ? applicants.filter((applicant) => matchesScreeningFilter(applicant.screeningAnswers, screeningFilter))
+    : applicants
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -557,8 +667,16 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
                           )}
                         </div>
                       </div>
-                      <Badge className={job.status === "Active" ? "bg-green-500" : "bg-gray-500"}>
-                        {job.status}
+                      <Badge
+                        className={
+                          job.status === "Active"
+                            ? "bg-green-500"
+                            : job.status === "Draft"
+                            ? "bg-yellow-500"
+                            : "bg-gray-500"
+                        }
+                      >
+                        {job.status === "Draft" && job.publishAt ? "Scheduled" : job.status}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -568,10 +686,21 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
                         <DollarSign className="h-4 w-4" />
                         <span>{job.salary || 'Not specified'}</span>
                       </div>
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <Clock className="h-4 w-4" />
-                        <span>Posted on {new Date(job.postedDate).toLocaleDateString()}</span>
-                      </div>
+                      {job.status === "Draft" ? (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <CalendarClock className="h-4 w-4" />
+                          <span>
+                            {job.publishAt
+                              ? `Publishes on ${new Date(job.publishAt).toLocaleString()}`
+                              : "Draft - not visible to job seekers"}
+                          </span>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Clock className="h-4 w-4" />
+                          <span>Posted on {new Date(job.postedDate).toLocaleDateString()}</span>
+                        </div>
+                      )}
                       {job.deadline && (
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <Clock className="h-4 w-4" />
@@ -608,17 +737,63 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
 
                     <div className="flex gap-2">
                       <Button
-                        variant="destructive"
+                        variant="outline"
                         size="sm"
-                        onClick={() => {
-                          setDeletingJobId(job.id)
-                          setShowDeleteDialog(true)
-                        }}
+                        onClick={() => setPreviewJob(job)}
                         className="flex-1"
                       >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete
+                        <Eye className="h-4 w-4 mr-2" />
+                        Preview
                       </Button>
+                      {job.status === "Draft" && !readOnly && (
+                        <Button
+                          size="sm"
+                          onClick={() => changePublishState(job, "Active")}
+                          className="flex-1"
+                        >
+                          <Send className="h-4 w-4 mr-2" />
+                          Publish Now
+                        </Button>
+                      )}
+                      {job.status === "Active" && !readOnly && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => changePublishState(job, "Draft")}
+                          className="flex-1"
+                        >
+                          <EyeOff className="h-4 w-4 mr-2" />
+                          Unpublish
+                        </Button>
+                      )}
+                    </div>
+
+                    <div className="flex gap-2">
+                      {!readOnly && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setEditingJob(job)}
+                            className="flex-1"
+                          >
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => {
+                              setDeletingJobId(job.id)
+                              setShowDeleteDialog(true)
+                            }}
+                            className="flex-1"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </Button>
+                        </>
+                      )}
                       <Button onClick={() => handleViewApplicants(job)} className="flex-1" disabled={job.applicants === 0}>
                         <Users className="h-4 w-4 mr-2" />
                         View Applicants ({job.applicants})
@@ -653,6 +828,37 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Job Preview */}
+      <JobDetailsModal
+        job={previewJob}
+        isOpen={previewJob !== null}
+        onClose={() => setPreviewJob(null)}
+        preview
+      />
+
+      {/* Edit Job Dialog */}
+      <Dialog open={editingJob !== null} onOpenChange={(open) => !open && setEditingJob(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto p-0">
+          <DialogHeader className="sr-only">
+            <DialogTitle>Edit {editingJob?.title}</DialogTitle>
+          </DialogHeader>
+          {editingJob && (
+            <PostJobForm
+              key={String(editingJob.id)}
+              job={editingJob}
+              onCancel={() => setEditingJob(null)}
+              onSaved={async () => {
+                setEditingJob(null)
+                await fetchJobs(true)
+                if (onRefresh) {
+                  onRefresh()
+                }
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Applicants Dialog */}
       <Dialog open={showApplicantsDialog} onOpenChange={(open) => {
         setShowApplicantsDialog(open)
@@ -664,7 +870,7 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
           }
         }
       }}>
-        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogContent className={`${applicantsView === "board" ? "max-w-6xl" : "max-w-4xl"} max-h-[90vh] overflow-y-auto`}>
           <DialogHeader>
             <DialogTitle className="text-2xl font-geist">
               Applicants for {selectedJob?.title}
@@ -687,13 +893,61 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
             </div>
           ) : (
             <div className="space-y-4">
-              <div className="mb-4 p-3 bg-muted rounded-lg">
+              <div className="mb-4 p-3 bg-muted rounded-lg flex items-center justify-between gap-4">
                 <p className="text-sm text-muted-foreground">
                   📊 Total Applicants: <span className="font-semibold text-foreground">{applicants.length}</span>
                   {' '}• Auto-refreshes every 5 seconds
                 </p>
+                <div className="flex gap-1">
+                  {!readOnly && (
+                    <Button variant="ghost" size="sm" onClick={() => setEditingCriteria(true)}>
+                      <ClipboardCheck className="h-4 w-4 mr-1" />
+                      Criteria
+                    </Button>
+                  )}
+                  <Button
+                    variant={applicantsView === "list" ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setApplicantsView("list")}
+                  >
+                    <List className="h-4 w-4 mr-1" />
+                    List
+                  </Button>
+                  <Button
+                    variant={applicantsView === "board" ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setApplicantsView("board")}
+                  >
+                    <Columns3 className="h-4 w-4 mr-1" />
+                    Board
+                  </Button>
+                </div>
               </div>
-              {applicants.map((applicant) => (
+              {(selectedJob?.screeningQuestions?.length ?? 0) > 0 && (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <ScreeningAnswerFilterBar
+                    questions={selectedJob?.screeningQuestions || []}
+                    filter={screeningFilter}
+                    onChange={setScreeningFilter}
+                  />
+                  {screeningFilter && (
+                    <p className="text-sm text-muted-foreground">
+                      Showing {visibleApplicants.length} of {applicants.length}
+                    </p>
+                  )}
+                </div>
+              )}
+              {visibleApplicants.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No applicants match this answer.</p>
+              ) : applicantsView === "board" ? (
+                <ApplicantPipelineBoard
+                  applicants={visibleApplicants}
+                  onMove={(applicationId, status) => updateStatus(applicationId, { status })}
+                  onReopen={(applicationId) => updateStatus(applicationId, { reopen: true })}
+                  getStatusColor={getStatusColor}
+                  readOnly={readOnly}
+                />
+              ) : visibleApplicants.map((applicant) => (
                 <Card key={String(applicant.id)} className="border-2 hover:border-primary/30 transition-colors">
                   <CardContent className="p-6">
                     <div className="flex items-start justify-between mb-4">
@@ -708,7 +962,11 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
                           </AvatarFallback>
                         </Avatar>
                         <div className="flex-1">
-                          <h3 className="font-semibold text-lg">{applicant.applicantName || 'Unknown Applicant'}</h3>
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <h3 className="font-semibold text-lg">{applicant.applicantName || 'Unknown Applicant'}</h3>
+                            {applicant.match && <MatchScoreBadge match={applicant.match} />}
+                            <ScorecardBadge evaluation={applicant.evaluation} />
+                          </div>
                           <div className="flex items-center gap-4 mt-2 flex-wrap">
                             <div className="flex items-center gap-2">
                               <Mail className="h-4 w-4 text-primary" />
@@ -805,39 +1063,70 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
                           >
                             View Resume
                           </Button>
+                          {applicant.resumeName && (
+                            <span className="text-xs text-muted-foreground truncate">{applicant.resumeName}</span>
+                          )}
                         </div>
                       )}
 
+                      {applicant.parsedResume && <ParsedResumeSummary parsed={applicant.parsedResume} />}
+
+                      <ScreeningAnswersList answers={applicant.screeningAnswers} />
+
+                      <EmployerInterviewPanel
+                        applicationId={String(applicant.id)}
+                        applicationStatus={applicant.status}
+                        candidateName={applicant.applicantName}
+                        interview={applicant.interview}
+                        onChanged={() => selectedJob && fetchApplicants(selectedJob.id, true)}
+                        readOnly={readOnly}
+                      />
+
+                      <ApplicantEvaluationPanel
+                        applicationId={String(applicant.id)}
+                        evaluation={applicant.evaluation}
+                        onChanged={() => selectedJob && fetchApplicants(selectedJob.id, true)}
+                        readOnly={readOnly}
+                      />
+
+                      {applicant.history && <ApplicationHistoryList history={applicant.history} />}
+
                       <div className="flex items-center justify-between pt-2 border-t">
                         <div className="flex items-center gap-4">
                           <div>
                             <label className="text-sm font-medium mb-1 block">Status</label>
                             <Select
                               value={applicant.status}
-                              onValueChange={(value) => updateStatus(applicant.id, value)}
+                              onValueChange={(value) => updateStatus(applicant.id, { status: value as ApplicationStatus })}
+                              disabled={readOnly || applicant.status === 'Rejected'}
                             >
                               <SelectTrigger className="w-[180px]">
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="Pending">Pending</SelectItem>
-                                <SelectItem value="Reviewed">Reviewed</SelectItem>
-                                <SelectItem value="Shortlisted">Shortlisted</SelectItem>
-                                <SelectItem value="Interviewed">Interviewed</SelectItem>
-                                <SelectItem value="Selected">Selected</SelectItem>
-                                <SelectItem value="Rejected">Rejected</SelectItem>
+                                {/* Only the current status and the moves the pipeline allows from it */}
+                                {[applicant.status as ApplicationStatus, ...getNextStatuses(applicant.status as ApplicationStatus)].map((status) => (
+                                  <SelectItem key={status} value={status}>
+                                    {status}
+                                  </SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
                         </div>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => handleReject(applicant.id)}
-                          disabled={applicant.status === 'Rejected'}
-                        >
-                          Reject Applicant
-                        </Button>
+                        <div className="flex items-center gap-2">
+                          <MessagesButton unreadCount={applicant.unreadMessages} onClick={() => setMessagesFor(applicant)} />
+                          {readOnly ? null : applicant.status === 'Rejected' ? (
+                            <Button variant="outline" size="sm" onClick={() => updateStatus(applicant.id, { reopen: true })}>
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Reopen Application
+                            </Button>
+                          ) : (
+                            <Button variant="destructive" size="sm" onClick={() => handleReject(applicant.id)}>
+                              Reject Applicant
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     </div>
                   </CardContent>
@@ -845,6 +1134,24 @@ export function MyJobsTab({ onViewApplicants, onRefresh }: MyJobsTabProps) {
               ))}
             </div>
           )}
+
+          <EvaluationCriteriaDialog
+            jobId={editingCriteria && selectedJob ? String(selectedJob.id) : null}
+            jobTitle={selectedJob?.title}
+            onClose={() => setEditingCriteria(false)}
+            onSaved={() => selectedJob && fetchApplicants(selectedJob.id, true)}
+          />
+
+          <MessageThreadDialog
+            applicationId={messagesFor ? String(messagesFor.id) : null}
+            title={`Messages with ${messagesFor?.applicantName || ""}`}
+            description={selectedJob ? `About ${selectedJob.title}` : undefined}
+            onClose={() => setMessagesFor(null)}
+            onRead={(applicationId) =>
+              setApplicants((prev) => prev.map((app) => (String(app.id) === applicationId ? { ...app, unreadMessages: 0 } : app)))
+            }
+            readOnly={readOnly}
+          />
         </DialogContent>
       </Dialog>
     </>
@@ -38,18 +38,33 @@ import {
 } from "lucide-react"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { EnhancedSearch } from "@/components/enhanced-search"
+import { formatRelativeTime } from "@/lib/utils"
 
 interface MainNavProps {
   currentPage?: string
   showSearch?: boolean
-  notifications?: number
   userType?: "job-seeker" | "employer" | "guest"
 }
 
-export function MainNav({ currentPage = "", showSearch = false, notifications = 0, userType: propUserType = "guest" }: MainNavProps) {
+interface NotificationItem {
+  id: string
+  type: string
+  title: string
+  message: string
+  link: string | null
+  read: boolean
+  createdAt: string
+}
+
+// How often the bell refreshes while the page is open
+const NOTIFICATION_POLL_INTERVAL = 60000
+
+export function MainNav({ currentPage = "", showSearch = false, userType: propUserType = "guest" }: MainNavProps) {
   const router = useRouter()
   const [showMobileSearch, setShowMobileSearch] = useState(false)
   const [showNotifications, setShowNotifications] = useState(false)
+  const [notificationItems, setNotificationItems] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
   const [userType, setUserType] = useState<"job-seeker" | "employer" | "guest">(propUserType)
   const [isCheckingAuth, setIsCheckingAuth] = useState(propUserType === "guest")
   const [userProfile, setUserProfile] = useState<any>(null)
@@ -202,26 +217,78 @@ export function MainNav({ currentPage = "", showSearch = false, notifications =
     checkAuth()
   }, [propUserType])
 
-  const mockNotifications = [
-    {
-      id: 1,
-      message: userType === "employer" ? "New application received" : "Application status updated",
-      time: "2 hours ago",
-      unread: true,
-    },
-    {
-      id: 2,
-      message: userType === "employer" ? "Job posting approved" : "New job matches your profile",
-      time: "1 day ago",
-      unread: true,
-    },
-    {
-      id: 3,
-      message: "Profile viewed by employer",
-      time: "2 days ago",
-      unread: false,
-    },
-  ]
+  // Fetch notifications for signed-in users and keep the unread count fresh
+  useEffect(() => {
+    if (userType === "guest") {
+      setNotificationItems([])
+      setUnreadCount(0)
+      return
+    }
+
+    async function fetchNotifications() {
+      try {
+        const response = await fetch('/api/notifications?limit=10', {
+          method: 'GET',
+          credentials: 'include',
+          headers: {
+            'Cache-Control': 'no-cache',
+          },
+        })
+
+        if (response.ok) {
+          const data = await response.json()
+          setNotificationItems(data.notifications || [])
+          setUnreadCount(data.unreadCount || 0)
+        }
+      } catch (err) {
+        console.error('Error fetching notifications:', err)
+      }
+    }
+
+    fetchNotifications()
+    const interval = setInterval(fetchNotifications, NOTIFICATION_POLL_INTERVAL)
+    window.addEventListener('focus', fetchNotifications)
+
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener('focus', fetchNotifications)
+    }
+  }, [userType])
+
+  const handleNotificationClick = async (notification: NotificationItem) => {
+    if (!notification.read) {
+      setNotificationItems((prev) => prev.map((item) => (item.id === notification.id ? { ...item, read: true } : item)))
+      setUnreadCount((prev) => Math.max(0, prev - 1))
+      try {
+        await fetch(`/api/notifications/${notification.id}`, {
+          method: 'PATCH',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ read: true }),
+        })
+      } catch (err) {
+        console.error('Error marking notification as read:', err)
+      }
+    }
+
+    if (notification.link) {
+      setShowNotifications(false)
+      router.push(notification.link)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    setNotificationItems((prev) => prev.map((item) => ({ ...item, read: true })))
+    setUnreadCount(0)
+    try {
+      await fetch('/api/notifications', {
+        method: 'PATCH',
+        credentials: 'include',
+      })
+    } catch (err) {
+      console.error('Error marking notifications as read:', err)
+    }
+  }
 
   const getNavLinks = () => {
     switch (userType) {
@@ -439,9 +506,9 @@ export function MainNav({ currentPage = "", showSearch = false, notifications =
                   className="relative"
                 >
                   <Bell className="h-5 w-5" />
-                  {notifications > 0 && (
+                  {unreadCount > 0 && (
                     <Badge className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 flex items-center justify-center text-xs">
-                      {notifications}
+                      {unreadCount > 9 ? "9+" : unreadCount}
                     </Badge>
                   )}
                 </Button>
@@ -450,22 +517,40 @@ export function MainNav({ currentPage = "", showSearch = false, notifications =
                 {showNotifications && (
                   <div className="absolute right-0 mt-2 w-80 bg-popover border border-border rounded-lg shadow-lg z-50">
                     <div className="p-4">
-                      <h3 className="font-semibold mb-3">Notifications</h3>
-                      <div className="space-y-3">
-                        {mockNotifications.map((notification) => (
-                          <div
-                            key={notification.id}
-                            className={`p-3 rounded-lg ${
-                              notification.unread ? "bg-primary/5 border border-primary/20" : "bg-muted/50"
-                            }`}
-                          >
-                            <p className="text-sm font-manrope">{notification.message}</p>
-                            <p className="text-xs text-muted-foreground mt-1">{notification.time}</p>
-                          </div>
-                        ))}
+                      <div className="flex items-center justify-between mb-3">
+                        <h3 className="font-semibold">Notifications</h3>
+                        {unreadCount > 0 && (
+                          <span className="text-xs text-muted-foreground">{unreadCount} unread</span>
+                        )}
                       </div>
-                      <Button variant="outline" className="w-full mt-3 bg-transparent" size="sm">
-                        View All Notifications
+                      {notificationItems.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-6">You're all caught up.</p>
+                      ) : (
+                        <div className="space-y-3 max-h-96 overflow-y-auto">
+                          {notificationItems.map((notification) => (
+                            <button
+                              key={notification.id}
+                              type="button"
+                              onClick={() => handleNotificationClick(notification)}
+                              className={`w-full text-left p-3 rounded-lg transition-colors hover:bg-muted ${
+                                !notification.read ? "bg-primary/5 border border-primary/20" : "bg-muted/50"
+                              }`}
+                            >
+                              <p className="text-sm font-semibold">{notification.title}</p>
+                              <p className="text-sm font-manrope">{notification.message}</p>
+                              <p className="text-xs text-muted-foreground mt-1">{formatRelativeTime(notification.createdAt)}</p>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      <Button
+                        variant="outline"
+                        className="w-full mt-3 bg-transparent"
+                        size="sm"
+                        disabled={unreadCount === 0}
+                        onClick={handleMarkAllRead}
+                      >
+                        Mark All as Read
                       </Button>
                     </div>
                   </div>
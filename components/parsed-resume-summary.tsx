@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Briefcase, GraduationCap, Phone, MapPin, Linkedin, Github, Globe, ChevronDown, ChevronUp, FileSearch } from "lucide-react"
+import type { ParsedResumeDetails } from "@/lib/resume-upload"
+
+interface ParsedResumeSummaryProps {
+  parsed: ParsedResumeDetails
+}
+
+function formatDates(startDate: string, endDate: string) {
+  return [startDate, endDate].filter(Boolean).join(" – ")
+}
+
+function externalHref(url: string) {
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`
+}
+
+// What the server read from an applicant's resume. Parsing is heuristic, so the file stays the source of truth.
+export function ParsedResumeSummary({ parsed }: ParsedResumeSummaryProps) {
+  const [expanded, setExpanded] = useState(false)
+  const { contact, skills, experience, education } = parsed
+
+  const hasContent = skills.length > 0 || experience.length > 0 || education.length > 0 || contact.phone || contact.linkedin
+  if (!hasContent) return null
+
+  const contactLinks = [
+    { icon: Linkedin, value: contact.linkedin },
+    { icon: Github, value: contact.github },
+    { icon: Globe, value: contact.website },
+  ].filter((link) => link.value)
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <FileSearch className="h-4 w-4 text-primary" />
+          From the resume
+        </p>
+        {(experience.length > 0 || education.length > 0) && (
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            {expanded ? "Less" : "Work history & education"}
+          </Button>
+        )}
+      </div>
+
+      {(contact.phone || contact.location || contactLinks.length > 0) && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          {contact.phone && (
+            <span className="flex items-center gap-1">
+              <Phone className="h-3.5 w-3.5" />
+              {contact.phone}
+            </span>
+          )}
+          {contact.location && (
+            <span className="flex items-center gap-1">
+              <MapPin className="h-3.5 w-3.5" />
+              {contact.location}
+            </span>
+          )}
+          {contactLinks.map(({ icon: Icon, value }) => (
+            <a
+              key={value}
+              href={externalHref(value)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-primary hover:underline"
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {value.replace(/^https?:\/\/(www\.)?/i, "")}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {skills.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {skills.map((skill) => (
+            <Badge key={skill} variant="outline" className="text-xs">
+              {skill}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {!expanded && experience.length > 0 && (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Briefcase className="h-4 w-4" />
+          {[experience[0].title, experience[0].company].filter(Boolean).join(" at ")}
+          {experience[0].startDate && ` (${formatDates(experience[0].startDate, experience[0].endDate)})`}
+        </p>
+      )}
+
+      {expanded && (
+        <div className="space-y-3">
+          {experience.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase text-muted-foreground">Work history</p>
+              {experience.map((entry, index) => (
+                <div key={index} className="text-sm">
+                  <p className="font-medium">
+                    {entry.title || "Role"}
+                    {entry.company && <span className="font-normal text-muted-foreground"> · {entry.company}</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{formatDates(entry.startDate, entry.endDate)}</p>
+                  {entry.description && (
+                    <p className="text-muted-foreground whitespace-pre-wrap break-words mt-1 line-clamp-4">{entry.description}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {education.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase text-muted-foreground">Education</p>
+              {education.map((entry, index) => (
+                <div key={index} className="text-sm flex items-start gap-2">
+                  <GraduationCap className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">
+                      {[entry.degree, entry.field].filter(Boolean).join(", ") || entry.institution}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {[entry.degree || entry.field ? entry.institution : "", formatDates(entry.startDate, entry.endDate)]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -13,25 +13,68 @@ import { Badge } from "@/components/ui/badge"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
 import { X, Plus, CheckCircle } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { SALARY_CURRENCIES, formatSalaryRange, type SalaryPeriod, type SalaryRange } from "@/lib/salary"
+import type { ScreeningQuestion } from "@/lib/screening"
+import { ScreeningQuestionsEditor } from "@/components/screening-questions"
 
-export function PostJobForm() {
+// Job fields the form can edit (as returned by GET /api/jobs/employer)
+export interface EditableJob {
+  id: string | number
+  title: string
+  location: string
+  salaryRange?: SalaryRange | null
+  type: string
+  remote: boolean
+  description: string
+  requirements: string[]
+  deadline?: string
+  status: string
+  publishAt?: string | null
+  screeningQuestions?: ScreeningQuestion[]
+}
+
+// Formats an ISO timestamp for a datetime-local input (in the browser's time zone)
+function toDateTimeLocal(iso?: string | null): string {
+  if (!iso) return ""
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return ""
+  const offsetMs = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+interface PostJobFormProps {
+  job?: EditableJob // When provided, the form edits this job instead of posting a new one
+  onSaved?: () => void
+  onCancel?: () => void
+}
+
+export function PostJobForm({ job, onSaved, onCancel }: PostJobFormProps = {}) {
   const { toast } = useToast()
+  const isEditing = Boolean(job)
   const [formData, setFormData] = useState({
-    title: "",
-    description: "",
-    location: "",
-    salaryMin: "",
-    salaryMax: "",
+    title: job?.title || "",
+    description: job?.description || "",
+    location: job?.location || "",
+    salaryMin: job?.salaryRange?.min != null ? String(job.salaryRange.min) : "",
+    salaryMax: job?.salaryRange?.max != null ? String(job.salaryRange.max) : "",
+    salaryCurrency: job?.salaryRange?.currency || "USD",
+    salaryPeriod: (job?.salaryRange?.period || "yearly") as SalaryPeriod,
     employeeCount: "",
     duration: "",
-    jobType: "",
-    remote: false,
-    deadline: "",
+    jobType: job?.type ? job.type.toLowerCase() : "",
+    remote: job?.remote || false,
+    deadline: job?.deadline ? job.deadline.split("T")[0] : "",
+    status: job?.status || "Active",
+    publishAt: toDateTimeLocal(job?.publishAt),
   })
-  const [skills, setSkills] = useState<string[]>([])
+  // New jobs are either published right away or scheduled for a later date/time
+  const [publishMode, setPublishMode] = useState<"now" | "schedule">("now")
+  const [skills, setSkills] = useState<string[]>(job?.requirements || [])
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>(job?.screeningQuestions || [])
   const [newSkill, setNewSkill] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isSuccess, setIsSuccess] = useState(false)
+  const [successMessage, setSuccessMessage] = useState({ title: "", description: "" })
   const [employerProfile, setEmployerProfile] = useState<any>(null)
 
   // Fetch employer profile on mount to get company name
@@ -85,11 +128,94 @@ export function PostJobForm() {
 
   const { refreshJobs } = useJobs()
 
+  // Saves edits to an existing job via PATCH /api/jobs/[jobId]
+  const handleUpdate = async (salaryRange: SalaryRange) => {
+    const response = await fetch(`/api/jobs/${job!.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        title: formData.title,
+        location: formData.location,
+        salaryRange,
+        type: formData.jobType || job!.type,
+        remote: formData.remote,
+        description: formData.description,
+        requirements: skills,
+        deadline: formData.deadline || null,
+        status: formData.status,
+        publishAt: formData.status === "Draft" && formData.publishAt ? new Date(formData.publishAt).toISOString() : null,
+        screeningQuestions,
+      }),
+    })
+
+    const contentType = response.headers.get('content-type')
+    if (!contentType || !contentType.includes('application/json')) {
+      throw new Error('Session expired. Please log in again.')
+    }
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to update job')
+    }
+
+    await refreshJobs()
+    toast({
+      title: "Success",
+      description: "Job updated successfully.",
+    })
+    onSaved?.()
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    await submitJob(false)
+  }
+
+  // Drafts skip the browser's required-field validation; only a title is needed
+  const handleSaveDraft = async () => {
+    if (!formData.title.trim()) {
+      toast({
+        title: "Error",
+        description: "Add a job title before saving a draft.",
+        variant: "destructive",
+      })
+      return
+    }
+    await submitJob(true)
+  }
+
+  const submitJob = async (asDraft: boolean) => {
     setIsSubmitting(true)
 
     try {
+      // Structured salary range; the API derives the display string from it
+      const salaryRange: SalaryRange = {
+        min: formData.salaryMin ? Number(formData.salaryMin) : null,
+        max: formData.salaryMax ? Number(formData.salaryMax) : null,
+        currency: formData.salaryCurrency,
+        period: formData.salaryPeriod,
+      }
+      if (salaryRange.min !== null && salaryRange.max !== null && salaryRange.min > salaryRange.max) {
+        throw new Error("Minimum salary cannot be greater than maximum salary.")
+      }
+
+      if (isEditing) {
+        await handleUpdate(salaryRange)
+        return
+      }
+
+      const isScheduled = !asDraft && publishMode === "schedule"
+      if (isScheduled) {
+        if (!formData.publishAt) {
+          throw new Error("Choose a date and time to publish this job.")
+        }
+        if (new Date(formData.publishAt) <= new Date()) {
+          throw new Error("The publish date must be in the future.")
+        }
+      }
+
       // Fetch employer profile if not already loaded
       let employer = employerProfile
       if (!employer) {
@@ -115,29 +241,25 @@ export function PostJobForm() {
         }
       }
 
-      // Build salary string
-      const salaryStr = formData.salaryMin && formData.salaryMax
-        ? `$${formData.salaryMin}k - $${formData.salaryMax}k`
-        : formData.salaryMin
-        ? `$${formData.salaryMin}k+`
-        : ''
-
       const jobData = {
         title: formData.title,
         company: employer?.name || "Company Name",
         location: formData.location,
-        salary: salaryStr,
+        salary: formatSalaryRange(salaryRange),
+        salaryRange,
         type: formData.jobType || "Full-time",
         remote: formData.remote,
         description: formData.description,
         requirements: skills,
         deadline: formData.deadline || undefined,
-        status: "Active" as const,
+        status: asDraft || isScheduled ? "Draft" as const : "Active" as const,
+        publishAt: isScheduled ? new Date(formData.publishAt).toISOString() : undefined,
         category: formData.jobType || "Not Specified",
         experience: "Not Specified",
         benefits: [],
         companySize: employer?.size || "50-200",
         industry: employer?.industry || "Technology",
+        screeningQuestions,
       }
 
       // Save to database via API
@@ -183,10 +305,24 @@ export function PostJobForm() {
       // Refresh jobs list to show the new job in real-time
       await refreshJobs()
 
+      const message = asDraft
+        ? { title: "Draft Saved!", description: "Your draft is saved. You can preview, edit and publish it from My Jobs." }
+        : isScheduled
+        ? {
+            title: "Job Scheduled!",
+            description: `Your job will be published automatically on ${new Date(formData.publishAt).toLocaleString()}.`,
+          }
+        : { title: "Job Posted Successfully!", description: "Your job posting has been published and is now visible to job seekers." }
+
+      setSuccessMessage(message)
       setIsSuccess(true)
       toast({
         title: "Success",
-        description: "Job posted successfully and is now visible to job seekers!",
+        description: asDraft
+          ? "Draft saved."
+          : isScheduled
+          ? "Job scheduled for publishing."
+          : "Job posted successfully and is now visible to job seekers!",
       })
 
       // Auto reset form after success
@@ -198,19 +334,25 @@ export function PostJobForm() {
           location: "",
           salaryMin: "",
           salaryMax: "",
+          salaryCurrency: "USD",
+          salaryPeriod: "yearly",
           employeeCount: "",
           duration: "",
           jobType: "",
           remote: false,
           deadline: "",
+          status: "Active",
+          publishAt: "",
         })
+        setPublishMode("now")
         setSkills([])
+        setScreeningQuestions([])
       }, 3000)
     } catch (error: any) {
-      console.error("Failed to post job:", error)
+      console.error(isEditing ? "Failed to update job:" : "Failed to post job:", error)
       toast({
         title: "Error",
-        description: error.message || "Failed to post job. Please try again.",
+        description: error.message || (isEditing ? "Failed to update job. Please try again." : "Failed to post job. Please try again."),
         variant: "destructive",
       })
     } finally {
@@ -223,10 +365,8 @@ export function PostJobForm() {
       <Card className="animate-in fade-in zoom-in-95 duration-500">
         <CardContent className="text-center py-12">
           <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4 animate-pulse" />
-          <h3 className="text-2xl font-bold text-green-600 mb-2">Job Posted Successfully!</h3>
-          <p className="text-muted-foreground">
-            Your job posting has been published and is now visible to job seekers.
-          </p>
+          <h3 className="text-2xl font-bold text-green-600 mb-2">{successMessage.title}</h3>
+          <p className="text-muted-foreground">{successMessage.description}</p>
         </CardContent>
       </Card>
     )
@@ -235,7 +375,7 @@ export function PostJobForm() {
   return (
     <Card className="animate-in fade-in slide-in-from-bottom duration-300">
       <CardHeader>
-        <CardTitle className="font-geist text-2xl">Post a New Job</CardTitle>
+        <CardTitle className="font-geist text-2xl">{isEditing ? "Edit Job" : "Post a New Job"}</CardTitle>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -291,29 +431,67 @@ export function PostJobForm() {
 
             {/* Salary Range */}
             <div className="animate-in fade-in slide-in-from-left duration-300 delay-200">
-              <Label htmlFor="salaryMin">Minimum Salary ($)</Label>
+              <Label htmlFor="salaryMin">Minimum Salary</Label>
               <Input
                 id="salaryMin"
                 type="number"
                 value={formData.salaryMin}
                 onChange={(e) => handleInputChange("salaryMin", e.target.value)}
                 placeholder="80000"
+                min="0"
                 disabled={isSubmitting}
                 className="transition-all duration-200 focus:ring-2 focus:ring-primary/20"
               />
             </div>
             <div className="animate-in fade-in slide-in-from-left duration-300 delay-250">
-              <Label htmlFor="salaryMax">Maximum Salary ($)</Label>
+              <Label htmlFor="salaryMax">Maximum Salary</Label>
               <Input
                 id="salaryMax"
                 type="number"
                 value={formData.salaryMax}
                 onChange={(e) => handleInputChange("salaryMax", e.target.value)}
                 placeholder="120000"
+                min="0"
                 disabled={isSubmitting}
                 className="transition-all duration-200 focus:ring-2 focus:ring-primary/20"
               />
             </div>
+            <div className="animate-in fade-in slide-in-from-left duration-300 delay-250">
+              <Label htmlFor="salaryCurrency">Currency</Label>
+              <Select
+                value={formData.salaryCurrency}
+                onValueChange={(value) => handleInputChange("salaryCurrency", value)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="salaryCurrency" className="transition-all duration-200 focus:ring-2 focus:ring-primary/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SALARY_CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {currency}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="animate-in fade-in slide-in-from-left duration-300 delay-250">
+              <Label htmlFor="salaryPeriod">Pay Period</Label>
+              <Select
+                value={formData.salaryPeriod}
+                onValueChange={(value) => handleInputChange("salaryPeriod", value)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="salaryPeriod" className="transition-all duration-200 focus:ring-2 focus:ring-primary/20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="yearly">Per year</SelectItem>
+                  <SelectItem value="monthly">Per month</SelectItem>
+                  <SelectItem value="hourly">Per hour</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
 
             {/* Number of Employees */}
             <div className="animate-in fade-in slide-in-from-left duration-300 delay-300">
@@ -358,7 +536,7 @@ export function PostJobForm() {
                 type="date"
                 value={formData.deadline}
                 onChange={(e) => handleInputChange("deadline", e.target.value)}
-                min={new Date().toISOString().split("T")[0]}
+                min={isEditing ? undefined : new Date().toISOString().split("T")[0]}
                 required
                 disabled={isSubmitting}
                 className="transition-all duration-200 focus:ring-2 focus:ring-primary/20"
@@ -367,6 +545,77 @@ export function PostJobForm() {
                 Last date for candidates to submit their applications
               </p>
             </div>
+
+            {isEditing && (
+              <div className="md:col-span-2 animate-in fade-in slide-in-from-left duration-300 delay-375">
+                <Label htmlFor="status">Status</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value) => handleInputChange("status", value)}
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="status" className="transition-all duration-200 focus:ring-2 focus:ring-primary/20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="Active">Active - accepting applications</SelectItem>
+                    <SelectItem value="Closed">Closed - no longer accepting applications</SelectItem>
+                    <SelectItem value="Draft">Draft - hidden from job seekers</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {isEditing && formData.status === "Draft" && (
+              <div className="md:col-span-2 animate-in fade-in slide-in-from-left duration-300">
+                <Label htmlFor="publishAt">Scheduled Publish Date</Label>
+                <Input
+                  id="publishAt"
+                  type="datetime-local"
+                  value={formData.publishAt}
+                  onChange={(e) => handleInputChange("publishAt", e.target.value)}
+                  min={toDateTimeLocal(new Date().toISOString())}
+                  disabled={isSubmitting}
+                  className="transition-all duration-200 focus:ring-2 focus:ring-primary/20"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Leave empty to keep this job as an unscheduled draft
+                </p>
+              </div>
+            )}
+
+            {!isEditing && (
+              <div className="md:col-span-2 animate-in fade-in slide-in-from-left duration-300 delay-375">
+                <Label htmlFor="publishMode">Publishing</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Select
+                    value={publishMode}
+                    onValueChange={(value) => setPublishMode(value as "now" | "schedule")}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="publishMode" className="transition-all duration-200 focus:ring-2 focus:ring-primary/20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="now">Publish immediately</SelectItem>
+                      <SelectItem value="schedule">Schedule for later</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {publishMode === "schedule" && (
+                    <Input
+                      id="publishAt"
+                      type="datetime-local"
+                      value={formData.publishAt}
+                      onChange={(e) => handleInputChange("publishAt", e.target.value)}
+                      min={toDateTimeLocal(new Date().toISOString())}
+                      required
+                      disabled={isSubmitting}
+                      className="transition-all duration-200 focus:ring-2 focus:ring-primary/20"
+                    />
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Remote Work */}
@@ -437,8 +686,29 @@ export function PostJobForm() {
             />
           </div>
 
+          {/* Screening Questions */}
+          <div className="animate-in fade-in slide-in-from-left duration-300 delay-500">
+            <ScreeningQuestionsEditor questions={screeningQuestions} onChange={setScreeningQuestions} disabled={isSubmitting} />
+          </div>
+
           {/* Submit Button */}
-          <div className="animate-in fade-in slide-in-from-bottom duration-300 delay-600">
+          <div className="flex gap-2 animate-in fade-in slide-in-from-bottom duration-300 delay-600">
+            {onCancel && (
+              <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            )}
+            {!isEditing && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleSaveDraft}
+                disabled={isSubmitting}
+                className="hover:scale-105 transition-all duration-200"
+              >
+                Save Draft
+              </Button>
+            )}
             <Button
               type="submit"
               className="w-full md:w-auto px-8 hover:scale-105 transition-all duration-200 shadow-lg hover:shadow-xl"
@@ -447,10 +717,10 @@ export function PostJobForm() {
               {isSubmitting ? (
                 <>
                   <LoadingSpinner size="sm" className="mr-2" />
-                  Posting Job...
+                  {isEditing ? "Saving..." : "Posting Job..."}
                 </>
               ) : (
-                "Post Job"
+                isEditing ? "Save Changes" : publishMode === "schedule" ? "Schedule Job" : "Post Job"
               )}
             </Button>
           </div>
@@ -0,0 +1,299 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { FileText, Upload, Star, Trash2, Pencil, Check, X, ExternalLink, RefreshCw, Wand2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  RESUME_ACCEPT,
+  type LibraryResume,
+  type ParsedResumeDetails,
+  addResumeToLibrary,
+  checkResumeFile,
+  deleteLibraryResume,
+  fetchResumeLibrary,
+  formatFileSize,
+  updateLibraryResume,
+} from "@/lib/resume-upload"
+
+const MAX_RESUMES = 10
+
+interface ResumeLibraryProps {
+  // Called with a resume's parsed content when the user asks to fill their profile from it
+  onUseForProfile?: (parsed: ParsedResumeDetails) => void
+}
+
+// Named resumes on the job seeker profile. One is the default that is preselected when applying.
+export function ResumeLibrary({ onUseForProfile }: ResumeLibraryProps) {
+  const { toast } = useToast()
+  const [resumes, setResumes] = useState<LibraryResume[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [newName, setNewName] = useState("")
+  const [newFile, setNewFile] = useState<File | null>(null)
+  const [isAdding, setIsAdding] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState("")
+  const newFileInput = useRef<HTMLInputElement>(null)
+  const replaceFileInput = useRef<HTMLInputElement>(null)
+  const [replaceTargetId, setReplaceTargetId] = useState<string | null>(null)
+
+  const loadResumes = async () => {
+    try {
+      setResumes(await fetchResumeLibrary())
+    } catch (error: any) {
+      console.error("Failed to load resumes:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadResumes()
+  }, [])
+
+  const showError = (error: any) => {
+    toast({ title: "Error", description: error.message || "Something went wrong. Please try again.", variant: "destructive" })
+  }
+
+  const handleNewFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const problem = checkResumeFile(file)
+    if (problem) {
+      toast({ title: "Invalid file", description: problem, variant: "destructive" })
+      e.target.value = ""
+      return
+    }
+    setNewFile(file)
+    if (!newName.trim()) {
+      setNewName(file.name.replace(/\.[^.]+$/, ""))
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!newFile) return
+    setIsAdding(true)
+    try {
+      await addResumeToLibrary(newFile, newName.trim() || newFile.name)
+      setNewFile(null)
+      setNewName("")
+      if (newFileInput.current) newFileInput.current.value = ""
+      await loadResumes()
+      toast({ title: "Resume added", description: "You can now pick it when applying to jobs." })
+    } catch (error: any) {
+      showError(error)
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const runUpdate = async (resumeId: string, action: () => Promise<unknown>, successMessage: string) => {
+    setBusyId(resumeId)
+    try {
+      await action()
+      await loadResumes()
+      toast({ title: successMessage })
+    } catch (error: any) {
+      showError(error)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRename = async (resumeId: string) => {
+    if (!editingName.trim()) return
+    await runUpdate(resumeId, () => updateLibraryResume(resumeId, { name: editingName.trim() }), "Resume renamed")
+    setEditingId(null)
+  }
+
+  const handleReplaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file || !replaceTargetId) return
+    const problem = checkResumeFile(file)
+    if (problem) {
+      toast({ title: "Invalid file", description: problem, variant: "destructive" })
+      return
+    }
+    await runUpdate(replaceTargetId, () => updateLibraryResume(replaceTargetId, { file }), "Resume file replaced")
+    setReplaceTargetId(null)
+  }
+
+  const handleDelete = async (resume: LibraryResume) => {
+    if (!window.confirm(`Delete "${resume.name}" from your resumes? Applications you already sent keep their copy.`)) return
+    await runUpdate(resume.id, () => deleteLibraryResume(resume.id), "Resume deleted")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Resumes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={replaceFileInput}
+          type="file"
+          accept={RESUME_ACCEPT}
+          className="hidden"
+          onChange={handleReplaceFile}
+        />
+
+        {loading ? (
+          <p className="text-muted-foreground text-sm">Loading resumes...</p>
+        ) : resumes.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            No resumes yet. Add one below and pick it when you apply instead of uploading it every time.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {resumes.map((resume) => (
+              <div
+                key={resume.id}
+                className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${
+                  resume.isDefault ? "border-primary/40 bg-primary/5" : ""
+                }`}
+              >
+                <div className="min-w-0 flex-1">
+                  {editingId === resume.id ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleRename(resume.id)
+                          if (e.key === "Escape") setEditingId(null)
+                        }}
+                        className="h-8"
+                        autoFocus
+                      />
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleRename(resume.id)}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{resume.name}</p>
+                      {resume.isDefault && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground truncate">
+                    {resume.fileName} · {formatFileSize(resume.size)} · Updated {new Date(resume.uploadedAt).toLocaleDateString()}
+                    {resume.parsed && resume.parsed.skills.length > 0 && ` · ${resume.parsed.skills.length} skills found`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="icon" variant="ghost" className="h-8 w-8" title="Open" onClick={() => window.open(resume.url, "_blank")}>
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                  {onUseForProfile && resume.parsed && (resume.parsed.skills.length > 0 || resume.parsed.summary) && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      title="Fill profile skills and summary from this resume"
+                      onClick={() => onUseForProfile(resume.parsed!)}
+                    >
+                      <Wand2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {!resume.isDefault && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      title="Make default"
+                      disabled={busyId === resume.id}
+                      onClick={() => runUpdate(resume.id, () => updateLibraryResume(resume.id, { isDefault: true }), "Default resume updated")}
+                    >
+                      <Star className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    title="Rename"
+                    disabled={busyId === resume.id}
+                    onClick={() => {
+                      setEditingId(resume.id)
+                      setEditingName(resume.name)
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    title="Replace file"
+                    disabled={busyId === resume.id}
+                    onClick={() => {
+                      setReplaceTargetId(resume.id)
+                      replaceFileInput.current?.click()
+                    }}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 hover:text-destructive"
+                    title="Delete"
+                    disabled={busyId === resume.id}
+                    onClick={() => handleDelete(resume)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {resumes.length < MAX_RESUMES && (
+          <div className="rounded-lg border-2 border-dashed p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                placeholder="Resume name (e.g., Frontend roles)"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                disabled={isAdding}
+              />
+              <input
+                ref={newFileInput}
+                type="file"
+                accept={RESUME_ACCEPT}
+                className="hidden"
+                id="resume-library-upload"
+                onChange={handleNewFile}
+                disabled={isAdding}
+              />
+              <Button type="button" variant="outline" onClick={() => newFileInput.current?.click()} disabled={isAdding}>
+                <Upload className="h-4 w-4 mr-2" />
+                {newFile ? "Change File" : "Choose File"}
+              </Button>
+              <Button type="button" onClick={handleAdd} disabled={!newFile || isAdding}>
+                {isAdding ? "Uploading..." : "Add Resume"}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {newFile ? `${newFile.name} (${formatFileSize(newFile.size)})` : "PDF, DOC, or DOCX (max 5MB)"}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
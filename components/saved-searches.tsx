@@ -0,0 +1,213 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bell, BellOff, BookmarkPlus, Search, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useJobs, MAX_SALARY_FILTER, type AlertFrequency } from "@/lib/job-context"
+
+const FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  instant: "Instant alerts",
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+  off: "No alerts",
+}
+
+// Suggests a name from the current search text and filters, e.g. "React · Remote"
+function suggestName(filters: ReturnType<typeof useJobs>["filters"]) {
+  const parts = [
+    filters.search.trim(),
+    ...filters.jobTypes,
+    ...filters.locations,
+    filters.remote ? "Remote" : "",
+    ...filters.categories,
+  ].filter(Boolean)
+  return parts.slice(0, 3).join(" · ") || "My search"
+}
+
+// Save the dashboard's current search and filters, reapply saved ones, and choose new-job alerts for each
+export function SavedSearches() {
+  const { filters, savedSearches, saveCurrentSearch, applySavedSearch, updateSavedSearchAlerts, deleteSavedSearch } = useJobs()
+  const { toast } = useToast()
+  const [showSaveDialog, setShowSaveDialog] = useState(false)
+  const [name, setName] = useState("")
+  const [alertFrequency, setAlertFrequency] = useState<AlertFrequency>("daily")
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const hasCriteria =
+    filters.search.trim() !== "" ||
+    filters.jobTypes.length > 0 ||
+    filters.locations.length > 0 ||
+    filters.experience.length > 0 ||
+    filters.categories.length > 0 ||
+    filters.remote ||
+    filters.matchSalaryExpectation ||
+    filters.salaryMin > 0 ||
+    filters.salaryMax < MAX_SALARY_FILTER
+
+  const showError = (error: any) => {
+    toast({ title: "Something went wrong", description: error.message, variant: "destructive" })
+  }
+
+  const openSaveDialog = () => {
+    setName(suggestName(filters))
+    setAlertFrequency("daily")
+    setShowSaveDialog(true)
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+    setSaving(true)
+    try {
+      await saveCurrentSearch(name.trim(), alertFrequency)
+      setShowSaveDialog(false)
+      toast({
+        title: "Search saved",
+        description: alertFrequency === "off" ? "Find it under Saved searches." : "We'll let you know when new jobs match.",
+      })
+    } catch (error: any) {
+      showError(error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAlertsChange = async (id: string, frequency: AlertFrequency) => {
+    setBusyId(id)
+    try {
+      await updateSavedSearchAlerts(id, frequency)
+    } catch (error: any) {
+      showError(error)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    setBusyId(id)
+    try {
+      await deleteSavedSearch(id)
+    } catch (error: any) {
+      showError(error)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button variant="outline" size="sm" onClick={openSaveDialog} disabled={!hasCriteria}>
+        <BookmarkPlus className="h-4 w-4 mr-2" />
+        Save search
+      </Button>
+
+      {savedSearches.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <Search className="h-4 w-4 mr-2" />
+              Saved searches ({savedSearches.length})
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-96 p-2" align="end">
+            <div className="space-y-1 max-h-96 overflow-y-auto">
+              {savedSearches.map((savedSearch) => (
+                <div key={savedSearch.id} className="flex items-center gap-2 rounded-md p-2 hover:bg-accent">
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left text-sm font-medium truncate"
+                    onClick={() => applySavedSearch(savedSearch.id)}
+                    title="Apply this search"
+                  >
+                    {savedSearch.name}
+                  </button>
+                  <Select
+                    value={savedSearch.alertFrequency}
+                    onValueChange={(value) => handleAlertsChange(savedSearch.id, value as AlertFrequency)}
+                    disabled={busyId === savedSearch.id}
+                  >
+                    <SelectTrigger className="h-8 w-[150px] text-xs">
+                      {savedSearch.alertFrequency === "off" ? (
+                        <BellOff className="h-3.5 w-3.5 mr-1 text-muted-foreground" />
+                      ) : (
+                        <Bell className="h-3.5 w-3.5 mr-1 text-primary" />
+                      )}
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FREQUENCY_LABELS) as AlertFrequency[]).map((frequency) => (
+                        <SelectItem key={frequency} value={frequency}>
+                          {FREQUENCY_LABELS[frequency]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => handleDelete(savedSearch.id)}
+                    disabled={busyId === savedSearch.id}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save search</DialogTitle>
+            <DialogDescription>Keep this search and its filters, and get alerted when new jobs match.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                maxLength={80}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSave()
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Alerts</Label>
+              <Select value={alertFrequency} onValueChange={(value) => setAlertFrequency(value as AlertFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="instant">Instantly, as jobs are posted</SelectItem>
+                  <SelectItem value="daily">Daily digest</SelectItem>
+                  <SelectItem value="weekly">Weekly digest</SelectItem>
+                  <SelectItem value="off">No alerts</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
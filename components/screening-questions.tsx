@@ -0,0 +1,456 @@
+"use client"
+
+import type React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ExternalLink, Filter, ListChecks, Plus, Trash2, XCircle } from "lucide-react"
+import { RESUME_ACCEPT } from "@/lib/resume-upload"
+import {
+  KNOCKOUT_QUESTION_TYPES,
+  MAX_SCREENING_PROMPT_LENGTH,
+  MAX_SCREENING_QUESTIONS,
+  MAX_SHORT_TEXT_ANSWER_LENGTH,
+  SCREENING_QUESTION_TYPES,
+  SCREENING_QUESTION_TYPE_LABELS,
+  type FormattedScreeningAnswer,
+  type PublicScreeningQuestion,
+  type ScreeningAnswerFilter,
+  type ScreeningQuestion,
+  type ScreeningQuestionType,
+} from "@/lib/screening"
+
+// "yes" -> "Yes"; other answers are shown as given
+function formatAnswer(answer: string): string {
+  if (answer === "yes") return "Yes"
+  if (answer === "no") return "No"
+  return answer
+}
+
+function toNumberOrNull(value: string): number | null {
+  return value.trim() === "" || !Number.isFinite(Number(value)) ? null : Number(value)
+}
+
+function newQuestion(): ScreeningQuestion {
+  return {
+    key: "",
+    type: "yes_no",
+    prompt: "",
+    required: true,
+    options: [],
+    knockout: false,
+    acceptedAnswers: [],
+    min: null,
+    max: null,
+  }
+}
+
+interface ScreeningQuestionsEditorProps {
+  questions: ScreeningQuestion[]
+  onChange: (questions: ScreeningQuestion[]) => void
+  disabled?: boolean
+}
+
+// Employer-side list of a job's screening questions, used in the post/edit job form.
+// The API validates the questions and assigns keys to new ones.
+export function ScreeningQuestionsEditor({ questions, onChange, disabled }: ScreeningQuestionsEditorProps) {
+  const update = (index: number, changes: Partial<ScreeningQuestion>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)))
+  }
+
+  // Switching type resets the parts of the question that only made sense for the old type
+  const changeType = (index: number, type: ScreeningQuestionType) => {
+    const canKnockout = KNOCKOUT_QUESTION_TYPES.includes(type)
+    update(index, {
+      type,
+      options: type === "multiple_choice" ? questions[index].options : [],
+      knockout: canKnockout && questions[index].knockout,
+      acceptedAnswers: [],
+      min: null,
+      max: null,
+      required: type === "file" ? true : questions[index].required,
+    })
+  }
+
+  const toggleAccepted = (index: number, answer: string, accepted: boolean) => {
+    const current = questions[index].acceptedAnswers
+    update(index, { acceptedAnswers: accepted ? [...current, answer] : current.filter((item) => item !== answer) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="flex items-center gap-2">
+            <ListChecks className="h-4 w-4" />
+            Screening Questions
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Applicants answer these when they apply. Knockout questions reject applicants whose answer does not pass.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...questions, newQuestion()])}
+          disabled={disabled || questions.length >= MAX_SCREENING_QUESTIONS}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Question
+        </Button>
+      </div>
+
+      {questions.map((question, index) => {
+        const canKnockout = KNOCKOUT_QUESTION_TYPES.includes(question.type)
+        const choices = question.type === "yes_no" ? ["yes", "no"] : question.options.map((option) => option.trim()).filter(Boolean)
+        return (
+          <div key={question.key || `new-${index}`} className="rounded-md border p-3 space-y-3">
+            <div className="flex gap-2">
+              <Input
+                value={question.prompt}
+                onChange={(e) => update(index, { prompt: e.target.value })}
+                placeholder="e.g. Are you authorized to work in the US?"
+                maxLength={MAX_SCREENING_PROMPT_LENGTH}
+                disabled={disabled}
+              />
+              <Select value={question.type} onValueChange={(value) => changeType(index, value as ScreeningQuestionType)} disabled={disabled}>
+                <SelectTrigger className="w-[170px] flex-shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCREENING_QUESTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {SCREENING_QUESTION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove question"
+                onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                disabled={disabled}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {question.type === "multiple_choice" && (
+              <Textarea
+                value={question.options.join("\n")}
+                onChange={(e) => update(index, { options: e.target.value.split("\n") })}
+                placeholder={"One choice per line, e.g.\nLess than 1 year\n1-3 years\nMore than 3 years"}
+                rows={3}
+                disabled={disabled}
+              />
+            )}
+
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`screening-required-${index}`}
+                  checked={question.required || question.knockout || question.type === "file"}
+                  onCheckedChange={(checked) => update(index, { required: checked as boolean })}
+                  disabled={disabled || question.knockout || question.type === "file"}
+                />
+                <Label htmlFor={`screening-required-${index}`} className="text-sm font-normal cursor-pointer">
+                  Required
+                </Label>
+              </div>
+              {canKnockout && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`screening-knockout-${index}`}
+                    checked={question.knockout}
+                    onCheckedChange={(checked) => update(index, { knockout: checked as boolean, acceptedAnswers: [], min: null, max: null })}
+                    disabled={disabled}
+                  />
+                  <Label htmlFor={`screening-knockout-${index}`} className="text-sm font-normal cursor-pointer">
+                    Knockout question
+                  </Label>
+                </div>
+              )}
+            </div>
+
+            {question.knockout && question.type === "number" && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Passing answers are between</span>
+                <Input
+                  type="number"
+                  value={question.min ?? ""}
+                  onChange={(e) => update(index, { min: toNumberOrNull(e.target.value) })}
+                  placeholder="Min"
+                  className="h-8 w-24"
+                  disabled={disabled}
+                />
+                <span className="text-muted-foreground">and</span>
+                <Input
+                  type="number"
+                  value={question.max ?? ""}
+                  onChange={(e) => update(index, { max: toNumberOrNull(e.target.value) })}
+                  placeholder="Max"
+                  className="h-8 w-24"
+                  disabled={disabled}
+                />
+              </div>
+            )}
+
+            {question.knockout && question.type !== "number" && (
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Passing answers (anything else is rejected):</p>
+                <div className="flex flex-wrap gap-4">
+                  {choices.map((choice) => (
+                    <div key={choice} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`screening-accept-${index}-${choice}`}
+                        checked={question.acceptedAnswers.includes(choice)}
+                        onCheckedChange={(checked) => toggleAccepted(index, choice, checked as boolean)}
+                        disabled={disabled}
+                      />
+                      <Label htmlFor={`screening-accept-${index}-${choice}`} className="text-sm font-normal cursor-pointer">
+                        {formatAnswer(choice)}
+                      </Label>
+                    </div>
+                  ))}
+                  {choices.length === 0 && <p className="text-xs text-muted-foreground">Add choices first.</p>}
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface ScreeningQuestionFieldsProps {
+  questions: PublicScreeningQuestion[]
+  answers: Record<string, string>
+  files: Record<string, File | null>
+  onAnswerChange: (questionKey: string, answer: string) => void
+  onFileChange: (questionKey: string, e: React.ChangeEvent<HTMLInputElement>) => void
+  disabled?: boolean
+}
+
+// Job seeker-side inputs for a job's screening questions in the application form.
+// File answers are kept as File objects and uploaded when the application is sent.
+export function ScreeningQuestionFields({ questions, answers, files, onAnswerChange, onFileChange, disabled }: ScreeningQuestionFieldsProps) {
+  return (
+    <div className="space-y-4">
+      {questions.map((question) => {
+        const id = `screening-${question.key}`
+        const label = `${question.prompt}${question.required ? " *" : ""}`
+        const answer = answers[question.key] || ""
+
+        if (question.type === "yes_no" || question.type === "multiple_choice") {
+          const choices = question.type === "yes_no" ? ["yes", "no"] : question.options
+          return (
+            <fieldset key={question.key} className="space-y-2">
+              <legend className="text-sm font-medium mb-2">{label}</legend>
+              <div className={question.type === "yes_no" ? "flex gap-6" : "space-y-2"}>
+                {choices.map((choice) => (
+                  <label key={choice} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="radio"
+                      name={id}
+                      value={choice}
+                      checked={answer === choice}
+                      onChange={() => onAnswerChange(question.key, choice)}
+                      required={question.required}
+                      disabled={disabled}
+                      className="accent-primary"
+                    />
+                    {formatAnswer(choice)}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )
+        }
+
+        if (question.type === "file") {
+          return (
+            <div key={question.key} className="space-y-2">
+              <Label htmlFor={id}>{label}</Label>
+              <Input
+                id={id}
+                type="file"
+                accept={RESUME_ACCEPT}
+                onChange={(e) => onFileChange(question.key, e)}
+                required={question.required && !files[question.key]}
+                disabled={disabled}
+              />
+              <p className="text-xs text-muted-foreground">
+                {files[question.key] ? files[question.key]!.name : "PDF, DOC, or DOCX (max 5MB)"}
+              </p>
+            </div>
+          )
+        }
+
+        return (
+          <div key={question.key} className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            <Input
+              id={id}
+              type={question.type === "number" ? "number" : "text"}
+              step={question.type === "number" ? "any" : undefined}
+              value={answer}
+              onChange={(e) => onAnswerChange(question.key, e.target.value)}
+              maxLength={question.type === "short_text" ? MAX_SHORT_TEXT_ANSWER_LENGTH : undefined}
+              required={question.required}
+              disabled={disabled}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// An applicant's answers, shown to the employer on the applicant card
+export function ScreeningAnswersList({ answers }: { answers?: FormattedScreeningAnswer[] }) {
+  if (!answers || answers.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <ListChecks className="h-4 w-4 text-primary" />
+        Screening Answers
+      </p>
+      <ul className="space-y-1.5">
+        {answers.map((answer) => (
+          <li key={answer.questionKey} className="text-sm">
+            <span className="text-muted-foreground">{answer.prompt}</span>{" "}
+            {answer.fileUrl ? (
+              <a
+                href={answer.fileUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-primary hover:underline inline-flex items-center gap-1"
+              >
+                {answer.fileName}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            ) : (
+              <span className="font-medium whitespace-pre-wrap break-words">{formatAnswer(answer.answer)}</span>
+            )}
+            {answer.knockedOut && (
+              <Badge variant="destructive" className="ml-2 text-xs">
+                <XCircle className="h-3 w-3 mr-1" />
+                Knockout
+              </Badge>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+interface ScreeningAnswerFilterBarProps {
+  questions: ScreeningQuestion[]
+  filter: ScreeningAnswerFilter | null
+  onChange: (filter: ScreeningAnswerFilter | null) => void
+}
+
+const ALL = "__all__"
+
+// Lets the employer narrow a job's applicants to those who gave a particular screening answer
+export function ScreeningAnswerFilterBar({ questions, filter, onChange }: ScreeningAnswerFilterBarProps) {
+  if (questions.length === 0) return null
+
+  const question = filter ? questions.find((item) => item.key === filter.questionKey) : undefined
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Filter className="h-4 w-4 text-muted-foreground" />
+      <Select
+        value={question?.key || ALL}
+        onValueChange={(value) => onChange(value === ALL ? null : { questionKey: value })}
+      >
+        <SelectTrigger className="h-8 w-[260px]">
+          <SelectValue placeholder="Filter by answer" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All applicants</SelectItem>
+          {questions.map((item) => (
+            <SelectItem key={item.key} value={item.key}>
+              {item.prompt}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {question && filter && (question.type === "yes_no" || question.type === "multiple_choice") && (
+        <Select
+          value={filter.value || ALL}
+          onValueChange={(value) => onChange({ questionKey: question.key, value: value === ALL ? undefined : value })}
+        >
+          <SelectTrigger className="h-8 w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any answer</SelectItem>
+            {(question.type === "yes_no" ? ["yes", "no"] : question.options).map((choice) => (
+              <SelectItem key={choice} value={choice}>
+                {formatAnswer(choice)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {question && filter && question.type === "number" && (
+        <>
+          <Input
+            type="number"
+            value={filter.min ?? ""}
+            onChange={(e) => onChange({ ...filter, min: toNumberOrNull(e.target.value) })}
+            placeholder="Min"
+            className="h-8 w-24"
+          />
+          <Input
+            type="number"
+            value={filter.max ?? ""}
+            onChange={(e) => onChange({ ...filter, max: toNumberOrNull(e.target.value) })}
+            placeholder="Max"
+            className="h-8 w-24"
+          />
+        </>
+      )}
+
+      {question && filter && question.type === "short_text" && (
+        <Input
+          value={filter.value || ""}
+          onChange={(e) => onChange({ questionKey: question.key, value: e.target.value || undefined })}
+          placeholder="Answer contains..."
+          className="h-8 w-[200px]"
+        />
+      )}
+
+      {question && filter && question.type === "file" && (
+        <Select
+          value={filter.answered === undefined ? ALL : filter.answered ? "yes" : "no"}
+          onValueChange={(value) => onChange({ questionKey: question.key, answered: value === ALL ? undefined : value === "yes" })}
+        >
+          <SelectTrigger className="h-8 w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any</SelectItem>
+            <SelectItem value="yes">Uploaded</SelectItem>
+            <SelectItem value="no">Not uploaded</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
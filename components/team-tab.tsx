@@ -0,0 +1,290 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LogOut, Mail, Trash2, UserPlus, Users, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import type { OrganizationTeam } from "@/lib/organizations"
+import {
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLE_LABELS,
+  type OrganizationRole,
+  canManageMember,
+  getAssignableRoles,
+  hasOrganizationPermission,
+} from "@/lib/organization-roles"
+
+interface TeamTabProps {
+  role: OrganizationRole | null // The signed-in employer's role, once known
+  onChanged?: () => void // Called after the signed-in employer leaves, so the dashboard can reload
+}
+
+// The employer's organization: who is on the team, their roles and pending invitations.
+// Owners and admins can invite people, change roles and remove members.
+export function TeamTab({ role, onChanged }: TeamTabProps) {
+  const { toast } = useToast()
+  const [team, setTeam] = useState<OrganizationTeam | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("recruiter")
+  const [inviting, setInviting] = useState(false)
+
+  const canManageTeam = role !== null && hasOrganizationPermission(role, "manage_team")
+  const assignableRoles = role ? getAssignableRoles(role) : []
+
+  const loadTeam = async () => {
+    try {
+      const response = await fetch("/api/organization", { credentials: "include" })
+      if (response.ok) {
+        const data = await response.json()
+        setTeam(data.organization)
+      }
+    } catch (error) {
+      console.error("Error fetching team:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTeam()
+  }, [])
+
+  // Sends a request, then reloads the team and reports the outcome
+  const runUpdate = async (id: string, url: string, init: RequestInit, successMessage: string) => {
+    setBusyId(id)
+    try {
+      const response = await fetch(url, { credentials: "include", ...init })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || "Something went wrong. Please try again.")
+      }
+      toast({ title: successMessage })
+      await loadTeam()
+      return true
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" })
+      await loadTeam()
+      return false
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!inviteEmail.trim()) return
+    setInviting(true)
+    try {
+      const response = await fetch("/api/organization/invitations", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || "Could not send the invitation.")
+      }
+      toast({ title: "Invitation sent", description: data.message })
+      setInviteEmail("")
+      await loadTeam()
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" })
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRoleChange = (memberId: string, newRole: OrganizationRole) =>
+    runUpdate(
+      memberId,
+      `/api/organization/members/${memberId}`,
+      { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ role: newRole }) },
+      "Role updated"
+    )
+
+  const handleRemove = async (member: OrganizationTeam["members"][number]) => {
+    if (!window.confirm(`Remove ${member.name} from the team? They will lose access to your jobs and applicants.`)) return
+    await runUpdate(member.id, `/api/organization/members/${member.id}`, { method: "DELETE" }, "Member removed")
+  }
+
+  const handleLeave = async (memberId: string) => {
+    if (!window.confirm("Leave this organization? You will lose access to its jobs and applicants.")) return
+    const left = await runUpdate(memberId, `/api/organization/members/${memberId}`, { method: "DELETE" }, "You left the organization")
+    if (left) onChanged?.()
+  }
+
+  const handleRevoke = (invitationId: string) =>
+    runUpdate(invitationId, `/api/organization/invitations/${invitationId}`, { method: "DELETE" }, "Invitation revoked")
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading team...</p>
+  }
+
+  if (!team) {
+    return <p className="text-sm text-muted-foreground">Could not load your team. Please refresh the page.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {team.name || "Your organization"}
+          </CardTitle>
+          <CardDescription>
+            {team.members.length} {team.members.length === 1 ? "member" : "members"}
+            {role && ` · Your role: ${ORGANIZATION_ROLE_LABELS[role]}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="divide-y">
+            {team.members.map((member) => {
+              const manageable = canManageTeam && role !== null && !member.me && canManageMember(role, member.role)
+              return (
+                <li key={member.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {member.name}
+                      {member.me && <span className="text-sm font-normal text-muted-foreground"> (you)</span>}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {member.email} · Joined {new Date(member.joinedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {manageable ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member.id, value as OrganizationRole)}
+                        disabled={busyId === member.id}
+                      >
+                        <SelectTrigger className="w-[160px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableRoles.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {ORGANIZATION_ROLE_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant={member.role === "owner" ? "default" : "secondary"}>{ORGANIZATION_ROLE_LABELS[member.role]}</Badge>
+                    )}
+                    {manageable && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove ${member.name}`}
+                        onClick={() => handleRemove(member)}
+                        disabled={busyId === member.id}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {member.me && member.role !== "owner" && (
+                      <Button variant="outline" size="sm" onClick={() => handleLeave(member.id)} disabled={busyId === member.id}>
+                        <LogOut className="h-4 w-4 mr-1" />
+                        Leave
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        </CardContent>
+      </Card>
+
+      {canManageTeam && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5" />
+              Invite a teammate
+            </CardTitle>
+            <CardDescription>They will get an email with a link to join. Invitations expire after 7 days.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form onSubmit={handleInvite} className="space-y-3">
+              <div className="flex flex-col sm:flex-row gap-3">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="colleague@company.com"
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Role</Label>
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as OrganizationRole)}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {ORGANIZATION_ROLE_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">{ORGANIZATION_ROLE_DESCRIPTIONS[inviteRole]}</p>
+              <Button type="submit" disabled={inviting || !inviteEmail.trim()}>
+                <Mail className="h-4 w-4 mr-2" />
+                {inviting ? "Sending..." : "Send Invitation"}
+              </Button>
+            </form>
+
+            {team.invitations.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Pending invitations</p>
+                <ul className="divide-y rounded-md border">
+                  {team.invitations.map((invitation) => (
+                    <li key={invitation.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{invitation.email}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {ORGANIZATION_ROLE_LABELS[invitation.role]}
+                          {invitation.invitedByName && ` · Invited by ${invitation.invitedByName}`}
+                          {` · Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(invitation.id)}
+                        disabled={busyId === invitation.id}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+// lib/application-data.ts - Cleaning up the records attached to applications that are being deleted
+
+import Interview from '@/lib/models/interview';
+import Scorecard from '@/lib/models/scorecard';
+import ApplicationNote from '@/lib/models/application-note';
+import Message from '@/lib/models/message';
+import Notification from '@/lib/models/notification';
+import { ACTIVE_INTERVIEW_STATUSES, cancelInterview, type InterviewRole } from '@/lib/interviews';
+
+/**
+ * Removes everything that belongs to applications about to be deleted. Active
+ * interviews are cancelled first, so the other party is told and a confirmed time
+ * comes off both calendars. Message threads go too, with the notifications that
+ * would link to them, and the team's scorecards and notes on the applicants. Call
+ * it before the job is deleted; the invites name it.
+ * @param applicationIds The applications being deleted.
+ * @param cancellation Who cancels their interviews, and the reason given.
+ * @returns The number of interviews cancelled.
+ */
+export async function deleteApplicationData(
+  applicationIds: unknown[],
+  cancellation: { by: InterviewRole; reason: string }
+): Promise<number> {
+  if (applicationIds.length === 0) return 0;
+
+  const activeInterviews = await Interview.find({
+    applicationId: { $in: applicationIds },
+    status: { $in: ACTIVE_INTERVIEW_STATUSES },
+  });
+  let cancelled = 0;
+  for (const interview of activeInterviews) {
+    try {
+      if (await cancelInterview(interview, cancellation.by, cancellation.reason)) cancelled++;
+    } catch (error: any) {
+      console.error(`❌ Error cancelling interview ${interview._id.toString()}:`, error.message);
+    }
+  }
+
+  await Promise.all([
+    Interview.deleteMany({ applicationId: { $in: applicationIds } }),
+    Scorecard.deleteMany({ applicationId: { $in: applicationIds } }),
+    ApplicationNote.deleteMany({ applicationId: { $in: applicationIds } }),
+    Message.deleteMany({ applicationId: { $in: applicationIds } }),
+    Notification.deleteMany({
+      applicationId: { $in: applicationIds },
+      type: { $in: ['new_message', 'application_received', 'application_status_changed'] },
+    }),
+  ]);
+
+  return cancelled;
+}
@@ -0,0 +1,102 @@
+// lib/application-history.ts - Audit trail of an application's status and rating changes
+
+import type mongoose from 'mongoose';
+import type { IApplicationEvent } from '@/lib/models/application';
+import type { ApplicationStatus } from '@/lib/application-status';
+
+export interface ApplicationActor {
+  id?: mongoose.Types.ObjectId;
+  role: IApplicationEvent['actorRole'];
+  name: string;
+}
+
+// An event as sent to the client
+export interface ApplicationHistoryEntry {
+  type: IApplicationEvent['type'];
+  fromStatus?: ApplicationStatus;
+  toStatus?: ApplicationStatus;
+  fromRating?: number;
+  toRating?: number;
+  actorRole: IApplicationEvent['actorRole'];
+  actorName?: string; // Employers only; job seekers see the company, not the person
+  date: string; // ISO timestamp
+}
+
+/**
+ * The first event of every application.
+ * @param actor The job seeker who applied.
+ */
+export function appliedEvent(actor: ApplicationActor, date: Date = new Date()): IApplicationEvent {
+  return {
+    type: 'applied',
+    toStatus: 'Pending',
+    actorId: actor.id,
+    actorRole: actor.role,
+    actorName: actor.name,
+    createdAt: date,
+  };
+}
+
+/**
+ * Builds the events for an update to an application. Fields that don't change
+ * produce no event, so saving the same status twice leaves no trace.
+ * @param current The application's status and rating before the update.
+ * @param updates The new status and/or rating; reopen marks the status change as a rejected candidate being brought back.
+ * @param actor Who is making the change.
+ */
+export function buildApplicationEvents(
+  current: { status: ApplicationStatus; rating: number },
+  updates: { status?: ApplicationStatus; rating?: number; reopen?: boolean },
+  actor: ApplicationActor
+): IApplicationEvent[] {
+  const createdAt = new Date();
+  const events: IApplicationEvent[] = [];
+  const by = { actorId: actor.id, actorRole: actor.role, actorName: actor.name, createdAt };
+
+  if (updates.status !== undefined && updates.status !== current.status) {
+    const type = updates.reopen ? 'reopened' : 'status_changed';
+    events.push({ type, fromStatus: current.status, toStatus: updates.status, ...by });
+  }
+  if (updates.rating !== undefined && updates.rating !== (current.rating || 0)) {
+    events.push({ type: 'rating_changed', fromRating: current.rating || 0, toRating: updates.rating, ...by });
+  }
+
+  return events;
+}
+
+/**
+ * Formats an application's history for the API, oldest first. Applications from
+ * before the audit trail existed get their "applied" event from the applied date.
+ * Job seekers only see status changes and never who made them; ratings are the
+ * employer's private notes.
+ * @param application The application document (or lean object).
+ * @param audience Who the history is for.
+ */
+export function formatApplicationHistory(
+  application: { history?: IApplicationEvent[]; appliedDate?: Date; createdAt?: Date },
+  audience: 'employer' | 'job-seeker'
+): ApplicationHistoryEntry[] {
+  const events = [...(application.history || [])];
+  if (!events.some((event) => event.type === 'applied')) {
+    events.unshift({
+      type: 'applied',
+      toStatus: 'Pending',
+      actorRole: 'job-seeker',
+      actorName: '',
+      createdAt: application.appliedDate || application.createdAt || new Date(),
+    });
+  }
+
+  return events
+    .filter((event) => audience === 'employer' || event.type !== 'rating_changed')
+    .map((event) => ({
+      type: event.type,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      fromRating: audience === 'employer' ? event.fromRating : undefined,
+      toRating: audience === 'employer' ? event.toRating : undefined,
+      actorRole: event.actorRole,
+      actorName: audience === 'employer' ? event.actorName || undefined : undefined,
+      date: new Date(event.createdAt).toISOString(),
+    }));
+}
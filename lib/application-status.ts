@@ -0,0 +1,58 @@
+// lib/application-status.ts - Application pipeline statuses and the allowed moves between them (shared by the API and the UI)
+
+export const APPLICATION_STATUSES = ['Pending', 'Reviewed', 'Shortlisted', 'Interviewed', 'Selected', 'Rejected'] as const;
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+/**
+ * The statuses an application can move to from each status. Candidates move
+ * forward through the pipeline (Reviewed may be skipped) and can step back one
+ * stage to correct a mistake; any candidate still in the process can be rejected.
+ * Rejected is final here: bringing a candidate back is the separate reopen action.
+ */
+export const APPLICATION_STATUS_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  Pending: ['Reviewed', 'Shortlisted', 'Rejected'],
+  Reviewed: ['Shortlisted', 'Rejected'],
+  Shortlisted: ['Interviewed', 'Reviewed', 'Rejected'],
+  Interviewed: ['Selected', 'Shortlisted', 'Rejected'],
+  Selected: ['Interviewed', 'Rejected'],
+  Rejected: [],
+};
+
+// Where a reopened candidate goes when the stage they were rejected from is unknown
+const DEFAULT_REOPEN_STATUS: ApplicationStatus = 'Reviewed';
+
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+  return typeof value === 'string' && (APPLICATION_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * The statuses an application in the given status can be moved to.
+ */
+export function getNextStatuses(status: ApplicationStatus): readonly ApplicationStatus[] {
+  return APPLICATION_STATUS_TRANSITIONS[status] || [];
+}
+
+/**
+ * Checks a status change against the transition rules. Keeping the same status is always allowed.
+ * @returns null when the change is allowed, otherwise an error message for the employer.
+ */
+export function validateStatusTransition(from: ApplicationStatus, to: ApplicationStatus): string | null {
+  if (from === to || getNextStatuses(from).includes(to)) return null;
+
+  if (from === 'Rejected') {
+    return 'This candidate was rejected. Reopen the application before changing its status.';
+  }
+  const allowed = getNextStatuses(from);
+  return `An application can't move from ${from} to ${to}. From ${from} it can move to ${allowed.join(', ')}.`;
+}
+
+/**
+ * The status a rejected application returns to when it is reopened: the stage it
+ * was rejected from, so the candidate picks up where they left off.
+ * @param history The application's events, oldest first.
+ */
+export function getReopenStatus(history: Array<{ toStatus?: string; fromStatus?: string }>): ApplicationStatus {
+  const rejection = [...history].reverse().find((event) => event.toStatus === 'Rejected');
+  const previous = rejection?.fromStatus;
+  return isApplicationStatus(previous) && previous !== 'Rejected' ? previous : DEFAULT_REOPEN_STATUS;
+}
@@ -0,0 +1,114 @@
+// lib/email-preferences.ts - Per-event email opt-in/opt-out preferences for job seekers and employers
+
+export type EmailRole = 'job-seeker' | 'employer';
+
+export interface EmailEventDefinition {
+  key: string;
+  label: string;
+  description: string;
+}
+
+// Events a user can opt in or out of, per role. Every event is enabled by default.
+export const EMAIL_EVENTS: Record<EmailRole, EmailEventDefinition[]> = {
+  'job-seeker': [
+    {
+      key: 'applicationShortlisted',
+      label: 'Shortlisted',
+      description: 'An employer shortlists one of your applications.',
+    },
+    {
+      key: 'applicationInterviewed',
+      label: 'Interviewed',
+      description: 'An application is moved to the interview stage.',
+    },
+    {
+      key: 'applicationSelected',
+      label: 'Selected',
+      description: 'You are selected for a job.',
+    },
+    {
+      key: 'applicationRejected',
+      label: 'Not selected',
+      description: 'An employer decides not to move forward with an application.',
+    },
+    {
+      key: 'interviewUpdates',
+      label: 'Interviews',
+      description: 'Interview invitations, confirmations, new times and cancellations, with calendar invites.',
+    },
+  ],
+  employer: [
+    {
+      key: 'newApplicant',
+      label: 'New applicants',
+      description: 'Someone applies to one of your jobs.',
+    },
+    {
+      key: 'interviewUpdates',
+      label: 'Interviews',
+      description: 'A candidate confirms, asks to reschedule or cancels an interview.',
+    },
+  ],
+};
+
+// Application statuses that email the candidate, mapped to the preference that controls them
+export const STATUS_EMAIL_EVENTS: Record<string, string> = {
+  Shortlisted: 'applicationShortlisted',
+  Interviewed: 'applicationInterviewed',
+  Selected: 'applicationSelected',
+  Rejected: 'applicationRejected',
+};
+
+export type EmailPreferences = Record<string, boolean>;
+
+/**
+ * Fills in defaults for a user's stored preferences. Events without a stored
+ * choice (e.g. events added after the user signed up) are enabled.
+ * @param role The user's role.
+ * @param stored The preferences stored on the user's profile, if any.
+ * @returns A preference for every event available to the role.
+ */
+export function resolveEmailPreferences(role: EmailRole, stored: any): EmailPreferences {
+  const preferences: EmailPreferences = {};
+  for (const event of EMAIL_EVENTS[role]) {
+    const value = stored?.[event.key];
+    preferences[event.key] = typeof value === 'boolean' ? value : true;
+  }
+  return preferences;
+}
+
+/**
+ * Checks whether a user wants email for an event.
+ */
+export function isEmailEnabled(role: EmailRole, stored: any, eventKey: string): boolean {
+  return resolveEmailPreferences(role, stored)[eventKey] ?? false;
+}
+
+/**
+ * Validates preference updates received from a client. Unknown events and
+ * non-boolean values are rejected.
+ * @param role The user's role.
+ * @param input The untrusted input object, e.g. { newApplicant: false }.
+ * @returns The accepted updates, or an error message.
+ */
+export function sanitizeEmailPreferences(
+  role: EmailRole,
+  input: any
+): { updates: EmailPreferences; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { updates: {}, error: 'Email preferences must be an object.' };
+  }
+
+  const allowedKeys = new Set(EMAIL_EVENTS[role].map((event) => event.key));
+  const updates: EmailPreferences = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!allowedKeys.has(key)) {
+      return { updates: {}, error: `Unknown email preference: ${key}.` };
+    }
+    if (typeof value !== 'boolean') {
+      return { updates: {}, error: `Email preference ${key} must be true or false.` };
+    }
+    updates[key] = value;
+  }
+  return { updates };
+}
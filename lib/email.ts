@@ -251,3 +251,437 @@ export async function sendNewPasswordEmail(
   }
 }
 
+
+// --------------------------------------------------
+// Application notification emails
+// --------------------------------------------------
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Wraps notification email content in the same layout as the account emails.
+ * Dynamic values in the paragraphs must already be escaped.
+ */
+function renderNotificationEmail(options: {
+  heading: string;
+  gradient: [string, string];
+  paragraphs: string[];
+  buttonLabel: string;
+  buttonUrl: string;
+  footer: string;
+}): string {
+  const [from, to] = options.gradient;
+  return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, ${from} 0%, ${to} 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0;">${options.heading}</h1>
+          </div>
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb;">
+            ${options.paragraphs.map((paragraph) => `<p style="font-size: 16px;">${paragraph}</p>`).join('\n            ')}
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${options.buttonUrl}" style="background: ${from}; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">${options.buttonLabel}</a>
+            </div>
+            <p style="font-size: 14px; color: #6b7280; margin-top: 30px;">${options.footer}</p>
+          </div>
+        </body>
+      </html>
+    `;
+}
+
+const PREFERENCES_FOOTER = 'You can choose which emails you receive under Account Settings.';
+
+// Email content for each application status that notifies the candidate
+const STATUS_EMAIL_TEMPLATES: Record<string, {
+  subject: (jobTitle: string) => string;
+  heading: string;
+  gradient: [string, string];
+  message: (jobTitle: string, company: string) => string;
+}> = {
+  Shortlisted: {
+    subject: (jobTitle) => `You've been shortlisted for ${jobTitle}`,
+    heading: "You're on the Shortlist",
+    gradient: ['#3b82f6', '#2563eb'],
+    message: (jobTitle, company) => `Good news! ${company} has shortlisted your application for <strong>${jobTitle}</strong>. They may reach out soon about next steps.`,
+  },
+  Interviewed: {
+    subject: (jobTitle) => `Interview stage: ${jobTitle}`,
+    heading: 'Interview Stage',
+    gradient: ['#8b5cf6', '#7c3aed'],
+    message: (jobTitle, company) => `Your application for <strong>${jobTitle}</strong> at ${company} has moved to the interview stage.`,
+  },
+  Selected: {
+    subject: (jobTitle) => `Congratulations! You've been selected for ${jobTitle}`,
+    heading: 'Congratulations!',
+    gradient: ['#10b981', '#059669'],
+    message: (jobTitle, company) => `${company} has selected you for <strong>${jobTitle}</strong>. Expect to hear from them with the details.`,
+  },
+  Rejected: {
+    subject: (jobTitle) => `Update on your application for ${jobTitle}`,
+    heading: 'Application Update',
+    gradient: ['#6b7280', '#4b5563'],
+    message: (jobTitle, company) => `Thank you for your interest in <strong>${jobTitle}</strong>. ${company} has decided not to move forward with your application at this time. We wish you the best in your search.`,
+  },
+};
+
+/**
+ * Sends a notification email, or logs it when SMTP is not configured.
+ * Failures are logged and never thrown so the triggering action can continue.
+ */
+async function deliverNotificationEmail(
+  mailOptions: {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    headers?: Record<string, string>;
+    icalEvent?: { method: string; filename: string; content: string }; // Calendar invite shown by mail clients
+  },
+  label: string
+): Promise<boolean> {
+  const transporter = createTransporter();
+
+  try {
+    if (!transporter) {
+      console.log(`📧 [DEV] ${label} email would be sent to:`, mailOptions.to);
+      console.log('📧 [DEV] Subject:', mailOptions.subject);
+      console.log('📧 [DEV] To enable email sending, configure SMTP_USER and SMTP_PASSWORD in .env.local');
+      return true;
+    }
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER || 'noreply@example.com',
+      ...mailOptions,
+    });
+    console.log(`✅ ${label} email sent to:`, mailOptions.to);
+    return true;
+  } catch (error) {
+    console.error(`❌ Error sending ${label} email:`, error);
+    return false;
+  }
+}
+
+/**
+ * Tells a candidate that one of their applications changed status.
+ * Only statuses with a template (Shortlisted, Interviewed, Selected, Rejected) send an email.
+ * @returns True when the email was sent (or logged in development).
+ */
+export async function sendApplicationStatusEmail(
+  email: string,
+  firstName: string,
+  details: { jobTitle: string; company: string; status: string }
+): Promise<boolean> {
+  const template = STATUS_EMAIL_TEMPLATES[details.status];
+  if (!template) return false;
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BASE_URL || 'http://localhost:3000';
+  const applicationsUrl = `${baseUrl}/job-seeker/applications`;
+  const plainMessage = template.message(details.jobTitle, details.company).replace(/<\/?strong>/g, '');
+
+  return deliverNotificationEmail(
+    {
+      to: email,
+      subject: template.subject(details.jobTitle),
+      html: renderNotificationEmail({
+        heading: template.heading,
+        gradient: template.gradient,
+        paragraphs: [
+          `Hello ${escapeHtml(firstName || 'there')},`,
+          template.message(escapeHtml(details.jobTitle), escapeHtml(details.company)),
+        ],
+        buttonLabel: 'View My Applications',
+        buttonUrl: applicationsUrl,
+        footer: PREFERENCES_FOOTER,
+      }),
+      text: `
+      Hello ${firstName || 'there'},
+
+      ${plainMessage}
+
+      View your applications: ${applicationsUrl}
+
+      ${PREFERENCES_FOOTER}
+    `,
+    },
+    `Application status (${details.status})`
+  );
+}
+
+/**
+ * Tells an employer that someone applied to one of their jobs.
+ * @returns True when the email was sent (or logged in development).
+ */
+export async function sendNewApplicantEmail(
+  email: string,
+  firstName: string,
+  details: { jobTitle: string; applicantName: string }
+): Promise<boolean> {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BASE_URL || 'http://localhost:3000';
+  const dashboardUrl = `${baseUrl}/employer`;
+
+  return deliverNotificationEmail(
+    {
+      to: email,
+      subject: `New applicant for ${details.jobTitle}`,
+      html: renderNotificationEmail({
+        heading: 'New Applicant',
+        gradient: ['#10b981', '#059669'],
+        paragraphs: [
+          `Hello ${escapeHtml(firstName || 'there')},`,
+          `<strong>${escapeHtml(details.applicantName)}</strong> just applied to <strong>${escapeHtml(details.jobTitle)}</strong>.`,
+        ],
+        buttonLabel: 'Review Applicants',
+        buttonUrl: dashboardUrl,
+        footer: PREFERENCES_FOOTER,
+      }),
+      text: `
+      Hello ${firstName || 'there'},
+
+      ${details.applicantName} just applied to ${details.jobTitle}.
+
+      Review applicants: ${dashboardUrl}
+
+      ${PREFERENCES_FOOTER}
+    `,
+    },
+    'New applicant'
+  );
+}
+
+/**
+ * Invites someone to join an employer organization. The link opens the join page,
+ * where they sign in (or register) with the invited address and accept.
+ * @param details The organization, who sent the invitation, the role offered and how long the link lasts.
+ * @returns True when the email was sent (or logged in development).
+ */
+export async function sendOrganizationInvitationEmail(
+  email: string,
+  token: string,
+  details: { organizationName: string; invitedByName: string; roleLabel: string; expiresInDays: number }
+): Promise<boolean> {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BASE_URL || 'http://localhost:3000';
+  const joinUrl = `${baseUrl}/join-team/${token}`;
+  const footer = `This invitation expires in ${details.expiresInDays} days. If you weren't expecting it, you can ignore this email.`;
+
+  return deliverNotificationEmail(
+    {
+      to: email,
+      subject: `${details.invitedByName} invited you to join ${details.organizationName} on TopGrab`,
+      html: renderNotificationEmail({
+        heading: 'Join Your Team',
+        gradient: ['#10b981', '#059669'],
+        paragraphs: [
+          'Hello,',
+          `${escapeHtml(details.invitedByName)} invited you to join <strong>${escapeHtml(details.organizationName)}</strong> as a ${escapeHtml(details.roleLabel.toLowerCase())}.`,
+          `Sign in with an employer account for ${escapeHtml(email)}, or create one, to accept.`,
+        ],
+        buttonLabel: 'Accept Invitation',
+        buttonUrl: joinUrl,
+        footer,
+      }),
+      text: `
+      Hello,
+
+      ${details.invitedByName} invited you to join ${details.organizationName} as a ${details.roleLabel.toLowerCase()}.
+      Sign in with an employer account for ${email}, or create one, to accept.
+
+      Accept the invitation: ${joinUrl}
+
+      ${footer}
+    `,
+    },
+    'Organization invitation'
+  );
+}
+
+const ALERT_FREQUENCY_LABELS: Record<string, string> = {
+  instant: 'New',
+  daily: "Today's",
+  weekly: "This week's",
+};
+
+/**
+ * Sends a saved search alert listing the new jobs that match it. The email links
+ * to the search's unsubscribe page, which turns off alerts for that search only.
+ * @param details The search's name and alert frequency, the matching jobs and the unsubscribe URL.
+ * @returns True when the email was sent (or logged in development).
+ */
+export async function sendSavedSearchAlertEmail(
+  email: string,
+  firstName: string,
+  details: {
+    searchName: string;
+    frequency: string;
+    jobs: Array<{ title: string; company: string; location: string }>;
+    unsubscribeUrl: string;
+  }
+): Promise<boolean> {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BASE_URL || 'http://localhost:3000';
+  const jobsUrl = `${baseUrl}/job-seeker`;
+  const count = details.jobs.length;
+  const jobsLabel = count === 1 ? '1 new job' : `${count} new jobs`;
+  const prefix = ALERT_FREQUENCY_LABELS[details.frequency] || 'New';
+  const formatJob = (job: { title: string; company: string; location: string }) =>
+    [job.title, job.company, job.location].filter(Boolean).join(' · ');
+
+  return deliverNotificationEmail(
+    {
+      to: email,
+      subject: `${jobsLabel} for "${details.searchName}"`,
+      html: renderNotificationEmail({
+        heading: `${prefix} Job Matches`,
+        gradient: ['#3b82f6', '#2563eb'],
+        paragraphs: [
+          `Hello ${escapeHtml(firstName || 'there')},`,
+          `${jobsLabel} ${count === 1 ? 'matches' : 'match'} your saved search <strong>${escapeHtml(details.searchName)}</strong>:`,
+          ...details.jobs.map((job) => `<strong>${escapeHtml(job.title)}</strong><br>${escapeHtml([job.company, job.location].filter(Boolean).join(' · '))}`),
+        ],
+        buttonLabel: 'Browse Jobs',
+        buttonUrl: jobsUrl,
+        footer: `You're receiving this because you turned on alerts for this search. <a href="${details.unsubscribeUrl}" style="color: #6b7280;">Unsubscribe from these alerts</a>.`,
+      }),
+      text: `
+      Hello ${firstName || 'there'},
+
+      ${jobsLabel} ${count === 1 ? 'matches' : 'match'} your saved search "${details.searchName}":
+
+      ${details.jobs.map((job) => `- ${formatJob(job)}`).join('\n      ')}
+
+      Browse jobs: ${jobsUrl}
+
+      Unsubscribe from these alerts: ${details.unsubscribeUrl}
+    `,
+      headers: { 'List-Unsubscribe': `<${details.unsubscribeUrl}>` },
+    },
+    `Saved search alert (${details.frequency})`
+  );
+}
+
+export type InterviewEmailEvent = 'proposed' | 'scheduled' | 'rescheduled' | 'reschedule_requested' | 'cancelled';
+
+// Email content for each interview update; "you" is the recipient
+const INTERVIEW_EMAIL_TEMPLATES: Record<InterviewEmailEvent, {
+  subject: (jobTitle: string) => string;
+  heading: string;
+  gradient: [string, string];
+  message: (details: { jobTitle: string; company: string; candidateName: string; recipientRole: 'job-seeker' | 'employer' }) => string;
+}> = {
+  proposed: {
+    subject: (jobTitle) => `Interview invitation: ${jobTitle}`,
+    heading: 'Interview Invitation',
+    gradient: ['#8b5cf6', '#7c3aed'],
+    message: ({ jobTitle, company }) => `${company} would like to interview you for <strong>${jobTitle}</strong>. Pick the time that suits you best from the proposed slots.`,
+  },
+  scheduled: {
+    subject: (jobTitle) => `Interview confirmed: ${jobTitle}`,
+    heading: 'Interview Confirmed',
+    gradient: ['#10b981', '#059669'],
+    message: ({ jobTitle, company, candidateName, recipientRole }) => recipientRole === 'employer'
+      ? `<strong>${candidateName}</strong> confirmed an interview for <strong>${jobTitle}</strong>. The calendar invite is attached.`
+      : `Your interview with ${company} for <strong>${jobTitle}</strong> is confirmed. The calendar invite is attached.`,
+  },
+  rescheduled: {
+    subject: (jobTitle) => `New interview times: ${jobTitle}`,
+    heading: 'Interview Rescheduled',
+    gradient: ['#3b82f6', '#2563eb'],
+    message: ({ jobTitle, company, candidateName, recipientRole }) => recipientRole === 'employer'
+      ? `You proposed new times for the interview with <strong>${candidateName}</strong> for <strong>${jobTitle}</strong>. The previous time has been removed from your calendar.`
+      : `${company} proposed new times for your interview for <strong>${jobTitle}</strong>. Pick the one that suits you best.`,
+  },
+  reschedule_requested: {
+    subject: (jobTitle) => `Reschedule requested: ${jobTitle}`,
+    heading: 'Reschedule Requested',
+    gradient: ['#f59e0b', '#d97706'],
+    message: ({ jobTitle, company, candidateName, recipientRole }) => recipientRole === 'employer'
+      ? `<strong>${candidateName}</strong> asked for different times for their interview for <strong>${jobTitle}</strong>. Propose new slots from the applicant view.`
+      : `You asked ${company} for new times for your interview for <strong>${jobTitle}</strong>. The previous time has been removed from your calendar.`,
+  },
+  cancelled: {
+    subject: (jobTitle) => `Interview cancelled: ${jobTitle}`,
+    heading: 'Interview Cancelled',
+    gradient: ['#6b7280', '#4b5563'],
+    message: ({ jobTitle, company, candidateName, recipientRole }) => recipientRole === 'employer'
+      ? `The interview with <strong>${candidateName}</strong> for <strong>${jobTitle}</strong> has been cancelled.`
+      : `Your interview with ${company} for <strong>${jobTitle}</strong> has been cancelled.`,
+  },
+};
+
+/**
+ * Sends an interview update to the candidate or the employer. Scheduled interviews
+ * carry a calendar invite, and cancelled ones a cancellation that removes the event
+ * from the recipient's calendar.
+ * @param details The update, the interview's details as display text, and the .ics file if any.
+ * @returns True when the email was sent (or logged in development).
+ */
+export async function sendInterviewEmail(
+  email: string,
+  firstName: string,
+  details: {
+    event: InterviewEmailEvent;
+    recipientRole: 'job-seeker' | 'employer';
+    jobTitle: string;
+    company: string;
+    candidateName: string;
+    lines: string[]; // e.g. "When: ...", "Format: Video call"
+    note?: string; // Cancellation reason or reschedule message
+    ics?: { method: 'REQUEST' | 'CANCEL'; content: string };
+  }
+): Promise<boolean> {
+  const template = INTERVIEW_EMAIL_TEMPLATES[details.event];
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BASE_URL || 'http://localhost:3000';
+  const buttonUrl = details.recipientRole === 'employer' ? `${baseUrl}/employer` : `${baseUrl}/job-seeker/applications`;
+  const messageDetails = { jobTitle: details.jobTitle, company: details.company, candidateName: details.candidateName, recipientRole: details.recipientRole };
+  const message = template.message({
+    jobTitle: escapeHtml(details.jobTitle),
+    company: escapeHtml(details.company),
+    candidateName: escapeHtml(details.candidateName),
+    recipientRole: details.recipientRole,
+  });
+  const plainMessage = template.message(messageDetails).replace(/<\/?strong>/g, '');
+
+  return deliverNotificationEmail(
+    {
+      to: email,
+      subject: template.subject(details.jobTitle),
+      html: renderNotificationEmail({
+        heading: template.heading,
+        gradient: template.gradient,
+        paragraphs: [
+          `Hello ${escapeHtml(firstName || 'there')},`,
+          message,
+          ...(details.lines.length > 0 ? [details.lines.map(escapeHtml).join('<br>')] : []),
+          ...(details.note ? [`<em>"${escapeHtml(details.note)}"</em>`] : []),
+        ],
+        buttonLabel: details.recipientRole === 'employer' ? 'View Applicants' : 'View My Applications',
+        buttonUrl,
+        footer: PREFERENCES_FOOTER,
+      }),
+      text: `
+      Hello ${firstName || 'there'},
+
+      ${plainMessage}
+
+      ${details.lines.join('\n      ')}
+      ${details.note ? `\n      "${details.note}"\n` : ''}
+      ${buttonUrl}
+
+      ${PREFERENCES_FOOTER}
+    `,
+      ...(details.ics
+        ? { icalEvent: { method: details.ics.method, filename: 'interview.ics', content: details.ics.content } }
+        : {}),
+    },
+    `Interview ${details.event}`
+  );
+}
@@ -0,0 +1,164 @@
+// lib/evaluation.ts - Evaluation criteria and scorecard rules, shared by the API and the employer UI
+
+export interface EvaluationCriterion {
+  key: string; // Stable id that scores refer to; renaming a criterion keeps its scores
+  name: string;
+  description: string;
+}
+
+export interface CriterionRating {
+  criterion: string; // EvaluationCriterion.key
+  score: number;
+  comment: string;
+}
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+export const MAX_EVALUATION_CRITERIA = 10;
+export const MAX_CRITERION_NAME_LENGTH = 60;
+export const MAX_EVALUATION_COMMENT_LENGTH = 2000;
+
+// Used for jobs whose employer hasn't defined their own criteria
+export const DEFAULT_EVALUATION_CRITERIA: EvaluationCriterion[] = [
+  { key: 'technical-skills', name: 'Technical skills', description: 'Depth in the skills the role needs.' },
+  { key: 'communication', name: 'Communication', description: 'Clarity in writing and conversation.' },
+  { key: 'culture-fit', name: 'Culture fit', description: 'How well they would work with the team.' },
+];
+
+/**
+ * A job's criteria, or the defaults when the employer hasn't defined any.
+ */
+export function resolveEvaluationCriteria(stored: EvaluationCriterion[] | null | undefined): EvaluationCriterion[] {
+  return stored && stored.length > 0 ? stored : DEFAULT_EVALUATION_CRITERIA;
+}
+
+// "Culture fit" -> "culture-fit"
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'criterion';
+}
+
+/**
+ * Validates criteria received from an employer. Criteria sent with a known key keep
+ * it; new ones get a key derived from their name.
+ * @param input The untrusted list, e.g. [{ key?, name, description? }].
+ * @param existing The job's current criteria.
+ * @returns The accepted criteria, or an error message.
+ */
+export function sanitizeEvaluationCriteria(
+  input: unknown,
+  existing: EvaluationCriterion[]
+): { criteria?: EvaluationCriterion[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'Criteria must be a list.' };
+  }
+  if (input.length === 0) {
+    return { error: 'Add at least one criterion.' };
+  }
+  if (input.length > MAX_EVALUATION_CRITERIA) {
+    return { error: `Use at most ${MAX_EVALUATION_CRITERIA} criteria.` };
+  }
+
+  const knownKeys = new Set(existing.map((criterion) => criterion.key));
+  const usedKeys = new Set<string>();
+  const usedNames = new Set<string>();
+  const criteria: EvaluationCriterion[] = [];
+
+  for (const item of input) {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!name) {
+      return { error: 'Every criterion needs a name.' };
+    }
+    if (name.length > MAX_CRITERION_NAME_LENGTH) {
+      return { error: `Criterion names can be at most ${MAX_CRITERION_NAME_LENGTH} characters.` };
+    }
+    if (usedNames.has(name.toLowerCase())) {
+      return { error: `"${name}" is listed twice.` };
+    }
+    usedNames.add(name.toLowerCase());
+
+    let key = typeof item.key === 'string' && knownKeys.has(item.key) && !usedKeys.has(item.key) ? item.key : '';
+    if (!key) {
+      const base = slugify(name);
+      key = base;
+      for (let suffix = 2; usedKeys.has(key) || knownKeys.has(key); suffix++) {
+        key = `${base}-${suffix}`;
+      }
+    }
+    usedKeys.add(key);
+
+    const description = typeof item.description === 'string' ? item.description.trim().slice(0, 200) : '';
+    criteria.push({ key, name, description });
+  }
+
+  return { criteria };
+}
+
+/**
+ * Validates a reviewer's scorecard. Every criterion must be scored; comments are optional.
+ * @param input The untrusted body, e.g. { ratings: [{ criterion, score, comment? }], comment? }.
+ * @param criteria The job's criteria.
+ * @returns The ratings and overall comment, or an error message.
+ */
+export function sanitizeScorecard(
+  input: any,
+  criteria: EvaluationCriterion[]
+): { ratings?: CriterionRating[]; comment?: string; error?: string } {
+  const submitted = new Map<string, any>();
+  for (const rating of Array.isArray(input?.ratings) ? input.ratings : []) {
+    if (typeof rating?.criterion === 'string') submitted.set(rating.criterion, rating);
+  }
+
+  const ratings: CriterionRating[] = [];
+  for (const criterion of criteria) {
+    const rating = submitted.get(criterion.key);
+    const score = Number(rating?.score);
+    if (!rating || !Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE) {
+      return { error: `Give "${criterion.name}" a score from ${MIN_SCORE} to ${MAX_SCORE}.` };
+    }
+    const comment = typeof rating.comment === 'string' ? rating.comment.trim().slice(0, MAX_EVALUATION_COMMENT_LENGTH) : '';
+    ratings.push({ criterion: criterion.key, score, comment });
+  }
+
+  const comment = typeof input?.comment === 'string' ? input.comment.trim().slice(0, MAX_EVALUATION_COMMENT_LENGTH) : '';
+  return { ratings, comment };
+}
+
+export interface ScorecardSummary {
+  average: number | null; // Mean of the criterion averages, to one decimal
+  scorecardCount: number;
+  criteria: { key: string; name: string; average: number | null }[];
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Averages an applicant's scorecards per criterion and overall. Scores for criteria
+ * the job no longer uses are ignored.
+ * @param scorecards The applicant's scorecards.
+ * @param criteria The job's current criteria.
+ */
+export function summarizeScorecards(
+  scorecards: { ratings: { criterion: string; score: number }[] }[],
+  criteria: EvaluationCriterion[]
+): ScorecardSummary {
+  const summary = criteria.map((criterion) => {
+    const scores = scorecards
+      .flatMap((scorecard) => scorecard.ratings)
+      .filter((rating) => rating.criterion === criterion.key)
+      .map((rating) => rating.score);
+    const average = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+    return { key: criterion.key, name: criterion.name, average };
+  });
+
+  const scored = summary.filter((criterion) => criterion.average !== null).map((criterion) => criterion.average!);
+  return {
+    average: scored.length > 0 ? roundScore(scored.reduce((sum, average) => sum + average, 0) / scored.length) : null,
+    scorecardCount: scorecards.length,
+    criteria: summary.map((criterion) => ({
+      ...criterion,
+      average: criterion.average === null ? null : roundScore(criterion.average),
+    })),
+  };
+}
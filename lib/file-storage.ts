@@ -0,0 +1,77 @@
+// lib/file-storage.ts - Pluggable binary file storage (local disk by default, S3-compatible optional)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { S3Storage } from '@/lib/s3-storage';
+
+export interface FileStorageAdapter {
+  /** Name recorded on stored files so they are read back from the same backend */
+  readonly driver: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Returns null when the file does not exist */
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores files under a directory on the server's disk.
+ * Configure the directory with FILE_STORAGE_DIR (defaults to ./uploads).
+ */
+export class LocalDiskStorage implements FileStorageAdapter {
+  readonly driver = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Resolves a key to a path inside the storage root, rejecting keys that escape it
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+let cachedStorage: FileStorageAdapter | null = null;
+
+/**
+ * Returns the configured storage adapter. FILE_STORAGE_DRIVER selects the backend:
+ * "local" (default) or "s3" (requires the S3_* variables, see lib/s3-storage.ts).
+ */
+export function getFileStorage(): FileStorageAdapter {
+  if (cachedStorage) return cachedStorage;
+
+  const driver = (process.env.FILE_STORAGE_DRIVER || 'local').toLowerCase();
+  if (driver === 's3') {
+    cachedStorage = S3Storage.fromEnv();
+  } else if (driver === 'local') {
+    cachedStorage = new LocalDiskStorage(process.env.FILE_STORAGE_DIR || path.join(process.cwd(), 'uploads'));
+  } else {
+    throw new Error(`Unknown FILE_STORAGE_DRIVER: ${driver}`);
+  }
+
+  console.log(`🗄️ Using ${cachedStorage.driver} file storage`);
+  return cachedStorage;
+}
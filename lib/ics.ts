@@ -0,0 +1,97 @@
+// lib/ics.ts - iCalendar (.ics) event invites and cancellations (RFC 5545)
+
+export type IcsMethod = 'REQUEST' | 'CANCEL';
+
+export interface IcsPerson {
+  name: string;
+  email: string;
+}
+
+export interface IcsEvent {
+  uid: string; // Stable across updates so calendars replace the event instead of adding a new one
+  sequence: number; // Must increase with every update or cancellation
+  method: IcsMethod;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description: string;
+  location?: string;
+  url?: string;
+  organizer: IcsPerson;
+  attendees: IcsPerson[];
+}
+
+const PRODUCT_ID = '-//TopGrab//Interviews//EN';
+
+// 20261019T150000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Text values escape backslashes, semicolons, commas and newlines
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Parameter values (e.g. CN) can't contain quotes and are quoted when they contain separators
+function quoteParam(value: string): string {
+  const cleaned = value.replace(/"/g, "'");
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Builds a calendar file for one event. REQUEST adds or updates the event in the
+ * recipient's calendar; CANCEL removes it. Sent by email, it shows as an invite
+ * in most mail clients.
+ * @param event The event.
+ * @returns The .ics file content.
+ */
+export function buildIcsEvent(event: IcsEvent): string {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.method}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `ORGANIZER;CN=${quoteParam(event.organizer.name)}:mailto:${event.organizer.email}`,
+    ...event.attendees.map(
+      (attendee) => `ATTENDEE;CN=${quoteParam(attendee.name)};ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${attendee.email}`
+    ),
+    `STATUS:${event.method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
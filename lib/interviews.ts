@@ -0,0 +1,404 @@
+// lib/interviews.ts - Interview scheduling: input validation, formatting and invites for both sides
+
+import { randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+import Job from '@/lib/models/job';
+import JobSeeker from '@/lib/models/jobseeker';
+import Employer from '@/lib/models/employer';
+import Interview, { INTERVIEW_FORMATS, type IInterview, type InterviewFormat, type InterviewStatus } from '@/lib/models/interview';
+import { buildIcsEvent, type IcsMethod } from '@/lib/ics';
+import { sendInterviewEmail, type InterviewEmailEvent } from '@/lib/email';
+import { isEmailEnabled } from '@/lib/email-preferences';
+import { createNotifications, type NotificationInput } from '@/lib/notifications';
+import { jobBelongsToOrganization, requireOrganizationPermission } from '@/lib/organizations';
+import type { OrganizationPermission } from '@/lib/organization-roles';
+
+export const MAX_PROPOSED_SLOTS = 5;
+export const DEFAULT_INTERVIEW_MINUTES = 45;
+
+// An application has at most one interview in these statuses at a time
+export const ACTIVE_INTERVIEW_STATUSES: InterviewStatus[] = ['proposed', 'scheduled', 'reschedule_requested'];
+
+export const INTERVIEW_FORMAT_LABELS: Record<InterviewFormat, string> = {
+  phone: 'Phone call',
+  video: 'Video call',
+  onsite: 'On-site',
+};
+
+export interface InterviewDetailsInput {
+  format: InterviewFormat;
+  location: string;
+  interviewers: string[];
+  durationMinutes: number;
+  notes: string;
+  proposedSlots: Date[];
+}
+
+/**
+ * Validates interview details received from an employer. Slots must be in the
+ * future; duplicates are dropped and the rest are sorted.
+ * @param input The untrusted request body.
+ * @returns The accepted details, or an error message.
+ */
+export function sanitizeInterviewDetails(input: any): { details?: InterviewDetailsInput; error?: string } {
+  if (!INTERVIEW_FORMATS.includes(input?.format)) {
+    return { error: `Format must be one of: ${INTERVIEW_FORMATS.join(', ')}.` };
+  }
+
+  const location = typeof input.location === 'string' ? input.location.trim().slice(0, 500) : '';
+  if (!location) {
+    return {
+      error: input.format === 'onsite'
+        ? 'An address is required for on-site interviews.'
+        : input.format === 'video'
+          ? 'A meeting link is required for video interviews.'
+          : 'A phone number is required for phone interviews.',
+    };
+  }
+
+  const interviewers = (Array.isArray(input.interviewers) ? input.interviewers : [])
+    .filter((name: unknown): name is string => typeof name === 'string')
+    .map((name: string) => name.trim().slice(0, 100))
+    .filter(Boolean)
+    .slice(0, 10);
+
+  const durationMinutes = input.durationMinutes === undefined ? DEFAULT_INTERVIEW_MINUTES : Number(input.durationMinutes);
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 15 || durationMinutes > 480) {
+    return { error: 'Duration must be between 15 and 480 minutes.' };
+  }
+
+  const rawSlots = Array.isArray(input.proposedSlots) ? input.proposedSlots : [];
+  const slots = rawSlots.map((slot: unknown) => new Date(typeof slot === 'string' || typeof slot === 'number' ? slot : NaN));
+  if (slots.length === 0) {
+    return { error: 'Propose at least one time slot.' };
+  }
+  if (slots.some((slot: Date) => Number.isNaN(slot.getTime()))) {
+    return { error: 'Every time slot must be a valid date and time.' };
+  }
+  if (slots.some((slot: Date) => slot.getTime() <= Date.now())) {
+    return { error: 'Time slots must be in the future.' };
+  }
+  const proposedSlots = [...new Set<number>(slots.map((slot: Date) => slot.getTime()))]
+    .sort((a, b) => a - b)
+    .map((time) => new Date(time));
+  if (proposedSlots.length > MAX_PROPOSED_SLOTS) {
+    return { error: `Propose at most ${MAX_PROPOSED_SLOTS} time slots.` };
+  }
+
+  const notes = typeof input.notes === 'string' ? input.notes.trim().slice(0, 2000) : '';
+
+  return { details: { format: input.format, location, interviewers, durationMinutes, notes, proposedSlots } };
+}
+
+/**
+ * A fresh calendar UID for a new interview.
+ */
+export function newCalendarUid(): string {
+  return `interview-${randomUUID()}@topgrab`;
+}
+
+/**
+ * Transforms an interview document into the shape returned by the API.
+ */
+export function formatInterview(interview: any) {
+  return {
+    id: interview._id.toString(),
+    applicationId: interview.applicationId.toString(),
+    format: interview.format as InterviewFormat,
+    location: (interview.location || '') as string,
+    interviewers: (interview.interviewers || []) as string[],
+    durationMinutes: interview.durationMinutes as number,
+    notes: (interview.notes || '') as string,
+    status: interview.status as InterviewStatus,
+    proposedSlots: (interview.proposedSlots || []).map((slot: Date) => new Date(slot).toISOString()) as string[],
+    scheduledAt: interview.scheduledAt ? new Date(interview.scheduledAt).toISOString() : null,
+    rescheduleNote: (interview.rescheduleNote || '') as string,
+    cancelledBy: (interview.cancelledBy || null) as InterviewRole | null,
+    cancelReason: (interview.cancelReason || '') as string,
+    updatedAt: new Date(interview.updatedAt).toISOString(),
+  };
+}
+
+export type FormattedInterview = ReturnType<typeof formatInterview>;
+
+/**
+ * The most recent interview of each application, for including in application lists.
+ * @param applicationIds The applications.
+ * @returns The formatted interviews keyed by application id; applications without one are absent.
+ */
+export async function getLatestInterviews(applicationIds: unknown[]): Promise<Map<string, FormattedInterview>> {
+  const latest = new Map<string, FormattedInterview>();
+  if (applicationIds.length === 0) return latest;
+
+  const interviews = await Interview.find({ applicationId: { $in: applicationIds } }).sort({ createdAt: -1 }).lean<any[]>();
+  for (const interview of interviews) {
+    const key = interview.applicationId.toString();
+    if (!latest.has(key)) latest.set(key, formatInterview(interview));
+  }
+  return latest;
+}
+
+// Emails have no recipient timezone, so times are given in UTC; the attached invite shows local time
+function formatInterviewTime(date: Date): string {
+  return `${date.toLocaleString('en-US', { dateStyle: 'full', timeStyle: 'short', timeZone: 'UTC' })} UTC`;
+}
+
+export type InterviewRole = 'job-seeker' | 'employer';
+
+/**
+ * Loads an interview for one of its parties: the candidate, or a member of the
+ * organization that owns the job whose role allows the action.
+ * @param interviewId The interview id from the URL.
+ * @param user The signed-in user.
+ * @param permission What an employer is trying to do.
+ * @returns The interview document, or an error message with its HTTP status.
+ */
+export async function findInterviewForUser(
+  interviewId: string,
+  user: { id: mongoose.Types.ObjectId; role: InterviewRole },
+  permission: OrganizationPermission
+): Promise<{ interview: any } | { error: string; status: number }> {
+  if (user.role === 'job-seeker') {
+    const interview = await Interview.findOne({ _id: interviewId, jobSeekerId: user.id });
+    return interview ? { interview } : { error: 'Interview not found.', status: 404 };
+  }
+
+  const access = await requireOrganizationPermission(user.id, permission);
+  if ('error' in access) return access;
+
+  const interview = await Interview.findById(interviewId);
+  const job = interview ? await Job.findById(interview.jobId).select('organizationId').lean<any>() : null;
+  if (!interview || !jobBelongsToOrganization(job, access.membership)) {
+    return { error: 'Interview not found.', status: 404 };
+  }
+  return { interview };
+}
+
+interface InterviewParty {
+  id: unknown;
+  name: string;
+  firstName: string;
+  email: string;
+  emailPreferences?: Record<string, boolean>;
+}
+
+export interface InterviewContext {
+  jobTitle: string;
+  company: string;
+  candidate: InterviewParty;
+  employer: InterviewParty;
+}
+
+/**
+ * Loads the job and both parties of an interview, for invites and notifications.
+ */
+export async function loadInterviewContext(interview: IInterview): Promise<InterviewContext> {
+  const [job, jobSeeker, employer] = await Promise.all([
+    Job.findById(interview.jobId).select('title company').lean<any>(),
+    JobSeeker.findById(interview.jobSeekerId).select('firstName lastName email emailPreferences').lean<any>(),
+    Employer.findById(interview.employerId).select('firstName lastName name email emailPreferences').lean<any>(),
+  ]);
+
+  return {
+    jobTitle: job?.title || 'a job',
+    company: job?.company || employer?.name || 'The employer',
+    candidate: {
+      id: interview.jobSeekerId,
+      name: `${jobSeeker?.firstName || ''} ${jobSeeker?.lastName || ''}`.trim() || 'The candidate',
+      firstName: jobSeeker?.firstName || '',
+      email: jobSeeker?.email || '',
+      emailPreferences: jobSeeker?.emailPreferences,
+    },
+    employer: {
+      id: interview.employerId,
+      name: employer?.name || job?.company || `${employer?.firstName || ''} ${employer?.lastName || ''}`.trim(),
+      firstName: employer?.firstName || '',
+      email: employer?.email || '',
+      emailPreferences: employer?.emailPreferences,
+    },
+  };
+}
+
+/**
+ * Builds the calendar file for a scheduled interview, or its cancellation.
+ * @param interview The interview; its scheduled time and current calendar sequence are used.
+ * @param context The job and both parties.
+ * @param method REQUEST to add or update the event, CANCEL to remove it.
+ * @param scheduledAt The event's start, when it differs from interview.scheduledAt (e.g. cancelling the previous time).
+ */
+export function buildInterviewIcs(
+  interview: IInterview,
+  context: InterviewContext,
+  method: IcsMethod,
+  scheduledAt: Date | undefined = interview.scheduledAt
+): string | null {
+  if (!scheduledAt) return null;
+
+  const description = [
+    `Interview for ${context.jobTitle} at ${context.company} with ${context.candidate.name}.`,
+    `Format: ${INTERVIEW_FORMAT_LABELS[interview.format]}`,
+    interview.location ? `${interview.format === 'onsite' ? 'Address' : interview.format === 'video' ? 'Link' : 'Phone'}: ${interview.location}` : '',
+    interview.interviewers.length > 0 ? `Interviewers: ${interview.interviewers.join(', ')}` : '',
+    interview.notes,
+  ].filter(Boolean).join('\n');
+
+  return buildIcsEvent({
+    uid: interview.calendarUid,
+    sequence: interview.calendarSequence,
+    method,
+    start: new Date(scheduledAt),
+    durationMinutes: interview.durationMinutes,
+    summary: `Interview: ${context.jobTitle} (${context.company})`,
+    description,
+    location: interview.location,
+    url: interview.format === 'video' && /^https?:\/\//i.test(interview.location) ? interview.location : undefined,
+    organizer: { name: context.employer.name, email: context.employer.email || 'no-reply@topgrab.local' },
+    attendees: context.candidate.email ? [{ name: context.candidate.name, email: context.candidate.email }] : [],
+  });
+}
+
+// In-app notification text per update; "you" is the recipient
+const NOTIFICATION_TEXT: Record<InterviewEmailEvent, { title: string; message: (context: InterviewContext, role: InterviewRole) => string }> = {
+  proposed: {
+    title: 'Interview invitation',
+    message: (context) => `${context.company} wants to interview you for ${context.jobTitle}. Pick a time.`,
+  },
+  scheduled: {
+    title: 'Interview confirmed',
+    message: (context, role) => role === 'employer'
+      ? `${context.candidate.name} confirmed an interview for ${context.jobTitle}.`
+      : `Your interview for ${context.jobTitle} at ${context.company} is confirmed.`,
+  },
+  rescheduled: {
+    title: 'New interview times',
+    message: (context) => `${context.company} proposed new times for your ${context.jobTitle} interview.`,
+  },
+  reschedule_requested: {
+    title: 'Reschedule requested',
+    message: (context) => `${context.candidate.name} asked for new interview times for ${context.jobTitle}.`,
+  },
+  cancelled: {
+    title: 'Interview cancelled',
+    message: (context, role) => role === 'employer'
+      ? `The interview with ${context.candidate.name} for ${context.jobTitle} was cancelled.`
+      : `Your interview for ${context.jobTitle} at ${context.company} was cancelled.`,
+  },
+};
+
+/**
+ * Tells the parties about an interview update: an in-app notification, and an email
+ * (with the calendar file, if any) unless they opted out of interview emails.
+ * Failures are logged and swallowed so they never fail the update itself.
+ * @param interview The interview after the update.
+ * @param event What happened.
+ * @param context The job and both parties.
+ * @param options Who gets a notification, who gets the email (defaults to the same
+ * parties; the one who made the change still needs the calendar update), the
+ * calendar file to attach and an optional message.
+ */
+export async function notifyInterviewUpdate(
+  interview: IInterview,
+  event: InterviewEmailEvent,
+  context: InterviewContext,
+  options: {
+    notify: InterviewRole[];
+    email?: InterviewRole[];
+    ics?: { method: IcsMethod; content: string } | null;
+    note?: string;
+  }
+): Promise<void> {
+  const text = NOTIFICATION_TEXT[event];
+  const notifications: NotificationInput[] = options.notify.map((role) => ({
+    recipientId: role === 'employer' ? context.employer.id : context.candidate.id,
+    recipientRole: role,
+    type: 'interview_update',
+    title: text.title,
+    message: text.message(context, role),
+    link: role === 'employer' ? '/employer' : '/job-seeker/applications',
+    jobId: interview.jobId,
+    applicationId: interview.applicationId,
+  }));
+  await createNotifications(notifications);
+
+  const lines = [
+    interview.scheduledAt ? `When: ${formatInterviewTime(new Date(interview.scheduledAt))}` : '',
+    ...(interview.status !== 'scheduled' && interview.status !== 'cancelled' && interview.proposedSlots.length > 0
+      ? ['Proposed times:', ...interview.proposedSlots.map((slot) => `• ${formatInterviewTime(new Date(slot))}`)]
+      : []),
+    `Format: ${INTERVIEW_FORMAT_LABELS[interview.format]} (${interview.durationMinutes} min)`,
+    interview.status !== 'cancelled' && interview.location ? `Where: ${interview.location}` : '',
+    interview.interviewers.length > 0 ? `Interviewers: ${interview.interviewers.join(', ')}` : '',
+  ].filter(Boolean);
+
+  for (const role of options.email || options.notify) {
+    const party = role === 'employer' ? context.employer : context.candidate;
+    if (!party.email) continue;
+    if (!isEmailEnabled(role, party.emailPreferences, 'interviewUpdates')) {
+      console.log('🔕 Interview email skipped (opted out):', { recipientId: String(party.id), event });
+      continue;
+    }
+
+    try {
+      await sendInterviewEmail(party.email, party.firstName, {
+        event,
+        recipientRole: role,
+        jobTitle: context.jobTitle,
+        company: context.company,
+        candidateName: context.candidate.name,
+        lines,
+        note: options.note,
+        ics: options.ics || undefined,
+      });
+    } catch (error: any) {
+      console.error('❌ Error sending interview email:', error.message);
+    }
+  }
+}
+
+/**
+ * Cancels an interview and tells both parties. A scheduled interview is also removed
+ * from both calendars.
+ * @param interview The interview; nothing happens unless it is still active.
+ * @param cancelledBy Who cancelled it.
+ * @param reason An optional message for the other party.
+ * @returns The cancelled interview, or null if it was no longer active.
+ */
+export async function cancelInterview(
+  interview: IInterview,
+  cancelledBy: InterviewRole,
+  reason: string
+): Promise<IInterview | null> {
+  const cancelled = await Interview.findOneAndUpdate(
+    { _id: interview._id, status: interview.status },
+    {
+      $set: { status: 'cancelled', cancelledBy, cancelReason: reason },
+      $inc: { calendarSequence: 1 },
+    },
+    { new: true }
+  );
+  if (!cancelled) return null;
+
+  const context = await loadInterviewContext(cancelled);
+  const otherParty: InterviewRole = cancelledBy === 'employer' ? 'job-seeker' : 'employer';
+  const wasScheduled = interview.status === 'scheduled';
+  await notifyInterviewUpdate(cancelled, 'cancelled', context, {
+    notify: [otherParty],
+    // Both calendars have the event, so both get the cancellation
+    email: wasScheduled ? [otherParty, cancelledBy] : [otherParty],
+    ics: wasScheduled ? { method: 'CANCEL', content: buildInterviewIcs(cancelled, context, 'CANCEL', interview.scheduledAt)! } : null,
+    note: reason || undefined,
+  });
+
+  console.log('🗓️ Interview cancelled:', { interviewId: cancelled._id.toString(), cancelledBy });
+  return cancelled;
+}
+
+/**
+ * Cancels an application's active interview, if it has one (e.g. when the candidate is rejected).
+ */
+export async function cancelActiveInterview(applicationId: unknown, cancelledBy: InterviewRole, reason: string): Promise<void> {
+  const active = await Interview.findOne({ applicationId, status: { $in: ACTIVE_INTERVIEW_STATUSES } });
+  if (active) {
+    await cancelInterview(active, cancelledBy, reason);
+  }
+}
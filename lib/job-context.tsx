@@ -2,13 +2,17 @@
 
 import type React from "react"
 import { createContext, useContext, useState, useEffect } from "react"
+import { rankJobs, type SearchMatch } from "@/lib/job-search"
+import type { SalaryRange } from "@/lib/salary"
+import type { JobMatch } from "@/lib/job-match"
 
 export interface Job {
   id: number
   title: string
   company: string
   location: string
-  salary: string
+  salary: string // Display string, e.g. "$120k - $160k"
+  salaryRange?: SalaryRange | null
   type: string
   remote: boolean
   description: string
@@ -17,12 +21,23 @@ export interface Job {
   deadline?: string
   applicants: number
   status: "Active" | "Closed" | "Draft"
+  mongoId?: string // MongoDB ObjectId string for API calls
   employerId: number
+  employerMongoId?: string // Employer's MongoDB ObjectId string, for links to the company page
   category: string
   experience: string
   benefits: string[]
   companySize: string
   industry: string
+  searchMatch?: SearchMatch // Present when the job list was loaded with search text
+  match?: JobMatch // Present when a job seeker is signed in
+  recommendation?: JobRecommendation // Present on jobs from GET /api/jobs/recommended
+}
+
+// Why a job was put in the job seeker's "For you" feed
+export interface JobRecommendation {
+  score: number
+  reasons: string[]
 }
 
 export interface Application {
@@ -37,6 +52,19 @@ export interface Application {
   resume?: string
   coverLetter?: string
   rating: number
+  jobTitle?: string
+  company?: string
+}
+
+// A bookmarked job as returned by GET /api/saved-jobs
+export interface SavedJob {
+  jobId: number
+  mongoId: string
+  jobTitle: string
+  company: string
+  savedAt: string
+  availability: "Active" | "Closed" | "Unavailable" // Unavailable = unpublished or deleted
+  job: Job | null
 }
 
 export interface JobFilters {
@@ -45,23 +73,176 @@ export interface JobFilters {
   locations: string[]
   salaryMin: number
   salaryMax: number
+  matchSalaryExpectation: boolean // Only jobs overlapping the seeker's profile salary expectation
   remote: boolean
   experience: string[]
   categories: string[]
 }
 
+export type AlertFrequency = "instant" | "daily" | "weekly" | "off"
+
+// A named search with new-job alerts, as returned by GET /api/saved-searches
+export interface SavedSearch {
+  id: string
+  name: string
+  filters: JobFilters
+  alertFrequency: AlertFrequency
+  createdAt: string
+}
+
+// "relevance" ranks text searches by match quality; without search text the API falls back to newest
+export type JobSortOption = "relevance" | "newest" | "oldest" | "salary_high" | "salary_low"
+
+const JOB_SORT_OPTIONS: JobSortOption[] = ["relevance", "newest", "oldest", "salary_high", "salary_low"]
+
+// Everything that decides which jobs the dashboard lists; mirrored in the page URL
+export interface JobSearchState {
+  filters: JobFilters
+  sort: JobSortOption
+  page: number
+}
+
+export interface JobPagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+  hasNextPage: boolean
+}
+
+export const JOBS_PER_PAGE = 6
+
+// Upper bound of the salary slider; a salaryMax at this value means "no upper limit"
+export const MAX_SALARY_FILTER = 300000
+
+const defaultFilters: JobFilters = {
+  search: "",
+  jobTypes: [],
+  locations: [],
+  salaryMin: 0,
+  salaryMax: MAX_SALARY_FILTER,
+  matchSalaryExpectation: false,
+  remote: false,
+  experience: [],
+  categories: [],
+}
+
+// Saved searches store "no upper limit" as null rather than the slider's maximum
+function toSavedSearchFilters(filters: JobFilters) {
+  return { ...filters, salaryMax: filters.salaryMax >= MAX_SALARY_FILTER ? null : filters.salaryMax }
+}
+
+function fromSavedSearchFilters(saved: any): JobFilters {
+  return { ...defaultFilters, ...saved, salaryMax: saved?.salaryMax ?? MAX_SALARY_FILTER }
+}
+
+/**
+ * Builds the GET /api/jobs query string for the given filters, sort order and page.
+ */
+export function buildJobsQueryString(
+  filters: JobFilters,
+  sort: JobSortOption,
+  page: number,
+  limit: number = JOBS_PER_PAGE,
+): string {
+  const params = new URLSearchParams()
+  if (filters.search.trim()) params.set("search", filters.search.trim())
+  filters.jobTypes.forEach((type) => params.append("type", type))
+  filters.locations.forEach((location) => params.append("location", location))
+  if (filters.remote) params.set("remote", "true")
+  filters.experience.forEach((level) => params.append("experience", level))
+  filters.categories.forEach((category) => params.append("category", category))
+  if (filters.salaryMin > 0) params.set("salaryMin", String(filters.salaryMin))
+  if (filters.salaryMax < MAX_SALARY_FILTER) params.set("salaryMax", String(filters.salaryMax))
+  if (filters.matchSalaryExpectation) params.set("matchSalaryExpectation", "true")
+  if (sort !== "relevance") params.set("sort", sort)
+  params.set("page", String(page))
+  params.set("limit", String(limit))
+  return params.toString()
+}
+
+// De-duplicated and sorted so the same selection always encodes the same way
+function canonicalValues(values: string[]): string[] {
+  return Array.from(new Set(values.map((value) => value.trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b))
+}
+
+function parseUrlNumber(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed) : null
+}
+
+/**
+ * Encodes the dashboard's search state as a URL query string for bookmarking and sharing.
+ * The result is canonical: defaults are left out, parameters always appear in the same
+ * order and repeated values are de-duplicated and sorted, so equal searches give equal links.
+ * @returns The query string without a leading "?" (empty for the default search).
+ */
+export function buildJobSearchUrlQuery(filters: JobFilters, sort: JobSortOption, page: number): string {
+  const params = new URLSearchParams()
+  const search = filters.search.trim().replace(/\s+/g, " ")
+  if (search) params.set("q", search)
+  canonicalValues(filters.jobTypes).forEach((type) => params.append("type", type))
+  canonicalValues(filters.locations).forEach((location) => params.append("location", location))
+  if (filters.remote) params.set("remote", "true")
+  canonicalValues(filters.experience).forEach((level) => params.append("experience", level))
+  canonicalValues(filters.categories).forEach((category) => params.append("category", category))
+  if (filters.salaryMin > 0) params.set("salaryMin", String(Math.round(filters.salaryMin)))
+  if (filters.salaryMax < MAX_SALARY_FILTER) params.set("salaryMax", String(Math.round(filters.salaryMax)))
+  if (filters.matchSalaryExpectation) params.set("matchSalaryExpectation", "true")
+  if (sort !== "relevance") params.set("sort", sort)
+  if (page > 1) params.set("page", String(page))
+  return params.toString()
+}
+
+/**
+ * Reads a search state from a URL query string written by buildJobSearchUrlQuery.
+ * Missing or malformed values fall back to the defaults, so any link opens a valid search.
+ * @param params The page's URL search params.
+ * @returns The filters, sort order and page to show.
+ */
+export function parseJobSearchUrlQuery(params: URLSearchParams): JobSearchState {
+  const salaryMin = parseUrlNumber(params.get("salaryMin")) ?? 0
+  const salaryMax = parseUrlNumber(params.get("salaryMax"))
+  const sort = params.get("sort") as JobSortOption | null
+  const page = parseInt(params.get("page") || "", 10)
+
+  return {
+    filters: {
+      search: (params.get("q") || "").trim(),
+      jobTypes: canonicalValues(params.getAll("type")),
+      locations: canonicalValues(params.getAll("location")),
+      salaryMin: Math.min(salaryMin, MAX_SALARY_FILTER),
+      salaryMax: salaryMax === null ? MAX_SALARY_FILTER : Math.min(Math.max(salaryMax, salaryMin), MAX_SALARY_FILTER),
+      matchSalaryExpectation: params.get("matchSalaryExpectation") === "true",
+      remote: params.get("remote") === "true",
+      experience: canonicalValues(params.getAll("experience")),
+      categories: canonicalValues(params.getAll("category")),
+    },
+    sort: sort && JOB_SORT_OPTIONS.includes(sort) ? sort : "relevance",
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+  }
+}
+
 interface JobContextType {
   jobs: Job[]
   applications: Application[]
   savedJobs: number[]
+  savedJobList: SavedJob[]
   filters: JobFilters
+  sort: JobSortOption
+  page: number // Requested page; pagination.page is the page last returned by the API
+  pagination: JobPagination
   loading: boolean
+  recommendedJobs: Job[]
+  recommendationsLoading: boolean
+  savedSearches: SavedSearch[]
 
   // Job management
   addJob: (job: Omit<Job, "id" | "postedDate" | "applicants"> | Job) => void
-  updateJob: (id: number, updates: Partial<Job>) => void
   deleteJob: (id: number) => void
   refreshJobs: () => Promise<void>
+  fetchRecommendedJobs: () => Promise<void>
 
   // Application management
   applyToJob: (jobId: number, applicationData: Omit<Application, "id" | "appliedDate" | "status" | "rating">) => void
@@ -71,10 +252,19 @@ interface JobContextType {
   hasApplied: (jobId: number) => boolean
 
   // Job seeker actions
-  toggleSaveJob: (jobId: number) => void
+  toggleSaveJob: (jobId: number) => Promise<void>
+
+  // Saved searches (these throw with the API's message when a request fails)
+  saveCurrentSearch: (name: string, alertFrequency: AlertFrequency) => Promise<void>
+  applySavedSearch: (id: string) => void
+  updateSavedSearchAlerts: (id: string, alertFrequency: AlertFrequency) => Promise<void>
+  deleteSavedSearch: (id: string) => Promise<void>
 
   // Search and filtering
   updateFilters: (newFilters: Partial<JobFilters>) => void
+  updateSort: (sort: JobSortOption) => void
+  setPage: (page: number) => void
+  restoreSearchState: (state: JobSearchState) => void
   getFilteredJobs: () => Job[]
   searchJobs: (query: string) => Job[]
 
@@ -104,38 +294,31 @@ function stringIdToNumber(id: string): number {
   return Math.abs(hash) || 1000000 + Math.floor(Math.random() * 1000000) // Ensure positive number, fallback if 0
 }
 
-function parseSalaryValue(salary: string): number {
-  if (!salary) return 0
-  const match = salary.toLowerCase().match(/(\d+(?:\.\d+)?)(\s*[km])?/)
-  if (!match) return 0
-  let value = parseFloat(match[1])
-  const unit = match[2]?.trim()
-  if (unit === 'k') value *= 1000
-  else if (unit === 'm') value *= 1000000
-  return Math.round(value)
-}
-
 export function JobProvider({ children }: { children: React.ReactNode }) {
   const [jobs, setJobs] = useState<Job[]>([])
   const [applications, setApplications] = useState<Application[]>([])
-  const [savedJobs, setSavedJobs] = useState<number[]>([])
+  const [savedJobList, setSavedJobList] = useState<SavedJob[]>([])
+  const savedJobs = savedJobList.map((saved) => saved.jobId)
   const [loading, setLoading] = useState(true)
-  const [filters, setFilters] = useState<JobFilters>({
-    search: "",
-    jobTypes: [],
-    locations: [],
-    salaryMin: 0,
-    salaryMax: 300000,
-    remote: false,
-    experience: [],
-    categories: [],
+  const [filters, setFilters] = useState<JobFilters>(defaultFilters)
+  const [sort, setSort] = useState<JobSortOption>("relevance")
+  const [page, setPageState] = useState(1)
+  const [pagination, setPagination] = useState<JobPagination>({
+    page: 1,
+    limit: JOBS_PER_PAGE,
+    total: 0,
+    totalPages: 1,
+    hasNextPage: false,
   })
+  const [recommendedJobs, setRecommendedJobs] = useState<Job[]>([])
+  const [recommendationsLoading, setRecommendationsLoading] = useState(false)
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
 
-  // Function to fetch jobs from database only (no mock data)
+  // Function to fetch the current page of jobs from the database (filtered and paginated server-side)
   const fetchCustomJobs = async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/jobs', {
+      const response = await fetch(`/api/jobs?${buildJobsQueryString(filters, sort, page)}`, {
         credentials: 'include',
         cache: 'no-store', // Always fetch fresh data from database
       })
@@ -144,20 +327,24 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
         // Check if response is JSON before parsing
         const contentType = response.headers.get('content-type')
         if (contentType && contentType.includes('application/json')) {
-          const dbJobs = await response.json()
+          const data = await response.json()
           
           // Convert database jobs to match Job interface
           // Keep MongoDB ObjectId as mongoId for API calls, but use numeric ID for frontend compatibility
-          const formattedJobs: Job[] = dbJobs.map((job: any) => ({
+          const formattedJobs: Job[] = (data.jobs || []).map((job: any) => ({
             ...job,
             id: stringIdToNumber(job.id), // Convert MongoDB _id string to numeric ID for frontend
             mongoId: job.id, // Keep original MongoDB ObjectId string for API calls
             employerId: stringIdToNumber(job.employerId || '0'), // Convert employerId too
+            employerMongoId: job.employerId || '',
           }))
 
           // Only use database jobs - no mock data
           setJobs(formattedJobs)
-          console.log(`✅ Loaded ${formattedJobs.length} jobs from database`)
+          if (data.pagination) {
+            setPagination(data.pagination)
+          }
+          console.log(`✅ Loaded ${formattedJobs.length} of ${data.pagination?.total ?? formattedJobs.length} jobs from database`)
         } else {
           // Response is not JSON (might be HTML redirect)
           const text = await response.text()
@@ -167,14 +354,18 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
           } else {
             // Try to parse as JSON anyway
             try {
-              const dbJobs = JSON.parse(text)
-              const formattedJobs: Job[] = dbJobs.map((job: any) => ({
+              const data = JSON.parse(text)
+              const formattedJobs: Job[] = (data.jobs || []).map((job: any) => ({
                 ...job,
                 id: stringIdToNumber(job.id),
                 mongoId: job.id,
                 employerId: stringIdToNumber(job.employerId || '0'),
+                employerMongoId: job.employerId || '',
               }))
               setJobs(formattedJobs)
+              if (data.pagination) {
+                setPagination(data.pagination)
+              }
             } catch {
               setJobs([])
             }
@@ -287,6 +478,8 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
               status: app.status || 'Pending',
               appliedDate: app.appliedDate || new Date().toISOString().split('T')[0],
               rating: app.rating || 0,
+              jobTitle: app.jobTitle,
+              company: app.company,
             }
           })
 
@@ -307,10 +500,14 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  // Fetch custom jobs from database on mount
+  // Fetch jobs on mount and whenever the filters, sort order or page change.
+  // Debounced so typing in the search box doesn't fire a request per keystroke.
   useEffect(() => {
-    fetchCustomJobs()
-  }, [])
+    const timeoutId = setTimeout(() => {
+      fetchCustomJobs()
+    }, 300)
+    return () => clearTimeout(timeoutId)
+  }, [filters, sort, page])
 
   // Fetch applications when jobs are loaded (so we can map jobIds correctly)
   useEffect(() => {
@@ -319,6 +516,129 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
     }
   }, [jobs]) // Re-fetch when jobs change
 
+  // Saved jobs live on the job seeker's profile so they follow the user across devices
+  const fetchSavedJobs = async () => {
+    try {
+      const response = await fetch('/api/saved-jobs', {
+        credentials: 'include',
+        cache: 'no-store',
+      })
+
+      const contentType = response.headers.get('content-type')
+      if (!response.ok || !contentType || !contentType.includes('application/json')) {
+        // Not signed in as a job seeker - nothing to show
+        setSavedJobList([])
+        return
+      }
+
+      const data = await response.json()
+      const formattedSavedJobs: SavedJob[] = (data.savedJobs || []).map((saved: any) => ({
+        jobId: stringIdToNumber(saved.jobId),
+        mongoId: saved.jobId,
+        jobTitle: saved.jobTitle,
+        company: saved.company,
+        savedAt: saved.savedAt,
+        availability: saved.availability,
+        job: saved.job
+          ? {
+              ...saved.job,
+              id: stringIdToNumber(saved.job.id),
+              mongoId: saved.job.id,
+              employerId: stringIdToNumber(saved.job.employerId || '0'),
+              employerMongoId: saved.job.employerId || '',
+            }
+          : null,
+      }))
+      setSavedJobList(formattedSavedJobs)
+    } catch (error) {
+      console.error('Error fetching saved jobs:', error)
+    }
+  }
+
+  const formatSavedSearch = (savedSearch: any): SavedSearch => ({
+    ...savedSearch,
+    filters: fromSavedSearchFilters(savedSearch.filters),
+  })
+
+  // Saved searches keep filter combinations across reloads and devices
+  const fetchSavedSearches = async () => {
+    try {
+      const response = await fetch('/api/saved-searches', {
+        credentials: 'include',
+        cache: 'no-store',
+      })
+
+      const contentType = response.headers.get('content-type')
+      if (!response.ok || !contentType || !contentType.includes('application/json')) {
+        // Not signed in as a job seeker - nothing to show
+        setSavedSearches([])
+        return
+      }
+
+      const data = await response.json()
+      setSavedSearches((data.savedSearches || []).map(formatSavedSearch))
+    } catch (error) {
+      console.error('Error fetching saved searches:', error)
+    }
+  }
+
+  // Load saved jobs on mount and re-sync when the tab regains focus (e.g. after saving on another device)
+  useEffect(() => {
+    fetchSavedJobs()
+    fetchSavedSearches()
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        fetchSavedJobs()
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [])
+
+  // Personalized "For you" feed for the signed-in job seeker
+  const fetchRecommendedJobs = async () => {
+    try {
+      setRecommendationsLoading(true)
+      const response = await fetch('/api/jobs/recommended', {
+        credentials: 'include',
+        cache: 'no-store',
+      })
+
+      const contentType = response.headers.get('content-type')
+      if (!response.ok || !contentType || !contentType.includes('application/json')) {
+        // Not signed in as a job seeker - nothing to recommend
+        setRecommendedJobs([])
+        return
+      }
+
+      const data = await response.json()
+      const formattedJobs: Job[] = (data.jobs || []).map((job: any) => ({
+        ...job,
+        id: stringIdToNumber(job.id),
+        mongoId: job.id,
+        employerId: stringIdToNumber(job.employerId || '0'),
+        employerMongoId: job.employerId || '',
+      }))
+      setRecommendedJobs(formattedJobs)
+      console.log(`✅ Loaded ${formattedJobs.length} recommended jobs`)
+    } catch (error) {
+      console.error('Error fetching recommended jobs:', error)
+    } finally {
+      setRecommendationsLoading(false)
+    }
+  }
+
+  // Looks a job up in every list a job seeker can act from: the current page, recommendations and saved jobs
+  const findKnownJob = (jobId: number): Job | undefined => {
+    return (
+      jobs.find((j) => j.id === jobId) ||
+      recommendedJobs.find((j) => j.id === jobId) ||
+      savedJobList.find((saved) => saved.jobId === jobId)?.job ||
+      undefined
+    )
+  }
+
   // Refresh jobs function (can be called after posting a new job)
   const refreshJobs = async () => {
     await fetchCustomJobs()
@@ -357,10 +677,6 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
     })
   }
 
-  const updateJob = (id: number, updates: Partial<Job>) => {
-    setJobs((prev) => prev.map((job) => (job.id === id ? { ...job, ...updates } : job)))
-  }
-
   const deleteJob = (id: number) => {
     setJobs((prev) => prev.filter((job) => job.id !== id))
     setApplications((prev) => prev.filter((app) => app.jobId !== id))
@@ -372,8 +688,8 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
     applicationData: Omit<Application, "id" | "appliedDate" | "status" | "rating">,
   ) => {
     try {
-      // Find the job in the current jobs list to get its MongoDB ObjectId
-      const job = jobs.find((j) => j.id === jobId);
+      // Find the job in the loaded lists to get its MongoDB ObjectId
+      const job = findKnownJob(jobId);
       
       if (!job) {
         throw new Error(`Job with ID ${jobId} not found in current jobs list. Please refresh the page.`);
@@ -508,79 +824,137 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
   }
 
   // Job seeker functions
-  const toggleSaveJob = (jobId: number) => {
-    setSavedJobs((prev) => (prev.includes(jobId) ? prev.filter((id) => id !== jobId) : [...prev, jobId]))
-  }
+  // Optimistically toggles a bookmark, then persists it; the change is rolled back if the API call fails
+  const toggleSaveJob = async (jobId: number) => {
+    const existing = savedJobList.find((saved) => saved.jobId === jobId)
+    const job = findKnownJob(jobId)
+    const mongoJobId = existing?.mongoId || job?.mongoId
 
-  // Search and filtering functions
-  const updateFilters = (newFilters: Partial<JobFilters>) => {
-    setFilters((prev) => ({ ...prev, ...newFilters }))
-  }
-
-  const getFilteredJobs = (): Job[] => {
-    return jobs.filter((job) => {
-      // Search filter
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase()
-        const matchesSearch =
-          job.title.toLowerCase().includes(searchLower) ||
-          job.company.toLowerCase().includes(searchLower) ||
-          job.requirements.some((req) => req.toLowerCase().includes(searchLower)) ||
-          job.location.toLowerCase().includes(searchLower)
-
-        if (!matchesSearch) return false
-      }
+    if (!mongoJobId) {
+      console.error('Cannot save job without a MongoDB id:', jobId)
+      return
+    }
 
-      // Job type filter
-      if (filters.jobTypes.length > 0 && !filters.jobTypes.includes(job.type)) {
-        return false
+    const previousList = savedJobList
+    if (existing) {
+      setSavedJobList((prev) => prev.filter((saved) => saved.jobId !== jobId))
+    } else if (job) {
+      const optimisticEntry: SavedJob = {
+        jobId,
+        mongoId: mongoJobId,
+        jobTitle: job.title,
+        company: job.company,
+        savedAt: new Date().toISOString(),
+        availability: job.status === 'Active' ? 'Active' : 'Closed',
+        job,
       }
+      setSavedJobList((prev) => [optimisticEntry, ...prev])
+    }
 
-      // Location filter
-      if (filters.locations.length > 0) {
-        const matchesLocation = filters.locations.some(
-          (loc) => job.location.includes(loc) || (loc === "Remote" && job.remote),
-        )
-        if (!matchesLocation) return false
-      }
+    try {
+      const response = existing
+        ? await fetch(`/api/saved-jobs?jobId=${encodeURIComponent(mongoJobId)}`, {
+            method: 'DELETE',
+            credentials: 'include',
+          })
+        : await fetch('/api/saved-jobs', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ jobId: mongoJobId }),
+          })
 
-      // Remote filter
-      if (filters.remote && !job.remote) {
-        return false
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.message || 'Failed to update saved jobs')
       }
+    } catch (error) {
+      console.error('Error updating saved jobs:', error)
+      setSavedJobList(previousList)
+    }
+  }
 
-      // Experience filter
-      if (filters.experience.length > 0 && !filters.experience.includes(job.experience)) {
-        return false
-      }
+  // Saved search functions
+  const saveCurrentSearch = async (name: string, alertFrequency: AlertFrequency) => {
+    const response = await fetch('/api/saved-searches', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ name, alertFrequency, filters: toSavedSearchFilters(filters) }),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to save search')
+    }
+    setSavedSearches((prev) => [formatSavedSearch(data.savedSearch), ...prev])
+  }
 
-      // Category filter
-      if (filters.categories.length > 0 && !filters.categories.includes(job.category)) {
-        return false
-      }
+  const applySavedSearch = (id: string) => {
+    const savedSearch = savedSearches.find((search) => search.id === id)
+    if (!savedSearch) return
+    setFilters(savedSearch.filters)
+    setPageState(1)
+  }
 
-      // Salary filter
-      const jobSalaryMin = parseSalaryValue(job.salary)
-      if (filters.salaryMin > 0 && jobSalaryMin < filters.salaryMin) {
-        return false
-      }
+  const updateSavedSearchAlerts = async (id: string, alertFrequency: AlertFrequency) => {
+    const response = await fetch(`/api/saved-searches/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ alertFrequency }),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to update alerts')
+    }
+    setSavedSearches((prev) => prev.map((search) => (search.id === id ? formatSavedSearch(data.savedSearch) : search)))
+  }
 
-      return true
+  const deleteSavedSearch = async (id: string) => {
+    const response = await fetch(`/api/saved-searches/${id}`, {
+      method: 'DELETE',
+      credentials: 'include',
     })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.message || 'Failed to delete saved search')
+    }
+    setSavedSearches((prev) => prev.filter((search) => search.id !== id))
+  }
+
+  // Search and filtering functions
+  // Changing filters or sort order always starts again from the first page
+  const updateFilters = (newFilters: Partial<JobFilters>) => {
+    setFilters((prev) => ({ ...prev, ...newFilters }))
+    setPageState(1)
+  }
+
+  const updateSort = (newSort: JobSortOption) => {
+    setSort(newSort)
+    setPageState(1)
   }
 
+  const setPage = (newPage: number) => {
+    setPageState(Math.max(1, newPage))
+  }
+
+  // Replaces filters, sort order and page together, e.g. from the URL or the back button
+  const restoreSearchState = (state: JobSearchState) => {
+    setFilters(state.filters)
+    setSort(state.sort)
+    setPageState(Math.max(1, state.page))
+  }
+
+  // Jobs are filtered and paginated by GET /api/jobs, so the loaded page is already the filtered result
+  const getFilteredJobs = (): Job[] => {
+    return jobs
+  }
+
+  // Ranks the loaded jobs with the same relevance scoring GET /api/jobs uses
   const searchJobs = (query: string): Job[] => {
     if (!query.trim()) return jobs
 
-    const searchLower = query.toLowerCase()
-    return jobs.filter(
-      (job) =>
-        job.title.toLowerCase().includes(searchLower) ||
-        job.company.toLowerCase().includes(searchLower) ||
-        job.requirements.some((req) => req.toLowerCase().includes(searchLower)) ||
-        job.location.toLowerCase().includes(searchLower) ||
-        job.description.toLowerCase().includes(searchLower),
-    )
+    return rankJobs(jobs, query).map(({ job, match }) => ({ ...job, searchMatch: match }))
   }
 
   // Analytics functions
@@ -609,19 +983,33 @@ export function JobProvider({ children }: { children: React.ReactNode }) {
     jobs,
     applications,
     savedJobs,
+    savedJobList,
     filters,
+    sort,
+    page,
+    pagination,
     loading,
+    recommendedJobs,
+    recommendationsLoading,
+    savedSearches,
     addJob,
-    updateJob,
     deleteJob,
     refreshJobs,
+    fetchRecommendedJobs,
     applyToJob,
     updateApplicationStatus,
     rateApplicant,
     removeApplication,
     hasApplied,
     toggleSaveJob,
+    saveCurrentSearch,
+    applySavedSearch,
+    updateSavedSearchAlerts,
+    deleteSavedSearch,
     updateFilters,
+    updateSort,
+    setPage,
+    restoreSearchState,
     getFilteredJobs,
     searchJobs,
     getJobStats,
@@ -0,0 +1,110 @@
+// lib/job-lifecycle.ts - Time-based job status transitions (scheduled publishing, deadline closing)
+
+import { after } from 'next/server';
+import Job from '@/lib/models/job';
+import { createNotifications } from '@/lib/notifications';
+import { getJobTeamRecipients } from '@/lib/organizations';
+import { alertSavedSearchesForJobs } from '@/lib/saved-search-alerts';
+
+interface ExpiredJob {
+  _id: unknown;
+  title: string;
+  employerId: unknown;
+  organizationId?: unknown;
+}
+
+/**
+ * Publishes every Draft job whose scheduled publish time has passed. The job's
+ * postedDate becomes its scheduled time so it sorts as if it was posted then.
+ * Saved searches matching the published jobs are alerted once the response is sent.
+ * @returns The number of jobs published.
+ */
+export async function publishScheduledJobs(): Promise<number> {
+  const now = new Date();
+  const dueJobs = await Job.find({ status: 'Draft', publishAt: { $ne: null, $lte: now } })
+    .select('_id publishAt')
+    .lean<{ _id: unknown; publishAt: Date }[]>();
+
+  if (dueJobs.length === 0) return 0;
+
+  const publishedIds: unknown[] = [];
+  for (const job of dueJobs) {
+    // Re-check the state so a job unpublished in the meantime is left alone, and
+    // concurrent requests only publish (and alert) once
+    const result = await Job.updateOne(
+      { _id: job._id, status: 'Draft', publishAt: job.publishAt },
+      { $set: { status: 'Active', postedDate: job.publishAt, publishAt: null } }
+    );
+    if (result.modifiedCount > 0) publishedIds.push(job._id);
+  }
+
+  if (publishedIds.length > 0) {
+    console.log(`📣 Published ${publishedIds.length} scheduled job(s).`);
+    after(() => alertSavedSearchesForJobs(publishedIds));
+  }
+  return publishedIds.length;
+}
+
+/**
+ * Closes every Active job whose application deadline has passed and notifies
+ * the members of each job's team who manage jobs that it stopped accepting applications.
+ * @returns The number of jobs closed.
+ */
+export async function closeExpiredJobs(): Promise<number> {
+  const now = new Date();
+  const expiredJobs = await Job.find({
+    status: 'Active',
+    deadline: { $exists: true, $nin: [null, ''] },
+    $expr: {
+      $lt: [{ $dateFromString: { dateString: "$deadline" } }, now]
+    }
+  })
+    .select('_id title employerId organizationId')
+    .lean<ExpiredJob[]>()
+    .catch(() => {
+      // Fallback: simpler date comparison if $dateFromString fails
+      const todayStr = now.toISOString().split('T')[0];
+      return Job.find({
+        status: 'Active',
+        deadline: { $exists: true, $nin: [null, ''], $lt: todayStr }
+      })
+        .select('_id title employerId organizationId')
+        .lean<ExpiredJob[]>();
+    });
+
+  if (expiredJobs.length === 0) return 0;
+
+  const closedJobs: ExpiredJob[] = [];
+  for (const job of expiredJobs) {
+    // Re-check the status so concurrent requests only close (and notify) once
+    const result = await Job.updateOne({ _id: job._id, status: 'Active' }, { $set: { status: 'Closed' } });
+    if (result.modifiedCount > 0) closedJobs.push(job);
+  }
+
+  if (closedJobs.length > 0) {
+    console.log(`⏰ Closed ${closedJobs.length} job(s) past their deadline.`);
+    const recipientsByJob = await Promise.all(closedJobs.map((job) => getJobTeamRecipients(job, 'manage_jobs')));
+    await createNotifications(
+      closedJobs.flatMap((job, index) =>
+        recipientsByJob[index].map((recipientId) => ({
+          recipientId,
+          recipientRole: 'employer' as const,
+          type: 'job_closed' as const,
+          title: 'Job closed',
+          message: `${job.title} reached its application deadline and is no longer accepting applications.`,
+          link: '/employer',
+          jobId: job._id,
+        }))
+      )
+    );
+  }
+  return closedJobs.length;
+}
+
+/**
+ * Applies all time-based status transitions. Called before jobs are listed.
+ */
+export async function syncJobStatuses(): Promise<void> {
+  await publishScheduledJobs();
+  await closeExpiredJobs();
+}
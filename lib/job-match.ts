@@ -0,0 +1,219 @@
+// lib/job-match.ts - Explainable match scores between a job seeker profile and a job posting
+
+import { stem, tokenize } from '@/lib/job-search';
+import {
+  annualizeSalaryRange,
+  formatSalaryRange,
+  parseSalaryExpectation,
+  parseSalaryText,
+  salaryRangesOverlap,
+  type SalaryRange,
+} from '@/lib/salary';
+
+// --------------------------------------------------
+// 1. TYPES & CONFIGURATION
+// --------------------------------------------------
+
+export interface MatchCandidate {
+  skills?: string[];
+  location?: string;
+  salaryExpectation?: string;
+  availability?: string;
+}
+
+export interface MatchJob {
+  requirements?: string[];
+  location?: string;
+  remote?: boolean;
+  salary?: string;
+  salaryRange?: SalaryRange | null;
+  type?: string;
+}
+
+export type LocationFit = 'remote' | 'same_city' | 'same_region' | 'different' | 'unknown';
+export type SalaryFit = 'within' | 'above' | 'below' | 'unknown';
+export type AvailabilityFit = 'available' | 'unavailable' | 'unknown';
+
+export interface JobMatch {
+  score: number; // 0-100
+  matchedSkills: string[]; // Candidate skills that cover at least one requirement
+  missingSkills: string[]; // Requirements none of the candidate's skills cover
+  location: { fit: LocationFit; label: string };
+  salary: { fit: SalaryFit; label: string };
+  availability: { fit: AvailabilityFit; label: string };
+}
+
+// Points per factor; a factor that can't be judged (missing data) earns half its points
+export const MATCH_WEIGHTS = {
+  skills: 60,
+  location: 20,
+  salary: 15,
+  availability: 5,
+};
+
+const LOCATION_POINTS: Record<LocationFit, number> = {
+  remote: 1,
+  same_city: 1,
+  same_region: 0.6,
+  different: 0,
+  unknown: 0.5,
+};
+
+const SALARY_POINTS: Record<SalaryFit, number> = {
+  within: 1,
+  above: 1,
+  below: 0,
+  unknown: 0.5,
+};
+
+const AVAILABILITY_POINTS: Record<AvailabilityFit, number> = {
+  available: 1,
+  unavailable: 0,
+  unknown: 0.5,
+};
+
+const JOB_TYPES = ['full-time', 'part-time', 'contract', 'internship', 'freelance', 'temporary'];
+
+// --------------------------------------------------
+// 2. FACTORS
+// --------------------------------------------------
+
+function stems(text: string): string[] {
+  return tokenize(text).map((token) => stem(token.canonical));
+}
+
+// True when every word of the skill appears, in order, in the requirement ("React" covers "3+ years of React")
+function skillCoversRequirement(skill: string[], requirement: string[]): boolean {
+  if (skill.length === 0 || skill.length > requirement.length) return false;
+  for (let start = 0; start + skill.length <= requirement.length; start++) {
+    if (skill.every((word, offset) => requirement[start + offset] === word)) return true;
+  }
+  return false;
+}
+
+function matchSkills(skills: string[], requirements: string[]) {
+  const skillStems = skills.map((skill) => ({ skill, stems: stems(skill) }));
+  const matched = new Set<string>();
+  const missing: string[] = [];
+
+  for (const requirement of requirements) {
+    const requirementStems = stems(requirement);
+    const covering = skillStems.filter(({ stems: skill }) => skillCoversRequirement(skill, requirementStems));
+    if (covering.length === 0) {
+      missing.push(requirement);
+    }
+    covering.forEach(({ skill }) => matched.add(skill));
+  }
+
+  return { matchedSkills: Array.from(matched), missingSkills: missing };
+}
+
+function locationParts(location: string): string[] {
+  return location
+    .toLowerCase()
+    .split(/[,/|]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+function matchLocation(candidateLocation: string, job: MatchJob): JobMatch['location'] {
+  if (job.remote) {
+    return { fit: 'remote', label: 'Remote role' };
+  }
+
+  const jobParts = locationParts(job.location || '');
+  const candidateParts = locationParts(candidateLocation);
+  if (jobParts.length === 0 || candidateParts.length === 0) {
+    return { fit: 'unknown', label: 'Location not specified' };
+  }
+  if (/\bremote\b/i.test(candidateLocation) && !/\bremote\b/i.test(job.location || '')) {
+    return { fit: 'different', label: `On-site in ${job.location}; candidate prefers remote` };
+  }
+  if (jobParts[0] === candidateParts[0]) {
+    return { fit: 'same_city', label: `Based in ${job.location}` };
+  }
+  if (jobParts.some((part) => candidateParts.includes(part))) {
+    return { fit: 'same_region', label: `Same region as ${job.location}` };
+  }
+  return { fit: 'different', label: `On-site in ${job.location}; candidate is in ${candidateLocation.trim()}` };
+}
+
+function matchSalary(salaryExpectation: string, job: MatchJob): JobMatch['salary'] {
+  const expectation = parseSalaryExpectation(salaryExpectation);
+  const offered = job.salaryRange ?? parseSalaryText(job.salary);
+  if (!expectation || !offered) {
+    return { fit: 'unknown', label: expectation ? 'Salary not listed' : 'No salary expectation' };
+  }
+  if (expectation.currency !== offered.currency) {
+    return { fit: 'unknown', label: 'Salary in a different currency' };
+  }
+
+  const expected = formatSalaryRange(expectation);
+  if (salaryRangesOverlap(expectation, offered)) {
+    return { fit: 'within', label: `Salary fits expectation (${expected})` };
+  }
+
+  // No overlap: the job pays either entirely above or entirely below what the candidate expects
+  const annualOffered = annualizeSalaryRange(offered);
+  const annualExpected = annualizeSalaryRange(expectation);
+  if (annualOffered && annualExpected && annualOffered.min > annualExpected.max) {
+    return { fit: 'above', label: `Pays above expectation (${expected})` };
+  }
+  return { fit: 'below', label: `Pays below expectation (${expected})` };
+}
+
+function matchAvailability(availability: string, job: MatchJob): JobMatch['availability'] {
+  const text = availability.trim().toLowerCase().replace(/\s+/g, '-');
+  if (!text) {
+    return { fit: 'unknown', label: 'Availability not specified' };
+  }
+  if (/not-(looking|available)|unavailable|employed-not/.test(text)) {
+    return { fit: 'unavailable', label: `Availability: ${availability.trim()}` };
+  }
+
+  // "Part-time only" or "Open to contract roles" limit which job types fit
+  const wantedTypes = JOB_TYPES.filter((type) => text.includes(type));
+  const jobType = (job.type || '').toLowerCase().replace(/\s+/g, '-');
+  if (wantedTypes.length > 0 && jobType && !wantedTypes.includes(jobType)) {
+    return { fit: 'unavailable', label: `Looking for ${wantedTypes.join(' or ')} work` };
+  }
+  return { fit: 'available', label: `Availability: ${availability.trim()}` };
+}
+
+// --------------------------------------------------
+// 3. SCORING
+// --------------------------------------------------
+
+/**
+ * Scores how well a job seeker fits a job. Skills are matched against the job's
+ * requirements (synonyms and word forms are handled as in job search), and location,
+ * salary and availability are compared with the posting.
+ * @param candidate The job seeker's profile fields.
+ * @param job The job's fields.
+ * @returns The 0-100 score with the reasons behind it.
+ */
+export function computeJobMatch(candidate: MatchCandidate, job: MatchJob): JobMatch {
+  const requirements = (job.requirements || []).map((requirement) => requirement.trim()).filter(Boolean);
+  const skills = (candidate.skills || []).map((skill) => skill.trim()).filter(Boolean);
+
+  const { matchedSkills, missingSkills } = matchSkills(skills, requirements);
+  const location = matchLocation(candidate.location || '', job);
+  const salary = matchSalary(candidate.salaryExpectation || '', job);
+  const availability = matchAvailability(candidate.availability || '', job);
+
+  const skillRatio = requirements.length > 0 ? (requirements.length - missingSkills.length) / requirements.length : 0.5;
+  const score =
+    MATCH_WEIGHTS.skills * skillRatio +
+    MATCH_WEIGHTS.location * LOCATION_POINTS[location.fit] +
+    MATCH_WEIGHTS.salary * SALARY_POINTS[salary.fit] +
+    MATCH_WEIGHTS.availability * AVAILABILITY_POINTS[availability.fit];
+
+  return {
+    score: Math.round(score),
+    matchedSkills,
+    missingSkills,
+    location,
+    salary,
+    availability,
+  };
+}
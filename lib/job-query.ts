@@ -0,0 +1,347 @@
+// lib/job-query.ts - Query parsing and aggregation helpers for the public job listing
+
+import type { PipelineStage } from 'mongoose';
+import Job from '@/lib/models/job';
+import { parseSearchQuery, rankJobs, type SearchMatch } from '@/lib/job-search';
+import { ANNUALIZATION_FACTORS, DEFAULT_SALARY_CURRENCY, annualizeSalaryRange, type SalaryRange } from '@/lib/salary';
+
+// --------------------------------------------------
+// 1. CONFIGURATION
+// --------------------------------------------------
+
+// "relevance" only applies to text searches; without search text it falls back to "newest"
+export const JOB_SORT_OPTIONS = ['relevance', 'newest', 'oldest', 'salary_high', 'salary_low'] as const;
+export type JobSortOption = (typeof JOB_SORT_OPTIONS)[number];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+export interface JobListQuery {
+  search: string;
+  types: string[];
+  locations: string[];
+  remote: boolean;
+  experience: string[];
+  categories: string[];
+  salaryMin: number; // yearly amount
+  salaryMax: number | null; // yearly amount
+  salaryCurrency: string;
+  matchSalaryExpectation: boolean; // resolved against the signed-in job seeker's profile by the route
+  sort: JobSortOption;
+  page: number;
+  limit: number;
+}
+
+// --------------------------------------------------
+// 2. QUERY STRING PARSING
+// --------------------------------------------------
+
+/**
+ * Reads every value of a repeated query parameter, dropping empty entries.
+ * Values are not split on commas because locations such as "Austin, TX" contain them.
+ */
+function getAllValues(searchParams: URLSearchParams, key: string): string[] {
+  return searchParams
+    .getAll(key)
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function parseNonNegativeNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Parses the query string of GET /api/jobs into a normalized query object.
+ * Unknown or malformed values fall back to defaults instead of failing the request.
+ * @param searchParams The URL search params of the incoming request.
+ * @returns The normalized job list query.
+ */
+export function parseJobListQuery(searchParams: URLSearchParams): JobListQuery {
+  const sortParam = searchParams.get('sort') as JobSortOption | null;
+  const limit = Math.min(parsePositiveInt(searchParams.get('limit'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const search = (searchParams.get('search') || '').trim();
+
+  let sort: JobSortOption = sortParam && JOB_SORT_OPTIONS.includes(sortParam) ? sortParam : 'relevance';
+  if (sort === 'relevance' && !search) {
+    sort = 'newest';
+  }
+
+  return {
+    search,
+    types: getAllValues(searchParams, 'type'),
+    locations: getAllValues(searchParams, 'location'),
+    remote: searchParams.get('remote') === 'true',
+    experience: getAllValues(searchParams, 'experience'),
+    categories: getAllValues(searchParams, 'category'),
+    salaryMin: parseNonNegativeNumber(searchParams.get('salaryMin')) ?? 0,
+    salaryMax: parseNonNegativeNumber(searchParams.get('salaryMax')),
+    salaryCurrency: /^[A-Za-z]{3}$/.test(searchParams.get('currency') || '')
+      ? (searchParams.get('currency') as string).toUpperCase()
+      : DEFAULT_SALARY_CURRENCY,
+    matchSalaryExpectation: searchParams.get('matchSalaryExpectation') === 'true',
+    sort,
+    page: parsePositiveInt(searchParams.get('page'), 1),
+    limit,
+  };
+}
+
+// --------------------------------------------------
+// 3. MONGODB FILTER & PIPELINE BUILDING
+// --------------------------------------------------
+
+/**
+ * Escapes user input so it can be embedded safely in a regular expression.
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function exactMatchAny(values: string[]): { $in: RegExp[] } {
+  return { $in: values.map((value) => new RegExp(`^${escapeRegex(value)}$`, 'i')) };
+}
+
+/**
+ * Narrows the salary filter of a query to the range a job seeker expects, so only
+ * jobs whose salary range overlaps the expectation are returned.
+ * @param query The normalized job list query (modified in place).
+ * @param expectation The job seeker's parsed salary expectation.
+ */
+export function applySalaryExpectation(query: JobListQuery, expectation: SalaryRange): void {
+  const annual = annualizeSalaryRange(expectation);
+  if (!annual) return;
+
+  query.salaryCurrency = expectation.currency;
+  query.salaryMin = Math.max(query.salaryMin, expectation.min === null ? 0 : annual.min);
+  if (expectation.max !== null) {
+    query.salaryMax = query.salaryMax === null ? annual.max : Math.min(query.salaryMax, annual.max);
+  }
+}
+
+/**
+ * Builds the $match filter for a job list query. Search text is not part of it
+ * (see lib/job-search.ts), and neither is salary, which needs the computed yearly amounts.
+ * @param query The normalized job list query.
+ * @returns A MongoDB filter document.
+ */
+export function buildJobListFilter(query: JobListQuery): Record<string, any> {
+  const conditions: Record<string, any>[] = [{ status: 'Active' }];
+
+  if (query.types.length > 0) {
+    conditions.push({ type: exactMatchAny(query.types) });
+  }
+
+  if (query.locations.length > 0) {
+    // "Remote" as a location means any remote job, matching the old client-side behaviour
+    const locationConditions: Record<string, any>[] = query.locations.map((location) => ({
+      location: new RegExp(escapeRegex(location), 'i'),
+    }));
+    if (query.locations.some((location) => location.toLowerCase() === 'remote')) {
+      locationConditions.push({ remote: true });
+    }
+    conditions.push({ $or: locationConditions });
+  }
+
+  if (query.remote) {
+    conditions.push({ remote: true });
+  }
+
+  if (query.experience.length > 0) {
+    conditions.push({ experience: exactMatchAny(query.experience) });
+  }
+
+  if (query.categories.length > 0) {
+    conditions.push({ category: exactMatchAny(query.categories) });
+  }
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+/**
+ * Adds yearly salary bounds (salaryAnnualMin/salaryAnnualMax) computed from the structured
+ * salaryRange, plus sort keys that place jobs without a salary last in either direction.
+ */
+function annualSalaryStages(): PipelineStage[] {
+  return [
+    {
+      $addFields: {
+        _salaryFactor: {
+          $switch: {
+            branches: [
+              { case: { $eq: ['$salaryRange.period', 'hourly'] }, then: ANNUALIZATION_FACTORS.hourly },
+              { case: { $eq: ['$salaryRange.period', 'monthly'] }, then: ANNUALIZATION_FACTORS.monthly },
+            ],
+            default: ANNUALIZATION_FACTORS.yearly,
+          },
+        },
+      },
+    },
+    {
+      $addFields: {
+        salaryAnnualMin: { $multiply: ['$salaryRange.min', '$_salaryFactor'] },
+        salaryAnnualMax: { $multiply: ['$salaryRange.max', '$_salaryFactor'] },
+      },
+    },
+    {
+      $addFields: {
+        _salarySortHigh: { $ifNull: ['$salaryAnnualMax', { $ifNull: ['$salaryAnnualMin', -1] }] },
+        _salarySortLow: { $ifNull: ['$salaryAnnualMin', { $ifNull: ['$salaryAnnualMax', Number.MAX_VALUE] }] },
+      },
+    },
+  ];
+}
+
+// Computed fields that should not leak into API responses
+const COMPUTED_SALARY_FIELDS = {
+  _salaryFactor: 0,
+  _salarySortHigh: 0,
+  _salarySortLow: 0,
+  salaryAnnualMin: 0,
+  salaryAnnualMax: 0,
+} as const;
+
+/**
+ * Builds the salary overlap condition: a job matches when its yearly range overlaps
+ * [salaryMin, salaryMax] in the requested currency. Jobs without a salary never match.
+ */
+function buildSalaryFilter(query: JobListQuery): Record<string, any> | null {
+  if (query.salaryMin <= 0 && query.salaryMax === null) return null;
+
+  const conditions: Record<string, any>[] = [
+    { 'salaryRange.currency': query.salaryCurrency },
+    { $or: [{ salaryAnnualMin: { $ne: null } }, { salaryAnnualMax: { $ne: null } }] },
+  ];
+
+  if (query.salaryMin > 0) {
+    // Open-ended ranges ("$120k+") have no upper bound
+    conditions.push({ $or: [{ salaryAnnualMax: null }, { salaryAnnualMax: { $gte: query.salaryMin } }] });
+  }
+  if (query.salaryMax !== null) {
+    conditions.push({ $or: [{ salaryAnnualMin: null }, { salaryAnnualMin: { $lte: query.salaryMax } }] });
+  }
+
+  return { $and: conditions };
+}
+
+export function sortStage(sort: JobSortOption): Record<string, 1 | -1> {
+  switch (sort) {
+    case 'oldest':
+      return { postedDate: 1, _id: 1 };
+    case 'salary_high':
+      return { _salarySortHigh: -1, postedDate: -1, _id: -1 };
+    case 'salary_low':
+      return { _salarySortLow: 1, postedDate: -1, _id: -1 };
+    case 'newest':
+    case 'relevance':
+    default:
+      return { postedDate: -1, _id: -1 };
+  }
+}
+
+/**
+ * Builds the filtering stages shared by the listing and search pipelines.
+ * Matching documents carry the computed yearly salary fields.
+ * @param query The normalized job list query.
+ * @returns The aggregation pipeline stages.
+ */
+export function buildJobMatchStages(query: JobListQuery): PipelineStage[] {
+  const salaryFilter = buildSalaryFilter(query);
+  const stages: PipelineStage[] = [
+    { $match: buildJobListFilter(query) },
+    ...annualSalaryStages(),
+  ];
+
+  if (salaryFilter) {
+    stages.push({ $match: salaryFilter });
+  }
+
+  return stages;
+}
+
+/**
+ * Builds the aggregation pipeline for a job list query without search text.
+ * The pipeline returns a single document of shape { jobs: [...], total: [{ count }] }.
+ * @param query The normalized job list query.
+ * @returns The aggregation pipeline stages.
+ */
+export function buildJobListPipeline(query: JobListQuery): PipelineStage[] {
+  const pipeline = buildJobMatchStages(query);
+
+  pipeline.push({
+    $facet: {
+      jobs: [
+        { $sort: sortStage(query.sort) },
+        { $skip: (query.page - 1) * query.limit },
+        { $limit: query.limit },
+        { $project: COMPUTED_SALARY_FIELDS },
+      ],
+      total: [{ $count: 'count' }],
+    },
+  });
+
+  return pipeline;
+}
+
+// --------------------------------------------------
+// 4. QUERY EXECUTION
+// --------------------------------------------------
+
+export interface JobListResult {
+  jobs: any[]; // lean job documents for the requested page
+  total: number;
+  searchMatches: Map<string, SearchMatch>; // keyed by job _id, only populated for text searches
+}
+
+/**
+ * Runs a job list query. Without search text, filtering, sorting and pagination all
+ * happen in MongoDB. With search text, the filtered candidates' text fields are ranked
+ * in-process (see lib/job-search.ts) and only the requested page is loaded in full.
+ * @param query The normalized job list query.
+ * @returns The page of jobs, the total match count and per-job search matches.
+ */
+export async function runJobListQuery(query: JobListQuery): Promise<JobListResult> {
+  if (parseSearchQuery(query.search).length === 0) {
+    const [result] = await Job.aggregate(buildJobListPipeline(query));
+    return {
+      jobs: result?.jobs || [],
+      total: result?.total?.[0]?.count || 0,
+      searchMatches: new Map(),
+    };
+  }
+
+  // Candidates come back in the requested sort order (newest first for relevance),
+  // which also serves as the tie-break between equally relevant jobs
+  const candidates = await Job.aggregate([
+    ...buildJobMatchStages(query),
+    { $sort: sortStage(query.sort) },
+    { $project: { title: 1, company: 1, description: 1, requirements: 1, location: 1 } },
+  ]);
+
+  const ranked = rankJobs(candidates, query.search);
+  const searchMatches = new Map<string, SearchMatch>(
+    ranked.map(({ job, match }) => [job._id.toString(), match])
+  );
+
+  const orderedIds = query.sort === 'relevance'
+    ? ranked.map(({ job }) => job._id.toString())
+    : candidates.map((job: any) => job._id.toString()).filter((id: string) => searchMatches.has(id));
+
+  const start = (query.page - 1) * query.limit;
+  const pageIds = orderedIds.slice(start, start + query.limit);
+
+  const pageJobs = await Job.find({ _id: { $in: pageIds } }).lean();
+  const jobsById = new Map(pageJobs.map((job: any) => [job._id.toString(), job]));
+
+  return {
+    jobs: pageIds.map((id) => jobsById.get(id)).filter(Boolean),
+    total: orderedIds.length,
+    searchMatches,
+  };
+}
@@ -0,0 +1,173 @@
+// lib/job-recommendations.ts - Personalized job recommendations for job seekers
+
+import Application from '@/lib/models/application';
+import Job from '@/lib/models/job';
+import JobSeeker from '@/lib/models/jobseeker';
+import { computeJobMatch, type JobMatch } from '@/lib/job-match';
+import { stem, tokenize } from '@/lib/job-search';
+
+// --------------------------------------------------
+// 1. TYPES & CONFIGURATION
+// --------------------------------------------------
+
+export interface JobRecommendation {
+  job: any; // Lean job document
+  match: JobMatch;
+  score: number;
+  reasons: string[]; // Why the job was suggested, strongest first
+}
+
+const CANDIDATE_POOL_SIZE = 300; // Most recent active jobs considered
+const RECENT_DAYS = 7;
+const MIN_SCORE = 20;
+const SAVED_BOOST = 10;
+
+// Words that say nothing about the kind of role
+const TITLE_STOPWORDS = new Set(['and', 'or', 'of', 'the', 'for', 'with', 'a', 'an', 'to', 'in', 'at', 'i', 'ii', 'iii']);
+
+// --------------------------------------------------
+// 2. HELPERS
+// --------------------------------------------------
+
+function titleStems(title: string): Set<string> {
+  return new Set(
+    tokenize(title || '')
+      .map((token) => stem(token.canonical))
+      .filter((word) => !TITLE_STOPWORDS.has(word))
+  );
+}
+
+// Share of the job title's words that also appear in the other title
+function titleOverlap(jobTitle: Set<string>, other: Set<string>): number {
+  if (jobTitle.size === 0 || other.size === 0) return 0;
+  let shared = 0;
+  jobTitle.forEach((word) => {
+    if (other.has(word)) shared++;
+  });
+  return shared / Math.max(jobTitle.size, other.size);
+}
+
+interface HistoryJob {
+  id: string;
+  title: string;
+  titleStems: Set<string>;
+  category: string;
+  source: 'saved' | 'applied';
+}
+
+// --------------------------------------------------
+// 3. RANKING
+// --------------------------------------------------
+
+/**
+ * Ranks open jobs for a job seeker. Each job's match score (skills, location, salary,
+ * availability) is combined with how close it is to the seeker's title and to jobs they
+ * saved or applied to, plus a small boost for new postings and for jobs they saved. Jobs
+ * the seeker applied to, and jobs that aren't open, are left out.
+ * @param jobSeekerId The job seeker's id.
+ * @param limit The maximum number of recommendations.
+ * @returns Recommendations, best first, each with the reasons it was suggested.
+ */
+export async function recommendJobs(jobSeekerId: string, limit: number): Promise<JobRecommendation[]> {
+  const jobSeeker = await JobSeeker.findById(jobSeekerId)
+    .select('skills title location salaryExpectation availability savedJobs appliedJobs')
+    .lean<any>();
+  if (!jobSeeker) return [];
+
+  const applications = await Application.find({ jobSeekerId: jobSeeker._id }).select('jobId').lean<any[]>();
+  const appliedIds = new Set<string>([
+    ...applications.map((application) => application.jobId.toString()),
+    ...(jobSeeker.appliedJobs || []).map((applied: any) => applied.jobId?.toString()),
+  ]);
+  const savedIds = new Set<string>((jobSeeker.savedJobs || []).map((saved: any) => saved.jobId.toString()));
+
+  // Saved and applied jobs describe what the seeker is interested in
+  const historyJobs = await Job.find({ _id: { $in: [...Array.from(appliedIds), ...Array.from(savedIds)] } })
+    .select('title category')
+    .lean<any[]>();
+  const history: HistoryJob[] = historyJobs.map((job) => ({
+    id: job._id.toString(),
+    title: job.title,
+    titleStems: titleStems(job.title),
+    category: (job.category || '').toLowerCase(),
+    source: appliedIds.has(job._id.toString()) ? 'applied' : 'saved',
+  }));
+
+  const candidates = await Job.find({ status: 'Active', _id: { $nin: Array.from(appliedIds) } })
+    .sort({ postedDate: -1 })
+    .limit(CANDIDATE_POOL_SIZE)
+    .lean<any[]>();
+
+  const seekerTitle = titleStems(jobSeeker.title || '');
+  const recentCutoff = Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+
+  const recommendations = candidates.map((job): JobRecommendation => {
+    const jobId = job._id.toString();
+    const match = computeJobMatch(jobSeeker, job);
+    const jobTitle = titleStems(job.title);
+    const reasons: Array<{ weight: number; text: string }> = [];
+
+    // Profile fit carries most of the score
+    let score = match.score * 0.6;
+    if (match.matchedSkills.length > 0) {
+      const shown = match.matchedSkills.slice(0, 3).join(', ');
+      reasons.push({
+        weight: match.matchedSkills.length * 5,
+        text: `Matches ${match.matchedSkills.length === 1 ? 'your skill' : `${match.matchedSkills.length} of your skills`}: ${shown}`,
+      });
+    }
+
+    const titleFit = titleOverlap(jobTitle, seekerTitle);
+    if (titleFit > 0) {
+      score += titleFit * 15;
+      reasons.push({ weight: titleFit * 15, text: `Similar to your title "${jobSeeker.title}"` });
+    }
+
+    // Closest other saved or applied job, by title and category
+    let bestHistory: { fit: number; job: HistoryJob } | null = null;
+    for (const past of history) {
+      if (past.id === jobId) continue;
+      const fit = titleOverlap(jobTitle, past.titleStems) * 0.7 + (past.category && past.category === (job.category || '').toLowerCase() ? 0.3 : 0);
+      if (fit > (bestHistory?.fit ?? 0)) bestHistory = { fit, job: past };
+    }
+    if (bestHistory && bestHistory.fit >= 0.3) {
+      score += bestHistory.fit * 20;
+      reasons.push({
+        weight: bestHistory.fit * 20,
+        text: `Similar to "${bestHistory.job.title}", which you ${bestHistory.job.source === 'applied' ? 'applied to' : 'saved'}`,
+      });
+    }
+
+    if (savedIds.has(jobId)) {
+      score += SAVED_BOOST;
+      reasons.push({ weight: SAVED_BOOST, text: "You saved this job and haven't applied yet" });
+    }
+
+    if (match.location.fit === 'same_city' || match.location.fit === 'same_region') {
+      reasons.push({ weight: 4, text: `Near you: ${job.location}` });
+    } else if (match.location.fit === 'remote') {
+      reasons.push({ weight: 2, text: 'Remote' });
+    }
+    if (match.salary.fit === 'within' || match.salary.fit === 'above') {
+      reasons.push({ weight: 3, text: 'Pays what you expect' });
+    }
+
+    if (job.postedDate && new Date(job.postedDate).getTime() >= recentCutoff) {
+      score += 5;
+      reasons.push({ weight: 1, text: 'Posted this week' });
+    }
+
+    return {
+      job,
+      match,
+      score: Math.round(score),
+      reasons: reasons.sort((a, b) => b.weight - a.weight).map((reason) => reason.text),
+    };
+  });
+
+  // A job needs a personal reason to be recommended; recency alone is not enough
+  return recommendations
+    .filter((recommendation) => recommendation.score >= MIN_SCORE && recommendation.reasons.some((reason) => reason !== 'Posted this week'))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,429 @@
+// lib/job-search.ts - Full-text job search: tokenizing, stemming, synonyms, fuzzy matching and ranking
+//
+// Pure functions with no database access, so the same ranking can run in API routes
+// and in the browser (e.g. JobProvider.searchJobs).
+
+// --------------------------------------------------
+// 1. CONFIGURATION
+// --------------------------------------------------
+
+export type SearchField = 'title' | 'company' | 'requirements' | 'description' | 'location';
+
+// How much a match in each field contributes to the relevance score
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  requirements: 3,
+  company: 2,
+  location: 1,
+  description: 1,
+};
+
+// Match quality multipliers, best to worst
+const MATCH_QUALITY = {
+  exact: 1, // same canonical term (includes synonyms such as JS -> JavaScript)
+  stem: 0.8, // same stem (developer / development)
+  prefix: 0.6, // last query term typed so far (reac -> react)
+  fuzzy1: 0.5, // one edit away (pyhton -> python)
+  fuzzy2: 0.3, // two edits away, long terms only
+};
+
+// Bonus added when the whole query appears verbatim in the title
+const TITLE_PHRASE_BONUS = 3;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'with', 'we', 'you', 'our', 'your',
+]);
+
+// Each group maps every variant to the first (canonical) entry
+const SYNONYM_GROUPS: string[][] = [
+  ['javascript', 'js', 'ecmascript', 'es6'],
+  ['typescript', 'ts'],
+  ['python', 'py'],
+  ['golang', 'go'],
+  ['kubernetes', 'k8s'],
+  ['postgresql', 'postgres', 'psql'],
+  ['mongodb', 'mongo'],
+  ['csharp', 'c#'],
+  ['cplusplus', 'c++', 'cpp'],
+  ['dotnet', '.net'],
+  ['frontend', 'front end'],
+  ['backend', 'back end'],
+  ['fullstack', 'full stack'],
+  ['devops', 'dev ops'],
+  ['ml', 'machine learning'],
+  ['ai', 'artificial intelligence'],
+  ['ux', 'user experience'],
+  ['ui', 'user interface'],
+  ['qa', 'quality assurance'],
+  ['aws', 'amazon web services'],
+  ['gcp', 'google cloud'],
+  ['senior', 'sr'],
+  ['junior', 'jr'],
+];
+
+const SYNONYMS = new Map<string, string>();
+const PHRASE_SYNONYMS = new Map<string, string>(); // "front end" -> "frontend"
+for (const group of SYNONYM_GROUPS) {
+  const canonical = group[0];
+  for (const variant of group) {
+    if (variant.includes(' ')) {
+      PHRASE_SYNONYMS.set(variant, canonical);
+    } else {
+      SYNONYMS.set(variant, canonical);
+    }
+  }
+}
+
+// Ordered longest-first so "ations" wins over "s"
+const SUFFIXES = ['ations', 'ation', 'ments', 'ment', 'ings', 'ing', 'ers', 'er', 'ies', 'ied', 'ed', 'es', 's', 'ly'];
+
+// --------------------------------------------------
+// 2. TYPES
+// --------------------------------------------------
+
+export type HighlightRange = [number, number];
+
+export interface SearchToken {
+  surface: string; // original text as it appears in the document
+  canonical: string; // lowercased, synonym-resolved form
+  stem: string;
+  start: number;
+  end: number;
+}
+
+export interface SearchTerm {
+  canonical: string;
+  stem: string;
+  isLast: boolean; // the last term may be incomplete while typing
+}
+
+export interface SearchableJob {
+  title: string;
+  company: string;
+  description: string;
+  requirements: string[];
+  location?: string;
+}
+
+export interface SearchMatch {
+  score: number;
+  matchedTerms: string[]; // surface forms found in the job, for display
+  // Keyed by field path: "title", "company", "description", "location" or "requirements.<index>"
+  highlights: Record<string, HighlightRange[]>;
+}
+
+// --------------------------------------------------
+// 3. TEXT NORMALIZATION
+// --------------------------------------------------
+
+/**
+ * Light English stemmer: strips common suffixes (up to two passes) and a trailing "e",
+ * so developer/developing/development and service/services collapse to one stem.
+ */
+export function stem(term: string): string {
+  if (term.length <= 3 || /[^a-z]/.test(term)) return term;
+
+  let result = term;
+  for (let pass = 0; pass < 2; pass++) {
+    if (result.endsWith('ss')) break;
+    const suffix = SUFFIXES.find((s) => result.endsWith(s) && result.length - s.length >= 3);
+    if (!suffix) break;
+    result = result.slice(0, -suffix.length) + (suffix === 'ies' || suffix === 'ied' ? 'y' : '');
+  }
+  if (result.length > 3 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+/**
+ * Maps a lowercased word to its canonical form: "reactjs"/"react.js" -> "react",
+ * "js" -> "javascript", etc.
+ */
+export function canonicalize(word: string): string {
+  let term = word.toLowerCase();
+  if (SYNONYMS.has(term)) return SYNONYMS.get(term)!;
+
+  // Framework names are often written with a js suffix: reactjs, node.js, vue.js
+  const jsSuffix = term.match(/^([a-z][a-z0-9]+?)\.?js$/);
+  if (jsSuffix && jsSuffix[1].length >= 3) {
+    term = jsSuffix[1];
+  }
+  return SYNONYMS.get(term) || term;
+}
+
+/**
+ * Splits text into tokens, keeping character offsets so matches can be highlighted.
+ * Adjacent words that form a known phrase ("front end") are merged into one token.
+ */
+export function tokenize(text: string): SearchToken[] {
+  const raw: SearchToken[] = [];
+  const wordPattern = /[a-z0-9][a-z0-9+#]*(?:\.[a-z0-9]+)*[+#]*|\.net\b/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    const surface = match[0];
+    const canonical = canonicalize(surface);
+    raw.push({ surface, canonical, stem: stem(canonical), start: match.index, end: match.index + surface.length });
+  }
+
+  const tokens: SearchToken[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const next = raw[i + 1];
+    if (next) {
+      const phrase = PHRASE_SYNONYMS.get(`${raw[i].surface.toLowerCase()} ${next.surface.toLowerCase()}`);
+      // Only merge words separated by whitespace or a hyphen
+      if (phrase && /^[\s-]+$/.test(text.slice(raw[i].end, next.start))) {
+        tokens.push({
+          surface: text.slice(raw[i].start, next.end),
+          canonical: phrase,
+          stem: stem(phrase),
+          start: raw[i].start,
+          end: next.end,
+        });
+        i++;
+        continue;
+      }
+    }
+    tokens.push(raw[i]);
+  }
+  return tokens;
+}
+
+/**
+ * Parses a user query into de-duplicated search terms, dropping stopwords.
+ * @param query The raw search text.
+ * @returns The terms to match; empty if the query has no meaningful words.
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const tokens = tokenize(query || '').filter((token) => !STOPWORDS.has(token.canonical));
+  const seen = new Set<string>();
+  const terms: SearchTerm[] = [];
+
+  tokens.forEach((token, index) => {
+    if (seen.has(token.canonical)) return;
+    seen.add(token.canonical);
+    terms.push({ canonical: token.canonical, stem: token.stem, isLast: index === tokens.length - 1 });
+  });
+  return terms;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent
+ * transpositions ("pyhton" -> "python" is one edit). Abandons early once it exceeds maxDistance.
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Short terms get no typo tolerance; longer terms allow one or two edits
+function allowedEdits(term: string): number {
+  if (term.length < 5) return 0;
+  if (term.length < 9) return 1;
+  return 2;
+}
+
+/**
+ * Scores how well a single document token matches a query term (0 = no match).
+ */
+function matchQuality(term: SearchTerm, token: SearchToken): number {
+  if (token.canonical === term.canonical) return MATCH_QUALITY.exact;
+  if (token.stem === term.stem) return MATCH_QUALITY.stem;
+  if (term.isLast && term.canonical.length >= 2 && token.canonical.startsWith(term.canonical)) {
+    return MATCH_QUALITY.prefix;
+  }
+
+  const maxEdits = allowedEdits(term.canonical);
+  if (maxEdits === 0 || /[^a-z]/.test(term.canonical)) return 0;
+  const distance = editDistance(term.canonical, token.canonical, maxEdits);
+  if (distance > maxEdits) return 0;
+  if (distance === 1) return MATCH_QUALITY.fuzzy1;
+  if (distance === 2) return MATCH_QUALITY.fuzzy2;
+  return 0;
+}
+
+// --------------------------------------------------
+// 4. SCORING & RANKING
+// --------------------------------------------------
+
+/**
+ * Scores a job against parsed query terms.
+ * Short queries (one or two terms) must match every term; longer ones at least 60% of them.
+ * @param job The job's searchable fields.
+ * @param terms Terms from parseSearchQuery.
+ * @param rawQuery The original query text, used for the exact-phrase title bonus.
+ * @returns The match with score and highlight ranges, or null if the job doesn't match.
+ */
+export function scoreJob(job: SearchableJob, terms: SearchTerm[], rawQuery: string = ''): SearchMatch | null {
+  if (terms.length === 0) return null;
+
+  const fields: Array<{ path: string; field: SearchField; tokens: SearchToken[] }> = [
+    { path: 'title', field: 'title', tokens: tokenize(job.title || '') },
+    { path: 'company', field: 'company', tokens: tokenize(job.company || '') },
+    { path: 'description', field: 'description', tokens: tokenize(job.description || '') },
+    { path: 'location', field: 'location', tokens: tokenize(job.location || '') },
+    ...(job.requirements || []).map((requirement, index) => ({
+      path: `requirements.${index}`,
+      field: 'requirements' as SearchField,
+      tokens: tokenize(requirement || ''),
+    })),
+  ];
+
+  let score = 0;
+  let matchedTermCount = 0;
+  const matchedTerms = new Set<string>();
+  const highlights: Record<string, HighlightRange[]> = {};
+
+  for (const term of terms) {
+    let termScore = 0;
+    const bestPerField = new Map<SearchField, number>();
+
+    for (const { path, field, tokens } of fields) {
+      for (const token of tokens) {
+        const quality = matchQuality(term, token);
+        if (quality === 0) continue;
+
+        bestPerField.set(field, Math.max(bestPerField.get(field) || 0, quality));
+        matchedTerms.add(token.surface);
+        (highlights[path] = highlights[path] || []).push([token.start, token.end]);
+      }
+    }
+
+    // A term counts once per field, so long descriptions don't drown out the title
+    bestPerField.forEach((quality, field) => {
+      termScore += FIELD_WEIGHTS[field] * quality;
+    });
+
+    if (termScore > 0) {
+      matchedTermCount++;
+      score += termScore;
+    }
+  }
+
+  const minimumMatches = terms.length <= 2 ? terms.length : Math.ceil(terms.length * 0.6);
+  if (matchedTermCount < minimumMatches) return null;
+
+  // Favour jobs that cover more of the query
+  score *= matchedTermCount / terms.length;
+
+  const phrase = rawQuery.trim().toLowerCase();
+  if (phrase.length > 0 && (job.title || '').toLowerCase().includes(phrase)) {
+    score += TITLE_PHRASE_BONUS;
+  }
+
+  Object.keys(highlights).forEach((path) => {
+    highlights[path] = mergeRanges(highlights[path]);
+  });
+
+  return {
+    score: Math.round(score * 100) / 100,
+    matchedTerms: Array.from(matchedTerms),
+    highlights,
+  };
+}
+
+/**
+ * Ranks jobs for a query, dropping non-matches. Ties keep the input order, so
+ * callers can pre-sort (e.g. newest first) to get a sensible tie-break.
+ * @param jobs The candidate jobs.
+ * @param query The raw search text.
+ * @returns Matching jobs with their search match, best first.
+ */
+export function rankJobs<T extends SearchableJob>(jobs: T[], query: string): Array<{ job: T; match: SearchMatch }> {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return [];
+
+  return jobs
+    .map((job, index) => ({ job, index, match: scoreJob(job, terms, query) }))
+    .filter((result): result is { job: T; index: number; match: SearchMatch } => result.match !== null)
+    .sort((a, b) => b.match.score - a.match.score || a.index - b.index)
+    .map(({ job, match }) => ({ job, match }));
+}
+
+// --------------------------------------------------
+// 5. HIGHLIGHT HELPERS
+// --------------------------------------------------
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: HighlightRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Splits text into plain and highlighted segments for rendering.
+ * @param text The field text.
+ * @param ranges Highlight ranges for that field (from SearchMatch.highlights).
+ * @returns Segments in order; `match` is true for highlighted parts.
+ */
+export function splitHighlights(text: string, ranges: HighlightRange[] = []): Array<{ text: string; match: boolean }> {
+  const segments: Array<{ text: string; match: boolean }> = [];
+  let cursor = 0;
+  for (const [start, end] of mergeRanges(ranges)) {
+    if (start < cursor || end > text.length) continue;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+}
+
+/**
+ * Cuts a window of text around the first highlight, e.g. for a description preview.
+ * @param text The full text.
+ * @param ranges Highlight ranges within the text.
+ * @param radius Characters to keep on each side of the first match.
+ * @returns The snippet and its highlight ranges re-based to the snippet.
+ */
+export function buildSnippet(
+  text: string,
+  ranges: HighlightRange[] = [],
+  radius: number = 60
+): { text: string; ranges: HighlightRange[] } {
+  if (ranges.length === 0) {
+    const cut = text.length > radius * 2 ? `${text.slice(0, radius * 2).trimEnd()}…` : text;
+    return { text: cut, ranges: [] };
+  }
+
+  const start = Math.max(0, ranges[0][0] - radius);
+  const end = Math.min(text.length, ranges[0][1] + radius);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    ranges: ranges
+      .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+      .map(([rangeStart, rangeEnd]) => [rangeStart + offset, rangeEnd + offset] as HighlightRange),
+  };
+}
@@ -0,0 +1,205 @@
+// lib/messages.ts - Employer–candidate message threads, one per application
+
+import mongoose from 'mongoose';
+import Application from '@/lib/models/application';
+import Job from '@/lib/models/job';
+import Message, { MAX_MESSAGE_LENGTH } from '@/lib/models/message';
+import Notification from '@/lib/models/notification';
+import { createNotifications } from '@/lib/notifications';
+import { getJobTeamRecipients, jobBelongsToOrganization, requireOrganizationPermission } from '@/lib/organizations';
+import type { OrganizationPermission } from '@/lib/organization-roles';
+
+export type MessageRole = 'job-seeker' | 'employer';
+
+export interface ThreadParticipant {
+  id: mongoose.Types.ObjectId;
+  role: MessageRole;
+}
+
+export interface MessageThread {
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  jobTitle: string;
+  company: string;
+  applicantName: string;
+  jobSeekerId: mongoose.Types.ObjectId;
+  employerId: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId | null;
+}
+
+/**
+ * Loads an application's thread for a user. Only the application's job seeker and
+ * members of the organization that owns the job may access it.
+ * @param applicationId The application id from the URL.
+ * @param user The signed-in user.
+ * @param permission What an employer is trying to do.
+ * @returns The thread, or an error message with its HTTP status.
+ */
+export async function getMessageThread(
+  applicationId: string,
+  user: ThreadParticipant,
+  permission: OrganizationPermission = 'view'
+): Promise<{ thread: MessageThread } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+    return { error: 'Invalid application ID.', status: 400 };
+  }
+
+  const application = await Application.findById(applicationId).select('jobId jobSeekerId applicantName').lean<any>();
+  if (!application) {
+    return { error: 'Application not found.', status: 404 };
+  }
+
+  const job = await Job.findById(application.jobId).select('employerId organizationId title company').lean<any>();
+  if (!job) {
+    return { error: 'Job not found.', status: 404 };
+  }
+
+  if (user.role === 'employer') {
+    const access = await requireOrganizationPermission(user.id, permission);
+    if ('error' in access) return access;
+    if (!jobBelongsToOrganization(job, access.membership)) {
+      return { error: 'Access denied. You can only view messages for jobs in your organization.', status: 403 };
+    }
+  } else if (application.jobSeekerId.toString() !== user.id.toString()) {
+    return { error: 'Access denied. You can only view messages for your own applications.', status: 403 };
+  }
+
+  return {
+    thread: {
+      applicationId: application._id,
+      jobId: job._id,
+      jobTitle: job.title,
+      company: job.company,
+      applicantName: application.applicantName || 'The candidate',
+      jobSeekerId: application.jobSeekerId,
+      employerId: job.employerId,
+      organizationId: job.organizationId || null,
+    },
+  };
+}
+
+/**
+ * Validates a message body received from a client.
+ * @returns The trimmed body, or an error message.
+ */
+export function sanitizeMessageBody(input: unknown): { body?: string; error?: string } {
+  const body = typeof input === 'string' ? input.trim() : '';
+  if (!body) {
+    return { error: 'Message cannot be empty.' };
+  }
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    return { error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters.` };
+  }
+  return { body };
+}
+
+/**
+ * Transforms a message document into the shape returned by the API.
+ * @param message The message document (or lean object).
+ * @param viewerRole Who is reading; their own messages are marked as mine.
+ */
+export function formatMessage(message: any, viewerRole: MessageRole) {
+  return {
+    id: message._id.toString(),
+    applicationId: message.applicationId.toString(),
+    senderRole: message.senderRole as MessageRole,
+    body: message.body as string,
+    mine: message.senderRole === viewerRole,
+    read: Boolean(message.readAt),
+    createdAt: new Date(message.createdAt).toISOString(),
+  };
+}
+
+export type FormattedMessage = ReturnType<typeof formatMessage>;
+
+/**
+ * Tells the other party about a new message through the notification bell. On the
+ * employer side that is every team member who manages applicants. An unread
+ * notification for the same thread is replaced, so a burst of messages shows as
+ * one notification.
+ * @param thread The thread the message was sent in.
+ * @param senderRole Who sent it.
+ * @param body The message, previewed in the notification.
+ */
+export async function notifyNewMessage(thread: MessageThread, senderRole: MessageRole, body: string): Promise<void> {
+  const recipientRole: MessageRole = senderRole === 'employer' ? 'job-seeker' : 'employer';
+  const recipientIds = recipientRole === 'employer'
+    ? await getJobTeamRecipients(thread, 'manage_applicants')
+    : [thread.jobSeekerId];
+  const preview = body.length > 120 ? `${body.slice(0, 117)}...` : body;
+
+  try {
+    await Notification.deleteMany({
+      recipientId: { $in: recipientIds },
+      recipientRole,
+      type: 'new_message',
+      applicationId: thread.applicationId,
+      read: false,
+    });
+  } catch (error: any) {
+    console.error('❌ Error replacing message notification:', error.message);
+  }
+
+  await createNotifications(
+    recipientIds.map((recipientId) => ({
+      recipientId,
+      recipientRole,
+      type: 'new_message' as const,
+      title: senderRole === 'employer' ? `Message from ${thread.company}` : `Message from ${thread.applicantName}`,
+      message: `${thread.jobTitle}: ${preview}`,
+      link: recipientRole === 'employer' ? '/employer' : `/job-seeker/applications?messages=${thread.applicationId.toString()}`,
+      jobId: thread.jobId,
+      applicationId: thread.applicationId,
+    }))
+  );
+}
+
+/**
+ * Marks the other party's messages in a thread as read, along with their notifications.
+ * @param thread The thread.
+ * @param reader Who opened it.
+ * @returns The number of messages marked as read.
+ */
+export async function markThreadRead(thread: MessageThread, reader: ThreadParticipant): Promise<number> {
+  const now = new Date();
+  const otherRole: MessageRole = reader.role === 'employer' ? 'job-seeker' : 'employer';
+
+  const [result] = await Promise.all([
+    Message.updateMany(
+      { applicationId: thread.applicationId, senderRole: otherRole, readAt: null },
+      { $set: { readAt: now } }
+    ),
+    // Not filtered by recipient: the thread is shared by the employer's team, so one member reading it clears it for all
+    Notification.updateMany(
+      { recipientRole: reader.role, type: 'new_message', applicationId: thread.applicationId, read: false },
+      { $set: { read: true, readAt: now } }
+    ),
+  ]);
+
+  return result.modifiedCount;
+}
+
+/**
+ * Counts unread messages per application for one side, for unread badges.
+ * @param applicationIds The applications to count.
+ * @param readerRole Whose unread messages to count (those sent by the other side).
+ * @returns Unread counts keyed by application id; threads without unread messages are absent.
+ */
+export async function countUnreadMessages(applicationIds: unknown[], readerRole: MessageRole): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (applicationIds.length === 0) return counts;
+
+  const rows = await Message.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+    {
+      $match: {
+        applicationId: { $in: applicationIds },
+        senderRole: readerRole === 'employer' ? 'job-seeker' : 'employer',
+        readAt: null,
+      },
+    },
+    { $group: { _id: '$applicationId', count: { $sum: 1 } } },
+  ]);
+
+  rows.forEach((row) => counts.set(row._id.toString(), row.count));
+  return counts;
+}
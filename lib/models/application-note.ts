@@ -0,0 +1,58 @@
+// lib/models/application-note.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const MAX_NOTE_LENGTH = 5000;
+
+// A private note about an applicant, shared between the employer's reviewers. Never
+// returned to job seekers.
+export interface IApplicationNote extends Document {
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+
+  authorId: mongoose.Types.ObjectId;
+  authorName: string;
+
+  body: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApplicationNoteSchema: Schema = new Schema(
+  {
+    applicationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Application',
+      required: true,
+    },
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Job',
+      required: true,
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    authorName: { type: String, trim: true, default: '' },
+    body: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: MAX_NOTE_LENGTH,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'application_notes',
+  }
+);
+
+ApplicationNoteSchema.index({ applicationId: 1, createdAt: -1 });
+ApplicationNoteSchema.index({ jobId: 1 });
+
+const ApplicationNote =
+  mongoose.models.ApplicationNote || mongoose.model<IApplicationNote>('ApplicationNote', ApplicationNoteSchema);
+
+export default ApplicationNote;
@@ -1,6 +1,34 @@
 // lib/models/application.ts
 
 import mongoose, { Schema, Document } from 'mongoose';
+import ParsedResumeSchema, { IParsedResume } from '@/lib/models/parsed-resume';
+import { APPLICATION_STATUSES, type ApplicationStatus } from '@/lib/application-status';
+import { SCREENING_QUESTION_TYPES, type ScreeningQuestionType } from '@/lib/screening';
+
+// One entry in an application's audit trail (see lib/application-history.ts)
+export interface IApplicationEvent {
+  type: 'applied' | 'status_changed' | 'reopened' | 'rating_changed';
+  fromStatus?: ApplicationStatus;
+  toStatus?: ApplicationStatus;
+  fromRating?: number;
+  toRating?: number;
+  // Who made the change; actorName is denormalized so the trail survives account deletion
+  actorId?: mongoose.Types.ObjectId;
+  actorRole: 'job-seeker' | 'employer' | 'system';
+  actorName: string;
+  createdAt: Date;
+}
+
+// An answer to one of the job's screening questions, as it was when the application was sent
+export interface IScreeningAnswer {
+  questionKey: string;
+  prompt: string;
+  type: ScreeningQuestionType;
+  answer: string;
+  fileId?: mongoose.Types.ObjectId; // File questions (see lib/file-storage.ts)
+  fileName?: string;
+  knockedOut: boolean; // The answer failed a knockout rule and the application was rejected
+}
 
 export interface IApplication extends Document {
   // Job and applicant references
@@ -12,10 +40,20 @@ export interface IApplication extends Document {
   applicantEmail: string;
   
   // Application details
-  status: 'Pending' | 'Reviewed' | 'Shortlisted' | 'Interviewed' | 'Selected' | 'Rejected';
-  resume?: string; // URL or base64 string
+  status: ApplicationStatus;
+  resume?: string; // Download URL (legacy applications may hold a URL or base64 string)
+  resumeFileId?: mongoose.Types.ObjectId; // Stored resume file (see lib/file-storage.ts)
+  // Resume as it was when the application was sent; library edits don't change it
+  resumeSnapshot?: {
+    resumeId?: mongoose.Types.ObjectId; // Library entry the resume was picked from, if any
+    name: string;
+    fileName: string;
+  };
+  parsedResume?: IParsedResume; // Structured resume data, copied from the file when applying
   coverLetter?: string;
+  screeningAnswers: IScreeningAnswer[];
   rating: number; // Employer's rating of the applicant (0-5)
+  history: IApplicationEvent[]; // Status and rating changes, oldest first
   
   // Timestamps
   appliedDate: Date;
@@ -50,7 +88,7 @@ const ApplicationSchema: Schema = new Schema(
     },
     status: {
       type: String,
-      enum: ['Pending', 'Reviewed', 'Shortlisted', 'Interviewed', 'Selected', 'Rejected'],
+      enum: APPLICATION_STATUSES,
       default: 'Pending',
       index: true,
     },
@@ -58,16 +96,72 @@ const ApplicationSchema: Schema = new Schema(
       type: String,
       trim: true,
     },
+    resumeFileId: {
+      type: Schema.Types.ObjectId,
+      ref: 'StoredFile',
+      index: true,
+    },
+    resumeSnapshot: {
+      type: new Schema(
+        {
+          resumeId: { type: Schema.Types.ObjectId, default: null },
+          name: { type: String, trim: true, default: '' },
+          fileName: { type: String, trim: true, default: '' },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    parsedResume: {
+      type: ParsedResumeSchema,
+      default: undefined,
+    },
     coverLetter: {
       type: String,
       trim: true,
     },
+    screeningAnswers: {
+      type: [
+        new Schema(
+          {
+            questionKey: { type: String, required: true },
+            prompt: { type: String, trim: true, default: '' },
+            type: { type: String, enum: SCREENING_QUESTION_TYPES, required: true },
+            answer: { type: String, trim: true, default: '' },
+            fileId: { type: Schema.Types.ObjectId, ref: 'StoredFile' },
+            fileName: { type: String, trim: true },
+            knockedOut: { type: Boolean, default: false },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
     rating: {
       type: Number,
       default: 0,
       min: 0,
       max: 5,
     },
+    history: {
+      type: [
+        new Schema(
+          {
+            type: { type: String, enum: ['applied', 'status_changed', 'reopened', 'rating_changed'], required: true },
+            fromStatus: { type: String, enum: APPLICATION_STATUSES },
+            toStatus: { type: String, enum: APPLICATION_STATUSES },
+            fromRating: { type: Number, min: 0, max: 5 },
+            toRating: { type: Number, min: 0, max: 5 },
+            actorId: { type: Schema.Types.ObjectId },
+            actorRole: { type: String, enum: ['job-seeker', 'employer', 'system'], required: true },
+            actorName: { type: String, trim: true, default: '' },
+            createdAt: { type: Date, default: Date.now },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
     appliedDate: {
       type: Date,
       default: Date.now,
@@ -83,6 +177,7 @@ const ApplicationSchema: Schema = new Schema(
 ApplicationSchema.index({ jobId: 1, status: 1 });
 ApplicationSchema.index({ jobSeekerId: 1 });
 ApplicationSchema.index({ jobId: 1, jobSeekerId: 1 }, { unique: true }); // Prevent duplicate applications
+ApplicationSchema.index({ 'screeningAnswers.fileId': 1 }, { sparse: true }); // For authorizing screening file downloads
 
 const Application = mongoose.models.Application || mongoose.model<IApplication>('Application', ApplicationSchema);
 
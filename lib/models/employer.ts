@@ -36,6 +36,10 @@ export interface IEmployer extends Document {
   specialties: string[];
   photo?: string; // Photo stored as base64 string or URL
   isProfileComplete: boolean;
+  
+  // Email opt-in/opt-out per event (see lib/email-preferences.ts); missing events default to enabled
+  emailPreferences: Record<string, boolean>;
+  
   createdAt: Date;
   updatedAt: Date;
 }
@@ -86,6 +90,9 @@ const EmployerSchema: Schema = new Schema(
     specialties: [{ type: String, trim: true }],
     photo: { type: String, trim: true, default: '' }, // Photo stored as base64 string or URL
     isProfileComplete: { type: Boolean, default: false },
+    
+    // Email preferences - event key => enabled
+    emailPreferences: { type: Schema.Types.Mixed, default: {} },
   },
   {
     timestamps: true,
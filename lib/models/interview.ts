@@ -0,0 +1,98 @@
+// lib/models/interview.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const INTERVIEW_FORMATS = ['phone', 'video', 'onsite'] as const;
+export type InterviewFormat = (typeof INTERVIEW_FORMATS)[number];
+
+// proposed: the employer offered slots and the candidate hasn't picked one yet
+// reschedule_requested: the candidate asked for different times; the employer proposes new slots
+export const INTERVIEW_STATUSES = ['proposed', 'scheduled', 'reschedule_requested', 'cancelled'] as const;
+export type InterviewStatus = (typeof INTERVIEW_STATUSES)[number];
+
+export interface IInterview extends Document {
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  employerId: mongoose.Types.ObjectId;
+  jobSeekerId: mongoose.Types.ObjectId;
+
+  // Details
+  format: InterviewFormat;
+  location: string; // Address, meeting link or phone number, depending on the format
+  interviewers: string[];
+  durationMinutes: number;
+  notes: string; // Instructions for the candidate
+
+  // Scheduling
+  status: InterviewStatus;
+  proposedSlots: Date[]; // Start times offered by the employer
+  scheduledAt?: Date; // The slot the candidate picked
+  rescheduleNote?: string; // The candidate's message when asking for new times
+  cancelledBy?: 'employer' | 'job-seeker';
+  cancelReason?: string;
+
+  // Calendar invites: the same UID with a higher SEQUENCE updates the event in the recipients' calendars
+  calendarUid: string;
+  calendarSequence: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InterviewSchema: Schema = new Schema(
+  {
+    applicationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Application',
+      required: true,
+      index: true,
+    },
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Job',
+      required: true,
+    },
+    employerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employer',
+      required: true,
+      index: true,
+    },
+    jobSeekerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'JobSeeker',
+      required: true,
+      index: true,
+    },
+    format: {
+      type: String,
+      enum: INTERVIEW_FORMATS,
+      required: true,
+    },
+    location: { type: String, trim: true, default: '' },
+    interviewers: { type: [String], default: [] },
+    durationMinutes: { type: Number, required: true, min: 15, max: 480 },
+    notes: { type: String, trim: true, default: '' },
+    status: {
+      type: String,
+      enum: INTERVIEW_STATUSES,
+      default: 'proposed',
+      index: true,
+    },
+    proposedSlots: { type: [Date], default: [] },
+    scheduledAt: { type: Date, default: null },
+    rescheduleNote: { type: String, trim: true, default: '' },
+    cancelledBy: { type: String, enum: ['employer', 'job-seeker'] },
+    cancelReason: { type: String, trim: true, default: '' },
+    calendarUid: { type: String, required: true, unique: true },
+    calendarSequence: { type: Number, default: 0 },
+  },
+  {
+    timestamps: true,
+    collection: 'interviews',
+  }
+);
+
+const Interview = mongoose.models.Interview || mongoose.model<IInterview>('Interview', InterviewSchema);
+
+export default Interview;
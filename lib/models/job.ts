@@ -1,16 +1,24 @@
 // lib/models/job.ts
 
 import mongoose, { Schema, Document } from 'mongoose';
+import { SALARY_PERIODS, type SalaryRange } from '@/lib/salary';
+import type { EvaluationCriterion } from '@/lib/evaluation';
+import { SCREENING_QUESTION_TYPES, type ScreeningQuestion } from '@/lib/screening';
 
 export interface IJob extends Document {
-  // Employer who posted the job
+  // Employer account the job is posted under (the organization owner's, which holds the company profile)
   employerId: mongoose.Types.ObjectId;
+
+  // Organization whose members can manage the job, and the member who created it
+  organizationId?: mongoose.Types.ObjectId;
+  postedBy?: mongoose.Types.ObjectId;
   
   // Job details
   title: string;
   company: string;
   location: string;
-  salary: string; // e.g., "$120k - $160k"
+  salary: string; // Display string derived from salaryRange, e.g., "$120k - $160k"
+  salaryRange?: SalaryRange; // Structured salary used for filtering and sorting
   type: string; // Full-time, Part-time, Contract, etc.
   remote: boolean;
   description: string;
@@ -19,6 +27,7 @@ export interface IJob extends Document {
   
   // Status
   status: 'Active' | 'Closed' | 'Draft';
+  publishAt?: Date | null; // Scheduled publish time for a Draft; it becomes Active once this passes
   
   // Additional details
   category: string;
@@ -26,6 +35,12 @@ export interface IJob extends Document {
   benefits: string[];
   companySize: string;
   industry: string;
+
+  // Scorecard criteria for reviewing applicants; unset means the defaults in lib/evaluation.ts
+  evaluationCriteria?: EvaluationCriterion[];
+
+  // Questions applicants answer when applying; knockout questions reject automatically (see lib/screening.ts)
+  screeningQuestions: ScreeningQuestion[];
   
   // Metrics
   applicants: number;
@@ -36,6 +51,11 @@ export interface IJob extends Document {
   updatedAt: Date;
 }
 
+// Drafts may be saved incomplete; everything else needs the full posting
+function isPublished(this: { status?: string }): boolean {
+  return this.status !== 'Draft';
+}
+
 const JobSchema: Schema = new Schema(
   {
     employerId: {
@@ -44,6 +64,15 @@ const JobSchema: Schema = new Schema(
       required: true,
       index: true, // Index for faster queries
     },
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      index: true,
+    },
+    postedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employer',
+    },
     title: {
       type: String,
       required: true,
@@ -56,14 +85,27 @@ const JobSchema: Schema = new Schema(
     },
     location: {
       type: String,
-      required: true,
+      required: isPublished,
       trim: true,
+      default: '',
     },
     salary: {
       type: String,
       trim: true,
       default: '',
     },
+    salaryRange: {
+      type: new Schema(
+        {
+          min: { type: Number, default: null, min: 0 },
+          max: { type: Number, default: null, min: 0 },
+          currency: { type: String, trim: true, uppercase: true, default: 'USD' },
+          period: { type: String, enum: SALARY_PERIODS, default: 'yearly' },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
     type: {
       type: String,
       required: true,
@@ -75,8 +117,9 @@ const JobSchema: Schema = new Schema(
     },
     description: {
       type: String,
-      required: true,
+      required: isPublished,
       trim: true,
+      default: '',
     },
     requirements: {
       type: [String],
@@ -92,6 +135,10 @@ const JobSchema: Schema = new Schema(
       default: 'Active',
       index: true, // Index for filtering active jobs
     },
+    publishAt: {
+      type: Date,
+      default: null,
+    },
     category: {
       type: String,
       trim: true,
@@ -116,6 +163,38 @@ const JobSchema: Schema = new Schema(
       trim: true,
       default: '',
     },
+    evaluationCriteria: {
+      type: [
+        new Schema(
+          {
+            key: { type: String, required: true, trim: true },
+            name: { type: String, required: true, trim: true },
+            description: { type: String, trim: true, default: '' },
+          },
+          { _id: false }
+        ),
+      ],
+      default: undefined,
+    },
+    screeningQuestions: {
+      type: [
+        new Schema(
+          {
+            key: { type: String, required: true, trim: true },
+            type: { type: String, enum: SCREENING_QUESTION_TYPES, required: true },
+            prompt: { type: String, required: true, trim: true },
+            required: { type: Boolean, default: false },
+            options: { type: [String], default: [] },
+            knockout: { type: Boolean, default: false },
+            acceptedAnswers: { type: [String], default: [] },
+            min: { type: Number, default: null },
+            max: { type: Number, default: null },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
     applicants: {
       type: Number,
       default: 0,
@@ -134,6 +213,8 @@ const JobSchema: Schema = new Schema(
 // Index for efficient querying
 JobSchema.index({ employerId: 1, status: 1 });
 JobSchema.index({ status: 1, postedDate: -1 }); // For fetching active jobs sorted by date
+JobSchema.index({ status: 1, publishAt: 1 }); // For publishing scheduled drafts
+JobSchema.index({ status: 1, 'salaryRange.min': 1, 'salaryRange.max': 1 }); // For salary range filtering
 
 const Job = mongoose.models.Job || mongoose.model<IJob>('Job', JobSchema);
 
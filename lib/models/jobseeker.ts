@@ -1,6 +1,7 @@
 // lib/models/jobseeker.ts
 
 import mongoose, { Schema, Document } from 'mongoose';
+import ParsedResumeSchema, { IParsedResume } from '@/lib/models/parsed-resume';
 
 export interface IJobSeeker extends Document {
   // Authentication fields
@@ -34,7 +35,7 @@ export interface IJobSeeker extends Document {
   availability?: string;
   salaryExpectation?: string;
   photo?: string; // Photo stored as base64 string or URL
-  resumeUrl?: string; 
+  resumeUrl?: string; // Download URL of the default resume in the library
   isProfileComplete: boolean;
   
   // Applied jobs - stores job ID and job details
@@ -48,9 +49,34 @@ export interface IJobSeeker extends Document {
     appliedDate: Date;
     coverLetter?: string;
     resume?: string;
+    resumeFileId?: mongoose.Types.ObjectId;
     rating: number;
   }>;
   
+  // Saved jobs - job details are copied so removed jobs can still be listed
+  savedJobs: Array<{
+    jobId: mongoose.Types.ObjectId;
+    jobTitle: string;
+    company: string;
+    savedAt: Date;
+  }>;
+  
+  // Resume library - named resumes the job seeker can choose from when applying
+  resumes: Array<{
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    fileId: mongoose.Types.ObjectId; // Stored file (see lib/file-storage.ts)
+    fileName: string;
+    contentType: string;
+    size: number;
+    isDefault: boolean;
+    uploadedAt: Date;
+    parsed?: IParsedResume; // Extracted from the file when it was uploaded
+  }>;
+  
+  // Email opt-in/opt-out per event (see lib/email-preferences.ts); missing events default to enabled
+  emailPreferences: Record<string, boolean>;
+  
   createdAt: Date;
   updatedAt: Date;
 }
@@ -117,10 +143,41 @@ const JobSeekerSchema: Schema = new Schema(
         appliedDate: { type: Date, default: Date.now },
         coverLetter: { type: String, trim: true, default: '' },
         resume: { type: String, trim: true, default: '' },
+        resumeFileId: { type: Schema.Types.ObjectId, ref: 'StoredFile', default: null },
         rating: { type: Number, default: 0, min: 0, max: 5 },
       }],
       default: [],
     },
+    
+    // Saved jobs array - bookmarks that follow the user across devices
+    savedJobs: {
+      type: [{
+        jobId: { type: Schema.Types.ObjectId, ref: 'Job', required: true },
+        jobTitle: { type: String, trim: true, default: '' },
+        company: { type: String, trim: true, default: '' },
+        savedAt: { type: Date, default: Date.now },
+        _id: false,
+      }],
+      default: [],
+    },
+    
+    // Resume library - files are stored separately and referenced by id
+    resumes: {
+      type: [{
+        name: { type: String, required: true, trim: true },
+        fileId: { type: Schema.Types.ObjectId, ref: 'StoredFile', required: true },
+        fileName: { type: String, trim: true, default: '' },
+        contentType: { type: String, default: '' },
+        size: { type: Number, default: 0 },
+        isDefault: { type: Boolean, default: false },
+        uploadedAt: { type: Date, default: Date.now },
+        parsed: { type: ParsedResumeSchema, default: undefined },
+      }],
+      default: [],
+    },
+    
+    // Email preferences - event key => enabled
+    emailPreferences: { type: Schema.Types.Mixed, default: {} },
   },
   {
     timestamps: true,
@@ -0,0 +1,61 @@
+// lib/models/message.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const MAX_MESSAGE_LENGTH = 5000;
+
+export interface IMessage extends Document {
+  // Every thread belongs to one application, between its job seeker and the job's employer
+  applicationId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  senderRole: 'job-seeker' | 'employer';
+
+  body: string;
+
+  // Set when the other party opens the thread
+  readAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MessageSchema: Schema = new Schema(
+  {
+    applicationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Application',
+      required: true,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    senderRole: {
+      type: String,
+      enum: ['job-seeker', 'employer'],
+      required: true,
+    },
+    body: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: MAX_MESSAGE_LENGTH,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'messages',
+  }
+);
+
+// A thread in order, and unread counts per thread
+MessageSchema.index({ applicationId: 1, createdAt: 1 });
+MessageSchema.index({ applicationId: 1, senderRole: 1, readAt: 1 });
+
+const Message = mongoose.models.Message || mongoose.model<IMessage>('Message', MessageSchema);
+
+export default Message;
@@ -0,0 +1,90 @@
+// lib/models/notification.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const NOTIFICATION_TYPES = ['application_received', 'application_status_changed', 'job_closed', 'saved_search_match', 'interview_update', 'new_message'] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export interface INotification extends Document {
+  // Recipient - either a job seeker or an employer
+  recipientId: mongoose.Types.ObjectId;
+  recipientRole: 'job-seeker' | 'employer';
+
+  // Content
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string; // In-app path opened when the notification is clicked
+
+  // Related records (optional, used for de-duplication and deep links)
+  jobId?: mongoose.Types.ObjectId;
+  applicationId?: mongoose.Types.ObjectId;
+
+  // Read state
+  read: boolean;
+  readAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationSchema: Schema = new Schema(
+  {
+    recipientId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      index: true,
+    },
+    recipientRole: {
+      type: String,
+      enum: ['job-seeker', 'employer'],
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: NOTIFICATION_TYPES,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    message: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    link: {
+      type: String,
+      trim: true,
+    },
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Job',
+    },
+    applicationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Application',
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'notifications',
+  }
+);
+
+// Index for listing a user's notifications and counting unread ones
+NotificationSchema.index({ recipientId: 1, recipientRole: 1, createdAt: -1 });
+NotificationSchema.index({ recipientId: 1, recipientRole: 1, read: 1 });
+
+const Notification = mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
+
+export default Notification;
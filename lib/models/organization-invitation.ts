@@ -0,0 +1,53 @@
+// lib/models/organization-invitation.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { ORGANIZATION_ROLES, type OrganizationRole } from '@/lib/organization-roles';
+
+// A pending invitation to join an organization, sent by email. It is deleted once
+// accepted or revoked; inviting the same address again replaces it.
+export interface IOrganizationInvitation extends Document {
+  organizationId: mongoose.Types.ObjectId;
+  email: string;
+  role: OrganizationRole;
+  token: string;
+  expiresAt: Date;
+
+  invitedBy: mongoose.Types.ObjectId;
+  invitedByName: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrganizationInvitationSchema: Schema = new Schema(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+    },
+    email: { type: String, required: true, trim: true, lowercase: true },
+    role: { type: String, required: true, enum: ORGANIZATION_ROLES },
+    token: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employer',
+      required: true,
+    },
+    invitedByName: { type: String, trim: true, default: '' },
+  },
+  {
+    timestamps: true,
+    collection: 'organization_invitations',
+  }
+);
+
+OrganizationInvitationSchema.index({ organizationId: 1, email: 1 }, { unique: true });
+OrganizationInvitationSchema.index({ token: 1 }, { unique: true });
+
+const OrganizationInvitation =
+  mongoose.models.OrganizationInvitation ||
+  mongoose.model<IOrganizationInvitation>('OrganizationInvitation', OrganizationInvitationSchema);
+
+export default OrganizationInvitation;
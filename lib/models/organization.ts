@@ -0,0 +1,57 @@
+// lib/models/organization.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { ORGANIZATION_ROLES, type OrganizationRole } from '@/lib/organization-roles';
+
+export interface IOrganizationMember {
+  employerId: mongoose.Types.ObjectId;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+// A company that several employer logins can belong to. The owner's employer account
+// holds the public company profile, and the organization's jobs are posted under it.
+export interface IOrganization extends Document {
+  name: string;
+  ownerId: mongoose.Types.ObjectId;
+  members: IOrganizationMember[];
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrganizationSchema: Schema = new Schema(
+  {
+    name: { type: String, trim: true, default: '' },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employer',
+      required: true,
+    },
+    members: {
+      type: [
+        new Schema(
+          {
+            employerId: { type: Schema.Types.ObjectId, ref: 'Employer', required: true },
+            role: { type: String, required: true, enum: ORGANIZATION_ROLES },
+            joinedAt: { type: Date, default: Date.now },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'organizations',
+  }
+);
+
+OrganizationSchema.index({ ownerId: 1 }, { unique: true });
+OrganizationSchema.index({ 'members.employerId': 1 }, { unique: true }); // An employer belongs to one organization
+
+const Organization =
+  mongoose.models.Organization || mongoose.model<IOrganization>('Organization', OrganizationSchema);
+
+export default Organization;
@@ -0,0 +1,50 @@
+// lib/models/parsed-resume.ts - Structured resume data embedded in files, library entries and applications
+
+import { Schema } from 'mongoose';
+import type { ParsedResume } from '@/lib/resume-parser';
+
+export interface IParsedResume extends ParsedResume {
+  parsedAt: Date;
+}
+
+const ParsedResumeSchema = new Schema(
+  {
+    contact: {
+      name: { type: String, default: '' },
+      email: { type: String, default: '' },
+      phone: { type: String, default: '' },
+      linkedin: { type: String, default: '' },
+      github: { type: String, default: '' },
+      website: { type: String, default: '' },
+      location: { type: String, default: '' },
+    },
+    summary: { type: String, default: '' },
+    skills: { type: [String], default: [] },
+    experience: {
+      type: [{
+        title: { type: String, default: '' },
+        company: { type: String, default: '' },
+        startDate: { type: String, default: '' },
+        endDate: { type: String, default: '' },
+        description: { type: String, default: '' },
+        _id: false,
+      }],
+      default: [],
+    },
+    education: {
+      type: [{
+        institution: { type: String, default: '' },
+        degree: { type: String, default: '' },
+        field: { type: String, default: '' },
+        startDate: { type: String, default: '' },
+        endDate: { type: String, default: '' },
+        _id: false,
+      }],
+      default: [],
+    },
+    parsedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+export default ParsedResumeSchema;
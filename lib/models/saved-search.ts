@@ -0,0 +1,89 @@
+// lib/models/saved-search.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const ALERT_FREQUENCIES = ['instant', 'daily', 'weekly', 'off'] as const;
+export type AlertFrequency = (typeof ALERT_FREQUENCIES)[number];
+
+// Search text and filters as chosen on the job seeker dashboard
+export interface SavedSearchFilters {
+  search: string;
+  jobTypes: string[];
+  locations: string[];
+  remote: boolean;
+  experience: string[];
+  categories: string[];
+  salaryMin: number; // yearly amount, 0 = no minimum
+  salaryMax: number | null; // yearly amount, null = no maximum
+  matchSalaryExpectation: boolean;
+}
+
+export interface ISavedSearch extends Document {
+  jobSeekerId: mongoose.Types.ObjectId;
+  name: string;
+  filters: SavedSearchFilters;
+
+  // Alerts
+  alertFrequency: AlertFrequency;
+  pendingJobIds: mongoose.Types.ObjectId[]; // Matches waiting for the next daily/weekly digest
+  lastAlertedAt?: Date;
+  unsubscribeToken: string; // Lets the email's unsubscribe link turn alerts off without signing in
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SavedSearchSchema: Schema = new Schema(
+  {
+    jobSeekerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'JobSeeker',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    filters: {
+      search: { type: String, trim: true, default: '' },
+      jobTypes: { type: [String], default: [] },
+      locations: { type: [String], default: [] },
+      remote: { type: Boolean, default: false },
+      experience: { type: [String], default: [] },
+      categories: { type: [String], default: [] },
+      salaryMin: { type: Number, default: 0 },
+      salaryMax: { type: Number, default: null },
+      matchSalaryExpectation: { type: Boolean, default: false },
+    },
+    alertFrequency: {
+      type: String,
+      enum: ALERT_FREQUENCIES,
+      default: 'daily',
+    },
+    pendingJobIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Job' }],
+      default: [],
+    },
+    lastAlertedAt: {
+      type: Date,
+    },
+    unsubscribeToken: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'saved_searches',
+  }
+);
+
+// Index for finding searches with alerts when a job is posted, and digests that are due
+SavedSearchSchema.index({ alertFrequency: 1, lastAlertedAt: 1 });
+
+const SavedSearch = mongoose.models.SavedSearch || mongoose.model<ISavedSearch>('SavedSearch', SavedSearchSchema);
+
+export default SavedSearch;
@@ -0,0 +1,65 @@
+// lib/models/scorecard.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { MAX_SCORE, MIN_SCORE, type CriterionRating } from '@/lib/evaluation';
+
+// One reviewer's evaluation of one applicant against the job's criteria. Employer-only:
+// never returned to job seekers.
+export interface IScorecard extends Document {
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+
+  reviewerId: mongoose.Types.ObjectId;
+  reviewerName: string;
+
+  ratings: CriterionRating[];
+  comment: string; // Overall impression
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScorecardSchema: Schema = new Schema(
+  {
+    applicationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Application',
+      required: true,
+    },
+    jobId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Job',
+      required: true,
+      index: true,
+    },
+    reviewerId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    reviewerName: { type: String, trim: true, default: '' },
+    ratings: {
+      type: [
+        new Schema(
+          {
+            criterion: { type: String, required: true },
+            score: { type: Number, required: true, min: MIN_SCORE, max: MAX_SCORE },
+            comment: { type: String, trim: true, default: '' },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    comment: { type: String, trim: true, default: '' },
+  },
+  {
+    timestamps: true,
+    collection: 'scorecards',
+  }
+);
+
+ScorecardSchema.index({ applicationId: 1, reviewerId: 1 }, { unique: true }); // One scorecard per reviewer
+
+const Scorecard = mongoose.models.Scorecard || mongoose.model<IScorecard>('Scorecard', ScorecardSchema);
+
+export default Scorecard;
@@ -0,0 +1,83 @@
+// lib/models/stored-file.ts
+
+import mongoose, { Schema, Document } from 'mongoose';
+import ParsedResumeSchema, { IParsedResume } from '@/lib/models/parsed-resume';
+
+export interface IStoredFile extends Document {
+  // Uploader
+  ownerId: mongoose.Types.ObjectId;
+  ownerRole: 'job-seeker' | 'employer';
+
+  // What the file is used for - decides who may download it
+  purpose: 'resume' | 'screening_answer';
+
+  // Location in the storage backend (see lib/file-storage.ts)
+  driver: string;
+  storageKey: string;
+
+  // File metadata
+  originalName: string;
+  contentType: string;
+  size: number; // bytes
+
+  // Resume text parsed at upload (see lib/resume-parser.ts); unset when no text could be read
+  parsed?: IParsedResume;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StoredFileSchema: Schema = new Schema(
+  {
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      index: true,
+    },
+    ownerRole: {
+      type: String,
+      enum: ['job-seeker', 'employer'],
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: ['resume', 'screening_answer'],
+      required: true,
+    },
+    driver: {
+      type: String,
+      required: true,
+    },
+    storageKey: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    originalName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    contentType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    parsed: {
+      type: ParsedResumeSchema,
+      default: undefined,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'files',
+  }
+);
+
+const StoredFile = mongoose.models.StoredFile || mongoose.model<IStoredFile>('StoredFile', StoredFileSchema);
+
+export default StoredFile;
@@ -0,0 +1,117 @@
+// lib/notifications.ts - Creating and formatting in-app notifications, and preference-aware emails
+
+import Notification, { NotificationType } from '@/lib/models/notification';
+import JobSeeker from '@/lib/models/jobseeker';
+import Employer from '@/lib/models/employer';
+import { sendApplicationStatusEmail, sendNewApplicantEmail } from '@/lib/email';
+import { isEmailEnabled, STATUS_EMAIL_EVENTS } from '@/lib/email-preferences';
+
+export interface NotificationInput {
+  recipientId: unknown;
+  recipientRole: 'job-seeker' | 'employer';
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  jobId?: unknown;
+  applicationId?: unknown;
+}
+
+/**
+ * Stores notifications for one or more recipients. Failures are logged and swallowed
+ * so that a notification problem never fails the action that triggered it.
+ * @param inputs The notifications to create.
+ * @returns The number of notifications created.
+ */
+export async function createNotifications(inputs: NotificationInput[]): Promise<number> {
+  if (inputs.length === 0) return 0;
+
+  try {
+    const created = await Notification.insertMany(inputs, { ordered: false });
+    console.log(`🔔 Created ${created.length} notification(s):`, inputs.map((input) => input.type));
+    return created.length;
+  } catch (error: any) {
+    console.error('❌ Error creating notifications:', error.message);
+    return 0;
+  }
+}
+
+/**
+ * Stores a single notification. See createNotifications.
+ */
+export async function createNotification(input: NotificationInput): Promise<boolean> {
+  return (await createNotifications([input])) > 0;
+}
+
+/**
+ * Transforms a notification document into the shape returned by the API.
+ */
+export function formatNotification(notification: any) {
+  return {
+    id: notification._id.toString(),
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    link: notification.link || null,
+    jobId: notification.jobId ? notification.jobId.toString() : null,
+    applicationId: notification.applicationId ? notification.applicationId.toString() : null,
+    read: notification.read || false,
+    createdAt: new Date(notification.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Emails a candidate about an application status change, if the status has an
+ * email and the candidate has not opted out of it.
+ * @param jobSeekerId The candidate's id.
+ * @param details The job and the application's new status.
+ */
+export async function emailApplicationStatusChange(
+  jobSeekerId: unknown,
+  details: { jobTitle: string; company: string; status: string }
+): Promise<void> {
+  const eventKey = STATUS_EMAIL_EVENTS[details.status];
+  if (!eventKey) return;
+
+  try {
+    const jobSeeker = await JobSeeker.findById(jobSeekerId)
+      .select('email firstName emailPreferences')
+      .lean<{ email?: string; firstName?: string; emailPreferences?: Record<string, boolean> }>();
+
+    if (!jobSeeker?.email) return;
+    if (!isEmailEnabled('job-seeker', jobSeeker.emailPreferences, eventKey)) {
+      console.log('🔕 Status email skipped (opted out):', { jobSeekerId: String(jobSeekerId), eventKey });
+      return;
+    }
+
+    await sendApplicationStatusEmail(jobSeeker.email, jobSeeker.firstName || '', details);
+  } catch (error: any) {
+    console.error('❌ Error preparing application status email:', error.message);
+  }
+}
+
+/**
+ * Emails an employer about a new applicant unless they opted out.
+ * @param employerId The employer's id.
+ * @param details The job title and the applicant's name.
+ */
+export async function emailNewApplicant(
+  employerId: unknown,
+  details: { jobTitle: string; applicantName: string }
+): Promise<void> {
+  try {
+    const employer = await Employer.findById(employerId)
+      .select('email firstName emailPreferences')
+      .lean<{ email?: string; firstName?: string; emailPreferences?: Record<string, boolean> }>();
+
+    if (!employer?.email) return;
+    if (!isEmailEnabled('employer', employer.emailPreferences, 'newApplicant')) {
+      console.log('🔕 New applicant email skipped (opted out):', { employerId: String(employerId) });
+      return;
+    }
+
+    await sendNewApplicantEmail(employer.email, employer.firstName || '', details);
+  } catch (error: any) {
+    console.error('❌ Error preparing new applicant email:', error.message);
+  }
+}
@@ -0,0 +1,52 @@
+// lib/organization-roles.ts - Employer organization roles and what each may do (shared by the API and the UI)
+
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'recruiter', 'hiring_manager'] as const;
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  recruiter: 'Recruiter',
+  hiring_manager: 'Hiring manager',
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Created the organization. Full access, including the team.',
+  admin: 'Full access to jobs and applicants, and can manage the team.',
+  recruiter: 'Can post and edit jobs and manage applicants.',
+  hiring_manager: 'Read-only access to jobs and applicants.',
+};
+
+export type OrganizationPermission = 'view' | 'manage_jobs' | 'manage_applicants' | 'manage_team';
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, readonly OrganizationPermission[]> = {
+  owner: ['view', 'manage_jobs', 'manage_applicants', 'manage_team'],
+  admin: ['view', 'manage_jobs', 'manage_applicants', 'manage_team'],
+  recruiter: ['view', 'manage_jobs', 'manage_applicants'],
+  hiring_manager: ['view'],
+};
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === 'string' && (ORGANIZATION_ROLES as readonly string[]).includes(value);
+}
+
+export function hasOrganizationPermission(role: OrganizationRole, permission: OrganizationPermission): boolean {
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
+
+/**
+ * The roles a member may invite people as or move other members to. There is one
+ * owner per organization, so it is never assignable; only the owner manages admins.
+ */
+export function getAssignableRoles(role: OrganizationRole): OrganizationRole[] {
+  if (role === 'owner') return ['admin', 'recruiter', 'hiring_manager'];
+  if (role === 'admin') return ['recruiter', 'hiring_manager'];
+  return [];
+}
+
+/**
+ * Whether a member may change the role of, or remove, a member with the target role.
+ */
+export function canManageMember(role: OrganizationRole, targetRole: OrganizationRole): boolean {
+  return getAssignableRoles(role).includes(targetRole);
+}
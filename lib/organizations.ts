@@ -0,0 +1,322 @@
+// lib/organizations.ts - Employer organizations: membership lookups, permission checks, team management and invitations
+
+import mongoose from 'mongoose';
+import Organization from '@/lib/models/organization';
+import OrganizationInvitation from '@/lib/models/organization-invitation';
+import Employer from '@/lib/models/employer';
+import Job from '@/lib/models/job';
+import { sendOrganizationInvitationEmail } from '@/lib/email';
+import { generateSecureToken } from '@/lib/token-utils';
+import {
+  ORGANIZATION_ROLE_LABELS,
+  hasOrganizationPermission,
+  type OrganizationPermission,
+  type OrganizationRole,
+} from '@/lib/organization-roles';
+
+export const INVITATION_EXPIRY_DAYS = 7;
+
+export interface EmployerMembership {
+  employerId: mongoose.Types.ObjectId; // The signed-in employer
+  organizationId: mongoose.Types.ObjectId;
+  organizationName: string;
+  ownerId: mongoose.Types.ObjectId; // The account jobs are posted under
+  role: OrganizationRole;
+}
+
+function toMembership(organization: any, employerId: mongoose.Types.ObjectId): EmployerMembership | null {
+  const member = (organization.members || []).find(
+    (candidate: any) => candidate.employerId.toString() === employerId.toString()
+  );
+  if (!member) return null;
+  return {
+    employerId,
+    organizationId: organization._id,
+    organizationName: organization.name || '',
+    ownerId: organization.ownerId,
+    role: member.role,
+  };
+}
+
+/**
+ * The organization the employer belongs to and their role in it. Employers who
+ * signed up before organizations existed (or haven't joined one) get their own,
+ * with them as the owner and their existing jobs moved into it.
+ * @param employerId The signed-in employer.
+ * @returns The membership, or null if the employer account doesn't exist.
+ */
+export async function getEmployerMembership(employerId: mongoose.Types.ObjectId): Promise<EmployerMembership | null> {
+  const existing = await Organization.findOne({ 'members.employerId': employerId }).lean<any>();
+  if (existing) return toMembership(existing, employerId);
+
+  const employer = await Employer.findById(employerId).select('name firstName lastName').lean<any>();
+  if (!employer) return null;
+
+  let organization: any;
+  try {
+    organization = await Organization.create({
+      name: employer.name || `${employer.firstName || ''} ${employer.lastName || ''}`.trim(),
+      ownerId: employerId,
+      members: [{ employerId, role: 'owner', joinedAt: new Date() }],
+    });
+  } catch (error: any) {
+    // Another request created it first
+    if (error?.code !== 11000) throw error;
+    const created = await Organization.findOne({ 'members.employerId': employerId }).lean<any>();
+    return created ? toMembership(created, employerId) : null;
+  }
+
+  const moved = await Job.updateMany(
+    { employerId, organizationId: null },
+    { $set: { organizationId: organization._id } }
+  );
+  console.log('🏢 Organization created:', {
+    organizationId: organization._id.toString(),
+    ownerId: employerId.toString(),
+    jobsMoved: moved.modifiedCount,
+  });
+
+  return toMembership(organization, employerId);
+}
+
+const PERMISSION_DENIED_MESSAGES: Record<OrganizationPermission, string> = {
+  view: 'Access denied.',
+  manage_jobs: 'Access denied. Your role in this organization cannot change jobs.',
+  manage_applicants: 'Access denied. Your role in this organization cannot change applicants.',
+  manage_team: 'Access denied. Only owners and admins can manage the team.',
+};
+
+/**
+ * Looks up the employer's membership and checks that their role allows an action.
+ * @param employerId The signed-in employer.
+ * @param permission What they are trying to do.
+ * @returns The membership, or an error message with its HTTP status.
+ */
+export async function requireOrganizationPermission(
+  employerId: mongoose.Types.ObjectId,
+  permission: OrganizationPermission
+): Promise<{ membership: EmployerMembership } | { error: string; status: number }> {
+  const membership = await getEmployerMembership(employerId);
+  if (!membership) {
+    return { error: 'Employer profile not found.', status: 404 };
+  }
+  if (!hasOrganizationPermission(membership.role, permission)) {
+    return { error: PERMISSION_DENIED_MESSAGES[permission], status: 403 };
+  }
+  return { membership };
+}
+
+/**
+ * Whether a job belongs to the member's organization.
+ */
+export function jobBelongsToOrganization(
+  job: { organizationId?: mongoose.Types.ObjectId | null } | null | undefined,
+  membership: EmployerMembership
+): boolean {
+  return Boolean(job?.organizationId) && job!.organizationId!.toString() === membership.organizationId.toString();
+}
+
+/**
+ * Who on a job's team should hear about it: the members of the organization that
+ * owns the job whose role allows the action the notification leads to. Jobs not
+ * moved into an organization yet go to the employer who posted them.
+ * @param job The job.
+ * @param permission What the recipients must be able to do.
+ * @returns The recipients' employer ids.
+ */
+export async function getJobTeamRecipients(
+  job: { employerId: unknown; organizationId?: unknown },
+  permission: OrganizationPermission
+): Promise<mongoose.Types.ObjectId[]> {
+  const organization = job.organizationId
+    ? await Organization.findById(job.organizationId).select('members').lean<any>()
+    : null;
+  if (!organization) {
+    return [new mongoose.Types.ObjectId(String(job.employerId))];
+  }
+
+  return (organization.members as any[])
+    .filter((member) => hasOrganizationPermission(member.role, permission))
+    .map((member) => member.employerId);
+}
+
+/**
+ * The name shown for an employer user: their own name, or the company.
+ */
+export function getEmployerDisplayName(employer: any, fallback: string = 'Employer'): string {
+  return `${employer?.firstName || ''} ${employer?.lastName || ''}`.trim() || employer?.name || fallback;
+}
+
+/**
+ * The organization's members (with names and emails) and pending invitations.
+ * @param organizationId The organization.
+ * @param viewerId The signed-in employer; their own entry is marked as me.
+ */
+export async function getOrganizationTeam(organizationId: mongoose.Types.ObjectId, viewerId: mongoose.Types.ObjectId) {
+  const organization = await Organization.findById(organizationId).lean<any>();
+  if (!organization) return null;
+
+  const [employers, invitations] = await Promise.all([
+    Employer.find({ _id: { $in: organization.members.map((member: any) => member.employerId) } })
+      .select('firstName lastName name email')
+      .lean<any[]>(),
+    OrganizationInvitation.find({ organizationId, expiresAt: { $gt: new Date() } }).sort({ createdAt: -1 }).lean<any[]>(),
+  ]);
+  const employersById = new Map(employers.map((employer) => [employer._id.toString(), employer]));
+
+  return {
+    id: organization._id.toString(),
+    name: (organization.name || '') as string,
+    members: (organization.members as any[]).map((member) => {
+      const employer = employersById.get(member.employerId.toString());
+      return {
+        id: member.employerId.toString(),
+        name: getEmployerDisplayName(employer, 'Former member'),
+        email: (employer?.email || '') as string,
+        role: member.role as OrganizationRole,
+        joinedAt: new Date(member.joinedAt).toISOString(),
+        me: member.employerId.toString() === viewerId.toString(),
+      };
+    }),
+    invitations: invitations.map((invitation) => ({
+      id: invitation._id.toString(),
+      email: invitation.email as string,
+      role: invitation.role as OrganizationRole,
+      invitedByName: (invitation.invitedByName || '') as string,
+      expiresAt: new Date(invitation.expiresAt).toISOString(),
+    })),
+  };
+}
+
+export type OrganizationTeam = NonNullable<Awaited<ReturnType<typeof getOrganizationTeam>>>;
+
+/**
+ * Invites an email address to the organization and emails them a link to join.
+ * Inviting an address again replaces its pending invitation with a fresh link.
+ * @param membership The inviting member.
+ * @param email The address to invite.
+ * @param role The role they will join with.
+ * @returns The invitation, or an error message with its HTTP status.
+ */
+export async function inviteToOrganization(
+  membership: EmployerMembership,
+  email: string,
+  role: OrganizationRole
+): Promise<{ invitation: any } | { error: string; status: number }> {
+  const organization = await Organization.findById(membership.organizationId).lean<any>();
+  if (!organization) {
+    return { error: 'Organization not found.', status: 404 };
+  }
+
+  const existingMember = await Employer.findOne({
+    email,
+    _id: { $in: organization.members.map((member: any) => member.employerId) },
+  }).select('_id').lean();
+  if (existingMember) {
+    return { error: `${email} is already a member of ${organization.name || 'this organization'}.`, status: 409 };
+  }
+
+  const inviter = await Employer.findById(membership.employerId).select('firstName lastName name').lean<any>();
+  const invitedByName = getEmployerDisplayName(inviter, organization.name);
+  const token = generateSecureToken();
+  const expiresAt = new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+  const invitation = await OrganizationInvitation.findOneAndUpdate(
+    { organizationId: membership.organizationId, email },
+    { $set: { role, token, expiresAt, invitedBy: membership.employerId, invitedByName } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean<any>();
+
+  await sendOrganizationInvitationEmail(email, token, {
+    organizationName: organization.name || 'an organization',
+    invitedByName,
+    roleLabel: ORGANIZATION_ROLE_LABELS[role],
+    expiresInDays: INVITATION_EXPIRY_DAYS,
+  });
+
+  return { invitation };
+}
+
+/**
+ * A pending invitation by its emailed token, with the organization's name.
+ * @returns The invitation, or null when it doesn't exist or has expired.
+ */
+export async function findInvitation(token: string) {
+  if (!token) return null;
+  const invitation = await OrganizationInvitation.findOne({ token, expiresAt: { $gt: new Date() } }).lean<any>();
+  if (!invitation) return null;
+  const organization = await Organization.findById(invitation.organizationId).select('name').lean<any>();
+  if (!organization) return null;
+  return { invitation, organizationName: (organization.name || '') as string };
+}
+
+/**
+ * Adds the signed-in employer to the organization they were invited to. The
+ * invitation must have been sent to their account's email. An organization of
+ * their own with no jobs or teammates (e.g. the one created when they signed up)
+ * is removed; otherwise they have to leave their current organization first.
+ * @param token The invitation token from the emailed link.
+ * @param employerId The signed-in employer.
+ * @returns The new membership, or an error message with its HTTP status.
+ */
+export async function acceptInvitation(
+  token: string,
+  employerId: mongoose.Types.ObjectId
+): Promise<{ membership: EmployerMembership } | { error: string; status: number }> {
+  const found = await findInvitation(token);
+  if (!found) {
+    return { error: 'This invitation is invalid or has expired. Ask for a new one.', status: 404 };
+  }
+  const { invitation } = found;
+
+  const employer = await Employer.findById(employerId).select('email').lean<any>();
+  if (!employer) {
+    return { error: 'Employer profile not found.', status: 404 };
+  }
+  if ((employer.email || '').toLowerCase() !== invitation.email) {
+    return { error: `This invitation was sent to ${invitation.email}. Sign in with that account to accept it.`, status: 403 };
+  }
+
+  const current = await Organization.findOne({ 'members.employerId': employerId }).lean<any>();
+  if (current) {
+    if (current._id.toString() === invitation.organizationId.toString()) {
+      await OrganizationInvitation.deleteOne({ _id: invitation._id });
+      return { error: 'You are already a member of this organization.', status: 409 };
+    }
+
+    const isEmptyOwnOrganization =
+      current.ownerId.toString() === employerId.toString() &&
+      current.members.length === 1 &&
+      !(await Job.exists({ organizationId: current._id }));
+    if (!isEmptyOwnOrganization) {
+      return {
+        error: `You already belong to ${current.name || 'another organization'}. Leave it before joining a new one.`,
+        status: 409,
+      };
+    }
+    await Promise.all([
+      Organization.deleteOne({ _id: current._id }),
+      OrganizationInvitation.deleteMany({ organizationId: current._id }),
+    ]);
+  }
+
+  const joined = await Organization.findOneAndUpdate(
+    { _id: invitation.organizationId, 'members.employerId': { $ne: employerId } },
+    { $push: { members: { employerId, role: invitation.role, joinedAt: new Date() } } },
+    { new: true }
+  ).lean<any>();
+  await OrganizationInvitation.deleteOne({ _id: invitation._id });
+
+  const membership = joined ? toMembership(joined, employerId) : null;
+  if (!membership) {
+    return { error: 'Organization not found.', status: 404 };
+  }
+
+  console.log('🤝 Invitation accepted:', {
+    organizationId: membership.organizationId.toString(),
+    employerId: employerId.toString(),
+    role: membership.role,
+  });
+
+  return { membership };
+}
@@ -0,0 +1,175 @@
+// lib/public-companies.ts - Loading employer profiles, their open roles and hiring stats for the public company pages
+
+import { cache } from 'react';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Employer from '@/lib/models/employer';
+import Job, { type IJob } from '@/lib/models/job';
+import Application, { type IApplicationEvent } from '@/lib/models/application';
+import { syncJobStatuses } from '@/lib/job-lifecycle';
+
+// --------------------------------------------------
+// 1. CONFIGURATION
+// --------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+const RESPONSE_WINDOW_DAYS = 180; // Hiring stats only look at recent applications
+const RESPONSE_SAMPLE_LIMIT = 500; // Applications read per company for the stats
+const MIN_RESPONSE_SAMPLE = 3; // Fewer responses than this are too few to show a typical time
+
+// The company profile fields that are shown publicly
+const PUBLIC_PROFILE_FIELDS = 'name industry size founded location website linkedin description mission specialties photo';
+
+export interface CompanyProfile {
+  id: string;
+  name: string;
+  industry: string;
+  size: string;
+  founded: string;
+  location: string;
+  website: string;
+  linkedin: string;
+  description: string;
+  mission: string;
+  specialties: string[];
+  photo?: string;
+}
+
+export interface HiringStats {
+  openRoles: number;
+  rolesPosted: number; // Published jobs, open or closed
+  applicationsReceived: number; // In the last RESPONSE_WINDOW_DAYS
+  responseRate: number | null; // Percentage of those applications that got a status update
+  typicalResponseHours: number | null; // Median time to that update; null when there are too few
+}
+
+export interface PublicCompany {
+  company: CompanyProfile;
+  openJobs: IJob[];
+  stats: HiringStats;
+}
+
+// --------------------------------------------------
+// 2. URLS & FORMATTING
+// --------------------------------------------------
+
+/**
+ * The public page path for a company.
+ */
+export function companyPagePath(employerId: string): string {
+  return `/companies/${employerId}`;
+}
+
+/**
+ * Describes a typical response time in words, e.g. "Within a day" or "About 2 weeks".
+ * @param hours The median response time in hours.
+ */
+export function formatResponseTime(hours: number): string {
+  if (hours < 24) return 'Within a day';
+  const days = Math.round(hours / 24);
+  if (days < 14) return `About ${days} ${days === 1 ? 'day' : 'days'}`;
+  const weeks = Math.round(days / 7);
+  return `About ${weeks} weeks`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// --------------------------------------------------
+// 3. LOADING
+// --------------------------------------------------
+
+/**
+ * Computes an employer's hiring stats. An application counts as answered once its
+ * status moved on from Pending; the time to answer is measured to the first status
+ * change in its history, or to its last update for applications from before the history.
+ * @param employerId The employer's id.
+ * @param openRoles The number of currently Active jobs, already loaded by the caller.
+ */
+async function getHiringStats(employerId: mongoose.Types.ObjectId, openRoles: number): Promise<HiringStats> {
+  const jobs = await Job.find({ employerId, status: { $in: ['Active', 'Closed'] } }).select('_id').lean<Array<{ _id: unknown }>>();
+
+  const since = new Date(Date.now() - RESPONSE_WINDOW_DAYS * 24 * HOUR_MS);
+  const applications = await Application.find({ jobId: { $in: jobs.map((job) => job._id) }, appliedDate: { $gte: since } })
+    .select('status appliedDate updatedAt history')
+    .sort({ appliedDate: -1 })
+    .limit(RESPONSE_SAMPLE_LIMIT)
+    .lean<Array<{ status: string; appliedDate: Date; updatedAt: Date; history?: IApplicationEvent[] }>>();
+
+  const responseHours = applications
+    .filter((application) => application.status !== 'Pending')
+    .map((application) => {
+      const firstResponse = application.history?.find((event) => event.type === 'status_changed');
+      const respondedAt = firstResponse?.createdAt || application.updatedAt;
+      return Math.max(0, new Date(respondedAt).getTime() - new Date(application.appliedDate).getTime()) / HOUR_MS;
+    });
+
+  return {
+    openRoles,
+    rolesPosted: jobs.length,
+    applicationsReceived: applications.length,
+    responseRate: applications.length > 0 ? Math.round((responseHours.length / applications.length) * 100) : null,
+    typicalResponseHours: responseHours.length >= MIN_RESPONSE_SAMPLE ? Math.round(median(responseHours)) : null,
+  };
+}
+
+/**
+ * Loads a company's public profile, its open roles (newest first) and its hiring stats.
+ * Unknown ids return null. Cached per request, so metadata and the page share the queries.
+ * @param employerId The employer's id from the URL.
+ */
+export const getPublicCompany = cache(async (employerId: string): Promise<PublicCompany | null> => {
+  if (!mongoose.Types.ObjectId.isValid(employerId)) return null;
+
+  await dbConnect();
+  // Jobs past their deadline must not be listed as open
+  await syncJobStatuses();
+
+  const employer = await Employer.findById(employerId).select(PUBLIC_PROFILE_FIELDS).lean<any>();
+  if (!employer) return null;
+
+  const openJobs = await Job.find({ employerId: employer._id, status: 'Active' }).sort({ postedDate: -1 }).lean<IJob[]>();
+  const stats = await getHiringStats(employer._id, openJobs.length);
+
+  return {
+    company: {
+      id: employer._id.toString(),
+      // Employers who haven't filled in their profile still post under a company name
+      name: employer.name || openJobs[0]?.company || 'Company',
+      industry: employer.industry || '',
+      size: employer.size || '',
+      founded: employer.founded || '',
+      location: employer.location || '',
+      website: employer.website || '',
+      linkedin: employer.linkedin || '',
+      description: employer.description || '',
+      mission: employer.mission || '',
+      specialties: employer.specialties || [],
+      photo: employer.photo || undefined,
+    },
+    openJobs,
+    stats,
+  };
+});
+
+/**
+ * Lists the companies with open roles to include in the sitemap, with the time
+ * their newest role was posted or updated.
+ */
+export async function listSitemapCompanies(): Promise<Array<{ id: string; lastModified: Date }>> {
+  await dbConnect();
+
+  const companies = await Job.aggregate<{ _id: mongoose.Types.ObjectId; lastModified: Date }>([
+    { $match: { status: 'Active' } },
+    { $group: { _id: '$employerId', lastModified: { $max: '$updatedAt' } } },
+    { $sort: { lastModified: -1 } },
+  ]);
+
+  return companies.map((company) => ({
+    id: company._id.toString(),
+    lastModified: company.lastModified || new Date(),
+  }));
+}
@@ -0,0 +1,234 @@
+// lib/public-jobs.ts - Loading jobs for the public job pages, and their SEO metadata and JobPosting structured data
+
+import { cache } from 'react';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Job, { type IJob } from '@/lib/models/job';
+import Employer from '@/lib/models/employer';
+import { syncJobStatuses } from '@/lib/job-lifecycle';
+import { formatSalaryRange, parseSalaryText, type SalaryPeriod } from '@/lib/salary';
+
+// --------------------------------------------------
+// 1. CONFIGURATION
+// --------------------------------------------------
+
+const META_DESCRIPTION_LENGTH = 160;
+const SITEMAP_JOB_LIMIT = 50000; // Maximum URLs in one sitemap file
+
+// schema.org employmentType values for the job types employers pick from
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  'full-time': 'FULL_TIME',
+  'part-time': 'PART_TIME',
+  contract: 'CONTRACTOR',
+  freelance: 'CONTRACTOR',
+  temporary: 'TEMPORARY',
+  internship: 'INTERN',
+};
+
+const SALARY_UNITS: Record<SalaryPeriod, string> = {
+  hourly: 'HOUR',
+  monthly: 'MONTH',
+  yearly: 'YEAR',
+};
+
+// A published job with the public parts of its employer's profile
+export interface PublicJob {
+  job: IJob;
+  employer: { name: string; website: string; description: string; photo?: string } | null;
+  isOpen: boolean;
+}
+
+// --------------------------------------------------
+// 2. URLS & LOADING
+// --------------------------------------------------
+
+/**
+ * The site's absolute base URL (no trailing slash), used for canonical links and the sitemap.
+ */
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_BASE_URL || process.env.BASE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+/**
+ * The public page path for a job.
+ */
+export function jobPagePath(jobId: string): string {
+  return `/jobs/${jobId}`;
+}
+
+/**
+ * Loads a published job (Active or Closed) for its public page. Drafts and unknown
+ * ids return null. Cached per request, so metadata and the page share one query.
+ * @param jobId The job's id from the URL.
+ */
+export const getPublicJob = cache(async (jobId: string): Promise<PublicJob | null> => {
+  if (!mongoose.Types.ObjectId.isValid(jobId)) return null;
+
+  await dbConnect();
+  // Jobs past their deadline must not be advertised as open
+  await syncJobStatuses();
+
+  const job = await Job.findOne({ _id: jobId, status: { $in: ['Active', 'Closed'] } }).lean<IJob>();
+  if (!job) return null;
+
+  const employer = await Employer.findById(job.employerId)
+    .select('name website description photo')
+    .lean<{ name?: string; website?: string; description?: string; photo?: string }>();
+
+  return {
+    job,
+    employer: employer
+      ? {
+          name: employer.name || job.company,
+          website: employer.website || '',
+          description: employer.description || '',
+          // Base64 photos are too large to embed in metadata
+          photo: employer.photo && /^https?:\/\//i.test(employer.photo) ? employer.photo : undefined,
+        }
+      : null,
+    isOpen: job.status === 'Active',
+  };
+});
+
+/**
+ * Lists the open jobs to include in the sitemap, most recently updated first.
+ */
+export async function listSitemapJobs(): Promise<Array<{ id: string; lastModified: Date }>> {
+  await dbConnect();
+  await syncJobStatuses();
+
+  const jobs = await Job.find({ status: 'Active' })
+    .select('_id updatedAt postedDate')
+    .sort({ updatedAt: -1 })
+    .limit(SITEMAP_JOB_LIMIT)
+    .lean<Array<{ _id: unknown; updatedAt?: Date; postedDate?: Date }>>();
+
+  return jobs.map((job) => ({
+    id: String(job._id),
+    lastModified: job.updatedAt || job.postedDate || new Date(),
+  }));
+}
+
+// --------------------------------------------------
+// 3. METADATA & STRUCTURED DATA
+// --------------------------------------------------
+
+/**
+ * A one-line summary of a job for meta descriptions and link previews, e.g.
+ * "Acme is hiring a Frontend Developer in Austin, TX (Full-time, $120k - $160k). We're looking for..."
+ * @param job The job.
+ * @returns At most 160 characters.
+ */
+export function describeJob(job: IJob): string {
+  const where = job.remote ? (job.location ? `${job.location} or remote` : 'remote') : job.location;
+  const details = [job.type, formatSalaryRange(job.salaryRange) || job.salary].filter(Boolean).join(', ');
+  const summary = `${job.company} is hiring a ${job.title}${where ? ` in ${where}` : ''}${details ? ` (${details})` : ''}.`;
+  const description = (job.description || '').replace(/\s+/g, ' ').trim();
+  const text = description ? `${summary} ${description}` : summary;
+
+  return text.length > META_DESCRIPTION_LENGTH ? `${text.slice(0, META_DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Splits "Austin, TX, USA" into the address parts schema.org expects
+function postalAddress(location: string) {
+  const parts = location.split(',').map((part) => part.trim()).filter(Boolean);
+  return {
+    '@type': 'PostalAddress',
+    addressLocality: parts[0],
+    ...(parts.length > 2 ? { addressRegion: parts[1], addressCountry: parts[parts.length - 1] } : {}),
+    ...(parts.length === 2 ? { addressRegion: parts[1] } : {}),
+  };
+}
+
+/**
+ * Builds the schema.org JobPosting structured data for a job page, as described in
+ * Google's job posting guidelines. Only open jobs should carry it.
+ * @param publicJob The job and its employer.
+ * @returns A JSON-LD object for a <script type="application/ld+json"> tag.
+ */
+export function buildJobPostingJsonLd({ job, employer }: PublicJob): Record<string, any> {
+  const siteUrl = getSiteUrl();
+  const jobId = String(job._id);
+
+  // JobPosting descriptions are HTML; keep the employer's line breaks and requirements
+  const paragraphs = (job.description || '')
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .filter((paragraph) => paragraph !== '<p></p>');
+  if (job.requirements?.length) {
+    paragraphs.push(`<p>Requirements:</p><ul>${job.requirements.map((requirement) => `<li>${escapeHtml(requirement)}</li>`).join('')}</ul>`);
+  }
+  if (job.benefits?.length) {
+    paragraphs.push(`<p>Benefits:</p><ul>${job.benefits.map((benefit) => `<li>${escapeHtml(benefit)}</li>`).join('')}</ul>`);
+  }
+
+  const jsonLd: Record<string, any> = {
+    '@context': 'https://schema.org/',
+    '@type': 'JobPosting',
+    title: job.title,
+    description: paragraphs.join('\n'),
+    identifier: { '@type': 'PropertyValue', name: job.company, value: jobId },
+    datePosted: new Date(job.postedDate || Date.now()).toISOString(),
+    url: `${siteUrl}${jobPagePath(jobId)}`,
+    hiringOrganization: {
+      '@type': 'Organization',
+      name: employer?.name || job.company,
+      ...(employer?.website ? { sameAs: employer.website } : {}),
+      ...(employer?.photo ? { logo: employer.photo } : {}),
+    },
+    directApply: false,
+  };
+
+  if (job.deadline) {
+    const validThrough = new Date(job.deadline);
+    if (!isNaN(validThrough.getTime())) {
+      // A date-only deadline stays open until the end of that day
+      if (/^\d{4}-\d{2}-\d{2}$/.test(job.deadline)) validThrough.setUTCHours(23, 59, 59);
+      jsonLd.validThrough = validThrough.toISOString();
+    }
+  }
+
+  const employmentType = EMPLOYMENT_TYPES[(job.type || '').trim().toLowerCase().replace(/\s+/g, '-')];
+  if (employmentType) jsonLd.employmentType = employmentType;
+
+  if (job.location && !/^remote$/i.test(job.location.trim())) {
+    jsonLd.jobLocation = { '@type': 'Place', address: postalAddress(job.location) };
+  }
+  if (job.remote) {
+    jsonLd.jobLocationType = 'TELECOMMUTE';
+  }
+
+  const salary = job.salaryRange ?? parseSalaryText(job.salary);
+  if (salary && (salary.min !== null || salary.max !== null)) {
+    jsonLd.baseSalary = {
+      '@type': 'MonetaryAmount',
+      currency: salary.currency,
+      value: {
+        '@type': 'QuantitativeValue',
+        unitText: SALARY_UNITS[salary.period],
+        ...(salary.min !== null && salary.max !== null && salary.min !== salary.max
+          ? { minValue: salary.min, maxValue: salary.max }
+          : { value: salary.min ?? salary.max }),
+      },
+    };
+  }
+
+  if (job.industry) jsonLd.industry = job.industry;
+  if (job.category) jsonLd.occupationalCategory = job.category;
+  if (job.requirements?.length) jsonLd.skills = job.requirements.join(', ');
+  if (job.benefits?.length) jsonLd.jobBenefits = job.benefits.join(', ');
+
+  return jsonLd;
+}
+
+/**
+ * Serializes JSON-LD for an inline script tag. "<" is escaped so job text
+ * containing "</script>" can't end the tag early.
+ */
+export function serializeJsonLd(data: Record<string, any>): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,108 @@
+// lib/resume-files.ts - Resume upload validation, parsing and references to stored resume files
+
+import crypto from 'crypto';
+import path from 'path';
+import type { IParsedResume } from '@/lib/models/parsed-resume';
+import { parseResumeText } from '@/lib/resume-parser';
+import { extractResumeText } from '@/lib/resume-text';
+
+export const RESUME_MAX_BYTES = 5 * 1024 * 1024; // 5MB, as advertised in the application form
+
+// Allowed resume formats, keyed by extension, with the leading bytes each format starts with
+const RESUME_FORMATS: Record<string, { contentType: string; signature: number[] }> = {
+  '.pdf': { contentType: 'application/pdf', signature: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+  '.doc': { contentType: 'application/msword', signature: [0xd0, 0xcf, 0x11, 0xe0] }, // OLE2 compound file
+  '.docx': {
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    signature: [0x50, 0x4b, 0x03, 0x04], // ZIP
+  },
+};
+
+/**
+ * Validates an uploaded resume. The extension must be PDF, DOC or DOCX and the
+ * content must match it, so a renamed file of another type is rejected.
+ * @param fileName The original file name.
+ * @param data The file content.
+ * @param label What the file is called in error messages.
+ * @returns The content type to store the file with, or an error message.
+ */
+export function validateResumeFile(fileName: string, data: Buffer, label = 'Resume'): { contentType?: string; error?: string } {
+  if (data.length === 0) {
+    return { error: 'The uploaded file is empty.' };
+  }
+  if (data.length > RESUME_MAX_BYTES) {
+    return { error: `${label} must be 5MB or smaller.` };
+  }
+
+  const format = RESUME_FORMATS[path.extname(fileName).toLowerCase()];
+  if (!format) {
+    return { error: `${label} must be a PDF, DOC or DOCX file.` };
+  }
+
+  const matchesSignature = format.signature.every((byte, index) => data[index] === byte);
+  if (!matchesSignature) {
+    return { error: 'The file content does not match its PDF, DOC or DOCX extension.' };
+  }
+
+  return { contentType: format.contentType };
+}
+
+/**
+ * Generates a unique storage key for a user's resume, keeping the original extension.
+ * @param folder Top-level folder; documents attached to screening answers go under "screening".
+ */
+export function buildResumeStorageKey(ownerId: string, fileName: string, folder: 'resumes' | 'screening' = 'resumes'): string {
+  return `${folder}/${ownerId}/${crypto.randomUUID()}${path.extname(fileName).toLowerCase()}`;
+}
+
+/**
+ * The download URL stored on applications in place of the file content.
+ */
+export function resumeDownloadUrl(fileId: string): string {
+  return `/api/files/${fileId}`;
+}
+
+/**
+ * Extracts and parses the text of an uploaded resume.
+ * @returns The parsed resume, or undefined when the file has no readable text (e.g. DOC or scanned PDF).
+ */
+export function parseResumeUpload(data: Buffer, contentType: string): IParsedResume | undefined {
+  const text = extractResumeText(data, contentType);
+  if (!text) return undefined;
+  return { ...parseResumeText(text), parsedAt: new Date() };
+}
+
+/**
+ * Transforms stored parsed resume data into the shape returned by the API.
+ */
+export function formatParsedResume(parsed: any) {
+  if (!parsed) return null;
+  return {
+    contact: {
+      name: parsed.contact?.name || '',
+      email: parsed.contact?.email || '',
+      phone: parsed.contact?.phone || '',
+      linkedin: parsed.contact?.linkedin || '',
+      github: parsed.contact?.github || '',
+      website: parsed.contact?.website || '',
+      location: parsed.contact?.location || '',
+    },
+    summary: parsed.summary || '',
+    skills: [...(parsed.skills || [])],
+    experience: (parsed.experience || []).map((entry: any) => ({
+      title: entry.title || '',
+      company: entry.company || '',
+      startDate: entry.startDate || '',
+      endDate: entry.endDate || '',
+      description: entry.description || '',
+    })),
+    education: (parsed.education || []).map((entry: any) => ({
+      institution: entry.institution || '',
+      degree: entry.degree || '',
+      field: entry.field || '',
+      startDate: entry.startDate || '',
+      endDate: entry.endDate || '',
+    })),
+    parsedAt: parsed.parsedAt ? new Date(parsed.parsedAt).toISOString() : null,
+  };
+}
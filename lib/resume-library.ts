@@ -0,0 +1,76 @@
+// lib/resume-library.ts - Named resumes kept on the job seeker profile
+
+import Application from '@/lib/models/application';
+import JobSeeker from '@/lib/models/jobseeker';
+import StoredFile from '@/lib/models/stored-file';
+import { getFileStorage } from '@/lib/file-storage';
+import { formatParsedResume, resumeDownloadUrl } from '@/lib/resume-files';
+
+export const MAX_LIBRARY_RESUMES = 10;
+export const MAX_RESUME_NAME_LENGTH = 80;
+
+/**
+ * Transforms a library entry into the shape returned by the API.
+ */
+export function formatLibraryResume(resume: any) {
+  return {
+    id: resume._id.toString(),
+    name: resume.name,
+    fileName: resume.fileName,
+    contentType: resume.contentType,
+    size: resume.size,
+    isDefault: resume.isDefault || false,
+    url: resumeDownloadUrl(resume.fileId.toString()),
+    uploadedAt: new Date(resume.uploadedAt).toISOString(),
+    parsed: formatParsedResume(resume.parsed),
+  };
+}
+
+/**
+ * Keeps exactly one default resume when the library is not empty, and mirrors the
+ * default into the legacy resumeUrl field. Call before saving the job seeker.
+ * @param jobSeeker The job seeker document (modified in place).
+ * @param preferredDefaultId The entry to make the default, if any.
+ */
+export function normalizeDefaultResume(jobSeeker: any, preferredDefaultId?: string) {
+  const resumes: any[] = jobSeeker.resumes || [];
+
+  if (preferredDefaultId) {
+    resumes.forEach((resume) => {
+      resume.isDefault = resume._id.toString() === preferredDefaultId;
+    });
+  }
+
+  if (resumes.length > 0 && !resumes.some((resume) => resume.isDefault)) {
+    resumes[0].isDefault = true;
+  }
+
+  const defaultResume = resumes.find((resume) => resume.isDefault);
+  jobSeeker.resumeUrl = defaultResume ? resumeDownloadUrl(defaultResume.fileId.toString()) : '';
+}
+
+/**
+ * Deletes a stored resume file once nothing refers to it anymore. Files attached to
+ * applications are kept so employers can still download what they received.
+ * @param fileId The stored file's id.
+ */
+export async function releaseResumeFile(fileId: unknown): Promise<void> {
+  try {
+    const [usedByApplication, usedByLibrary] = await Promise.all([
+      Application.exists({ resumeFileId: fileId }),
+      JobSeeker.exists({ 'resumes.fileId': fileId }),
+    ]);
+    if (usedByApplication || usedByLibrary) return;
+
+    const file = await StoredFile.findByIdAndDelete(fileId).lean<any>();
+    if (!file) return;
+
+    const storage = getFileStorage();
+    if (storage.driver === file.driver) {
+      await storage.delete(file.storageKey);
+    }
+    console.log('🗑️ Deleted unused resume file:', { fileId: String(fileId) });
+  } catch (error: any) {
+    console.error('❌ Error releasing resume file:', error.message);
+  }
+}
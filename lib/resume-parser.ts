@@ -0,0 +1,341 @@
+// lib/resume-parser.ts - Heuristic parsing of resume text into contact details, skills, work history and education
+
+export interface ParsedResumeContact {
+  name: string;
+  email: string;
+  phone: string;
+  linkedin: string;
+  github: string;
+  website: string;
+  location: string;
+}
+
+export interface ParsedResumeExperience {
+  title: string;
+  company: string;
+  startDate: string; // As written on the resume, e.g. "Jan 2020"
+  endDate: string; // "Present" for current roles
+  description: string;
+}
+
+export interface ParsedResumeEducation {
+  institution: string;
+  degree: string;
+  field: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ParsedResume {
+  contact: ParsedResumeContact;
+  summary: string;
+  skills: string[];
+  experience: ParsedResumeExperience[];
+  education: ParsedResumeEducation[];
+}
+
+export const MAX_PARSED_SKILLS = 50;
+const MAX_EXPERIENCE_ENTRIES = 15;
+const MAX_EDUCATION_ENTRIES = 10;
+const MAX_SUMMARY_LENGTH = 1000;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// --------------------------------------------------
+// 1. VOCABULARY
+// --------------------------------------------------
+
+type SectionName = 'summary' | 'experience' | 'education' | 'skills' | 'other';
+
+const SECTION_HEADINGS: Array<[SectionName, RegExp]> = [
+  ['summary', /^(summary|professional summary|career summary|profile|professional profile|about|about me|objective|career objective|personal statement)$/],
+  ['experience', /^(experience|work experience|professional experience|relevant experience|employment|employment history|work history|career history)$/],
+  ['education', /^(education|education and training|academic background|academic qualifications|qualifications)$/],
+  ['skills', /^(skills|technical skills|core skills|key skills|skills and tools|competencies|core competencies|technologies|tech stack|tools)$/],
+  ['other', /^(projects|personal projects|certifications?|licenses|awards|honors|languages|interests|hobbies|publications|references|volunteering|volunteer experience|achievements|activities)$/],
+];
+
+// Skills recognised anywhere in the resume, in their display form
+const KNOWN_SKILLS = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'Kotlin', 'Swift', 'Go', 'Rust', 'Ruby', 'PHP', 'C', 'C++', 'C#',
+  'Scala', 'R', 'SQL', 'HTML', 'CSS', 'Sass', 'React', 'React Native', 'Next.js', 'Vue.js', 'Angular', 'Svelte',
+  'Redux', 'Node.js', 'Express', 'NestJS', 'Django', 'Flask', 'FastAPI', 'Spring', 'Rails', 'Laravel', '.NET',
+  'GraphQL', 'REST', 'MongoDB', 'PostgreSQL', 'MySQL', 'Redis', 'Elasticsearch', 'Kafka', 'RabbitMQ', 'AWS',
+  'Azure', 'GCP', 'Docker', 'Kubernetes', 'Terraform', 'Ansible', 'Jenkins', 'CI/CD', 'Git', 'Linux',
+  'Tailwind CSS', 'Figma', 'Sketch', 'Photoshop', 'Jira', 'Agile', 'Scrum', 'Machine Learning', 'Deep Learning',
+  'TensorFlow', 'PyTorch', 'Pandas', 'NumPy', 'Tableau', 'Power BI', 'Excel', 'Salesforce', 'SEO', 'Jest',
+  'Cypress', 'Selenium', 'Microservices', 'Data Analysis', 'Project Management', 'Product Management',
+];
+
+// Short names that are ordinary words or letters elsewhere; only taken from a skills section
+const AMBIGUOUS_SKILLS = new Set(['c', 'r', 'go', 'rest', 'spring', 'express', 'rails', 'excel', 'sketch', 'git']);
+
+const KNOWN_SKILL_PATTERNS = KNOWN_SKILLS.filter((skill) => !AMBIGUOUS_SKILLS.has(skill.toLowerCase())).map((skill) => ({
+  skill,
+  pattern: new RegExp(`(^|[^\\w.+#])${skill.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}(?![\\w+#]|\\.\\w)`, 'i'),
+}));
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s*\\d{4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`, 'i');
+const YEAR = /\b(?:19|20)\d{2}\b/g;
+
+const TITLE_WORDS = /\b(engineer|developer|programmer|manager|designer|analyst|architect|consultant|intern|lead|director|specialist|scientist|administrator|officer|coordinator|assistant|associate|executive|head|founder|owner|technician|representative|accountant|teacher|nurse|writer|editor|researcher|vp|president|cto|ceo)\b/i;
+const DEGREE = /\b(bachelor'?s?|master'?s?|mba|ph\.?\s?d\.?|doctorate|associate'?s? degree|diploma|high school|ged)\b|\b(B\.?S\.?c?|B\.?A\.?|M\.?S\.?c?|M\.?A\.?|B\.?Tech|M\.?Tech|B\.?E\.?|M\.?E\.?|B\.?Com|M\.?Com|BBA|BCA|MCA)(?![\w.])/i;
+const INSTITUTION = /\b(university|college|institute|school|academy|polytechnic|universit[éa]t?)\b/i;
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE = /\+?\(?\d[\d\s().-]{7,}\d/g;
+const LINKEDIN = /(?:https?:\/\/)?(?:[\w-]+\.)?linkedin\.com\/in\/[\w%-]+\/?/i;
+const GITHUB = /(?:https?:\/\/)?(?:www\.)?github\.com\/[\w-]+\/?/i;
+const URL = /(?:https?:\/\/|www\.)[^\s|,;]+/gi;
+const BULLET = /^[•●▪◦‣∙*·\-–]\s*/;
+
+// --------------------------------------------------
+// 2. HELPERS
+// --------------------------------------------------
+
+function sectionOf(line: string): SectionName | null {
+  if (line.length > 40) return null;
+  const heading = line.replace(/[:\s]+$/, '').replace(/\s+/g, ' ').replace(/&/g, 'and').toLowerCase();
+  const match = SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading));
+  return match ? match[0] : null;
+}
+
+function splitSections(lines: string[]) {
+  const sections: Record<SectionName | 'header', string[]> = {
+    header: [], summary: [], experience: [], education: [], skills: [], other: [],
+  };
+  let current: SectionName | 'header' = 'header';
+
+  for (const line of lines) {
+    const section = sectionOf(line);
+    if (section) {
+      current = section;
+    } else {
+      sections[current].push(line);
+    }
+  }
+  return sections;
+}
+
+function capitalizeDate(date: string): string {
+  const trimmed = date.trim().replace(/\s+/g, ' ');
+  if (/^(present|current|now|today)$/i.test(trimmed)) return 'Present';
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+// Splits "Senior Engineer at Acme, Berlin" style lines into their parts
+function splitHeaderParts(text: string): string[] {
+  return text
+    .split(/\s+(?:at|@)\s+|\s*[|,•·]\s*|\s+[-–—]\s+/)
+    .map((part) => part.replace(/^[-–—:\s]+|[-–—:\s]+$/g, '').trim())
+    .filter(Boolean);
+}
+
+function clip(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+// --------------------------------------------------
+// 3. FIELD PARSERS
+// --------------------------------------------------
+
+function parseContact(text: string, headerLines: string[]): ParsedResumeContact {
+  const linkedin = text.match(LINKEDIN)?.[0] || '';
+  const github = text.match(GITHUB)?.[0] || '';
+  const website =
+    (text.match(URL) || []).find((url) => !/linkedin\.com|github\.com/i.test(url))?.replace(/[.)>]+$/, '') || '';
+
+  // Prefer a number near the top; further down, long digit runs are often ids or figures
+  const phone =
+    [...(headerLines.join('\n').match(PHONE) || []), ...(text.match(PHONE) || [])]
+      .map((candidate) => candidate.trim())
+      .find((candidate) => {
+        const digits = candidate.replace(/\D/g, '').length;
+        return digits >= 9 && digits <= 15 && !DATE_RANGE.test(candidate);
+      }) || '';
+
+  const segments = headerLines.flatMap((line) => line.split(/\s*[|•·]\s*|\t/)).map((segment) => segment.trim());
+
+  const name =
+    headerLines.find(
+      (line) =>
+        line.length <= 50 &&
+        /^[\p{L}][\p{L}'.-]*(\s+[\p{L}][\p{L}'.-]*){1,3}$/u.test(line) &&
+        !sectionOf(line) &&
+        !TITLE_WORDS.test(line)
+    ) || '';
+
+  const location =
+    segments.find(
+      (segment) =>
+        segment !== name &&
+        segment.length <= 60 &&
+        /^[\p{L}][\p{L} .'-]*,\s*[\p{L}][\p{L} .'-]*$/u.test(segment) &&
+        !TITLE_WORDS.test(segment)
+    ) || '';
+
+  return {
+    name,
+    email: text.match(EMAIL)?.[0].toLowerCase() || '',
+    phone,
+    linkedin,
+    github,
+    website,
+    location,
+  };
+}
+
+function parseSkills(text: string, skillLines: string[]): string[] {
+  const skills: string[] = [];
+  const seen = new Set<string>();
+  const add = (skill: string) => {
+    const cleaned = skill.replace(BULLET, '').replace(/[.;]+$/, '').trim();
+    const key = cleaned.toLowerCase();
+    if (cleaned.length < 1 || cleaned.length > 40 || seen.has(key) || cleaned.split(' ').length > 4) return;
+    seen.add(key);
+    skills.push(cleaned);
+  };
+
+  for (const line of skillLines) {
+    // "Languages: Python, Go" - the label is not a skill
+    const values = line.includes(':') ? line.slice(line.indexOf(':') + 1) : line;
+    values.split(/[,;|•·\t]|\s{2,}|\s+\/\s+/).forEach(add);
+  }
+
+  for (const { skill, pattern } of KNOWN_SKILL_PATTERNS) {
+    if (pattern.test(text)) add(skill);
+  }
+
+  return skills.slice(0, MAX_PARSED_SKILLS);
+}
+
+function parseExperience(lines: string[]): ParsedResumeExperience[] {
+  const entries: Array<ParsedResumeExperience & { descriptionLines: string[] }> = [];
+  let lastEntryLine = -1;
+
+  lines.forEach((line, index) => {
+    const range = DATE_RANGE.exec(line);
+    if (!range) {
+      entries[entries.length - 1]?.descriptionLines.push(line.replace(BULLET, ''));
+      return;
+    }
+
+    // Title and company are on the date line or on up to two short lines just above it
+    const headerLines: string[] = [];
+    for (let i = index - 1; i > lastEntryLine && headerLines.length < 2; i--) {
+      const candidate = lines[i];
+      if (candidate.length > 80 || BULLET.test(candidate) || /[.!]$/.test(candidate)) break;
+      headerLines.unshift(candidate);
+    }
+    const previous = entries[entries.length - 1];
+    if (previous) previous.descriptionLines.splice(previous.descriptionLines.length - headerLines.length);
+
+    const rest = line.replace(range[0], ' ').replace(/[()]/g, ' ');
+    const parts = [...headerLines, rest].flatMap(splitHeaderParts);
+    let [title = '', company = ''] = parts;
+    if (!TITLE_WORDS.test(title) && TITLE_WORDS.test(company)) {
+      [title, company] = [company, title];
+    }
+
+    entries.push({
+      title,
+      company,
+      startDate: capitalizeDate(range[1]),
+      endDate: capitalizeDate(range[2]),
+      description: '',
+      descriptionLines: [],
+    });
+    lastEntryLine = index;
+  });
+
+  return entries.slice(0, MAX_EXPERIENCE_ENTRIES).map(({ descriptionLines, ...entry }) => ({
+    ...entry,
+    description: clip(descriptionLines.join('\n'), MAX_DESCRIPTION_LENGTH),
+  }));
+}
+
+function parseEducation(lines: string[]): ParsedResumeEducation[] {
+  const entries: ParsedResumeEducation[] = [];
+  let current: ParsedResumeEducation | null = null;
+
+  for (const line of lines) {
+    const segments = splitHeaderParts(line.replace(DATE_RANGE, ' ').replace(/\(?\b(19|20)\d{2}\b\)?/g, ' '));
+    const degreeSegment = segments.find((segment) => DEGREE.test(segment) && !INSTITUTION.test(segment));
+    let institution = segments.find((segment) => INSTITUTION.test(segment));
+
+    if (!current || (institution && current.institution) || (degreeSegment && current.degree)) {
+      if (!institution && !degreeSegment) continue;
+      current = { institution: '', degree: '', field: '', startDate: '', endDate: '' };
+      entries.push(current);
+    }
+
+    if (degreeSegment) {
+      // "MIT - M.S. Data Science": the other part names the institution
+      if (!institution && !current.institution) {
+        institution = segments.find((segment) => segment !== degreeSegment);
+      }
+
+      // "Bachelor of Science in Computer Science" or "M.S. Data Science" -> degree + field
+      const inField = /^(.*?)\s+in\s+(.+)$/i.exec(degreeSegment);
+      const abbreviated = DEGREE.exec(degreeSegment);
+      if (inField) {
+        current.degree = inField[1];
+        current.field = inField[2];
+      } else if (abbreviated?.index === 0 && !/^\s+of\b/i.test(degreeSegment.slice(abbreviated[0].length))) {
+        current.degree = abbreviated[0].trim();
+        current.field = degreeSegment.slice(abbreviated[0].length).trim();
+      } else {
+        current.degree = degreeSegment;
+      }
+      if (!current.field) {
+        current.field = segments.find((segment) => segment !== institution && segment !== degreeSegment) || '';
+      }
+    }
+    if (institution) current.institution = institution;
+
+    const range = DATE_RANGE.exec(line);
+    const years: string[] = line.match(YEAR) || [];
+    if (range) {
+      current.startDate = capitalizeDate(range[1]);
+      current.endDate = capitalizeDate(range[2]);
+    } else if (years.length > 0 && !current.endDate) {
+      current.startDate = years.length > 1 ? years[0] : '';
+      current.endDate = years[years.length - 1];
+    }
+  }
+
+  return entries.slice(0, MAX_EDUCATION_ENTRIES);
+}
+
+// --------------------------------------------------
+// 4. ENTRY POINT
+// --------------------------------------------------
+
+/**
+ * Parses extracted resume text (see lib/resume-text.ts). Works on conventional
+ * layouts with headed sections; anything it can't place is left empty.
+ * @param text The resume text, one line per paragraph.
+ * @returns The structured resume.
+ */
+export function parseResumeText(text: string): ParsedResume {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const sections = splitSections(lines);
+
+  let summary = sections.summary.join(' ');
+  if (!summary) {
+    // Without a summary heading, use prose paragraphs in the header
+    summary = sections.header.filter((line) => line.length > 80 && !EMAIL.test(line)).join(' ');
+  }
+
+  return {
+    contact: parseContact(text, sections.header.slice(0, 8)),
+    summary: clip(summary, MAX_SUMMARY_LENGTH),
+    skills: parseSkills(text, sections.skills),
+    experience: parseExperience(sections.experience),
+    education: parseEducation(sections.education),
+  };
+}
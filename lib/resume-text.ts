@@ -0,0 +1,638 @@
+// lib/resume-text.ts - Plain text extraction from uploaded PDF and DOCX resumes
+
+import zlib from 'zlib';
+
+const MAX_INFLATED_BYTES = 20 * 1024 * 1024; // Guards against decompression bombs
+const MAX_TOTAL_INFLATED_BYTES = 40 * 1024 * 1024; // Across every stream of one document
+const MAX_INFLATED_STREAMS = 2_000;
+const MAX_PDF_OBJECTS = 20_000;
+const MAX_CMAP_RANGES = 5_000; // bfrange entries in one ToUnicode CMap
+const MAX_MAPPED_CODES = 300_000; // Glyph codes mapped across every CMap of one document
+const MAX_TEXT_LENGTH = 100_000;
+const MAX_PDF_PAGES = 30;
+
+/**
+ * Extracts the readable text of a resume. Legacy DOC files and scanned PDFs
+ * without a text layer are not supported.
+ * @param data The file content.
+ * @param contentType The content type the file was stored with.
+ * @returns The text with one line per paragraph, or null when none could be read.
+ */
+export function extractResumeText(data: Buffer, contentType: string): string | null {
+  try {
+    const budget: ExtractionBudget = {
+      bytes: MAX_TOTAL_INFLATED_BYTES,
+      streams: MAX_INFLATED_STREAMS,
+      mappedCodes: MAX_MAPPED_CODES,
+    };
+    let text: string | null = null;
+    if (contentType === 'application/pdf') {
+      text = extractPdfText(data, budget);
+    } else if (contentType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+      text = extractDocxText(data, budget);
+    }
+    if (!text) return null;
+
+    const cleaned = text
+      .replace(/\u0000/g, '')
+      .split('\n')
+      .map((line) => line.replace(/[ \t ]+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+      .slice(0, MAX_TEXT_LENGTH);
+
+    return cleaned || null;
+  } catch (error: any) {
+    console.error('❌ Error extracting resume text:', error.message);
+    return null;
+  }
+}
+
+// What one document may still decompress and map. Many small streams (or CMap ranges) can add up to
+// a bomb just as one large stream can, so extraction gives up once any of these runs out.
+interface ExtractionBudget {
+  bytes: number;
+  streams: number;
+  mappedCodes: number;
+}
+
+function inflate(data: Buffer, budget: ExtractionBudget, raw = false): Buffer {
+  if (budget.streams <= 0 || budget.bytes <= 0) {
+    throw new Error('Document exceeds the decompression limit');
+  }
+  budget.streams--;
+
+  const options = { maxOutputLength: Math.min(MAX_INFLATED_BYTES, budget.bytes) };
+  let output: Buffer;
+  try {
+    output = raw ? zlib.inflateRawSync(data, options) : zlib.inflateSync(data, options);
+  } catch {
+    // Some writers leave streams without a proper end marker; keep what decodes
+    const flush = { ...options, finishFlush: zlib.constants.Z_SYNC_FLUSH };
+    output = raw ? zlib.inflateRawSync(data, flush) : zlib.inflateSync(data, flush);
+  }
+
+  budget.bytes -= output.length;
+  return output;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// ---------------------------------------------------------------------------
+// DOCX - a ZIP archive whose main text lives in word/document.xml
+// ---------------------------------------------------------------------------
+
+function readZipEntry(data: Buffer, entryName: string, budget: ExtractionBudget): Buffer | null {
+  // The end of central directory record sits in the last 64KB (+22 bytes) of the archive
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== 0x02014b50) return null;
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      if (localOffset + 30 > data.length) return null;
+      const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+      const content = data.subarray(start, start + compressedSize);
+      if (method === 0) return content;
+      if (method === 8) return inflate(content, budget, true);
+      return null;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+function extractDocxText(data: Buffer, budget: ExtractionBudget): string | null {
+  const documentXml = readZipEntry(data, 'word/document.xml', budget);
+  if (!documentXml) return null;
+
+  const text = documentXml
+    .toString('utf8')
+    .replace(/[\r\n]+/g, '')
+    // Field codes and tracked deletions are not part of the visible text
+    .replace(/<w:instrText[^>]*>[\s\S]*?<\/w:instrText>/g, '')
+    .replace(/<w:delText[^>]*>[\s\S]*?<\/w:delText>/g, '')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br[^>]*\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<\/w:tc>/g, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeXmlEntities(text);
+}
+
+// ---------------------------------------------------------------------------
+// PDF - walk the page tree, decode content streams and map glyph codes to text
+// ---------------------------------------------------------------------------
+
+interface PdfObject {
+  body: string; // Object text before any stream, read as latin1 so offsets match bytes
+  stream?: Buffer;
+}
+
+interface PdfFont {
+  codeLength: number;
+  toUnicode: Map<number, string> | null;
+}
+
+// Returns the index just past the "<<...>>" dictionary starting at `start`
+function skipDictionary(text: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < text.length) {
+    if (text.startsWith('<<', i)) {
+      depth++;
+      i += 2;
+    } else if (text.startsWith('>>', i)) {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else if (text[i] === '(') {
+      // Skip literal strings, which may contain unbalanced brackets
+      let parens = 0;
+      for (; i < text.length; i++) {
+        if (text[i] === '\\') i++;
+        else if (text[i] === '(') parens++;
+        else if (text[i] === ')' && --parens === 0) break;
+      }
+      i++;
+    } else {
+      i++;
+    }
+  }
+  return text.length;
+}
+
+function parsePdfObjects(data: Buffer, budget: ExtractionBudget): Map<number, PdfObject> {
+  const text = data.toString('latin1');
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(text))) {
+    const number = Number(match[1]);
+    let cursor = match.index + match[0].length;
+    while (/\s/.test(text[cursor] || '')) cursor++;
+
+    let body: string;
+    let stream: Buffer | undefined;
+
+    if (text.startsWith('<<', cursor)) {
+      const dictEnd = skipDictionary(text, cursor);
+      body = text.slice(cursor, dictEnd);
+
+      const streamStart = /^\s*stream\r?\n/.exec(text.slice(dictEnd, dictEnd + 32));
+      if (streamStart) {
+        const dataStart = dictEnd + streamStart[0].length;
+        const declaredLength = /\/Length\s+(\d+)\b(?!\s+\d+\s+R)/.exec(body);
+        let dataEnd = declaredLength ? dataStart + Number(declaredLength[1]) : -1;
+        if (dataEnd < 0 || dataEnd > text.length || !/^\s*endstream/.test(text.slice(dataEnd, dataEnd + 16))) {
+          dataEnd = text.indexOf('endstream', dataStart);
+          if (dataEnd < 0) break;
+        }
+        stream = data.subarray(dataStart, dataEnd);
+        header.lastIndex = dataEnd;
+      } else {
+        header.lastIndex = dictEnd;
+      }
+    } else {
+      const end = text.indexOf('endobj', cursor);
+      body = text.slice(cursor, end < 0 ? undefined : end);
+    }
+
+    // Later revisions of an object (incremental updates) replace earlier ones
+    objects.set(number, { body, stream });
+    if (objects.size > MAX_PDF_OBJECTS) throw new Error('Document has too many objects');
+  }
+
+  // Objects packed inside object streams (PDF 1.5+)
+  for (const object of Array.from(objects.values())) {
+    if (!/\/Type\s*\/ObjStm\b/.test(object.body)) continue;
+    const decoded = decodePdfStream(object, budget);
+    const first = /\/First\s+(\d+)/.exec(object.body);
+    if (!decoded || !first) continue;
+
+    const content = decoded.toString('latin1');
+    const firstOffset = Number(first[1]);
+    const pairs = content.slice(0, firstOffset).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < pairs.length; i += 2) {
+      const start = firstOffset + pairs[i + 1];
+      const end = i + 3 < pairs.length ? firstOffset + pairs[i + 3] : content.length;
+      if (!objects.has(pairs[i])) {
+        objects.set(pairs[i], { body: content.slice(start, end) });
+        if (objects.size > MAX_PDF_OBJECTS) throw new Error('Document has too many objects');
+      }
+    }
+  }
+
+  return objects;
+}
+
+function decodePdfStream(object: PdfObject, budget: ExtractionBudget): Buffer | null {
+  if (!object.stream) return null;
+  const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(object.body);
+  if (!filter) return object.stream;
+
+  const filters = filter[1].match(/\/\w+/g) || [];
+  if (filters.length === 1 && filters[0] === '/FlateDecode') {
+    return inflate(object.stream, budget);
+  }
+  return null; // Images and other encodings carry no text we can read
+}
+
+function getRef(body: string, key: string): number | null {
+  const match = new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`).exec(body);
+  return match ? Number(match[1]) : null;
+}
+
+function getRefArray(body: string, key: string): number[] {
+  const match = new RegExp(`/${key}\\s*\\[([^\\]]*)\\]`).exec(body);
+  if (!match) return [];
+  return Array.from(match[1].matchAll(/(\d+)\s+\d+\s+R/g), (ref) => Number(ref[1]));
+}
+
+// Resolves an entry that is either an inline dictionary or a reference to one
+function getDictionary(objects: Map<number, PdfObject>, body: string, key: string): string | null {
+  const inline = new RegExp(`/${key}\\s*<<`).exec(body);
+  if (inline) {
+    const start = inline.index + inline[0].length - 2;
+    return body.slice(start, skipDictionary(body, start));
+  }
+  const ref = getRef(body, key);
+  return ref !== null ? objects.get(ref)?.body ?? null : null;
+}
+
+function hexToUtf16(hex: string): string {
+  if (hex.length < 4) return hex ? String.fromCharCode(parseInt(hex, 16)) : '';
+  let result = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    result += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return result;
+}
+
+function parseToUnicode(cmap: string, budget: ExtractionBudget): { codeLength: number; map: Map<number, string> } {
+  const map = new Map<number, string>();
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const codeLength = codespace ? Math.max(1, codespace[1].length / 2) : 1;
+
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const entry of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))) {
+      if (--budget.mappedCodes < 0) throw new Error('Document maps too many glyph codes');
+      map.set(parseInt(entry[1], 16), hexToUtf16(entry[2]));
+    }
+  }
+
+  let rangeCount = 0;
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    const ranges = block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g);
+    for (const range of Array.from(ranges)) {
+      if (++rangeCount > MAX_CMAP_RANGES) throw new Error('Font map has too many ranges');
+
+      // A range may only vary in its last byte, so it never spans more than 256 codes
+      const low = parseInt(range[1], 16);
+      const high = Math.min(parseInt(range[2], 16), low | 0xff);
+      if (high < low) continue;
+      budget.mappedCodes -= high - low + 1;
+      if (budget.mappedCodes < 0) throw new Error('Document maps too many glyph codes');
+
+      if (range[3].startsWith('[')) {
+        const targets = Array.from(range[3].matchAll(/<([0-9a-fA-F]*)>/g), (target) => hexToUtf16(target[1]));
+        targets.forEach((target, index) => {
+          if (low + index <= high) map.set(low + index, target);
+        });
+      } else {
+        const hex = range[3].slice(1, -1);
+        const base = hexToUtf16(hex);
+        const lastCode = base.charCodeAt(base.length - 1);
+        for (let code = low; code <= high; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(lastCode + (code - low)));
+        }
+      }
+    }
+  }
+
+  return { codeLength, map };
+}
+
+function loadPageFonts(
+  objects: Map<number, PdfObject>,
+  page: string,
+  parents: string[],
+  budget: ExtractionBudget,
+  loaded: Map<number, PdfFont> // Fonts already read for earlier pages, by object number
+): Map<string, PdfFont> {
+  const fonts = new Map<string, PdfFont>();
+
+  // Resources may be inherited from an ancestor in the page tree
+  let resources: string | null = null;
+  for (const node of [page, ...parents]) {
+    resources = getDictionary(objects, node, 'Resources');
+    if (resources) break;
+  }
+  const fontDictionary = resources ? getDictionary(objects, resources, 'Font') : null;
+  if (!fontDictionary) return fonts;
+
+  for (const entry of Array.from(fontDictionary.matchAll(/\/([^\s/<>\[\]()]+)\s+(\d+)\s+\d+\s+R/g))) {
+    const fontRef = Number(entry[2]);
+    const cached = loaded.get(fontRef);
+    if (cached) {
+      fonts.set(entry[1], cached);
+      continue;
+    }
+
+    const font = objects.get(fontRef);
+    if (!font) continue;
+
+    const toUnicodeRef = getRef(font.body, 'ToUnicode');
+    const cmapObject = toUnicodeRef !== null ? objects.get(toUnicodeRef) : undefined;
+    const cmap = cmapObject ? decodePdfStream(cmapObject, budget) : null;
+    const isComposite = /\/Subtype\s*\/Type0\b/.test(font.body);
+
+    let pdfFont: PdfFont;
+    if (cmap) {
+      const parsed = parseToUnicode(cmap.toString('latin1'), budget);
+      pdfFont = { codeLength: isComposite ? 2 : parsed.codeLength, toUnicode: parsed.map };
+    } else {
+      pdfFont = { codeLength: isComposite ? 2 : 1, toUnicode: null };
+    }
+    loaded.set(fontRef, pdfFont);
+    fonts.set(entry[1], pdfFont);
+  }
+
+  return fonts;
+}
+
+// Common WinAnsi characters that differ from latin1
+const WIN_ANSI: Record<number, string> = {
+  0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—',
+};
+
+function decodePdfString(bytes: number[], font: PdfFont | undefined): string {
+  if (font?.toUnicode) {
+    let result = '';
+    for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+      let code = 0;
+      for (let j = 0; j < font.codeLength; j++) code = code * 256 + bytes[i + j];
+      result += font.toUnicode.get(code) ?? '';
+    }
+    return result;
+  }
+  if (font?.codeLength === 2) return ''; // Composite font without a ToUnicode map: glyph ids only
+  return bytes.map((byte) => WIN_ANSI[byte] ?? String.fromCharCode(byte)).join('');
+}
+
+type PdfOperand = number | string | { bytes: number[] } | PdfOperand[];
+
+const PDF_ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+function readLiteralString(text: string, start: number): { bytes: number[]; end: number } {
+  const bytes: number[] = [];
+  let depth = 0;
+  let i = start;
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      const next = text[++i];
+      if (next in PDF_ESCAPES) bytes.push(PDF_ESCAPES[next]);
+      else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(text.slice(i, i + 3))![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += octal.length - 1;
+      } else if (next === '\r') {
+        if (text[i + 1] === '\n') i++;
+      } else if (next !== '\n') {
+        bytes.push(next.charCodeAt(0));
+      }
+    } else if (char === '(') {
+      if (depth++ > 0) bytes.push(40);
+    } else if (char === ')') {
+      if (--depth === 0) break;
+      bytes.push(41);
+    } else {
+      bytes.push(char.charCodeAt(0));
+    }
+  }
+  return { bytes, end: i + 1 };
+}
+
+function extractContentText(content: string, fonts: Map<string, PdfFont>): string {
+  let output = '';
+  let font: PdfFont | undefined;
+  let lineY: number | null = null;
+  const stack: PdfOperand[][] = [[]];
+
+  const newLine = () => {
+    if (output && !output.endsWith('\n')) output += '\n';
+  };
+  const space = () => {
+    if (output && !/\s$/.test(output)) output += ' ';
+  };
+  const show = (operand: PdfOperand | undefined) => {
+    if (operand && typeof operand === 'object' && 'bytes' in operand) {
+      output += decodePdfString(operand.bytes, font);
+    }
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (char === '(') {
+      const literal = readLiteralString(content, i);
+      stack[stack.length - 1].push({ bytes: literal.bytes });
+      i = literal.end;
+    } else if (content.startsWith('<<', i) || content.startsWith('>>', i)) {
+      i += 2;
+    } else if (char === '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end < 0 ? undefined : end).replace(/\s/g, '');
+      const bytes: number[] = [];
+      for (let j = 0; j < hex.length; j += 2) bytes.push(parseInt(hex.slice(j, j + 2).padEnd(2, '0'), 16));
+      stack[stack.length - 1].push({ bytes });
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === '[') {
+      stack.push([]);
+      i++;
+    } else if (char === ']') {
+      const array = stack.length > 1 ? stack.pop()! : [];
+      stack[stack.length - 1].push(array);
+      i++;
+    } else if (char === '/') {
+      const name = /^\/[^\s/<>\[\]()%{}]*/.exec(content.slice(i, i + 128))![0];
+      stack[stack.length - 1].push(name);
+      i += name.length;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32));
+      if (number) {
+        stack[stack.length - 1].push(Number(number[0]));
+        i += number[0].length;
+      } else {
+        i++;
+      }
+    } else {
+      const word = /^[^\s/<>\[\]()%{}]+/.exec(content.slice(i, i + 32));
+      const operator = word ? word[0] : char;
+      i += operator.length;
+
+      const operands = stack[0];
+      const number = (index: number) => (typeof operands[index] === 'number' ? (operands[index] as number) : 0);
+
+      switch (operator) {
+        case 'Tf': {
+          const name = operands[0];
+          font = typeof name === 'string' ? fonts.get(name.slice(1)) : undefined;
+          break;
+        }
+        case 'Td':
+        case 'TD':
+          if (Math.abs(number(1)) > 0.5) newLine();
+          else if (number(0) > 0.5) space();
+          break;
+        case 'Tm': {
+          const y = number(5);
+          if (lineY !== null && Math.abs(y - lineY) > 0.5) newLine();
+          else space();
+          lineY = y;
+          break;
+        }
+        case 'T*':
+          newLine();
+          break;
+        case "'":
+          newLine();
+          show(operands[0]);
+          break;
+        case '"':
+          newLine();
+          show(operands[2]);
+          break;
+        case 'Tj':
+          show(operands[0]);
+          break;
+        case 'TJ': {
+          const parts = Array.isArray(operands[0]) ? operands[0] : [];
+          for (const part of parts) {
+            // Large negative kerning is how many writers lay out word gaps
+            if (typeof part === 'number') {
+              if (part < -200) space();
+            } else {
+              show(part);
+            }
+          }
+          break;
+        }
+        case 'BT':
+          lineY = null;
+          break;
+        case 'ET':
+          newLine();
+          break;
+        case 'ID': {
+          // Inline image data is binary; skip to its end marker
+          const end = content.slice(i).search(/\sEI(\s|$)/);
+          i = end < 0 ? content.length : i + end + 3;
+          break;
+        }
+      }
+
+      stack.length = 1;
+      stack[0] = [];
+    }
+  }
+
+  return output;
+}
+
+function collectPages(objects: Map<number, PdfObject>): Array<{ page: string; parents: string[] }> {
+  const pages: Array<{ page: string; parents: string[] }> = [];
+  const visited = new Set<number>();
+
+  const walk = (ref: number, parents: string[]) => {
+    const node = objects.get(ref);
+    if (!node || visited.has(ref) || pages.length >= MAX_PDF_PAGES) return;
+    visited.add(ref);
+
+    if (/\/Type\s*\/Pages\b/.test(node.body)) {
+      getRefArray(node.body, 'Kids').forEach((kid) => walk(kid, [node.body, ...parents]));
+    } else if (/\/Type\s*\/Page\b/.test(node.body)) {
+      pages.push({ page: node.body, parents });
+    }
+  };
+
+  const catalog = Array.from(objects.values()).find((object) => /\/Type\s*\/Catalog\b/.test(object.body));
+  const rootPages = catalog ? getRef(catalog.body, 'Pages') : null;
+  if (rootPages !== null) walk(rootPages, []);
+
+  // Fall back to file order when the page tree can't be followed
+  if (pages.length === 0) {
+    for (const object of Array.from(objects.values())) {
+      if (/\/Type\s*\/Page\b/.test(object.body) && pages.length < MAX_PDF_PAGES) {
+        pages.push({ page: object.body, parents: [] });
+      }
+    }
+  }
+
+  return pages;
+}
+
+function extractPdfText(data: Buffer, budget: ExtractionBudget): string | null {
+  // Encrypted documents would need the password-derived key to read their streams
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(data.toString('latin1'))) return null;
+
+  const objects = parsePdfObjects(data, budget);
+
+  const pageTexts: string[] = [];
+  const loadedFonts = new Map<number, PdfFont>();
+  for (const { page, parents } of collectPages(objects)) {
+    const fonts = loadPageFonts(objects, page, parents, budget, loadedFonts);
+    const contentRefs = getRefArray(page, 'Contents');
+    const singleRef = getRef(page, 'Contents');
+    if (contentRefs.length === 0 && singleRef !== null) contentRefs.push(singleRef);
+
+    const content = contentRefs
+      .map((ref) => objects.get(ref))
+      .map((object) => (object ? decodePdfStream(object, budget) : null))
+      .filter((stream): stream is Buffer => stream !== null)
+      .map((stream) => stream.toString('latin1'))
+      .join('\n');
+
+    pageTexts.push(extractContentText(content, fonts));
+  }
+
+  return pageTexts.join('\n\n');
+}
@@ -0,0 +1,149 @@
+// lib/resume-upload.ts - Client-side helpers for uploading resumes and using the resume library
+
+import type { ParsedResume } from "@/lib/resume-parser"
+
+export const MAX_RESUME_SIZE = 5 * 1024 * 1024 // 5MB
+export const RESUME_ACCEPT = ".pdf,.doc,.docx"
+
+// Structured data the server parsed from a resume file (null when it had no readable text)
+export type ParsedResumeDetails = ParsedResume & { parsedAt: string | null }
+
+export interface LibraryResume {
+  id: string
+  name: string
+  fileName: string
+  contentType: string
+  size: number
+  isDefault: boolean
+  url: string
+  uploadedAt: string
+  parsed: ParsedResumeDetails | null
+}
+
+/**
+ * Checks a picked file against the limits the server enforces, so users get
+ * feedback before a wasted upload.
+ * @param label What the file is called in the size message.
+ * @returns An error message, or null when the file is acceptable.
+ */
+export function checkResumeFile(file: File, label = "Your resume"): string | null {
+  if (!/\.(pdf|docx?)$/i.test(file.name)) {
+    return "Please upload a PDF, DOC, or DOCX file."
+  }
+  if (file.size > MAX_RESUME_SIZE) {
+    return `${label} must be 5MB or smaller.`
+  }
+  return null
+}
+
+/**
+ * Formats a file size in bytes as "240 KB" or "1.2 MB".
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`
+}
+
+async function readJson(response: Response) {
+  const contentType = response.headers.get("content-type")
+  return contentType && contentType.includes("application/json") ? response.json() : null
+}
+
+/**
+ * Uploads a resume to file storage.
+ * @param purpose "screening_answer" for a document answering a job's screening question.
+ * @returns The stored file's id.
+ */
+export async function uploadResumeFile(file: File, purpose: "resume" | "screening_answer" = "resume"): Promise<string> {
+  const body = new FormData()
+  body.append("file", file)
+  body.append("purpose", purpose)
+
+  const response = await fetch("/api/files", {
+    method: "POST",
+    credentials: "include",
+    body,
+  })
+
+  const result = await readJson(response)
+  if (!response.ok || !result?.id) {
+    throw new Error(result?.message || "Failed to upload resume. Please try again.")
+  }
+  return result.id
+}
+
+/**
+ * Fetches the signed-in job seeker's resume library (default first).
+ */
+export async function fetchResumeLibrary(): Promise<LibraryResume[]> {
+  const response = await fetch("/api/resumes", { credentials: "include" })
+  const result = await readJson(response)
+  if (!response.ok) {
+    throw new Error(result?.message || "Failed to load your resumes.")
+  }
+  return result?.resumes || []
+}
+
+/**
+ * Uploads a file and adds it to the resume library.
+ * @returns The new library entry.
+ */
+export async function addResumeToLibrary(file: File, name: string, isDefault = false): Promise<LibraryResume> {
+  const fileId = await uploadResumeFile(file)
+
+  const response = await fetch("/api/resumes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ fileId, name, isDefault }),
+  })
+
+  const result = await readJson(response)
+  if (!response.ok || !result?.resume) {
+    throw new Error(result?.message || "Failed to save resume to your library.")
+  }
+  return result.resume
+}
+
+/**
+ * Updates a library entry: rename it, make it the default, or replace its file.
+ * @returns The updated library entry.
+ */
+export async function updateLibraryResume(
+  resumeId: string,
+  changes: { name?: string; isDefault?: true; file?: File }
+): Promise<LibraryResume> {
+  const { file, ...fields } = changes
+  const body: Record<string, unknown> = { ...fields }
+  if (file) {
+    body.fileId = await uploadResumeFile(file)
+  }
+
+  const response = await fetch(`/api/resumes/${resumeId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  })
+
+  const result = await readJson(response)
+  if (!response.ok || !result?.resume) {
+    throw new Error(result?.message || "Failed to update resume.")
+  }
+  return result.resume
+}
+
+/**
+ * Removes a resume from the library.
+ */
+export async function deleteLibraryResume(resumeId: string): Promise<void> {
+  const response = await fetch(`/api/resumes/${resumeId}`, {
+    method: "DELETE",
+    credentials: "include",
+  })
+
+  if (!response.ok) {
+    const result = await readJson(response)
+    throw new Error(result?.message || "Failed to delete resume.")
+  }
+}
@@ -0,0 +1,53 @@
+// lib/salary-migration.ts - Backfills structured salary ranges on jobs posted before salaryRange existed
+
+import Job from '@/lib/models/job';
+import { DEFAULT_SALARY_CURRENCY, formatSalaryRange, parseSalaryText } from '@/lib/salary';
+
+// The backfill runs at most once per server process (retried if it fails)
+let migrationPromise: Promise<number> | null = null;
+
+/**
+ * Parses the legacy free-text salary of every job without a salaryRange and stores the
+ * structured result, re-deriving the display string from it. Jobs whose salary cannot be
+ * parsed ("Competitive") keep their text and get an empty range so they are not scanned again.
+ * @returns The number of jobs migrated.
+ */
+async function migrateLegacySalaries(): Promise<number> {
+  const legacyJobs = await Job.find({ salaryRange: { $exists: false } })
+    .select('salary')
+    .lean<{ _id: unknown; salary?: string }[]>();
+
+  if (legacyJobs.length === 0) return 0;
+
+  const operations = legacyJobs.map((job) => {
+    const range = parseSalaryText(job.salary);
+    const update = range
+      ? { salaryRange: range, salary: formatSalaryRange(range) }
+      : { salaryRange: { min: null, max: null, currency: DEFAULT_SALARY_CURRENCY, period: 'yearly' } };
+
+    return {
+      updateOne: {
+        filter: { _id: job._id, salaryRange: { $exists: false } },
+        update: { $set: update },
+      },
+    };
+  });
+
+  const result = await Job.bulkWrite(operations, { ordered: false });
+  console.log(`💰 Migrated ${result.modifiedCount} legacy job salaries to structured ranges.`);
+  return result.modifiedCount;
+}
+
+/**
+ * Ensures legacy salaries have been migrated. Safe to call on every request.
+ */
+export async function ensureSalariesMigrated(): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = migrateLegacySalaries().catch((error) => {
+      console.error('Error migrating legacy job salaries:', error);
+      migrationPromise = null;
+      return 0;
+    });
+  }
+  await migrationPromise;
+}
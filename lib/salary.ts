@@ -0,0 +1,227 @@
+// lib/salary.ts - Structured salary ranges: parsing, formatting, normalization and overlap checks
+
+// --------------------------------------------------
+// 1. TYPES & CONFIGURATION
+// --------------------------------------------------
+
+export const SALARY_PERIODS = ['hourly', 'monthly', 'yearly'] as const;
+export type SalaryPeriod = (typeof SALARY_PERIODS)[number];
+
+export const SALARY_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR'] as const;
+export const DEFAULT_SALARY_CURRENCY = 'USD';
+
+export interface SalaryRange {
+  min: number | null;
+  max: number | null;
+  currency: string; // ISO 4217 code, e.g. "USD"
+  period: SalaryPeriod;
+}
+
+// Multipliers used to compare salaries paid over different periods (40h weeks, 52 weeks)
+export const ANNUALIZATION_FACTORS: Record<SalaryPeriod, number> = {
+  hourly: 2080,
+  monthly: 12,
+  yearly: 1,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  CAD: 'CA$',
+  AUD: 'A$',
+  EUR: '€',
+  GBP: '£',
+  INR: '₹',
+};
+
+const PERIOD_SUFFIXES: Record<SalaryPeriod, string> = {
+  hourly: '/hr',
+  monthly: '/mo',
+  yearly: '',
+};
+
+// --------------------------------------------------
+// 2. PARSING
+// --------------------------------------------------
+
+function detectCurrency(text: string): string {
+  if (/€|\beur\b/i.test(text)) return 'EUR';
+  if (/£|\bgbp\b/i.test(text)) return 'GBP';
+  if (/₹|\binr\b|\brs\.?\s/i.test(text)) return 'INR';
+  if (/ca\$|\bcad\b/i.test(text)) return 'CAD';
+  if (/a\$|\baud\b/i.test(text)) return 'AUD';
+  return DEFAULT_SALARY_CURRENCY;
+}
+
+function detectPeriod(text: string): SalaryPeriod {
+  if (/\/\s*h(ou)?r|per\s+hour|hourly|\bp\/?h\b/i.test(text)) return 'hourly';
+  if (/\/\s*mo(nth)?|per\s+month|monthly|\bp\/?m\b/i.test(text)) return 'monthly';
+  return 'yearly';
+}
+
+/**
+ * Parses a free-text salary such as "$120k - $160k", "€45,000+" or "$40/hr" into a
+ * structured range. Used to migrate legacy job salaries and to read job seekers'
+ * free-text salary expectations.
+ * @param text The salary text.
+ * @returns The structured range, or null when the text contains no amount.
+ */
+export function parseSalaryText(text: string | null | undefined): SalaryRange | null {
+  if (!text || !text.trim()) return null;
+
+  const amounts: number[] = [];
+  const amountPattern = /(\d[\d,]*(?:\.\d+)?)\s*([km])?/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = amountPattern.exec(text)) !== null) {
+    const value = parseFloat(match[1].replace(/,/g, ''));
+    if (!Number.isFinite(value)) continue;
+    const suffix = (match[2] || '').toLowerCase();
+    // The old posting form appended "k" to full amounts ("$80000k"), so a "k" after
+    // an amount that is already in the thousands is ignored
+    const multiplier = suffix === 'k' ? (value >= 1000 ? 1 : 1000) : suffix === 'm' ? 1000000 : 1;
+    amounts.push(value * multiplier);
+  }
+
+  if (amounts.length === 0) return null;
+
+  // "80 - 120k" means 80k - 120k: a trailing suffix applies to a bare lower bound
+  if (amounts.length >= 2 && amounts[0] < 1000 && amounts[1] >= 1000 && /\d\s*[km]/i.test(text)) {
+    const scale = amounts[1] >= 1000000 && !/k/i.test(text) ? 1000000 : 1000;
+    amounts[0] *= scale;
+  }
+
+  const [first, second] = amounts;
+  const isOpenEnded = amounts.length === 1 && /\+|\bup\b|\bfrom\b|\bmin/i.test(text);
+  const isCapped = amounts.length === 1 && /\bup to\b|\bmax/i.test(text);
+
+  let min: number | null = first;
+  let max: number | null = second ?? (isOpenEnded ? null : first);
+  if (isCapped) {
+    min = null;
+    max = first;
+  }
+  if (min !== null && max !== null && min > max) {
+    [min, max] = [max, min];
+  }
+
+  return {
+    min,
+    max,
+    currency: detectCurrency(text),
+    period: detectPeriod(text),
+  };
+}
+
+/**
+ * Parses a job seeker's free-text salary expectation. A single amount such as "$100k"
+ * is read as a minimum ("$100k+"), since a seeker expecting $100k is happy with more.
+ * @param text The free-text expectation from the job seeker profile.
+ * @returns The expected range, or null when the text contains no amount.
+ */
+export function parseSalaryExpectation(text: string | null | undefined): SalaryRange | null {
+  const range = parseSalaryText(text);
+  if (range && range.min !== null && range.min === range.max) {
+    return { ...range, max: null };
+  }
+  return range;
+}
+
+// --------------------------------------------------
+// 3. NORMALIZATION & FORMATTING
+// --------------------------------------------------
+
+function toAmount(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Validates a salary range received from a client (e.g. the job posting form).
+ * @param input The untrusted input object.
+ * @returns The normalized range, null when no amounts were given, or an error message.
+ */
+export function normalizeSalaryRange(input: any): { range: SalaryRange | null; error?: string } {
+  if (!input || typeof input !== 'object') return { range: null };
+
+  const min = toAmount(input.min);
+  const max = toAmount(input.max);
+  if (min === null && max === null) return { range: null };
+
+  if (min !== null && max !== null && min > max) {
+    return { range: null, error: 'Minimum salary cannot be greater than maximum salary.' };
+  }
+
+  const currency = typeof input.currency === 'string' && /^[A-Za-z]{3}$/.test(input.currency.trim())
+    ? input.currency.trim().toUpperCase()
+    : DEFAULT_SALARY_CURRENCY;
+  const period: SalaryPeriod = SALARY_PERIODS.includes(input.period) ? input.period : 'yearly';
+
+  return { range: { min, max, currency, period } };
+}
+
+function formatAmount(amount: number, period: SalaryPeriod): string {
+  if (period !== 'hourly' && amount >= 1000) {
+    const thousands = amount / 1000;
+    return `${Number.isInteger(thousands) ? thousands : thousands.toFixed(1)}k`;
+  }
+  return amount.toLocaleString('en-US');
+}
+
+/**
+ * Formats a structured range for display, e.g. "$120k - $160k" or "€25/hr".
+ * @param range The structured range.
+ * @returns The display string, or an empty string when no amounts are set.
+ */
+export function formatSalaryRange(range: SalaryRange | null | undefined): string {
+  if (!range || (range.min === null && range.max === null)) return '';
+
+  const symbol = CURRENCY_SYMBOLS[range.currency] ?? `${range.currency} `;
+  const suffix = PERIOD_SUFFIXES[range.period] ?? '';
+  const format = (amount: number) => `${symbol}${formatAmount(amount, range.period)}`;
+
+  if (range.min !== null && range.max !== null) {
+    return range.min === range.max
+      ? `${format(range.min)}${suffix}`
+      : `${format(range.min)} - ${format(range.max)}${suffix}`;
+  }
+  if (range.min !== null) return `${format(range.min)}+${suffix}`;
+  return `Up to ${format(range.max as number)}${suffix}`;
+}
+
+// --------------------------------------------------
+// 4. COMPARISON
+// --------------------------------------------------
+
+/**
+ * Converts a range to yearly amounts so ranges paid over different periods can be compared.
+ * A missing bound falls back to the other bound.
+ */
+export function annualizeSalaryRange(range: SalaryRange): { min: number; max: number } | null {
+  const factor = ANNUALIZATION_FACTORS[range.period] ?? 1;
+  const min = range.min ?? range.max;
+  const max = range.max ?? range.min;
+  if (min === null || max === null) return null;
+  return { min: min * factor, max: max * factor };
+}
+
+/**
+ * Checks whether two salary ranges overlap once annualized. Open-ended ranges
+ * ("$120k+") are treated as unbounded above. Currencies are not converted, so
+ * ranges in different currencies never overlap.
+ * @returns True when the ranges overlap, false otherwise or when either is missing.
+ */
+export function salaryRangesOverlap(a: SalaryRange | null, b: SalaryRange | null): boolean {
+  if (!a || !b || a.currency !== b.currency) return false;
+
+  const annualA = annualizeSalaryRange(a);
+  const annualB = annualizeSalaryRange(b);
+  if (!annualA || !annualB) return false;
+
+  const maxA = a.max === null ? Infinity : annualA.max;
+  const maxB = b.max === null ? Infinity : annualB.max;
+  const minA = a.min === null ? 0 : annualA.min;
+  const minB = b.min === null ? 0 : annualB.min;
+
+  return minA <= maxB && minB <= maxA;
+}
@@ -0,0 +1,184 @@
+// lib/saved-search-alerts.ts - New-job alerts for saved searches (instant, daily and weekly)
+
+import type { Types } from 'mongoose';
+import Job from '@/lib/models/job';
+import JobSeeker from '@/lib/models/jobseeker';
+import SavedSearch from '@/lib/models/saved-search';
+import { sendSavedSearchAlertEmail } from '@/lib/email';
+import { createNotifications } from '@/lib/notifications';
+import { findMatchingSavedSearches } from '@/lib/saved-searches';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a digest waits after the previous alert
+const DIGEST_INTERVALS: Record<string, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+const MAX_PENDING_JOBS = 100; // Matches kept per digest; older ones are dropped
+const MAX_EMAIL_JOBS = 10; // Jobs listed in one alert email
+const MAX_DIGESTS_PER_RUN = 20; // Digests sent per run; a backlog goes out over the next runs
+
+interface AlertJob {
+  _id: Types.ObjectId;
+  title: string;
+  company: string;
+  location: string;
+}
+
+/**
+ * Builds the link that turns off alerts for one saved search without signing in.
+ */
+export function savedSearchUnsubscribeUrl(unsubscribeToken: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || process.env.BASE_URL || 'http://localhost:3000';
+  return `${baseUrl}/saved-searches/unsubscribe/${unsubscribeToken}`;
+}
+
+// Creates the in-app notification and sends the email for one saved search
+async function deliverAlert(savedSearch: any, jobs: AlertJob[], jobSeeker: any): Promise<void> {
+  const count = jobs.length;
+  await createNotifications([
+    {
+      recipientId: savedSearch.jobSeekerId,
+      recipientRole: 'job-seeker',
+      type: 'saved_search_match',
+      title: count === 1 ? `New job for "${savedSearch.name}"` : `${count} new jobs for "${savedSearch.name}"`,
+      message: count === 1
+        ? `${jobs[0].title} at ${jobs[0].company} matches your saved search.`
+        : `${jobs.slice(0, 2).map((job) => job.title).join(', ')}${count > 2 ? ` and ${count - 2} more` : ''} match your saved search.`,
+      link: '/job-seeker',
+      jobId: count === 1 ? jobs[0]._id : undefined,
+    },
+  ]);
+
+  if (!jobSeeker?.email) return;
+  await sendSavedSearchAlertEmail(jobSeeker.email, jobSeeker.firstName || '', {
+    searchName: savedSearch.name,
+    frequency: savedSearch.alertFrequency,
+    jobs: jobs.slice(0, MAX_EMAIL_JOBS),
+    unsubscribeUrl: savedSearchUnsubscribeUrl(savedSearch.unsubscribeToken),
+  });
+}
+
+/**
+ * Checks newly published jobs against every saved search with alerts. Instant
+ * searches are notified and emailed right away; daily and weekly searches queue
+ * the jobs for their next digest. Failures are logged and swallowed so that
+ * alerts never fail the job posting that triggered them.
+ * @param jobIds The ids of the jobs that just went live.
+ */
+export async function alertSavedSearchesForJobs(jobIds: unknown[]): Promise<void> {
+  if (jobIds.length === 0) return;
+
+  try {
+    const jobs = await Job.find({ _id: { $in: jobIds }, status: 'Active' }).lean<any[]>();
+    if (jobs.length === 0) return;
+
+    const searches = await SavedSearch.find({ alertFrequency: { $ne: 'off' } })
+      .select('jobSeekerId name filters alertFrequency unsubscribeToken')
+      .lean<any[]>();
+    if (searches.length === 0) return;
+
+    // Searches limited to the owner's salary expectation need it from the profile
+    const expectationOwners = searches.filter((search) => search.filters?.matchSalaryExpectation).map((search) => search.jobSeekerId);
+    const owners = await JobSeeker.find({ _id: { $in: expectationOwners } }).select('salaryExpectation').lean<any[]>();
+    const expectations = new Map(owners.map((owner) => [owner._id.toString(), owner.salaryExpectation as string]));
+    const candidates = searches.map((search) => ({
+      _id: search._id,
+      filters: search.filters,
+      salaryExpectation: expectations.get(search.jobSeekerId.toString()),
+    }));
+
+    const matchesBySearch = new Map<string, AlertJob[]>();
+    for (const job of jobs) {
+      const matchingIds = await findMatchingSavedSearches(job, candidates);
+      matchingIds.forEach((id) => matchesBySearch.set(id, [...(matchesBySearch.get(id) || []), job]));
+    }
+    if (matchesBySearch.size === 0) return;
+
+    const matchedSearches = searches.filter((search) => matchesBySearch.has(search._id.toString()));
+    console.log(`🔎 ${jobs.length} new job(s) matched ${matchedSearches.length} saved search(es).`);
+
+    // Digests: queue the jobs until the search's next daily or weekly alert
+    const queued = matchedSearches.filter((search) => search.alertFrequency !== 'instant');
+    for (const search of queued) {
+      await SavedSearch.updateOne(
+        { _id: search._id },
+        {
+          $push: {
+            pendingJobIds: {
+              $each: (matchesBySearch.get(search._id.toString()) || []).map((job) => job._id),
+              $slice: -MAX_PENDING_JOBS,
+            },
+          },
+        }
+      );
+    }
+
+    const instant = matchedSearches.filter((search) => search.alertFrequency === 'instant');
+    if (instant.length > 0) {
+      const recipients = await JobSeeker.find({ _id: { $in: instant.map((search) => search.jobSeekerId) } })
+        .select('email firstName')
+        .lean<any[]>();
+      const recipientsById = new Map(recipients.map((recipient) => [recipient._id.toString(), recipient]));
+
+      for (const search of instant) {
+        await deliverAlert(search, matchesBySearch.get(search._id.toString()) || [], recipientsById.get(search.jobSeekerId.toString()));
+      }
+    }
+  } catch (error: any) {
+    console.error('❌ Error sending saved search alerts:', error.message);
+  }
+}
+
+/**
+ * Sends the daily and weekly digests that are due. Each search is claimed with an
+ * atomic update first, so concurrent requests never send the same digest twice.
+ * Queued jobs that closed in the meantime are left out. Run on a schedule by the digests route.
+ * @returns The number of digests sent.
+ */
+export async function sendDueSavedSearchDigests(): Promise<number> {
+  let sent = 0;
+
+  try {
+    const now = Date.now();
+    const dueFilter = (frequency: string) => ({
+      alertFrequency: frequency,
+      'pendingJobIds.0': { $exists: true },
+      $or: [{ lastAlertedAt: null }, { lastAlertedAt: { $lte: new Date(now - DIGEST_INTERVALS[frequency]) } }],
+    });
+
+    const due = await SavedSearch.find({ $or: [dueFilter('daily'), dueFilter('weekly')] })
+      .select('_id alertFrequency')
+      .limit(MAX_DIGESTS_PER_RUN)
+      .lean<any[]>();
+
+    for (const { _id, alertFrequency } of due) {
+      // Returns the search as it was before the claim, with its queued jobs
+      const claimed = await SavedSearch.findOneAndUpdate(
+        { _id, ...dueFilter(alertFrequency) },
+        { $set: { pendingJobIds: [], lastAlertedAt: new Date(now) } }
+      ).lean<any>();
+      if (!claimed) continue;
+
+      const jobs = await Job.find({ _id: { $in: claimed.pendingJobIds }, status: 'Active' })
+        .select('title company location postedDate')
+        .sort({ postedDate: -1 })
+        .lean<AlertJob[]>();
+      if (jobs.length === 0) continue;
+
+      const jobSeeker = await JobSeeker.findById(claimed.jobSeekerId).select('email firstName').lean<any>();
+      await deliverAlert(claimed, jobs, jobSeeker);
+      sent++;
+    }
+
+    if (sent > 0) {
+      console.log(`📬 Sent ${sent} saved search digest(s).`);
+    }
+  } catch (error: any) {
+    console.error('❌ Error sending saved search digests:', error.message);
+  }
+
+  return sent;
+}
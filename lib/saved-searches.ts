@@ -0,0 +1,168 @@
+// lib/saved-searches.ts - Validation, formatting and job matching for job seekers' saved searches
+
+import Job from '@/lib/models/job';
+import { ALERT_FREQUENCIES, type AlertFrequency, type SavedSearchFilters } from '@/lib/models/saved-search';
+import { applySalaryExpectation, buildJobMatchStages, parseJobListQuery, type JobListQuery } from '@/lib/job-query';
+import { parseSearchQuery, rankJobs } from '@/lib/job-search';
+import { parseSalaryExpectation } from '@/lib/salary';
+
+export const MAX_SAVED_SEARCHES = 25;
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 80;
+
+// Saved searches evaluated per aggregation when a job is posted
+const MATCH_BATCH_SIZE = 50;
+
+const MAX_FILTER_VALUES = 20;
+
+function stringList(value: any): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  return value
+    .filter((item) => typeof item === 'string')
+    .map((item: string) => item.trim())
+    .filter(Boolean)
+    .slice(0, MAX_FILTER_VALUES);
+}
+
+/**
+ * Validates the filters of a saved search received from a client.
+ * @param input The untrusted filters object (same fields as the dashboard's JobFilters).
+ * @returns The normalized filters, or an error message.
+ */
+export function sanitizeSavedSearchFilters(input: any): { filters?: SavedSearchFilters; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'Filters must be an object.' };
+  }
+
+  const jobTypes = stringList(input.jobTypes);
+  const locations = stringList(input.locations);
+  const experience = stringList(input.experience);
+  const categories = stringList(input.categories);
+  if (!jobTypes || !locations || !experience || !categories) {
+    return { error: 'Job types, locations, experience and categories must be lists.' };
+  }
+
+  const salaryMin = Number(input.salaryMin ?? 0);
+  const salaryMax = input.salaryMax === null || input.salaryMax === undefined ? null : Number(input.salaryMax);
+  if (!Number.isFinite(salaryMin) || salaryMin < 0 || (salaryMax !== null && (!Number.isFinite(salaryMax) || salaryMax < 0))) {
+    return { error: 'Salary filters must be positive numbers.' };
+  }
+
+  const filters: SavedSearchFilters = {
+    search: typeof input.search === 'string' ? input.search.trim().slice(0, 200) : '',
+    jobTypes,
+    locations,
+    remote: input.remote === true,
+    experience,
+    categories,
+    salaryMin,
+    salaryMax,
+    matchSalaryExpectation: input.matchSalaryExpectation === true,
+  };
+
+  const isEmpty =
+    !filters.search &&
+    !filters.remote &&
+    !filters.matchSalaryExpectation &&
+    filters.salaryMin === 0 &&
+    filters.salaryMax === null &&
+    [filters.jobTypes, filters.locations, filters.experience, filters.categories].every((list) => list.length === 0);
+  if (isEmpty) {
+    return { error: 'Add search text or at least one filter before saving a search.' };
+  }
+
+  return { filters };
+}
+
+/**
+ * Checks an alert frequency received from a client.
+ */
+export function isAlertFrequency(value: any): value is AlertFrequency {
+  return ALERT_FREQUENCIES.includes(value);
+}
+
+/**
+ * Transforms a saved search document into the shape returned by the API.
+ */
+export function formatSavedSearch(savedSearch: any) {
+  const filters = savedSearch.filters || {};
+  return {
+    id: savedSearch._id.toString(),
+    name: savedSearch.name,
+    filters: {
+      search: filters.search || '',
+      jobTypes: filters.jobTypes || [],
+      locations: filters.locations || [],
+      remote: filters.remote || false,
+      experience: filters.experience || [],
+      categories: filters.categories || [],
+      salaryMin: filters.salaryMin || 0,
+      salaryMax: filters.salaryMax ?? null,
+      matchSalaryExpectation: filters.matchSalaryExpectation || false,
+    },
+    alertFrequency: savedSearch.alertFrequency,
+    createdAt: new Date(savedSearch.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Turns saved filters into the same query GET /api/jobs runs, so a saved search
+ * matches exactly the jobs the dashboard showed when it was saved.
+ * @param filters The saved filters.
+ * @param salaryExpectation The job seeker's profile salary expectation, used when matchSalaryExpectation is set.
+ * @returns The normalized job list query.
+ */
+export function savedSearchToQuery(filters: SavedSearchFilters, salaryExpectation?: string): JobListQuery {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('search', filters.search);
+  filters.jobTypes.forEach((type) => params.append('type', type));
+  filters.locations.forEach((location) => params.append('location', location));
+  if (filters.remote) params.set('remote', 'true');
+  filters.experience.forEach((level) => params.append('experience', level));
+  filters.categories.forEach((category) => params.append('category', category));
+  if (filters.salaryMin > 0) params.set('salaryMin', String(filters.salaryMin));
+  if (filters.salaryMax !== null) params.set('salaryMax', String(filters.salaryMax));
+
+  const query = parseJobListQuery(params);
+  if (filters.matchSalaryExpectation && salaryExpectation) {
+    const expectation = parseSalaryExpectation(salaryExpectation);
+    if (expectation) {
+      applySalaryExpectation(query, expectation);
+    }
+  }
+  return query;
+}
+
+/**
+ * Finds which saved searches a job matches. Filters run in MongoDB (one aggregation per
+ * batch of searches, restricted to the job) and search text is ranked like GET /api/jobs.
+ * @param job The lean job document.
+ * @param searches Saved searches, each with its owner's salary expectation.
+ * @returns The ids of the matching saved searches.
+ */
+export async function findMatchingSavedSearches(
+  job: any,
+  searches: Array<{ _id: unknown; filters: SavedSearchFilters; salaryExpectation?: string }>
+): Promise<string[]> {
+  const matching: string[] = [];
+
+  for (let start = 0; start < searches.length; start += MATCH_BATCH_SIZE) {
+    const batch = searches.slice(start, start + MATCH_BATCH_SIZE);
+    const facets: Record<string, any[]> = {};
+    batch.forEach((search, index) => {
+      const query = savedSearchToQuery(search.filters, search.salaryExpectation);
+      facets[`s${index}`] = [...buildJobMatchStages(query), { $project: { _id: 1 } }];
+    });
+
+    const [result] = await Job.aggregate([{ $match: { _id: job._id } }, { $facet: facets }]);
+
+    batch.forEach((search, index) => {
+      if (!result?.[`s${index}`]?.length) return;
+      const text = search.filters.search;
+      if (parseSearchQuery(text).length > 0 && rankJobs([job], text).length === 0) return;
+      matching.push(String(search._id));
+    });
+  }
+
+  return matching;
+}
@@ -0,0 +1,121 @@
+// lib/scorecards.ts - Employer-only applicant evaluation: scorecards against job criteria, and private notes
+
+import mongoose from 'mongoose';
+import Application from '@/lib/models/application';
+import Job from '@/lib/models/job';
+import Employer from '@/lib/models/employer';
+import Scorecard from '@/lib/models/scorecard';
+import ApplicationNote from '@/lib/models/application-note';
+import { resolveEvaluationCriteria, summarizeScorecards, type CriterionRating, type ScorecardSummary } from '@/lib/evaluation';
+import { getEmployerDisplayName, jobBelongsToOrganization, type EmployerMembership } from '@/lib/organizations';
+
+/**
+ * Loads an application and its job for a member of the organization that owns the job.
+ * @param applicationId The application id from the URL.
+ * @param membership The signed-in employer's organization membership.
+ * @returns The application and job, or an error message with its HTTP status.
+ */
+export async function getEmployerApplication(
+  applicationId: string,
+  membership: EmployerMembership
+): Promise<{ application: any; job: any } | { error: string; status: number }> {
+  if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+    return { error: 'Invalid application ID.', status: 400 };
+  }
+
+  const application = await Application.findById(applicationId).select('jobId applicantName').lean<any>();
+  if (!application) {
+    return { error: 'Application not found.', status: 404 };
+  }
+
+  const job = await Job.findById(application.jobId).select('organizationId title company evaluationCriteria').lean<any>();
+  if (!jobBelongsToOrganization(job, membership)) {
+    return { error: 'Access denied. You can only evaluate applicants for jobs in your organization.', status: 403 };
+  }
+
+  return { application, job };
+}
+
+/**
+ * The name shown on scorecards and notes: the team member who wrote them, or the company.
+ */
+export async function getReviewerName(employerId: mongoose.Types.ObjectId, fallback: string): Promise<string> {
+  const employer = await Employer.findById(employerId).select('firstName lastName name').lean<any>();
+  return getEmployerDisplayName(employer, fallback);
+}
+
+/**
+ * Transforms a scorecard document into the shape returned by the API.
+ * @param viewerId The signed-in reviewer; their own scorecard is marked as mine.
+ */
+export function formatScorecard(scorecard: any, viewerId: mongoose.Types.ObjectId) {
+  return {
+    id: scorecard._id.toString(),
+    reviewerName: scorecard.reviewerName || 'Reviewer',
+    mine: scorecard.reviewerId.toString() === viewerId.toString(),
+    ratings: (scorecard.ratings || []).map((rating: any) => ({
+      criterion: rating.criterion,
+      score: rating.score,
+      comment: rating.comment || '',
+    })) as CriterionRating[],
+    comment: (scorecard.comment || '') as string,
+    updatedAt: new Date(scorecard.updatedAt).toISOString(),
+  };
+}
+
+export type FormattedScorecard = ReturnType<typeof formatScorecard>;
+
+/**
+ * Transforms a note document into the shape returned by the API.
+ * @param viewerId The signed-in reviewer; only their own notes can be deleted.
+ */
+export function formatNote(note: any, viewerId: mongoose.Types.ObjectId) {
+  return {
+    id: note._id.toString(),
+    authorName: (note.authorName || 'Reviewer') as string,
+    mine: note.authorId.toString() === viewerId.toString(),
+    body: note.body as string,
+    createdAt: new Date(note.createdAt).toISOString(),
+  };
+}
+
+export type FormattedNote = ReturnType<typeof formatNote>;
+
+export interface ApplicantEvaluation {
+  scorecard: ScorecardSummary;
+  noteCount: number;
+}
+
+/**
+ * Aggregate scores and note counts for a job's applicants, for the applicants list.
+ * @param job The job (its evaluation criteria are used).
+ * @param applicationIds The applications to summarize.
+ * @returns Evaluations keyed by application id; every application gets one.
+ */
+export async function getApplicantEvaluations(
+  job: { evaluationCriteria?: any[] },
+  applicationIds: mongoose.Types.ObjectId[]
+): Promise<Map<string, ApplicantEvaluation>> {
+  const evaluations = new Map<string, ApplicantEvaluation>();
+  if (applicationIds.length === 0) return evaluations;
+
+  const criteria = resolveEvaluationCriteria(job.evaluationCriteria);
+  const [scorecards, noteCounts] = await Promise.all([
+    Scorecard.find({ applicationId: { $in: applicationIds } }).select('applicationId ratings').lean<any[]>(),
+    ApplicationNote.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      { $match: { applicationId: { $in: applicationIds } } },
+      { $group: { _id: '$applicationId', count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const notesByApplication = new Map(noteCounts.map((row) => [row._id.toString(), row.count]));
+  for (const applicationId of applicationIds) {
+    const key = applicationId.toString();
+    const applicantScorecards = scorecards.filter((scorecard) => scorecard.applicationId.toString() === key);
+    evaluations.set(key, {
+      scorecard: summarizeScorecards(applicantScorecards, criteria),
+      noteCount: notesByApplication.get(key) || 0,
+    });
+  }
+  return evaluations;
+}
@@ -0,0 +1,328 @@
+// lib/screening.ts - Screening questions on job postings and the rules for answering them, shared by the API and the UI
+
+export const SCREENING_QUESTION_TYPES = ['yes_no', 'multiple_choice', 'number', 'short_text', 'file'] as const;
+export type ScreeningQuestionType = (typeof SCREENING_QUESTION_TYPES)[number];
+
+export const SCREENING_QUESTION_TYPE_LABELS: Record<ScreeningQuestionType, string> = {
+  yes_no: 'Yes / No',
+  multiple_choice: 'Multiple choice',
+  number: 'Number',
+  short_text: 'Short text',
+  file: 'File upload',
+};
+
+// Only questions with a closed set of answers or a numeric range can reject automatically
+export const KNOCKOUT_QUESTION_TYPES: readonly ScreeningQuestionType[] = ['yes_no', 'multiple_choice', 'number'];
+
+export const YES_NO_ANSWERS = ['yes', 'no'] as const;
+
+export const MAX_SCREENING_QUESTIONS = 10;
+export const MAX_SCREENING_PROMPT_LENGTH = 200;
+export const MAX_SCREENING_OPTIONS = 10;
+export const MAX_SCREENING_OPTION_LENGTH = 100;
+export const MAX_SHORT_TEXT_ANSWER_LENGTH = 500;
+
+export interface ScreeningQuestion {
+  key: string; // Stable id that answers refer to; rewording a question keeps its answers
+  type: ScreeningQuestionType;
+  prompt: string;
+  required: boolean; // Always true for file and knockout questions
+  options: string[]; // The choices of a multiple choice question
+  // Knockout rule: an answer outside it rejects the application as soon as it is sent
+  knockout: boolean;
+  acceptedAnswers: string[]; // Yes/no and multiple choice: the answers that pass
+  min: number | null; // Number: the lowest passing value
+  max: number | null; // Number: the highest passing value
+}
+
+// What job seekers see of a question; knockout rules stay with the employer
+export type PublicScreeningQuestion = Pick<ScreeningQuestion, 'key' | 'type' | 'prompt' | 'required' | 'options'>;
+
+// A validated answer, ready to be stored on the application
+export interface ScreeningAnswerInput {
+  questionKey: string;
+  prompt: string; // Copied so the answer still reads right if the question is reworded or removed
+  type: ScreeningQuestionType;
+  answer: string; // "yes"/"no", the chosen option, the number or the text; empty for files
+  fileId?: string; // File questions: the uploaded file (see POST /api/files)
+  knockedOut: boolean;
+}
+
+/**
+ * Strips the knockout rules from a job's questions before they are shown to job seekers.
+ */
+export function toPublicScreeningQuestions(questions: ScreeningQuestion[] | null | undefined): PublicScreeningQuestion[] {
+  return (questions || []).map((question) => ({
+    key: question.key,
+    type: question.type,
+    prompt: question.prompt,
+    required: question.required,
+    options: [...(question.options || [])],
+  }));
+}
+
+function isScreeningQuestionType(value: unknown): value is ScreeningQuestionType {
+  return typeof value === 'string' && (SCREENING_QUESTION_TYPES as readonly string[]).includes(value);
+}
+
+// "Years of React experience?" -> "years-of-react-experience"
+function slugify(prompt: string): string {
+  return prompt.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'question';
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Validates screening questions received from an employer. Questions sent with a
+ * known key keep it; new ones get a key derived from their prompt.
+ * @param input The untrusted list, e.g. [{ key?, type, prompt, required?, options?, knockout?, acceptedAnswers?, min?, max? }].
+ * @param existing The job's current questions.
+ * @returns The accepted questions, or an error message.
+ */
+export function sanitizeScreeningQuestions(
+  input: unknown,
+  existing: ScreeningQuestion[]
+): { questions?: ScreeningQuestion[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'Screening questions must be a list.' };
+  }
+  if (input.length > MAX_SCREENING_QUESTIONS) {
+    return { error: `Use at most ${MAX_SCREENING_QUESTIONS} screening questions.` };
+  }
+
+  const knownKeys = new Set(existing.map((question) => question.key));
+  const usedKeys = new Set<string>();
+  const questions: ScreeningQuestion[] = [];
+
+  for (const item of input) {
+    const prompt = typeof item?.prompt === 'string' ? item.prompt.trim() : '';
+    if (!prompt) {
+      return { error: 'Every screening question needs a question.' };
+    }
+    if (prompt.length > MAX_SCREENING_PROMPT_LENGTH) {
+      return { error: `Screening questions can be at most ${MAX_SCREENING_PROMPT_LENGTH} characters.` };
+    }
+    if (!isScreeningQuestionType(item.type)) {
+      return { error: `"${prompt}" has an invalid question type.` };
+    }
+    const type = item.type;
+
+    let options: string[] = [];
+    if (type === 'multiple_choice') {
+      const seen = new Set<string>();
+      for (const option of Array.isArray(item.options) ? item.options : []) {
+        const text = typeof option === 'string' ? option.trim().slice(0, MAX_SCREENING_OPTION_LENGTH) : '';
+        if (text && !seen.has(text.toLowerCase())) {
+          seen.add(text.toLowerCase());
+          options.push(text);
+        }
+      }
+      if (options.length < 2) {
+        return { error: `Give "${prompt}" at least two choices.` };
+      }
+      if (options.length > MAX_SCREENING_OPTIONS) {
+        return { error: `"${prompt}" can have at most ${MAX_SCREENING_OPTIONS} choices.` };
+      }
+    }
+
+    const knockout = Boolean(item.knockout);
+    let acceptedAnswers: string[] = [];
+    let min: number | null = null;
+    let max: number | null = null;
+    if (knockout) {
+      if (!KNOCKOUT_QUESTION_TYPES.includes(type)) {
+        return { error: 'Only yes/no, multiple choice and number questions can be knockout questions.' };
+      }
+      if (type === 'number') {
+        min = toNumberOrNull(item.min);
+        max = toNumberOrNull(item.max);
+        if (min === null && max === null) {
+          return { error: `Set a minimum or maximum for the knockout question "${prompt}".` };
+        }
+        if (min !== null && max !== null && min > max) {
+          return { error: `The minimum of "${prompt}" cannot be greater than its maximum.` };
+        }
+      } else {
+        const choices: readonly string[] = type === 'yes_no' ? YES_NO_ANSWERS : options;
+        const submitted = Array.isArray(item.acceptedAnswers) ? item.acceptedAnswers : [];
+        acceptedAnswers = choices.filter((choice) => submitted.includes(choice));
+        if (acceptedAnswers.length === 0) {
+          return { error: `Pick the answers that pass the knockout question "${prompt}".` };
+        }
+        if (acceptedAnswers.length === choices.length) {
+          return { error: `The knockout question "${prompt}" must reject at least one answer.` };
+        }
+      }
+    }
+
+    let key = typeof item.key === 'string' && knownKeys.has(item.key) && !usedKeys.has(item.key) ? item.key : '';
+    if (!key) {
+      const base = slugify(prompt);
+      key = base;
+      for (let suffix = 2; usedKeys.has(key) || knownKeys.has(key); suffix++) {
+        key = `${base}-${suffix}`;
+      }
+    }
+    usedKeys.add(key);
+
+    questions.push({
+      key,
+      type,
+      prompt,
+      required: type === 'file' || knockout || Boolean(item.required),
+      options,
+      knockout,
+      acceptedAnswers,
+      min,
+      max,
+    });
+  }
+
+  return { questions };
+}
+
+/**
+ * Whether an answer fails a question's knockout rule.
+ * @param question The question, with its knockout rule.
+ * @param answer The validated answer ("yes"/"no", the chosen option or the number).
+ */
+export function failsKnockout(question: ScreeningQuestion, answer: string): boolean {
+  if (!question.knockout) return false;
+  if (question.type === 'number') {
+    const value = Number(answer);
+    if (!Number.isFinite(value)) return true;
+    return (question.min !== null && value < question.min) || (question.max !== null && value > question.max);
+  }
+  return !question.acceptedAnswers.includes(answer);
+}
+
+/**
+ * Validates a job seeker's answers to a job's screening questions and applies the
+ * knockout rules. File answers are only checked for shape here; the caller verifies
+ * the file belongs to the applicant.
+ * @param input The untrusted answers, keyed by question key, e.g. { "years-of-react": 4, "portfolio": "<fileId>" }.
+ * @param questions The job's questions.
+ * @returns The answers in question order, or an error message.
+ */
+export function sanitizeScreeningAnswers(
+  input: unknown,
+  questions: ScreeningQuestion[]
+): { answers?: ScreeningAnswerInput[]; error?: string } {
+  const submitted = input && typeof input === 'object' && !Array.isArray(input) ? (input as Record<string, unknown>) : {};
+  const answers: ScreeningAnswerInput[] = [];
+
+  for (const question of questions) {
+    const raw = submitted[question.key];
+    const given = raw !== undefined && raw !== null && String(raw).trim() !== '';
+    if (!given) {
+      if (question.required) {
+        return { error: `Please answer "${question.prompt}".` };
+      }
+      continue;
+    }
+
+    const base = { questionKey: question.key, prompt: question.prompt, type: question.type };
+    let answer = String(raw).trim();
+
+    if (question.type === 'yes_no') {
+      answer = answer.toLowerCase();
+      if (!(YES_NO_ANSWERS as readonly string[]).includes(answer)) {
+        return { error: `Answer "${question.prompt}" with yes or no.` };
+      }
+    } else if (question.type === 'multiple_choice') {
+      if (!question.options.includes(answer)) {
+        return { error: `Pick one of the choices for "${question.prompt}".` };
+      }
+    } else if (question.type === 'number') {
+      const value = Number(answer);
+      if (!Number.isFinite(value)) {
+        return { error: `Answer "${question.prompt}" with a number.` };
+      }
+      answer = String(value);
+    } else if (question.type === 'short_text') {
+      answer = answer.slice(0, MAX_SHORT_TEXT_ANSWER_LENGTH);
+    } else if (question.type === 'file') {
+      if (!/^[a-f0-9]{24}$/i.test(answer)) {
+        return { error: `Upload a file for "${question.prompt}".` };
+      }
+      answers.push({ ...base, answer: '', fileId: answer, knockedOut: false });
+      continue;
+    }
+
+    answers.push({ ...base, answer, knockedOut: failsKnockout(question, answer) });
+  }
+
+  return { answers };
+}
+
+// An answer as sent to the employer
+export interface FormattedScreeningAnswer {
+  questionKey: string;
+  prompt: string;
+  type: ScreeningQuestionType;
+  answer: string;
+  fileUrl?: string;
+  fileName?: string;
+  knockedOut: boolean;
+}
+
+/**
+ * Formats an application's stored answers for the employer.
+ * @param answers The stored answers.
+ * @param fileUrl Builds the download URL of a file answer.
+ */
+export function formatScreeningAnswers(
+  answers: { questionKey: string; prompt?: string; type: ScreeningQuestionType; answer?: string; fileId?: { toString(): string } | null; fileName?: string; knockedOut?: boolean }[] | undefined,
+  fileUrl: (fileId: string) => string
+): FormattedScreeningAnswer[] {
+  return (answers || []).map((answer) => ({
+    questionKey: answer.questionKey,
+    prompt: answer.prompt || '',
+    type: answer.type,
+    answer: answer.answer || '',
+    fileUrl: answer.fileId ? fileUrl(answer.fileId.toString()) : undefined,
+    fileName: answer.fileId ? answer.fileName || 'Attachment' : undefined,
+    knockedOut: Boolean(answer.knockedOut),
+  }));
+}
+
+// Narrows an applicant list to one question's answer: an exact answer, a numeric range, text that
+// contains a phrase, or just whether the question was answered
+export interface ScreeningAnswerFilter {
+  questionKey: string;
+  value?: string; // Yes/no and multiple choice: the answer; short text: a phrase to look for
+  min?: number | null; // Number questions
+  max?: number | null;
+  answered?: boolean; // File questions and "any answer"
+}
+
+/**
+ * Whether an applicant's answers match a screening answer filter.
+ * @param answers The applicant's answers.
+ * @param filter The filter; a filter without criteria matches everyone.
+ */
+export function matchesScreeningFilter(answers: FormattedScreeningAnswer[] | undefined, filter: ScreeningAnswerFilter): boolean {
+  const answer = (answers || []).find((item) => item.questionKey === filter.questionKey);
+  const hasAnswer = Boolean(answer && (answer.answer || answer.fileUrl));
+
+  if (filter.answered !== undefined && hasAnswer !== filter.answered) return false;
+  if (filter.value) {
+    if (!answer) return false;
+    if (answer.type === 'short_text') {
+      if (!answer.answer.toLowerCase().includes(filter.value.toLowerCase())) return false;
+    } else if (answer.answer !== filter.value) {
+      return false;
+    }
+  }
+  if (filter.min != null || filter.max != null) {
+    const value = answer ? Number(answer.answer) : NaN;
+    if (!answer?.answer || !Number.isFinite(value)) return false;
+    if (filter.min != null && value < filter.min) return false;
+    if (filter.max != null && value > filter.max) return false;
+  }
+  return true;
+}